@@ -8,9 +8,14 @@ import { notesRoutes } from './routes/notes.js';
 import { artifactsRoutes } from './routes/artifacts.js';
 import { contextRoutes } from './routes/context.js';
 import { tasksRoutes } from './routes/tasks.js';
+import { taskSeriesRoutes } from './routes/task-series.js';
+import { trustPoliciesRoutes } from './routes/trust-policies.js';
+import { parallelSessionsRoutes } from './routes/parallel-sessions.js';
 import { searchRoutes } from './routes/search.js';
 import { feedbackRoutes } from './routes/feedback.js';
 import { userDataRoutes } from './routes/user-data.js';
+import { savedSearchesRoutes } from './routes/saved-searches.js';
+import { vaultRoutes } from './routes/vault.js';
 
 export async function buildApp(): Promise<FastifyInstance> {
   const app = Fastify({
@@ -41,7 +46,7 @@ export async function buildApp(): Promise<FastifyInstance> {
 
   await app.register(cors, {
     origin: corsOrigins,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'X-API-Key', 'Authorization'],
     credentials: true
   });
@@ -77,9 +82,14 @@ export async function buildApp(): Promise<FastifyInstance> {
   await app.register(artifactsRoutes);
   await app.register(contextRoutes);
   await app.register(tasksRoutes);
+  await app.register(taskSeriesRoutes);
+  await app.register(trustPoliciesRoutes);
+  await app.register(parallelSessionsRoutes);
   await app.register(searchRoutes);
   await app.register(feedbackRoutes);
   await app.register(userDataRoutes);
+  await app.register(savedSearchesRoutes);
+  await app.register(vaultRoutes);
 
   return app;
 }
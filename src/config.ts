@@ -41,6 +41,38 @@ export const config = {
 
   // Vault
   obsidianVaultPath: getEnv('OBSIDIAN_VAULT_PATH', ''),
+  // Import edits made in the vault as files change ('true' or 'false'), once writes settle
+  vaultImportWatch: getEnv('VAULT_IMPORT_WATCH', 'true') === 'true',
+  vaultImportDebounceMs: getEnvInt('VAULT_IMPORT_DEBOUNCE_MS', 1000),
+  // How often queued changes are written to the vault, and the first retry delay after a failure
+  vaultSyncIntervalMs: getEnvInt('VAULT_SYNC_INTERVAL_MS', 1000),
+  vaultSyncRetryMs: getEnvInt('VAULT_SYNC_RETRY_MS', 5000),
+  // Where note, artifact and task files go, relative to the vault; see src/services/vault-layout.ts
+  vaultNotePath: getEnv('VAULT_NOTE_PATH', 'brain/notes/{id}.md'),
+  vaultArtifactPath: getEnv('VAULT_ARTIFACT_PATH', 'brain/artifacts/{id}.md'),
+  vaultTaskPath: getEnv('VAULT_TASK_PATH', 'brain/tasks/{id}.md'),
+  // Folder of note.md, artifact.md and task.md file templates; defaults to brain/_templates in the vault
+  vaultTemplatesPath: getEnv('VAULT_TEMPLATES_PATH', ''),
+
+  // Semantic search - name of a registered embedding provider
+  embeddingProvider: getEnv('EMBEDDING_PROVIDER', 'hashed-ngram'),
+
+  // Tasks - 'refuse' or 'warn' when activating a task with unfinished blockers
+  taskBlockedActivation: getEnv('TASK_BLOCKED_ACTIVATION', 'refuse'),
+
+  // Recurring tasks - how far ahead occurrences are created, and how often the scheduler checks
+  seriesLookaheadDays: getEnvInt('SERIES_LOOKAHEAD_DAYS', 7),
+  seriesSchedulerIntervalMs: getEnvInt('SERIES_SCHEDULER_INTERVAL_MS', 3600000),
+
+  // Task claims - lease length without a heartbeat, and how often expired leases are requeued
+  taskLeaseSeconds: getEnvInt('TASK_LEASE_SECONDS', 300),
+  taskLeaseSweepIntervalMs: getEnvInt('TASK_LEASE_SWEEP_INTERVAL_MS', 30000),
+
+  // Trust policies - how often finished tasks are checked against archive_after_days
+  taskArchiveIntervalMs: getEnvInt('TASK_ARCHIVE_INTERVAL_MS', 3600000),
+
+  // Timezone (IANA name) for resolving due dates like "tomorrow" and deciding what is overdue
+  timezone: getEnv('TIMEZONE', 'UTC'),
 
   // Security
   apiKeySalt: getEnv('API_KEY_SALT', 'default-dev-salt-change-in-production'),
@@ -0,0 +1,27 @@
+-- Vector embeddings for semantic search
+-- One row per entity; vectors are little-endian float32 blobs
+CREATE TABLE IF NOT EXISTS embeddings (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  vector BLOB NOT NULL,
+  content_hash TEXT NOT NULL,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_provider ON embeddings(provider, entity_type);
+
+-- Drop vectors together with their source rows
+CREATE TRIGGER IF NOT EXISTS notes_embeddings_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM embeddings WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_embeddings_delete AFTER DELETE ON artifacts BEGIN
+  DELETE FROM embeddings WHERE entity_type = 'artifact' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_embeddings_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM embeddings WHERE entity_type = 'task' AND entity_id = old.id;
+END;
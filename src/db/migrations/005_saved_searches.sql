@@ -0,0 +1,17 @@
+-- Saved searches, owned by the API key that created them
+-- Collections are additionally written to the vault as index notes
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id TEXT PRIMARY KEY,
+  api_key_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  query TEXT NOT NULL,
+  types TEXT,
+  project TEXT,
+  sort TEXT NOT NULL DEFAULT 'relevance',
+  is_collection INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME,
+  UNIQUE (api_key_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_key ON saved_searches(api_key_id, created_at DESC);
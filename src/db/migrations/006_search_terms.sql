@@ -0,0 +1,26 @@
+-- Autocomplete term dictionary
+-- One row per (entity, kind, term); frequencies are counted at query time so
+-- they never drift from the underlying data
+CREATE TABLE IF NOT EXISTS search_terms (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('tag', 'project', 'title', 'term')),
+  term TEXT NOT NULL,
+  normalized TEXT NOT NULL,
+  PRIMARY KEY (entity_type, entity_id, kind, normalized)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_terms_normalized ON search_terms(normalized, kind);
+
+-- Drop terms together with their source rows
+CREATE TRIGGER IF NOT EXISTS notes_search_terms_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM search_terms WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_search_terms_delete AFTER DELETE ON artifacts BEGIN
+  DELETE FROM search_terms WHERE entity_type = 'artifact' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_search_terms_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM search_terms WHERE entity_type = 'task' AND entity_id = old.id;
+END;
@@ -0,0 +1,21 @@
+-- Note revision history
+-- Every version of a note is kept, numbered from 1; the highest revision
+-- matches the note's current state
+CREATE TABLE IF NOT EXISTS note_revisions (
+  note_id TEXT NOT NULL,
+  revision INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  project TEXT,
+  tags TEXT, -- JSON array
+  editor_key_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (note_id, revision)
+);
+
+-- Existing notes start their history at revision 1
+INSERT OR IGNORE INTO note_revisions (note_id, revision, content, project, tags, editor_key_id, created_at)
+SELECT id, 1, content, project, tags, NULL, COALESCE(updated_at, created_at) FROM notes;
+
+CREATE TRIGGER IF NOT EXISTS notes_revisions_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM note_revisions WHERE note_id = old.id;
+END;
@@ -0,0 +1,23 @@
+-- Artifact version history
+-- Every version of an artifact is kept, numbered from 1; the highest version
+-- matches the artifact's current state
+CREATE TABLE IF NOT EXISTS artifact_versions (
+  artifact_id TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  title TEXT NOT NULL,
+  content TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  language TEXT,
+  project TEXT,
+  editor_key_id TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (artifact_id, version)
+);
+
+-- Existing artifacts start their history at version 1
+INSERT OR IGNORE INTO artifact_versions (artifact_id, version, title, content, content_type, language, project, editor_key_id, created_at)
+SELECT id, 1, title, content, content_type, language, project, NULL, COALESCE(updated_at, created_at) FROM artifacts;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_versions_delete AFTER DELETE ON artifacts BEGIN
+  DELETE FROM artifact_versions WHERE artifact_id = old.id;
+END;
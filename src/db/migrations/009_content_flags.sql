@@ -0,0 +1,29 @@
+-- Rows suspected of damage by the original sanitizer, which stripped
+-- `on...=` and `javascript:` from every kind of content including code
+CREATE TABLE IF NOT EXISTS content_flags (
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  excerpt TEXT,
+  detected_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (entity_type, entity_id, reason)
+);
+
+-- JSON artifacts that no longer parse can be flagged without heuristics;
+-- run `npm run sanitization-report -- --flag` to flag the rest
+INSERT OR IGNORE INTO content_flags (entity_type, entity_id, reason, excerpt)
+SELECT 'artifact', id, 'invalid_json', substr(content, 1, 80)
+FROM artifacts
+WHERE content_type = 'json' AND json_valid(content) = 0;
+
+CREATE TRIGGER IF NOT EXISTS notes_content_flags_delete AFTER DELETE ON notes BEGIN
+  DELETE FROM content_flags WHERE entity_type = 'note' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_content_flags_delete AFTER DELETE ON artifacts BEGIN
+  DELETE FROM content_flags WHERE entity_type = 'artifact' AND entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_content_flags_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM content_flags WHERE entity_type = 'task' AND entity_id = old.id;
+END;
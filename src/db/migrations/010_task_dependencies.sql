@@ -0,0 +1,15 @@
+-- Task dependencies: task_id cannot start until depends_on_id is finished
+-- Cycles are rejected by the service before insert
+CREATE TABLE IF NOT EXISTS task_dependencies (
+  task_id TEXT NOT NULL,
+  depends_on_id TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (task_id, depends_on_id),
+  CHECK (task_id != depends_on_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_dependencies_depends_on ON task_dependencies(depends_on_id);
+
+CREATE TRIGGER IF NOT EXISTS tasks_dependencies_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_dependencies WHERE task_id = old.id OR depends_on_id = old.id;
+END;
@@ -0,0 +1,22 @@
+-- Subtasks: child tasks reference their parent and get IDs like PARENT-ID.N
+-- Descendants are deleted with their parent by the service
+ALTER TABLE tasks ADD COLUMN parent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent ON tasks(parent_id);
+
+-- Checklist items: lightweight steps embedded in a task
+CREATE TABLE IF NOT EXISTS task_checklist_items (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL,
+  checked INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  checked_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_checklist_items_task ON task_checklist_items(task_id, position);
+
+CREATE TRIGGER IF NOT EXISTS tasks_checklist_items_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_checklist_items WHERE task_id = old.id;
+END;
@@ -0,0 +1,22 @@
+-- Task events: every status transition with who made it and why
+CREATE TABLE IF NOT EXISTS task_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor_key_id TEXT,
+  reason TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_events_task ON task_events(task_id, id);
+
+-- Existing tasks start their history at their current status
+INSERT INTO task_events (task_id, action, from_status, to_status, reason, created_at)
+SELECT id, 'create', NULL, status, 'History starts here; earlier transitions were not recorded', created_at
+FROM tasks;
+
+CREATE TRIGGER IF NOT EXISTS tasks_events_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_events WHERE task_id = old.id;
+END;
@@ -0,0 +1,41 @@
+-- Per-project task ID sequences
+-- Each project owns a unique ID prefix; next_value is incremented in the
+-- same transaction that inserts the task
+CREATE TABLE IF NOT EXISTS project_sequences (
+  project TEXT PRIMARY KEY,
+  prefix TEXT NOT NULL UNIQUE,
+  next_value INTEGER NOT NULL DEFAULT 1,
+  updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Projects that shared a 10-character prefix shared one sequence. The project
+-- with the oldest task keeps the short prefix; the others switch to their full
+-- name (with a suffix that cannot clash with a project name when the full name
+-- is the short prefix itself). Existing task IDs are left unchanged.
+WITH projects AS (
+  SELECT project, UPPER(SUBSTR(project, 1, 10)) AS short_prefix, MIN(created_at) AS first_created
+  FROM tasks
+  GROUP BY project
+),
+ranked AS (
+  SELECT project, short_prefix,
+    ROW_NUMBER() OVER (PARTITION BY short_prefix ORDER BY first_created, project) AS position
+  FROM projects
+)
+INSERT INTO project_sequences (project, prefix)
+SELECT project,
+  CASE
+    WHEN position = 1 THEN short_prefix
+    WHEN LENGTH(project) > 10 THEN UPPER(project)
+    ELSE UPPER(project) || '_' || position
+  END
+FROM ranked;
+
+-- Continue after the highest top-level number already issued under each prefix
+UPDATE project_sequences SET next_value = 1 + COALESCE((
+  SELECT MAX(CAST(SUBSTR(t.id, LENGTH(project_sequences.prefix) + 2) AS INTEGER))
+  FROM tasks t
+  WHERE t.parent_id IS NULL
+    AND SUBSTR(t.id, 1, LENGTH(project_sequences.prefix) + 1) = project_sequences.prefix || '-'
+    AND SUBSTR(t.id, LENGTH(project_sequences.prefix) + 2) NOT GLOB '*[^0-9]*'
+), 0);
@@ -0,0 +1,5 @@
+-- Due and scheduled dates for tasks, as calendar dates (YYYY-MM-DD) in the configured timezone
+ALTER TABLE tasks ADD COLUMN due_at TEXT;
+ALTER TABLE tasks ADD COLUMN scheduled_for TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_due ON tasks(due_at);
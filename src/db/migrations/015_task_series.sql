@@ -0,0 +1,26 @@
+-- Recurring task series: a template and recurrence rule from which occurrences are created as tasks
+CREATE TABLE IF NOT EXISTS task_series (
+  id TEXT PRIMARY KEY,
+  project TEXT NOT NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  trust_level TEXT NOT NULL DEFAULT 'PROTOTYPE',
+  priority TEXT NOT NULL DEFAULT 'NORMAL',
+  rrule TEXT NOT NULL,
+  starts_on TEXT NOT NULL,
+  last_occurrence TEXT,
+  paused INTEGER NOT NULL DEFAULT 0,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  updated_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_series_project ON task_series(project);
+
+-- Occurrences link back to their series; deleting a series keeps its tasks
+ALTER TABLE tasks ADD COLUMN series_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_series ON tasks(series_id);
+
+CREATE TRIGGER IF NOT EXISTS task_series_delete AFTER DELETE ON task_series BEGIN
+  UPDATE tasks SET series_id = NULL WHERE series_id = old.id;
+END;
@@ -0,0 +1,23 @@
+-- Task claims: a time-limited lease on an active task, held by an API key
+-- (and optionally a named worker) and renewed by heartbeats
+CREATE TABLE IF NOT EXISTS task_claims (
+  task_id TEXT PRIMARY KEY,
+  api_key_id TEXT NOT NULL,
+  worker TEXT,
+  ttl_seconds INTEGER NOT NULL,
+  claimed_at DATETIME NOT NULL,
+  heartbeat_at DATETIME NOT NULL,
+  expires_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_claims_expires ON task_claims(expires_at);
+
+CREATE TRIGGER IF NOT EXISTS tasks_claims_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_claims WHERE task_id = old.id;
+END;
+
+-- A lease only covers active work; it ends when the task leaves 'active'
+CREATE TRIGGER IF NOT EXISTS tasks_claims_release AFTER UPDATE OF status ON tasks
+WHEN new.status != 'active' BEGIN
+  DELETE FROM task_claims WHERE task_id = new.id;
+END;
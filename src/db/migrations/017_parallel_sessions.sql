@@ -0,0 +1,49 @@
+-- Parallel work sessions: agent instances working on one project at once,
+-- each on its own branch and owning the files it claims (see PARALLEL.md)
+CREATE TABLE IF NOT EXISTS parallel_sessions (
+  id TEXT PRIMARY KEY,
+  project TEXT NOT NULL,
+  name TEXT NOT NULL,
+  coordinator TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  started_at DATETIME NOT NULL,
+  ended_at DATETIME
+);
+
+-- At most one active session per project
+CREATE UNIQUE INDEX IF NOT EXISTS idx_parallel_sessions_active
+  ON parallel_sessions(project) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS session_instances (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  branch TEXT,
+  task_id TEXT,
+  description TEXT,
+  status TEXT NOT NULL DEFAULT 'working',
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME,
+  UNIQUE (session_id, name)
+);
+
+-- File ownership claims: a glob and how the instance may touch matching files
+CREATE TABLE IF NOT EXISTS file_claims (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  instance_id INTEGER NOT NULL,
+  pattern TEXT NOT NULL,
+  mode TEXT NOT NULL,
+  notes TEXT,
+  created_at DATETIME NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_claims_session ON file_claims(session_id);
+
+CREATE TRIGGER IF NOT EXISTS parallel_sessions_delete AFTER DELETE ON parallel_sessions BEGIN
+  DELETE FROM session_instances WHERE session_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS session_instances_delete AFTER DELETE ON session_instances BEGIN
+  DELETE FROM file_claims WHERE instance_id = old.id;
+END;
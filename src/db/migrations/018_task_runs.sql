@@ -0,0 +1,34 @@
+-- Task runs: one row per attempt by an agent to carry out a task
+-- outcome is NULL while the run is in progress
+CREATE TABLE IF NOT EXISTS task_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  outcome TEXT,
+  worker TEXT,
+  actor_key_id TEXT,
+  ref TEXT,
+  log_excerpt TEXT,
+  started_at DATETIME NOT NULL,
+  ended_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_runs_task ON task_runs(task_id, started_at);
+
+-- Artifacts a run produced
+CREATE TABLE IF NOT EXISTS task_run_artifacts (
+  run_id INTEGER NOT NULL,
+  artifact_id TEXT NOT NULL,
+  PRIMARY KEY (run_id, artifact_id)
+);
+
+CREATE TRIGGER IF NOT EXISTS tasks_runs_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_runs WHERE task_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_runs_artifacts_delete AFTER DELETE ON task_runs BEGIN
+  DELETE FROM task_run_artifacts WHERE run_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_task_runs_delete AFTER DELETE ON artifacts BEGIN
+  DELETE FROM task_run_artifacts WHERE artifact_id = old.id;
+END;
@@ -0,0 +1,43 @@
+-- Trust policies: per-project rules for tasks of each trust level
+-- Levels without a row use the permissive defaults
+CREATE TABLE IF NOT EXISTS trust_policies (
+  project TEXT NOT NULL,
+  trust_level TEXT NOT NULL,
+  require_review INTEGER NOT NULL DEFAULT 0,
+  required_approvals INTEGER NOT NULL DEFAULT 0,
+  claimant_only INTEGER NOT NULL DEFAULT 0,
+  archive_after_days INTEGER,
+  updated_at DATETIME NOT NULL,
+  PRIMARY KEY (project, trust_level)
+);
+
+-- Approvals of a task by API keys, counted before it can be completed
+CREATE TABLE IF NOT EXISTS task_approvals (
+  task_id TEXT NOT NULL,
+  api_key_id TEXT NOT NULL,
+  comment TEXT,
+  created_at DATETIME NOT NULL,
+  PRIMARY KEY (task_id, api_key_id)
+);
+
+-- Key of the last claim on a task, kept after the lease ends so the
+-- claimant can still be checked when the task is completed from review
+ALTER TABLE tasks ADD COLUMN claimed_by_key TEXT;
+
+ALTER TABLE tasks ADD COLUMN archived_at DATETIME;
+
+CREATE TRIGGER IF NOT EXISTS tasks_approvals_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_approvals WHERE task_id = old.id;
+END;
+
+-- Sending a task back from review, or reopening it, voids its approvals
+CREATE TRIGGER IF NOT EXISTS tasks_approvals_reset AFTER UPDATE OF status ON tasks
+WHEN old.status IN ('review', 'completed') AND new.status NOT IN ('review', 'completed') BEGIN
+  DELETE FROM task_approvals WHERE task_id = new.id;
+END;
+
+-- A task back in the queue is no longer anyone's
+CREATE TRIGGER IF NOT EXISTS tasks_claimant_reset AFTER UPDATE OF status ON tasks
+WHEN new.status = 'queued' BEGIN
+  UPDATE tasks SET claimed_by_key = NULL WHERE id = new.id;
+END;
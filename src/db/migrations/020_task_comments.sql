@@ -0,0 +1,30 @@
+-- Task comments: a discussion thread on a task, in markdown
+CREATE TABLE IF NOT EXISTS task_comments (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  task_id TEXT NOT NULL,
+  author_key_id TEXT,
+  source TEXT NOT NULL DEFAULT 'api',
+  body TEXT NOT NULL,
+  created_at DATETIME NOT NULL,
+  updated_at DATETIME
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comments_task ON task_comments(task_id, created_at);
+
+-- Other tasks a comment mentions by ID, linking them back to the thread
+CREATE TABLE IF NOT EXISTS task_comment_mentions (
+  comment_id INTEGER NOT NULL,
+  task_id TEXT NOT NULL,
+  PRIMARY KEY (comment_id, task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_comment_mentions_task ON task_comment_mentions(task_id);
+
+CREATE TRIGGER IF NOT EXISTS tasks_comments_delete AFTER DELETE ON tasks BEGIN
+  DELETE FROM task_comments WHERE task_id = old.id;
+  DELETE FROM task_comment_mentions WHERE task_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comments_mentions_delete AFTER DELETE ON task_comments BEGIN
+  DELETE FROM task_comment_mentions WHERE comment_id = old.id;
+END;
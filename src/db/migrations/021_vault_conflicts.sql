@@ -0,0 +1,18 @@
+-- Vault conflicts: a vault file and its database row both changed since the
+-- file was last synced. Sync leaves the file alone until the conflict is resolved
+CREATE TABLE IF NOT EXISTS vault_conflicts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  path TEXT NOT NULL, -- Relative to the brain folder, e.g. tasks/MYTHRIL-004.md
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('note', 'artifact', 'task')),
+  entity_id TEXT NOT NULL,
+  base_hash TEXT NOT NULL, -- content_hash of the file as last synced
+  db_content TEXT NOT NULL,
+  vault_content TEXT NOT NULL,
+  detected_at DATETIME NOT NULL,
+  resolved_at DATETIME,
+  resolution TEXT CHECK (resolution IN ('keep-db', 'keep-vault', 'merged'))
+);
+
+-- At most one open conflict per file
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vault_conflicts_open ON vault_conflicts(path) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_vault_conflicts_entity ON vault_conflicts(entity_type, entity_id);
@@ -0,0 +1,135 @@
+-- Vault sync outbox: notes, artifacts and tasks whose vault files are out of
+-- date. Triggers queue them in the same transaction as the change; the sync
+-- worker writes the files, retrying failures with backoff
+CREATE TABLE IF NOT EXISTS vault_sync_outbox (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('note', 'artifact', 'task')),
+  entity_id TEXT NOT NULL,
+  queued_at DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')), -- First change not yet synced
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  last_attempt_at DATETIME,
+  last_error TEXT,
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vault_sync_outbox_due ON vault_sync_outbox(next_attempt_at);
+
+-- A new change to an item that is backing off is retried right away
+
+CREATE TRIGGER IF NOT EXISTS notes_vault_sync_insert AFTER INSERT ON notes BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('note', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS notes_vault_sync_update AFTER UPDATE ON notes BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('note', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS notes_vault_sync_delete AFTER DELETE ON notes BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('note', old.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_vault_sync_insert AFTER INSERT ON artifacts BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('artifact', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_vault_sync_update AFTER UPDATE ON artifacts BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('artifact', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS artifacts_vault_sync_delete AFTER DELETE ON artifacts BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('artifact', old.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+-- Syncing a task rewrites its ancestors, whose progress and subtask lists include it.
+-- A removed or moved subtask is no longer among them, so its old parent is queued too
+
+CREATE TRIGGER IF NOT EXISTS tasks_vault_sync_insert AFTER INSERT ON tasks BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_vault_sync_update AFTER UPDATE ON tasks BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+  INSERT INTO vault_sync_outbox (entity_type, entity_id)
+  SELECT 'task', old.parent_id WHERE old.parent_id IS NOT NULL AND old.parent_id IS NOT new.parent_id
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS tasks_vault_sync_delete AFTER DELETE ON tasks BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', old.id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+  INSERT INTO vault_sync_outbox (entity_type, entity_id)
+  SELECT 'task', old.parent_id WHERE old.parent_id IS NOT NULL
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+-- Checklists, runs, comments and mentions are rendered in their task's file
+
+CREATE TRIGGER IF NOT EXISTS task_checklist_items_vault_sync_insert AFTER INSERT ON task_checklist_items BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_checklist_items_vault_sync_update AFTER UPDATE ON task_checklist_items BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_checklist_items_vault_sync_delete AFTER DELETE ON task_checklist_items BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', old.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_runs_vault_sync_insert AFTER INSERT ON task_runs BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_runs_vault_sync_update AFTER UPDATE ON task_runs BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_run_artifacts_vault_sync_insert AFTER INSERT ON task_run_artifacts BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id)
+  SELECT 'task', task_id FROM task_runs WHERE id = new.run_id
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_run_artifacts_vault_sync_delete AFTER DELETE ON task_run_artifacts BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id)
+  SELECT 'task', task_id FROM task_runs WHERE id = old.run_id
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comments_vault_sync_insert AFTER INSERT ON task_comments BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comments_vault_sync_update AFTER UPDATE ON task_comments BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comments_vault_sync_delete AFTER DELETE ON task_comments BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', old.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comment_mentions_vault_sync_insert AFTER INSERT ON task_comment_mentions BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', new.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
+
+CREATE TRIGGER IF NOT EXISTS task_comment_mentions_vault_sync_delete AFTER DELETE ON task_comment_mentions BEGIN
+  INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES ('task', old.task_id)
+  ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at;
+END;
@@ -0,0 +1,16 @@
+-- Vault files: where each note, artifact and task was last synced, relative to
+-- the brain folder. Paths follow configurable patterns, so a file is found here
+-- to move it when the pattern or the fields in it change, and to delete it
+CREATE TABLE IF NOT EXISTS vault_files (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('note', 'artifact', 'task')),
+  entity_id TEXT NOT NULL,
+  path TEXT NOT NULL,
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vault_files_path ON vault_files(path);
+
+-- Files synced before paths were configurable are at <folder>/<id>.md
+INSERT OR IGNORE INTO vault_files (entity_type, entity_id, path) SELECT 'note', id, 'notes/' || id || '.md' FROM notes;
+INSERT OR IGNORE INTO vault_files (entity_type, entity_id, path) SELECT 'artifact', id, 'artifacts/' || id || '.md' FROM artifacts;
+INSERT OR IGNORE INTO vault_files (entity_type, entity_id, path) SELECT 'task', id, 'tasks/' || id || '.md' FROM tasks;
@@ -0,0 +1,24 @@
+-- Project task graphs, smart collections and parallel sessions are rendered
+-- by the sync worker too, so they are queued in the outbox like entities.
+-- SQLite cannot change a CHECK constraint, so the table is rebuilt; the
+-- triggers that queue changes refer to it by name and keep working
+CREATE TABLE vault_sync_outbox_rebuild AS SELECT * FROM vault_sync_outbox;
+
+DROP TABLE vault_sync_outbox;
+
+CREATE TABLE vault_sync_outbox (
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('note', 'artifact', 'task', 'graph', 'collection', 'session')),
+  entity_id TEXT NOT NULL, -- Project name for graphs
+  queued_at DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')), -- First change not yet synced
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+  last_attempt_at DATETIME,
+  last_error TEXT,
+  PRIMARY KEY (entity_type, entity_id)
+);
+
+INSERT INTO vault_sync_outbox SELECT * FROM vault_sync_outbox_rebuild;
+
+DROP TABLE vault_sync_outbox_rebuild;
+
+CREATE INDEX IF NOT EXISTS idx_vault_sync_outbox_due ON vault_sync_outbox(next_attempt_at);
@@ -1,10 +1,20 @@
 import fs from 'fs';
 import path from 'path';
+import { setInterval, clearInterval } from 'timers';
 import { fileURLToPath } from 'url';
 import { config } from './config.js';
 import { initDb, closeDb } from './db/client.js';
 import { buildApp } from './app.js';
 import { generateApiKey } from './security/api-keys.js';
+import { reindexEmbeddings } from './services/embeddings.js';
+import { backfillTermDictionary } from './services/term-dictionary.js';
+import { materializeSeries } from './services/tasks.js';
+import { reapExpiredLeases } from './services/task-claims.js';
+import { archiveTasks } from './services/task-policies.js';
+import { startVaultWatcher } from './services/vault-import.js';
+import { processVaultSyncQueue } from './services/vault-sync-worker.js';
+import { queueVaultLayoutMoves, validateVaultLayout } from './services/vault-layout.js';
+import { isValidTimeZone } from './utils/dates.js';
 import logger from './utils/logger.js';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -14,10 +24,89 @@ async function main(): Promise<void> {
   logger.info('Starting Mythril Core API Server');
   logger.info('Environment', { env: config.nodeEnv });
 
+  if (!isValidTimeZone(config.timezone)) {
+    throw new Error(`Unknown TIMEZONE: ${config.timezone}`);
+  }
+  validateVaultLayout();
+
   // Initialize database
   logger.info('Initializing database...');
   initDb();
 
+  // Index autocomplete terms for rows written before the dictionary existed
+  const indexedTerms = backfillTermDictionary();
+  if (indexedTerms > 0) {
+    logger.info('Autocomplete dictionary backfilled', { entities: indexedTerms });
+  }
+
+  // Backfill semantic search vectors in the background
+  reindexEmbeddings()
+    .then(count => {
+      if (count > 0) {
+        logger.info('Embeddings reindexed', { count });
+      }
+    })
+    .catch(err => logger.warn('Failed to reindex embeddings', { error: err }));
+
+  // Create upcoming occurrences of recurring tasks now and then periodically
+  const runSeriesScheduler = (): void => {
+    try {
+      const created = materializeSeries();
+      if (created.length > 0) {
+        logger.info('Recurring task occurrences created', { tasks: created.map(task => task.id) });
+      }
+    } catch (err) {
+      logger.warn('Failed to create recurring task occurrences', { error: err });
+    }
+  };
+  runSeriesScheduler();
+  const seriesScheduler = setInterval(runSeriesScheduler, config.seriesSchedulerIntervalMs);
+
+  // Return tasks whose claim lapsed without a heartbeat to the queue
+  const leaseSweeper = setInterval(() => {
+    try {
+      const requeued = reapExpiredLeases();
+      if (requeued.length > 0) {
+        logger.info('Expired task claims requeued', { tasks: requeued.map(task => task.id) });
+      }
+    } catch (err) {
+      logger.warn('Failed to requeue expired task claims', { error: err });
+    }
+  }, config.taskLeaseSweepIntervalMs);
+
+  // Archive finished tasks under an archive_after_days policy
+  const archiveSweeper = setInterval(() => {
+    try {
+      const archived = archiveTasks();
+      if (archived.length > 0) {
+        logger.info('Finished tasks archived', { tasks: archived.map(task => task.id) });
+      }
+    } catch (err) {
+      logger.warn('Failed to archive finished tasks', { error: err });
+    }
+  }, config.taskArchiveIntervalMs);
+
+  // Move vault files to where changed path patterns put them
+  const moved = queueVaultLayoutMoves();
+  if (moved > 0) {
+    logger.info('Vault layout changed; moving files', { files: moved });
+  }
+
+  // Write queued note, artifact and task changes to the vault
+  const vaultSyncWorker = setInterval(() => {
+    try {
+      const { failed } = processVaultSyncQueue();
+      if (failed > 0) {
+        logger.warn('Failed to sync queued changes to vault; retrying later', { failed });
+      }
+    } catch (err) {
+      logger.warn('Failed to process vault sync queue', { error: err });
+    }
+  }, config.vaultSyncIntervalMs);
+
+  // Apply notes, artifacts and tasks edited in Obsidian
+  const stopVaultWatcher = config.vaultImportWatch ? startVaultWatcher() : (): void => undefined;
+
   // Check if we need to generate an initial API key
   const adminKeyEnv = process.env['ADMIN_API_KEY'];
   if (!adminKeyEnv) {
@@ -73,6 +162,11 @@ async function main(): Promise<void> {
       logger.info('Shutting down gracefully', { signal });
 
       try {
+        clearInterval(seriesScheduler);
+        clearInterval(leaseSweeper);
+        clearInterval(archiveSweeper);
+        clearInterval(vaultSyncWorker);
+        stopVaultWatcher();
         await app.close();
         closeDb();
         logger.info('Server closed successfully');
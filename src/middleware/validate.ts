@@ -89,6 +89,11 @@ export const schemas = {
     id: z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+$/, 'Invalid ID format')
   }),
 
+  // Task ID parameter - subtask IDs append .N to their parent's ID
+  taskId: z.object({
+    id: z.string().min(1).max(100).regex(/^[a-zA-Z0-9_-]+(\.\d+)*$/, 'Invalid task ID format')
+  }),
+
   // Project parameter
   project: z.object({
     project: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/, 'Invalid project format')
@@ -4,6 +4,7 @@ import { authMiddleware } from '../middleware/auth.js';
 import { validateBody, validateQuery, validateParams, schemas } from '../middleware/validate.js';
 import { audit } from '../security/audit.js';
 import * as artifactsService from '../services/artifacts.js';
+import { PatchParseError } from '../utils/diff.js';
 
 // Validation schemas
 const createArtifactSchema = z.object({
@@ -23,6 +24,19 @@ const updateArtifactSchema = z.object({
   project: z.string().max(100).regex(/^[a-z0-9-]*$/).optional()
 });
 
+const patchArtifactSchema = z.object({
+  patch: z.string().min(1, 'Patch is required').max(1000000, 'Patch too long')
+});
+
+const versionParamsSchema = schemas.id.extend({
+  n: z.coerce.number().int().min(1)
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional()
+});
+
 const queryArtifactsSchema = z.object({
   project: z.string().max(100).optional(),
   content_type: z.enum(['code', 'markdown', 'json']).optional(),
@@ -33,7 +47,10 @@ const queryArtifactsSchema = z.object({
 
 type CreateArtifactBody = z.infer<typeof createArtifactSchema>;
 type UpdateArtifactBody = z.infer<typeof updateArtifactSchema>;
+type PatchArtifactBody = z.infer<typeof patchArtifactSchema>;
 type QueryArtifactsQuery = z.infer<typeof queryArtifactsSchema>;
+type VersionParams = z.infer<typeof versionParamsSchema>;
+type DiffQuery = z.infer<typeof diffQuerySchema>;
 type IdParams = z.infer<typeof schemas.id>;
 
 export async function artifactsRoutes(app: FastifyInstance): Promise<void> {
@@ -56,7 +73,7 @@ export async function artifactsRoutes(app: FastifyInstance): Promise<void> {
           language: request.body.language,
           project: request.body.project,
           source: request.body.source ?? 'api'
-        });
+        }, request.apiKey?.id ?? null);
 
         audit('artifact.create', request, 'artifact', artifact.id, 201);
 
@@ -126,7 +143,7 @@ export async function artifactsRoutes(app: FastifyInstance): Promise<void> {
     '/api/v1/artifacts/:id',
     { preHandler: [validateParams(schemas.id), validateBody(updateArtifactSchema)] },
     async (request: FastifyRequest<{ Params: IdParams; Body: UpdateArtifactBody }>, reply: FastifyReply) => {
-      const artifact = artifactsService.updateArtifact(request.params.id, request.body);
+      const artifact = artifactsService.updateArtifact(request.params.id, request.body, request.apiKey?.id ?? null);
 
       if (!artifact) {
         return reply.status(404).send({ error: 'Artifact not found' });
@@ -134,7 +151,119 @@ export async function artifactsRoutes(app: FastifyInstance): Promise<void> {
 
       audit('artifact.update', request, 'artifact', artifact.id);
 
-      return reply.send(artifact);
+      return reply.send({ ...artifact, version: artifactsService.getCurrentVersion(artifact.id) });
+    }
+  );
+
+  /**
+   * POST /api/v1/artifacts/:id/patch
+   * Apply a unified diff to the current content
+   * Returns 409 with a per-hunk conflict report if any hunk does not apply
+   */
+  app.post<{ Params: IdParams; Body: PatchArtifactBody }>(
+    '/api/v1/artifacts/:id/patch',
+    { preHandler: [validateParams(schemas.id), validateBody(patchArtifactSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: PatchArtifactBody }>, reply: FastifyReply) => {
+      let result;
+      try {
+        result = artifactsService.patchArtifact(request.params.id, request.body.patch, request.apiKey?.id ?? null);
+      } catch (error) {
+        if (error instanceof PatchParseError) {
+          return reply.status(400).send({ error: 'Invalid patch', details: error.message, line: error.line });
+        }
+        throw error;
+      }
+
+      if (!result) {
+        return reply.status(404).send({ error: 'Artifact not found' });
+      }
+
+      if (!result.applied) {
+        audit('artifact.patch', request, 'artifact', request.params.id, 409);
+        return reply.status(409).send({
+          error: 'Patch does not apply',
+          current_version: artifactsService.getCurrentVersion(request.params.id),
+          conflicts: result.conflicts
+        });
+      }
+
+      audit('artifact.patch', request, 'artifact', result.artifact.id);
+
+      return reply.send({ ...result.artifact, version: result.version });
+    }
+  );
+
+  /**
+   * GET /api/v1/artifacts/:id/versions
+   * List an artifact's versions, newest first (content omitted)
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/artifacts/:id/versions',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const artifact = artifactsService.getArtifactById(request.params.id);
+
+      if (!artifact) {
+        return reply.status(404).send({ error: 'Artifact not found' });
+      }
+
+      const versions = artifactsService.listArtifactVersions(artifact.id);
+
+      audit('artifact.versions', request, 'artifact', artifact.id);
+
+      return reply.send({
+        artifact_id: artifact.id,
+        current_version: versions[0]?.version ?? null,
+        versions,
+        total: versions.length
+      });
+    }
+  );
+
+  /**
+   * GET /api/v1/artifacts/:id/versions/diff
+   * Unified diff between two versions (`to` defaults to the current version)
+   */
+  app.get<{ Params: IdParams; Querystring: DiffQuery }>(
+    '/api/v1/artifacts/:id/versions/diff',
+    { preHandler: [validateParams(schemas.id), validateQuery(diffQuerySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Querystring: DiffQuery }>, reply: FastifyReply) => {
+      const artifact = artifactsService.getArtifactById(request.params.id);
+
+      if (!artifact) {
+        return reply.status(404).send({ error: 'Artifact not found' });
+      }
+
+      const to = request.query.to ?? artifactsService.getCurrentVersion(artifact.id) ?? 1;
+      const diff = artifactsService.diffArtifactVersions(artifact.id, request.query.from, to);
+
+      if (!diff) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+
+      audit('artifact.diff', request, 'artifact', artifact.id);
+
+      return reply.send(diff);
+    }
+  );
+
+  /**
+   * GET /api/v1/artifacts/:id/versions/:n
+   * Get a single version with its content
+   */
+  app.get<{ Params: VersionParams }>(
+    '/api/v1/artifacts/:id/versions/:n',
+    { preHandler: validateParams(versionParamsSchema) },
+    async (request: FastifyRequest<{ Params: VersionParams }>, reply: FastifyReply) => {
+      const version = artifactsService.getArtifactVersion(request.params.id, request.params.n);
+
+      if (!version) {
+        return reply.status(404).send({ error: 'Version not found' });
+      }
+
+      audit('artifact.versions', request, 'artifact', request.params.id);
+
+      return reply.send(version);
     }
   );
 
@@ -1,6 +1,8 @@
 import type { FastifyInstance } from 'fastify';
 import { config } from '../config.js';
+import type { VaultSyncQueueStatus } from '../types/index.js';
 import { isVaultSyncEnabled } from '../services/vault-sync.js';
+import { getVaultSyncQueueStatus } from '../services/vault-outbox.js';
 
 interface HealthResponse {
   status: 'ok' | 'degraded' | 'error';
@@ -10,6 +12,7 @@ interface HealthResponse {
     database: boolean;
     vault_sync: boolean;
   };
+  vault_sync_queue: VaultSyncQueueStatus;
 }
 
 export async function healthRoutes(app: FastifyInstance): Promise<void> {
@@ -21,6 +24,7 @@ export async function healthRoutes(app: FastifyInstance): Promise<void> {
     '/health',
     async (_request, reply) => {
       const vaultEnabled = isVaultSyncEnabled();
+      const vaultQueue = getVaultSyncQueueStatus();
 
       const response: HealthResponse = {
         status: 'ok',
@@ -29,11 +33,12 @@ export async function healthRoutes(app: FastifyInstance): Promise<void> {
         services: {
           database: true, // If we reach here, DB is working
           vault_sync: vaultEnabled
-        }
+        },
+        vault_sync_queue: vaultQueue
       };
 
       // Set status to degraded if vault sync is expected but not working
-      if (config.obsidianVaultPath && !vaultEnabled) {
+      if (config.obsidianVaultPath && (!vaultEnabled || vaultQueue.last_error)) {
         response.status = 'degraded';
       }
 
@@ -14,6 +14,27 @@ const createNoteSchema = z.object({
   source: z.string().max(50).optional()
 });
 
+// PUT replaces the note: omitted project/tags are cleared
+const replaceNoteSchema = z.object({
+  content: createNoteSchema.shape.content,
+  project: createNoteSchema.shape.project,
+  tags: createNoteSchema.shape.tags
+});
+
+const patchNoteSchema = replaceNoteSchema.partial().refine(
+  body => body.content !== undefined || body.project !== undefined || body.tags !== undefined,
+  'At least one field is required'
+);
+
+const revisionParamsSchema = schemas.id.extend({
+  revision: z.coerce.number().int().min(1)
+});
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1),
+  to: z.coerce.number().int().min(1).optional()
+});
+
 const queryNotesSchema = z.object({
   project: z.string().max(100).optional(),
   limit: z.coerce.number().min(1).max(100).default(20),
@@ -22,6 +43,10 @@ const queryNotesSchema = z.object({
 });
 
 type CreateNoteBody = z.infer<typeof createNoteSchema>;
+type ReplaceNoteBody = z.infer<typeof replaceNoteSchema>;
+type PatchNoteBody = z.infer<typeof patchNoteSchema>;
+type RevisionParams = z.infer<typeof revisionParamsSchema>;
+type DiffQuery = z.infer<typeof diffQuerySchema>;
 type QueryNotesQuery = z.infer<typeof queryNotesSchema>;
 type IdParams = z.infer<typeof schemas.id>;
 
@@ -43,7 +68,7 @@ export async function notesRoutes(app: FastifyInstance): Promise<void> {
           project: request.body.project,
           tags: request.body.tags,
           source: request.body.source ?? 'api'
-        });
+        }, request.apiKey?.id ?? null);
 
         audit('note.create', request, 'note', note.id, 201);
 
@@ -104,6 +129,148 @@ export async function notesRoutes(app: FastifyInstance): Promise<void> {
     }
   );
 
+  /**
+   * PUT /api/v1/notes/:id
+   * Replace a note's content, project and tags
+   */
+  app.put<{ Params: IdParams; Body: ReplaceNoteBody }>(
+    '/api/v1/notes/:id',
+    { preHandler: [validateParams(schemas.id), validateBody(replaceNoteSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: ReplaceNoteBody }>, reply: FastifyReply) => {
+      const note = notesService.updateNote(request.params.id, {
+        content: request.body.content,
+        project: request.body.project ?? '',
+        tags: request.body.tags ?? []
+      }, request.apiKey?.id ?? null);
+
+      if (!note) {
+        return reply.status(404).send({ error: 'Note not found' });
+      }
+
+      audit('note.update', request, 'note', note.id);
+
+      return reply.send(note);
+    }
+  );
+
+  /**
+   * PATCH /api/v1/notes/:id
+   * Update selected fields of a note
+   */
+  app.patch<{ Params: IdParams; Body: PatchNoteBody }>(
+    '/api/v1/notes/:id',
+    { preHandler: [validateParams(schemas.id), validateBody(patchNoteSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: PatchNoteBody }>, reply: FastifyReply) => {
+      const note = notesService.updateNote(request.params.id, request.body, request.apiKey?.id ?? null);
+
+      if (!note) {
+        return reply.status(404).send({ error: 'Note not found' });
+      }
+
+      audit('note.update', request, 'note', note.id);
+
+      return reply.send(note);
+    }
+  );
+
+  /**
+   * GET /api/v1/notes/:id/revisions
+   * List a note's revisions, newest first
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/notes/:id/revisions',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const note = notesService.getNoteById(request.params.id);
+
+      if (!note) {
+        return reply.status(404).send({ error: 'Note not found' });
+      }
+
+      const revisions = notesService.listNoteRevisions(note.id);
+
+      audit('note.revisions', request, 'note', note.id);
+
+      return reply.send({
+        note_id: note.id,
+        current_revision: revisions[0]?.revision ?? null,
+        revisions,
+        total: revisions.length
+      });
+    }
+  );
+
+  /**
+   * GET /api/v1/notes/:id/revisions/diff
+   * Diff two revisions (`to` defaults to the current revision)
+   */
+  app.get<{ Params: IdParams; Querystring: DiffQuery }>(
+    '/api/v1/notes/:id/revisions/diff',
+    { preHandler: [validateParams(schemas.id), validateQuery(diffQuerySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Querystring: DiffQuery }>, reply: FastifyReply) => {
+      const note = notesService.getNoteById(request.params.id);
+
+      if (!note) {
+        return reply.status(404).send({ error: 'Note not found' });
+      }
+
+      const to = request.query.to ?? notesService.listNoteRevisions(note.id)[0]?.revision ?? 1;
+      const diff = notesService.diffNoteRevisions(note.id, request.query.from, to);
+
+      if (!diff) {
+        return reply.status(404).send({ error: 'Revision not found' });
+      }
+
+      audit('note.diff', request, 'note', note.id);
+
+      return reply.send(diff);
+    }
+  );
+
+  /**
+   * GET /api/v1/notes/:id/revisions/:revision
+   * Get a single revision
+   */
+  app.get<{ Params: RevisionParams }>(
+    '/api/v1/notes/:id/revisions/:revision',
+    { preHandler: validateParams(revisionParamsSchema) },
+    async (request: FastifyRequest<{ Params: RevisionParams }>, reply: FastifyReply) => {
+      const revision = notesService.getNoteRevision(request.params.id, request.params.revision);
+
+      if (!revision) {
+        return reply.status(404).send({ error: 'Revision not found' });
+      }
+
+      audit('note.revisions', request, 'note', request.params.id);
+
+      return reply.send(revision);
+    }
+  );
+
+  /**
+   * POST /api/v1/notes/:id/revisions/:revision/restore
+   * Restore a note to an earlier revision (recorded as a new revision)
+   */
+  app.post<{ Params: RevisionParams }>(
+    '/api/v1/notes/:id/revisions/:revision/restore',
+    { preHandler: validateParams(revisionParamsSchema) },
+    async (request: FastifyRequest<{ Params: RevisionParams }>, reply: FastifyReply) => {
+      const note = notesService.restoreNoteRevision(
+        request.params.id,
+        request.params.revision,
+        request.apiKey?.id ?? null
+      );
+
+      if (!note) {
+        return reply.status(404).send({ error: 'Revision not found' });
+      }
+
+      audit('note.restore', request, 'note', note.id);
+
+      return reply.send(note);
+    }
+  );
+
   /**
    * DELETE /api/v1/notes/:id
    * Delete a note
@@ -0,0 +1,349 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams, schemas } from '../middleware/validate.js';
+import { audit } from '../security/audit.js';
+import * as sessionsService from '../services/parallel-sessions.js';
+import { isVaultSyncEnabled } from '../services/vault-sync.js';
+
+// Validation schemas
+const instanceName = z.string().min(1).max(50).regex(/^[A-Za-z0-9_.-]+$/, 'Invalid instance name');
+
+const createSessionSchema = z.object({
+  project: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
+  name: z.string().min(1).max(100).optional(),
+  coordinator: z.string().min(1).max(100).optional()
+});
+
+const querySessionsSchema = z.object({
+  project: z.string().max(100).optional(),
+  status: z.enum(['active', 'ended']).optional()
+});
+
+const instanceFields = {
+  branch: z.string().min(1).max(200).nullable().optional(),
+  task_id: schemas.taskId.shape.id.nullable().optional(),
+  description: z.string().max(500).nullable().optional(),
+  status: z.enum(['working', 'blocked', 'done', 'watching']).optional()
+};
+
+const addInstanceSchema = z.object({ name: instanceName, ...instanceFields });
+
+const updateInstanceSchema = z.object(instanceFields);
+
+const claimFilesSchema = z.object({
+  claims: z.array(z.object({
+    pattern: z.string().min(1).max(300),
+    mode: z.enum(['exclusive', 'append_only', 'locked']),
+    notes: z.string().max(200).optional()
+  })).min(1).max(50),
+  force: z.boolean().optional()
+});
+
+const ownersQuerySchema = z.object({
+  path: z.string().min(1).max(300)
+});
+
+const instanceParamsSchema = schemas.id.extend({ name: instanceName });
+
+const claimParamsSchema = schemas.id.extend({
+  claimId: z.coerce.number().int().min(1)
+});
+
+type CreateSessionBody = z.infer<typeof createSessionSchema>;
+type QuerySessions = z.infer<typeof querySessionsSchema>;
+type AddInstanceBody = z.infer<typeof addInstanceSchema>;
+type UpdateInstanceBody = z.infer<typeof updateInstanceSchema>;
+type ClaimFilesBody = z.infer<typeof claimFilesSchema>;
+type OwnersQuery = z.infer<typeof ownersQuerySchema>;
+type IdParams = z.infer<typeof schemas.id>;
+type InstanceParams = z.infer<typeof instanceParamsSchema>;
+type ClaimParams = z.infer<typeof claimParamsSchema>;
+
+/**
+ * Send the 409 for a refused session change; anything else is rethrown
+ */
+function sendSessionError(error: unknown, reply: FastifyReply): FastifyReply {
+  if (error instanceof sessionsService.FileClaimConflictError) {
+    return reply.status(409).send({ error: error.message, conflicts: error.conflicts });
+  }
+  if (error instanceof sessionsService.ActiveSessionExistsError) {
+    return reply.status(409).send({ error: error.message, session_id: error.sessionId });
+  }
+  if (error instanceof sessionsService.SessionEndedError || error instanceof sessionsService.DuplicateInstanceError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  throw error;
+}
+
+export async function parallelSessionsRoutes(app: FastifyInstance): Promise<void> {
+  // Apply auth middleware
+  app.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /api/v1/parallel-sessions
+   * Start a parallel work session for a project
+   */
+  app.post<{ Body: CreateSessionBody }>(
+    '/api/v1/parallel-sessions',
+    { preHandler: validateBody(createSessionSchema) },
+    async (request: FastifyRequest<{ Body: CreateSessionBody }>, reply: FastifyReply) => {
+      try {
+        const session = sessionsService.createSession(request.body);
+
+        audit('parallel.session.create', request, 'parallel_session', session.id, 201);
+
+        return reply.status(201).send(session);
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/parallel-sessions
+   * List sessions, newest first
+   */
+  app.get<{ Querystring: QuerySessions }>(
+    '/api/v1/parallel-sessions',
+    { preHandler: validateQuery(querySessionsSchema) },
+    async (request: FastifyRequest<{ Querystring: QuerySessions }>, reply: FastifyReply) => {
+      const sessions = sessionsService.listSessions(request.query);
+
+      audit('parallel.session.list', request);
+
+      return reply.send({ sessions, total: sessions.length });
+    }
+  );
+
+  /**
+   * GET /api/v1/parallel-sessions/:id
+   * Get a session with its instances, file claims and conflicts
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/parallel-sessions/:id',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const detail = sessionsService.getSessionDetail(request.params.id);
+
+      if (!detail) {
+        return reply.status(404).send({ error: 'Session not found' });
+      }
+
+      audit('parallel.session.read', request, 'parallel_session', detail.id);
+
+      return reply.send(detail);
+    }
+  );
+
+  /**
+   * POST /api/v1/parallel-sessions/:id/end
+   * End a session
+   */
+  app.post<{ Params: IdParams }>(
+    '/api/v1/parallel-sessions/:id/end',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      try {
+        const session = sessionsService.endSession(request.params.id);
+
+        if (!session) {
+          return reply.status(404).send({ error: 'Session not found' });
+        }
+
+        audit('parallel.session.end', request, 'parallel_session', session.id);
+
+        return reply.send(session);
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/parallel-sessions/:id/instances
+   * Add an instance to a session
+   */
+  app.post<{ Params: IdParams; Body: AddInstanceBody }>(
+    '/api/v1/parallel-sessions/:id/instances',
+    { preHandler: [validateParams(schemas.id), validateBody(addInstanceSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: AddInstanceBody }>, reply: FastifyReply) => {
+      try {
+        const { name, ...fields } = request.body;
+        const instance = sessionsService.addInstance(request.params.id, name, fields);
+
+        if (!instance) {
+          return reply.status(404).send({ error: 'Session not found' });
+        }
+
+        audit('parallel.instance.add', request, 'parallel_session', request.params.id, 201);
+
+        return reply.status(201).send(instance);
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/v1/parallel-sessions/:id/instances/:name
+   * Update an instance's branch, task or status
+   */
+  app.patch<{ Params: InstanceParams; Body: UpdateInstanceBody }>(
+    '/api/v1/parallel-sessions/:id/instances/:name',
+    { preHandler: [validateParams(instanceParamsSchema), validateBody(updateInstanceSchema)] },
+    async (request: FastifyRequest<{ Params: InstanceParams; Body: UpdateInstanceBody }>, reply: FastifyReply) => {
+      try {
+        const instance = sessionsService.updateInstance(request.params.id, request.params.name, request.body);
+
+        if (!instance) {
+          return reply.status(404).send({ error: 'Instance not found' });
+        }
+
+        audit('parallel.instance.update', request, 'parallel_session', request.params.id);
+
+        return reply.send(instance);
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/parallel-sessions/:id/instances/:name
+   * Remove an instance and release its file claims
+   */
+  app.delete<{ Params: InstanceParams }>(
+    '/api/v1/parallel-sessions/:id/instances/:name',
+    { preHandler: validateParams(instanceParamsSchema) },
+    async (request: FastifyRequest<{ Params: InstanceParams }>, reply: FastifyReply) => {
+      try {
+        const deleted = sessionsService.removeInstance(request.params.id, request.params.name);
+
+        if (!deleted) {
+          return reply.status(404).send({ error: 'Instance not found' });
+        }
+
+        audit('parallel.instance.remove', request, 'parallel_session', request.params.id);
+
+        return reply.send({ deleted: true });
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/parallel-sessions/:id/instances/:name/claims
+   * Claim files by glob; 409 when they overlap incompatible claims of other
+   * instances, unless force is set
+   */
+  app.post<{ Params: InstanceParams; Body: ClaimFilesBody }>(
+    '/api/v1/parallel-sessions/:id/instances/:name/claims',
+    { preHandler: [validateParams(instanceParamsSchema), validateBody(claimFilesSchema)] },
+    async (request: FastifyRequest<{ Params: InstanceParams; Body: ClaimFilesBody }>, reply: FastifyReply) => {
+      try {
+        const result = sessionsService.claimFiles(
+          request.params.id,
+          request.params.name,
+          request.body.claims,
+          { force: request.body.force }
+        );
+
+        if (!result) {
+          return reply.status(404).send({ error: 'Instance not found' });
+        }
+
+        audit('parallel.files.claim', request, 'parallel_session', request.params.id, 201);
+
+        return reply.status(201).send(result);
+      } catch (error) {
+        return sendSessionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/parallel-sessions/:id/claims/:claimId
+   * Release a file claim
+   */
+  app.delete<{ Params: ClaimParams }>(
+    '/api/v1/parallel-sessions/:id/claims/:claimId',
+    { preHandler: validateParams(claimParamsSchema) },
+    async (request: FastifyRequest<{ Params: ClaimParams }>, reply: FastifyReply) => {
+      const deleted = sessionsService.releaseFileClaim(request.params.id, request.params.claimId);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Claim not found' });
+      }
+
+      audit('parallel.files.release', request, 'parallel_session', request.params.id);
+
+      return reply.send({ deleted: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/parallel-sessions/:id/conflicts
+   * List overlapping claims that are not compatible
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/parallel-sessions/:id/conflicts',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const detail = sessionsService.getSessionDetail(request.params.id);
+
+      if (!detail) {
+        return reply.status(404).send({ error: 'Session not found' });
+      }
+
+      audit('parallel.conflicts', request, 'parallel_session', detail.id);
+
+      return reply.send({ conflicts: detail.conflicts, total: detail.conflicts.length });
+    }
+  );
+
+  /**
+   * GET /api/v1/parallel-sessions/:id/owners?path=
+   * Claims covering a file, to check before editing it
+   */
+  app.get<{ Params: IdParams; Querystring: OwnersQuery }>(
+    '/api/v1/parallel-sessions/:id/owners',
+    { preHandler: [validateParams(schemas.id), validateQuery(ownersQuerySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Querystring: OwnersQuery }>, reply: FastifyReply) => {
+      if (!sessionsService.getSession(request.params.id)) {
+        return reply.status(404).send({ error: 'Session not found' });
+      }
+
+      const claims = sessionsService.getPathOwners(request.params.id, request.query.path);
+
+      audit('parallel.owners', request, 'parallel_session', request.params.id);
+
+      return reply.send({ path: request.query.path, claims });
+    }
+  );
+
+  /**
+   * POST /api/v1/parallel-sessions/:id/render
+   * Render the session as PARALLEL.md-style markdown and queue it to be written to the vault
+   */
+  app.post<{ Params: IdParams }>(
+    '/api/v1/parallel-sessions/:id/render',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const rendered = sessionsService.renderSession(request.params.id);
+
+      if (!rendered) {
+        return reply.status(404).send({ error: 'Session not found' });
+      }
+
+      audit('parallel.session.render', request, 'parallel_session', request.params.id);
+
+      return reply.send({
+        session_id: rendered.detail.id,
+        markdown: rendered.markdown,
+        vault_path: isVaultSyncEnabled() ? `brain/parallel/${rendered.detail.project}.md` : null
+      });
+    }
+  );
+}
@@ -0,0 +1,252 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams, schemas } from '../middleware/validate.js';
+import { audit } from '../security/audit.js';
+import { QueryParseError } from '../services/search-query.js';
+import { InvalidCursorError } from '../services/search.js';
+import * as savedSearchesService from '../services/saved-searches.js';
+import type { SavedSearch } from '../types/index.js';
+
+// Validation schemas
+const searchTypesSchema = z.array(z.enum(['notes', 'artifacts', 'tasks'])).max(3);
+
+const createSavedSearchSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(100, 'Name too long'),
+  query: z.string().min(1, 'Query is required').max(200, 'Query too long'),
+  types: searchTypesSchema.optional(),
+  project: z.string().max(100).regex(/^[a-z0-9-]*$/).optional(),
+  sort: z.enum(['relevance', 'newest', 'oldest']).optional(),
+  collection: z.boolean().optional()
+});
+
+const updateSavedSearchSchema = createSavedSearchSchema.partial();
+
+const resultsQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().max(500).optional()
+});
+
+type CreateSavedSearchBody = z.infer<typeof createSavedSearchSchema>;
+type UpdateSavedSearchBody = z.infer<typeof updateSavedSearchSchema>;
+type ResultsQuery = z.infer<typeof resultsQuerySchema>;
+type IdParams = z.infer<typeof schemas.id>;
+
+/**
+ * Shape a saved search for API responses
+ */
+function toResponse(saved: SavedSearch): Record<string, unknown> {
+  return {
+    id: saved.id,
+    name: saved.name,
+    query: saved.query,
+    types: saved.types ? JSON.parse(saved.types) : null,
+    project: saved.project,
+    sort: saved.sort,
+    collection: saved.is_collection === 1,
+    created_at: saved.created_at,
+    updated_at: saved.updated_at
+  };
+}
+
+/**
+ * Build a 400 response body for an invalid query
+ */
+function queryError(error: QueryParseError): Record<string, unknown> {
+  return {
+    error: 'Invalid search query',
+    details: error.message,
+    position: error.position,
+    token: error.token
+  };
+}
+
+export async function savedSearchesRoutes(app: FastifyInstance): Promise<void> {
+  // Apply auth middleware
+  app.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /api/v1/searches
+   * Save a named search for the calling API key
+   */
+  app.post<{ Body: CreateSavedSearchBody }>(
+    '/api/v1/searches',
+    { preHandler: validateBody(createSavedSearchSchema) },
+    async (request: FastifyRequest<{ Body: CreateSavedSearchBody }>, reply: FastifyReply) => {
+      const apiKeyId = request.apiKey?.id ?? '';
+
+      if (savedSearchesService.getSavedSearchByName(apiKeyId, request.body.name)) {
+        return reply.status(409).send({ error: 'A saved search with this name already exists' });
+      }
+
+      try {
+        const saved = savedSearchesService.createSavedSearch(apiKeyId, request.body);
+
+        audit('saved_search.create', request, 'saved_search', saved.id, 201);
+
+        return reply.status(201).send(toResponse(saved));
+      } catch (error) {
+        if (error instanceof QueryParseError) {
+          return reply.status(400).send(queryError(error));
+        }
+        const message = error instanceof Error ? error.message : 'Failed to create saved search';
+        return reply.status(500).send({ error: message });
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/searches
+   * List saved searches for the calling API key
+   */
+  app.get(
+    '/api/v1/searches',
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      const searches = savedSearchesService.listSavedSearches(request.apiKey?.id ?? '');
+
+      audit('saved_search.list', request);
+
+      return reply.send({ searches: searches.map(toResponse), total: searches.length });
+    }
+  );
+
+  /**
+   * GET /api/v1/searches/:id
+   * Get a saved search
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/searches/:id',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const saved = savedSearchesService.getSavedSearchById(request.apiKey?.id ?? '', request.params.id);
+
+      if (!saved) {
+        return reply.status(404).send({ error: 'Saved search not found' });
+      }
+
+      audit('saved_search.read', request, 'saved_search', saved.id);
+
+      return reply.send(toResponse(saved));
+    }
+  );
+
+  /**
+   * PUT /api/v1/searches/:id
+   * Update a saved search
+   */
+  app.put<{ Params: IdParams; Body: UpdateSavedSearchBody }>(
+    '/api/v1/searches/:id',
+    { preHandler: [validateParams(schemas.id), validateBody(updateSavedSearchSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: UpdateSavedSearchBody }>, reply: FastifyReply) => {
+      const apiKeyId = request.apiKey?.id ?? '';
+
+      if (request.body.name) {
+        const sameName = savedSearchesService.getSavedSearchByName(apiKeyId, request.body.name);
+        if (sameName && sameName.id !== request.params.id) {
+          return reply.status(409).send({ error: 'A saved search with this name already exists' });
+        }
+      }
+
+      try {
+        const saved = savedSearchesService.updateSavedSearch(apiKeyId, request.params.id, request.body);
+
+        if (!saved) {
+          return reply.status(404).send({ error: 'Saved search not found' });
+        }
+
+        audit('saved_search.update', request, 'saved_search', saved.id);
+
+        return reply.send(toResponse(saved));
+      } catch (error) {
+        if (error instanceof QueryParseError) {
+          return reply.status(400).send(queryError(error));
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/searches/:id
+   * Delete a saved search (and its collection note, if any)
+   */
+  app.delete<{ Params: IdParams }>(
+    '/api/v1/searches/:id',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const deleted = savedSearchesService.deleteSavedSearch(request.apiKey?.id ?? '', request.params.id);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Saved search not found' });
+      }
+
+      audit('saved_search.delete', request, 'saved_search', request.params.id);
+
+      return reply.send({ deleted: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/searches/:id/results
+   * Run a saved search
+   */
+  app.get<{ Params: IdParams; Querystring: ResultsQuery }>(
+    '/api/v1/searches/:id/results',
+    { preHandler: [validateParams(schemas.id), validateQuery(resultsQuerySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Querystring: ResultsQuery }>, reply: FastifyReply) => {
+      const saved = savedSearchesService.getSavedSearchById(request.apiKey?.id ?? '', request.params.id);
+
+      if (!saved) {
+        return reply.status(404).send({ error: 'Saved search not found' });
+      }
+
+      try {
+        const response = savedSearchesService.runSavedSearch(saved, {
+          limit: request.query.limit,
+          cursor: request.query.cursor
+        });
+
+        audit('saved_search.run', request, 'saved_search', saved.id);
+
+        return reply.send({
+          search: toResponse(saved),
+          results: response.results,
+          total: response.total,
+          facets: response.facets,
+          next_cursor: response.next_cursor
+        });
+      } catch (error) {
+        if (error instanceof InvalidCursorError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/searches/:id/materialize
+   * Queue a smart collection's index note to be rewritten in the vault
+   */
+  app.post<{ Params: IdParams }>(
+    '/api/v1/searches/:id/materialize',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const saved = savedSearchesService.getSavedSearchById(request.apiKey?.id ?? '', request.params.id);
+
+      if (!saved) {
+        return reply.status(404).send({ error: 'Saved search not found' });
+      }
+
+      if (!saved.is_collection) {
+        return reply.status(400).send({ error: 'Saved search is not a collection' });
+      }
+
+      const items = savedSearchesService.materializeCollection(saved);
+
+      audit('saved_search.materialize', request, 'saved_search', saved.id);
+
+      return reply.send({ id: saved.id, items });
+    }
+  );
+}
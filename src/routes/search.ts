@@ -4,15 +4,33 @@ import { authMiddleware } from '../middleware/auth.js';
 import { validateQuery } from '../middleware/validate.js';
 import { audit } from '../security/audit.js';
 import * as searchService from '../services/search.js';
+import { QueryParseError } from '../services/search-query.js';
+import { getEmbeddingProvider } from '../services/embeddings.js';
+import { getSuggestions } from '../services/term-dictionary.js';
 
 // Validation schemas
+const typesParam = z.string().optional().transform(val => {
+  if (!val) return undefined;
+  const types = val.split(',').filter(t => ['notes', 'artifacts', 'tasks'].includes(t));
+  return types.length > 0 ? types as ('notes' | 'artifacts' | 'tasks')[] : undefined;
+});
+
+// `q` accepts the structured query language, e.g.
+// tag:infra type:task priority:>=HIGH created:>2026-01-01 "exact phrase" -excluded
 const searchQuerySchema = z.object({
   q: z.string().min(1, 'Search query is required').max(200, 'Query too long'),
-  types: z.string().optional().transform(val => {
-    if (!val) return undefined;
-    const types = val.split(',').filter(t => ['notes', 'artifacts', 'tasks'].includes(t));
-    return types.length > 0 ? types as ('notes' | 'artifacts' | 'tasks')[] : undefined;
-  }),
+  types: typesParam,
+  project: z.string().max(100).optional(),
+  sort: z.enum(['relevance', 'newest', 'oldest']).default('relevance'),
+  limit: z.coerce.number().min(1).max(100).default(20),
+  cursor: z.string().max(500).optional()
+});
+
+const semanticQuerySchema = z.object({
+  q: z.string().min(1, 'Search query is required').max(500, 'Query too long'),
+  mode: z.enum(['semantic', 'hybrid']).default('semantic'),
+  semantic_weight: z.coerce.number().min(0).max(1).default(0.5),
+  types: typesParam,
   project: z.string().max(100).optional(),
   limit: z.coerce.number().min(1).max(100).default(20)
 });
@@ -23,6 +41,7 @@ const suggestQuerySchema = z.object({
 });
 
 type SearchQuery = z.infer<typeof searchQuerySchema>;
+type SemanticQuery = z.infer<typeof semanticQuerySchema>;
 type SuggestQuery = z.infer<typeof suggestQuerySchema>;
 
 export async function searchRoutes(app: FastifyInstance): Promise<void> {
@@ -32,22 +51,88 @@ export async function searchRoutes(app: FastifyInstance): Promise<void> {
   /**
    * GET /api/v1/search
    * Search across notes, artifacts, and tasks
+   * Returns facet counts over all matches and a cursor for the next page
    */
   app.get<{ Querystring: SearchQuery }>(
     '/api/v1/search',
     { preHandler: validateQuery(searchQuerySchema) },
     async (request: FastifyRequest<{ Querystring: SearchQuery }>, reply: FastifyReply) => {
-      const results = searchService.search({
-        q: request.query.q,
-        types: request.query.types,
-        project: request.query.project,
-        limit: request.query.limit
-      });
+      let response;
+      try {
+        response = searchService.searchWithFacets({
+          q: request.query.q,
+          types: request.query.types,
+          project: request.query.project,
+          sort: request.query.sort,
+          limit: request.query.limit,
+          cursor: request.query.cursor
+        });
+      } catch (error) {
+        if (error instanceof QueryParseError) {
+          audit('search.query', request, undefined, undefined, 400);
+          return reply.status(400).send({
+            error: 'Invalid search query',
+            details: error.message,
+            position: error.position,
+            token: error.token
+          });
+        }
+        if (error instanceof searchService.InvalidCursorError) {
+          audit('search.query', request, undefined, undefined, 400);
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
 
       audit('search.query', request);
 
       return reply.send({
         query: request.query.q,
+        results: response.results,
+        total: response.total,
+        facets: response.facets,
+        next_cursor: response.next_cursor
+      });
+    }
+  );
+
+  /**
+   * GET /api/v1/search/semantic
+   * Search by embedding similarity; mode=hybrid blends in keyword ranking
+   */
+  app.get<{ Querystring: SemanticQuery }>(
+    '/api/v1/search/semantic',
+    { preHandler: validateQuery(semanticQuerySchema) },
+    async (request: FastifyRequest<{ Querystring: SemanticQuery }>, reply: FastifyReply) => {
+      let results;
+      try {
+        results = await searchService.semanticSearch({
+          q: request.query.q,
+          mode: request.query.mode,
+          semanticWeight: request.query.semantic_weight,
+          types: request.query.types,
+          project: request.query.project,
+          limit: request.query.limit
+        });
+      } catch (error) {
+        if (error instanceof QueryParseError) {
+          audit('search.semantic', request, undefined, undefined, 400);
+          return reply.status(400).send({
+            error: 'Invalid search query',
+            details: error.message,
+            position: error.position,
+            token: error.token
+          });
+        }
+        throw error;
+      }
+
+      audit('search.semantic', request);
+
+      return reply.send({
+        query: request.query.q,
+        mode: request.query.mode,
+        provider: getEmbeddingProvider().name,
         results,
         total: results.length
       });
@@ -56,13 +141,13 @@ export async function searchRoutes(app: FastifyInstance): Promise<void> {
 
   /**
    * GET /api/v1/search/suggest
-   * Get search suggestions
+   * Get typed autocomplete suggestions for the last word of a partial query
    */
   app.get<{ Querystring: SuggestQuery }>(
     '/api/v1/search/suggest',
     { preHandler: validateQuery(suggestQuerySchema) },
     async (request: FastifyRequest<{ Querystring: SuggestQuery }>, reply: FastifyReply) => {
-      const suggestions = searchService.getSuggestions(
+      const suggestions = getSuggestions(
         request.query.q,
         request.query.limit
       );
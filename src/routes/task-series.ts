@@ -0,0 +1,119 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { validateBody, validateQuery, validateParams, schemas } from '../middleware/validate.js';
+import { audit } from '../security/audit.js';
+import * as seriesService from '../services/task-series.js';
+import { spawnNextOccurrence } from '../services/tasks.js';
+import { RecurrenceRuleError } from '../utils/recurrence.js';
+
+// Validation schemas
+const querySeriesSchema = z.object({
+  project: z.string().max(100).optional()
+});
+
+const updateSeriesSchema = z.object({
+  title: z.string().min(1, 'Title is required').max(200, 'Title too long').optional(),
+  description: z.string().max(10000).nullable().optional(),
+  trust_level: z.enum(['THROWAWAY', 'PROTOTYPE', 'MATURE']).optional(),
+  priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'CRITICAL']).optional(),
+  rrule: z.string().min(1).max(200).optional(),
+  paused: z.boolean().optional()
+});
+
+type QuerySeries = z.infer<typeof querySeriesSchema>;
+type UpdateSeriesBody = z.infer<typeof updateSeriesSchema>;
+type IdParams = z.infer<typeof schemas.id>;
+
+export async function taskSeriesRoutes(app: FastifyInstance): Promise<void> {
+  // Apply auth middleware
+  app.addHook('preHandler', authMiddleware);
+
+  /**
+   * GET /api/v1/task-series
+   * List recurring task series
+   */
+  app.get<{ Querystring: QuerySeries }>(
+    '/api/v1/task-series',
+    { preHandler: validateQuery(querySeriesSchema) },
+    async (request: FastifyRequest<{ Querystring: QuerySeries }>, reply: FastifyReply) => {
+      const series = seriesService.listSeries(request.query.project);
+
+      audit('task.series.list', request);
+
+      return reply.send({ series, total: series.length });
+    }
+  );
+
+  /**
+   * GET /api/v1/task-series/:id
+   * Get a series with its occurrences
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/task-series/:id',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const series = seriesService.getSeries(request.params.id);
+
+      if (!series) {
+        return reply.status(404).send({ error: 'Series not found' });
+      }
+
+      audit('task.series.read', request, 'task_series', series.id);
+
+      return reply.send({ ...series, occurrences: seriesService.getSeriesOccurrences(series.id) });
+    }
+  );
+
+  /**
+   * PATCH /api/v1/task-series/:id
+   * Edit a series' template, rule or paused state
+   * Applies to future occurrences; resuming a series with no open occurrence creates the next one
+   */
+  app.patch<{ Params: IdParams; Body: UpdateSeriesBody }>(
+    '/api/v1/task-series/:id',
+    { preHandler: [validateParams(schemas.id), validateBody(updateSeriesSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: UpdateSeriesBody }>, reply: FastifyReply) => {
+      try {
+        const series = seriesService.updateSeries(request.params.id, request.body);
+
+        if (!series) {
+          return reply.status(404).send({ error: 'Series not found' });
+        }
+
+        if (request.body.paused === false) {
+          spawnNextOccurrence(series.id);
+        }
+
+        audit('task.series.update', request, 'task_series', series.id);
+
+        return reply.send(series);
+      } catch (error) {
+        if (error instanceof RecurrenceRuleError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/task-series/:id
+   * Stop a series; its tasks are kept
+   */
+  app.delete<{ Params: IdParams }>(
+    '/api/v1/task-series/:id',
+    { preHandler: validateParams(schemas.id) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const deleted = seriesService.deleteSeries(request.params.id);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Series not found' });
+      }
+
+      audit('task.series.delete', request, 'task_series', request.params.id);
+
+      return reply.send({ deleted: true });
+    }
+  );
+}
@@ -1,9 +1,20 @@
 import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { authMiddleware } from '../middleware/auth.js';
+import { authMiddleware, requireWriteScope } from '../middleware/auth.js';
 import { validateBody, validateQuery, validateParams, schemas } from '../middleware/validate.js';
 import { audit } from '../security/audit.js';
 import * as tasksService from '../services/tasks.js';
+import * as dependencyService from '../services/task-dependencies.js';
+import * as outlineService from '../services/task-outline.js';
+import * as stateService from '../services/task-state.js';
+import * as sequenceService from '../services/project-sequences.js';
+import * as claimsService from '../services/task-claims.js';
+import * as runsService from '../services/task-runs.js';
+import * as policyService from '../services/task-policies.js';
+import * as commentsService from '../services/task-comments.js';
+import { DateParseError } from '../utils/dates.js';
+import { RecurrenceRuleError } from '../utils/recurrence.js';
+import type { Task } from '../types/index.js';
 
 // Validation schemas
 const createTaskSchema = z.object({
@@ -11,19 +22,203 @@ const createTaskSchema = z.object({
   description: z.string().max(10000).optional(),
   project: z.string().min(1).max(100).regex(/^[a-z0-9-]+$/),
   trust_level: z.enum(['THROWAWAY', 'PROTOTYPE', 'MATURE']).optional(),
-  priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'CRITICAL']).optional()
+  priority: z.enum(['LOW', 'NORMAL', 'HIGH', 'CRITICAL']).optional(),
+  // ISO date or natural language such as "tomorrow" or "next fri"
+  due_at: z.string().min(1).max(50).optional(),
+  scheduled_for: z.string().min(1).max(50).optional(),
+  // RRULE subset, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO
+  recurrence: z.string().min(1).max(200).optional()
 });
 
 const queryTasksSchema = z.object({
   project: z.string().max(100).optional(),
-  status: z.enum(['queued', 'active', 'completed', 'cancelled']).optional(),
+  status: z.enum(['queued', 'active', 'blocked', 'review', 'completed', 'cancelled']).optional(),
+  due_before: z.string().min(1).max(50).optional(),
+  overdue: z.enum(['true', 'false']).optional().transform(val => (val === undefined ? undefined : val === 'true')),
+  archived: z.enum(['exclude', 'include', 'only']).optional(),
   limit: z.coerce.number().min(1).max(100).default(20),
   offset: z.coerce.number().min(0).default(0)
 });
 
+const createSubtaskSchema = createTaskSchema.omit({ project: true, recurrence: true });
+
+const updateScheduleSchema = z.object({
+  due_at: z.string().min(1).max(50).nullable().optional(),
+  scheduled_for: z.string().min(1).max(50).nullable().optional()
+}).refine(body => body.due_at !== undefined || body.scheduled_for !== undefined, {
+  message: 'Provide due_at or scheduled_for'
+});
+
+const agendaQuerySchema = z.object({
+  project: z.string().max(100).optional()
+});
+
+const completeTaskQuerySchema = z.object({
+  // Complete even if subtasks are still open
+  force: z.enum(['true', 'false']).optional().transform(val => val === 'true')
+});
+
+const transitionBodySchema = z.object({
+  reason: z.string().max(500).optional()
+}).optional();
+
+const transitionActionSchema = z.object({
+  action: z.enum([
+    'activate', 'requeue', 'block', 'unblock', 'review', 'request_changes', 'complete', 'cancel', 'reopen'
+  ]),
+  reason: z.string().max(500).optional(),
+  force: z.boolean().optional()
+});
+
+const claimBodySchema = z.object({
+  worker: z.string().min(1).max(100).optional(),
+  ttl_seconds: z.number().int().min(10).max(86400).optional()
+}).optional();
+
+const approveTaskSchema = z.object({
+  comment: z.string().max(500).optional()
+}).optional();
+
+const releaseQuerySchema = z.object({
+  worker: z.string().min(1).max(100).optional()
+});
+
+const nextTaskQuerySchema = z.object({
+  project: z.string().max(100).optional(),
+  worker: z.string().min(1).max(100).optional(),
+  ttl_seconds: z.coerce.number().int().min(10).max(86400).optional()
+});
+
+const runFields = {
+  ref: z.string().min(1).max(200).nullable().optional(),
+  log_excerpt: z.string().max(100000).nullable().optional(),
+  artifact_ids: z.array(schemas.id.shape.id).max(50).optional(),
+  outcome: z.enum(['success', 'failed', 'aborted']).optional(),
+  ended_at: z.string().datetime().optional(),
+  complete_task: z.boolean().optional()
+};
+
+const recordRunSchema = z.object({
+  worker: z.string().min(1).max(100).optional(),
+  started_at: z.string().datetime().optional(),
+  ...runFields
+});
+
+const updateRunSchema = z.object(runFields);
+
+const runParamsSchema = schemas.taskId.extend({
+  runId: z.coerce.number().int().min(1)
+});
+
+const addCommentSchema = z.object({
+  body: z.string().min(1, 'Body is required').max(10000, 'Body too long'),
+  source: z.string().min(1).max(100).optional()
+});
+
+const updateCommentSchema = addCommentSchema.pick({ body: true });
+
+const commentParamsSchema = schemas.taskId.extend({
+  commentId: z.coerce.number().int().min(1)
+});
+
+const taskSequenceSchema = z.object({
+  prefix: z.string().min(1).max(20).regex(/^[A-Z][A-Z0-9]*(-[A-Z0-9]+)*$/, 'Prefix must be uppercase letters, digits and hyphens')
+});
+
+const addDependencySchema = z.object({
+  depends_on: schemas.taskId.shape.id
+});
+
+const dependencyParamsSchema = schemas.taskId.extend({
+  dependsOn: schemas.taskId.shape.id
+});
+
+const addChecklistItemSchema = z.object({
+  text: z.string().min(1, 'Text is required').max(500, 'Text too long')
+});
+
+const updateChecklistItemSchema = z.object({
+  text: z.string().min(1).max(500).optional(),
+  checked: z.boolean().optional()
+}).refine(body => body.text !== undefined || body.checked !== undefined, {
+  message: 'Provide text or checked'
+});
+
+const checklistItemParamsSchema = schemas.taskId.extend({
+  itemId: z.coerce.number().int().min(1)
+});
+
 type CreateTaskBody = z.infer<typeof createTaskSchema>;
 type QueryTasksQuery = z.infer<typeof queryTasksSchema>;
-type IdParams = z.infer<typeof schemas.id>;
+type CreateSubtaskBody = z.infer<typeof createSubtaskSchema>;
+type UpdateScheduleBody = z.infer<typeof updateScheduleSchema>;
+type AgendaQuery = z.infer<typeof agendaQuerySchema>;
+type CompleteTaskQuery = z.infer<typeof completeTaskQuerySchema>;
+type TransitionBody = z.infer<typeof transitionBodySchema>;
+type TransitionActionBody = z.infer<typeof transitionActionSchema>;
+type ClaimBody = z.infer<typeof claimBodySchema>;
+type ApproveTaskBody = z.infer<typeof approveTaskSchema>;
+type ReleaseQuery = z.infer<typeof releaseQuerySchema>;
+type NextTaskQuery = z.infer<typeof nextTaskQuerySchema>;
+type RecordRunBody = z.infer<typeof recordRunSchema>;
+type UpdateRunBody = z.infer<typeof updateRunSchema>;
+type RunParams = z.infer<typeof runParamsSchema>;
+type AddCommentBody = z.infer<typeof addCommentSchema>;
+type UpdateCommentBody = z.infer<typeof updateCommentSchema>;
+type CommentParams = z.infer<typeof commentParamsSchema>;
+type IdParams = z.infer<typeof schemas.taskId>;
+type AddChecklistItemBody = z.infer<typeof addChecklistItemSchema>;
+type UpdateChecklistItemBody = z.infer<typeof updateChecklistItemSchema>;
+type ChecklistItemParams = z.infer<typeof checklistItemParamsSchema>;
+type AddDependencyBody = z.infer<typeof addDependencySchema>;
+type DependencyParams = z.infer<typeof dependencyParamsSchema>;
+type ProjectParams = z.infer<typeof schemas.project>;
+type TaskSequenceBody = z.infer<typeof taskSequenceSchema>;
+
+/**
+ * Summarize related tasks for error and warning responses
+ */
+function taskSummary(tasks: Task[]): Array<Pick<Task, 'id' | 'title' | 'status'>> {
+  return tasks.map(({ id, title, status }) => ({ id, title, status }));
+}
+
+/**
+ * Send the 409 for a refused transition or claim; anything else is rethrown
+ */
+function sendTransitionError(error: unknown, reply: FastifyReply): FastifyReply {
+  if (error instanceof stateService.InvalidTransitionError) {
+    return reply.status(409).send({ error: error.message, status: error.from, allowed_actions: error.allowed });
+  }
+  if (error instanceof dependencyService.TaskBlockedError) {
+    return reply.status(409).send({ error: error.message, blocked_by: taskSummary(error.blockers) });
+  }
+  if (error instanceof claimsService.TaskClaimedError) {
+    return reply.status(409).send({
+      error: error.message,
+      claimed_by: { worker: error.lease.worker, expires_at: error.lease.expires_at }
+    });
+  }
+  if (error instanceof claimsService.LeaseNotHeldError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  if (error instanceof policyService.PolicyViolationError) {
+    return reply.status(409).send({
+      error: error.message,
+      trust_level: error.trustLevel,
+      violations: error.violations
+    });
+  }
+  if (error instanceof runsService.RunFinishedError) {
+    return reply.status(409).send({ error: error.message });
+  }
+  if (error instanceof outlineService.OpenSubtasksError) {
+    return reply.status(409).send({
+      error: 'Task has open subtasks; pass force=true to complete it anyway',
+      open_subtasks: taskSummary(error.subtasks)
+    });
+  }
+  throw error;
+}
 
 export async function tasksRoutes(app: FastifyInstance): Promise<void> {
   // Apply auth middleware
@@ -43,13 +238,19 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
           description: request.body.description,
           project: request.body.project,
           trust_level: request.body.trust_level,
-          priority: request.body.priority
-        });
+          priority: request.body.priority,
+          due_at: request.body.due_at,
+          scheduled_for: request.body.scheduled_for,
+          recurrence: request.body.recurrence
+        }, request.apiKey?.id ?? null);
 
         audit('task.create', request, 'task', task.id, 201);
 
         return reply.status(201).send(task);
       } catch (error) {
+        if (error instanceof DateParseError || error instanceof RecurrenceRuleError) {
+          return reply.status(400).send({ error: error.message });
+        }
         const message = error instanceof Error ? error.message : 'Failed to create task';
         return reply.status(500).send({ error: message });
       }
@@ -64,33 +265,88 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
     '/api/v1/tasks',
     { preHandler: validateQuery(queryTasksSchema) },
     async (request: FastifyRequest<{ Querystring: QueryTasksQuery }>, reply: FastifyReply) => {
-      const result = tasksService.listTasks({
-        project: request.query.project,
-        status: request.query.status,
-        limit: request.query.limit,
-        offset: request.query.offset
-      });
+      try {
+        const result = tasksService.listTasks({
+          project: request.query.project,
+          status: request.query.status,
+          due_before: request.query.due_before,
+          overdue: request.query.overdue,
+          archived: request.query.archived,
+          limit: request.query.limit,
+          offset: request.query.offset
+        });
 
-      audit('task.list', request);
+        audit('task.list', request);
 
-      return reply.send({
-        tasks: result.data,
-        total: result.total,
-        limit: result.limit,
-        offset: result.offset
+        return reply.send({
+          tasks: result.data,
+          total: result.total,
+          limit: result.limit,
+          offset: result.offset
+        });
+      } catch (error) {
+        if (error instanceof DateParseError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/tasks/agenda
+   * Open tasks grouped into overdue, today and this week
+   */
+  app.get<{ Querystring: AgendaQuery }>(
+    '/api/v1/tasks/agenda',
+    { preHandler: validateQuery(agendaQuerySchema) },
+    async (request: FastifyRequest<{ Querystring: AgendaQuery }>, reply: FastifyReply) => {
+      const agenda = tasksService.getAgenda(request.query.project);
+
+      audit('task.agenda', request);
+
+      return reply.send(agenda);
+    }
+  );
+
+  /**
+   * GET /api/v1/tasks/next
+   * Claim the highest-priority queued task that is not waiting on blockers
+   * Despite the method this mutates: the task is leased to the caller, so it
+   * requires write scope. Responds 204 when there is nothing to claim
+   */
+  app.get<{ Querystring: NextTaskQuery }>(
+    '/api/v1/tasks/next',
+    { preHandler: validateQuery(nextTaskQuerySchema) },
+    async (request: FastifyRequest<{ Querystring: NextTaskQuery }>, reply: FastifyReply) => {
+      if (!requireWriteScope(request, reply)) {
+        return;
+      }
+
+      const claim = claimsService.claimNextTask(request.query.project, request.apiKey?.id ?? '', {
+        worker: request.query.worker,
+        ttlSeconds: request.query.ttl_seconds
       });
+
+      audit('task.next', request, 'task', claim?.task.id, claim ? 200 : 204);
+
+      if (!claim) {
+        return reply.status(204).send();
+      }
+
+      return reply.send(claim);
     }
   );
 
   /**
    * GET /api/v1/tasks/:id
-   * Get a single task by ID
+   * Get a single task by ID, with its checklist, runs, subtasks, progress, lease and approvals
    */
   app.get<{ Params: IdParams }>(
     '/api/v1/tasks/:id',
-    { preHandler: validateParams(schemas.id) },
+    { preHandler: validateParams(schemas.taskId) },
     async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
-      const task = tasksService.getTaskById(request.params.id);
+      const task = outlineService.getTaskTree(request.params.id);
 
       if (!task) {
         return reply.status(404).send({ error: 'Task not found' });
@@ -98,20 +354,163 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
 
       audit('task.read', request, 'task', task.id);
 
-      return reply.send(task);
+      return reply.send({
+        ...task,
+        lease: claimsService.getLease(task.id),
+        approvals: policyService.listApprovals(task.id)
+      });
+    }
+  );
+
+  /**
+   * PATCH /api/v1/tasks/:id/schedule
+   * Set or clear a task's due and scheduled dates
+   */
+  app.patch<{ Params: IdParams; Body: UpdateScheduleBody }>(
+    '/api/v1/tasks/:id/schedule',
+    { preHandler: [validateParams(schemas.taskId), validateBody(updateScheduleSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: UpdateScheduleBody }>, reply: FastifyReply) => {
+      try {
+        const task = tasksService.updateTaskSchedule(request.params.id, request.body);
+
+        if (!task) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.schedule', request, 'task', task.id);
+
+        return reply.send(task);
+      } catch (error) {
+        if (error instanceof DateParseError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/claim
+   * Claim a task for the calling API key (and worker), activating it
+   * Claiming again renews the caller's own lease; another holder's live lease is a 409
+   */
+  app.post<{ Params: IdParams; Body: ClaimBody }>(
+    '/api/v1/tasks/:id/claim',
+    { preHandler: [validateParams(schemas.taskId), validateBody(claimBodySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: ClaimBody }>, reply: FastifyReply) => {
+      try {
+        const claim = claimsService.claimTask(request.params.id, request.apiKey?.id ?? '', {
+          worker: request.body?.worker,
+          ttlSeconds: request.body?.ttl_seconds
+        });
+
+        if (!claim) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.claim', request, 'task', claim.task.id);
+
+        return reply.send(claim);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/heartbeat
+   * Renew the caller's lease on a task
+   */
+  app.post<{ Params: IdParams; Body: ClaimBody }>(
+    '/api/v1/tasks/:id/heartbeat',
+    { preHandler: [validateParams(schemas.taskId), validateBody(claimBodySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: ClaimBody }>, reply: FastifyReply) => {
+      if (!tasksService.getTaskById(request.params.id)) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      try {
+        const lease = claimsService.heartbeatTask(request.params.id, request.apiKey?.id ?? '', {
+          worker: request.body?.worker,
+          ttlSeconds: request.body?.ttl_seconds
+        });
+
+        audit('task.heartbeat', request, 'task', request.params.id);
+
+        return reply.send(lease);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/tasks/:id/claim
+   * Release the caller's claim and return the task to the queue
+   */
+  app.delete<{ Params: IdParams; Querystring: ReleaseQuery }>(
+    '/api/v1/tasks/:id/claim',
+    { preHandler: [validateParams(schemas.taskId), validateQuery(releaseQuerySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Querystring: ReleaseQuery }>, reply: FastifyReply) => {
+      if (!tasksService.getTaskById(request.params.id)) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      try {
+        const task = claimsService.releaseTask(request.params.id, request.apiKey?.id ?? '', {
+          worker: request.query.worker
+        });
+
+        audit('task.release', request, 'task', request.params.id);
+
+        return reply.send(task);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/approvals
+   * Approve a task as the calling API key, counting towards its policy's required approvals
+   */
+  app.post<{ Params: IdParams; Body: ApproveTaskBody }>(
+    '/api/v1/tasks/:id/approvals',
+    { preHandler: [validateParams(schemas.taskId), validateBody(approveTaskSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: ApproveTaskBody }>, reply: FastifyReply) => {
+      try {
+        const approval = policyService.approveTask(request.params.id, request.apiKey?.id ?? '', request.body?.comment);
+
+        if (!approval) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.approve', request, 'task', request.params.id, 201);
+
+        return reply.status(201).send(approval);
+      } catch (error) {
+        if (error instanceof policyService.ApprovalNotAllowedError) {
+          return reply.status(409).send({ error: error.message, status: error.status });
+        }
+        throw error;
+      }
     }
   );
 
   /**
    * POST /api/v1/tasks/:id/activate
    * Set a task as active
+   * Refused with 409 while blockers are unfinished, unless configured to warn
    */
-  app.post<{ Params: IdParams }>(
+  app.post<{ Params: IdParams; Body: TransitionBody }>(
     '/api/v1/tasks/:id/activate',
-    { preHandler: validateParams(schemas.id) },
-    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+    { preHandler: [validateParams(schemas.taskId), validateBody(transitionBodySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: TransitionBody }>, reply: FastifyReply) => {
       try {
-        const task = tasksService.activateTask(request.params.id);
+        const task = tasksService.activateTask(request.params.id, {
+          actorKeyId: request.apiKey?.id ?? null,
+          reason: request.body?.reason
+        });
 
         if (!task) {
           return reply.status(404).send({ error: 'Task not found' });
@@ -119,10 +518,19 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
 
         audit('task.activate', request, 'task', task.id);
 
+        // Only reachable with unfinished blockers when TASK_BLOCKED_ACTIVATION=warn
+        const blockers = dependencyService.getUnfinishedBlockers(task.id);
+        if (blockers.length > 0) {
+          return reply.send({
+            ...task,
+            warnings: [`Task is blocked by unfinished tasks: ${blockers.map(blocker => blocker.id).join(', ')}`],
+            blocked_by: taskSummary(blockers)
+          });
+        }
+
         return reply.send(task);
       } catch (error) {
-        const message = error instanceof Error ? error.message : 'Failed to activate task';
-        return reply.status(400).send({ error: message });
+        return sendTransitionError(error, reply);
       }
     }
   );
@@ -130,38 +538,570 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
   /**
    * POST /api/v1/tasks/:id/complete
    * Mark a task as completed
+   * Refused with 409 while subtasks are open, unless ?force=true
    */
-  app.post<{ Params: IdParams }>(
+  app.post<{ Params: IdParams; Querystring: CompleteTaskQuery; Body: TransitionBody }>(
     '/api/v1/tasks/:id/complete',
-    { preHandler: validateParams(schemas.id) },
+    {
+      preHandler: [
+        validateParams(schemas.taskId),
+        validateQuery(completeTaskQuerySchema),
+        validateBody(transitionBodySchema)
+      ]
+    },
+    async (
+      request: FastifyRequest<{ Params: IdParams; Querystring: CompleteTaskQuery; Body: TransitionBody }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const task = tasksService.completeTask(request.params.id, {
+          actorKeyId: request.apiKey?.id ?? null,
+          reason: request.body?.reason,
+          force: request.query.force
+        });
+
+        if (!task) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.complete', request, 'task', task.id);
+
+        return reply.send(task);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/cancel
+   * Cancel a task
+   */
+  app.post<{ Params: IdParams; Body: TransitionBody }>(
+    '/api/v1/tasks/:id/cancel',
+    { preHandler: [validateParams(schemas.taskId), validateBody(transitionBodySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: TransitionBody }>, reply: FastifyReply) => {
+      try {
+        const task = tasksService.cancelTask(request.params.id, {
+          actorKeyId: request.apiKey?.id ?? null,
+          reason: request.body?.reason
+        });
+
+        if (!task) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.cancel', request, 'task', task.id);
+
+        return reply.send(task);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/reopen
+   * Put a completed or cancelled task back in the queue
+   */
+  app.post<{ Params: IdParams; Body: TransitionBody }>(
+    '/api/v1/tasks/:id/reopen',
+    { preHandler: [validateParams(schemas.taskId), validateBody(transitionBodySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: TransitionBody }>, reply: FastifyReply) => {
+      try {
+        const task = tasksService.reopenTask(request.params.id, {
+          actorKeyId: request.apiKey?.id ?? null,
+          reason: request.body?.reason
+        });
+
+        if (!task) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.reopen', request, 'task', task.id);
+
+        return reply.send(task);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/transitions
+   * Apply any state machine action, e.g. block, unblock or review
+   */
+  app.post<{ Params: IdParams; Body: TransitionActionBody }>(
+    '/api/v1/tasks/:id/transitions',
+    { preHandler: [validateParams(schemas.taskId), validateBody(transitionActionSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: TransitionActionBody }>, reply: FastifyReply) => {
+      try {
+        const task = tasksService.transitionTask(request.params.id, request.body.action, {
+          actorKeyId: request.apiKey?.id ?? null,
+          reason: request.body.reason,
+          force: request.body.force
+        });
+
+        if (!task) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.transition', request, 'task', task.id);
+
+        return reply.send(task);
+      } catch (error) {
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/tasks/:id/history
+   * List every status transition of a task, oldest first
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/tasks/:id/history',
+    { preHandler: validateParams(schemas.taskId) },
     async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
-      const task = tasksService.completeTask(request.params.id);
+      const task = tasksService.getTaskById(request.params.id);
 
       if (!task) {
         return reply.status(404).send({ error: 'Task not found' });
       }
 
-      audit('task.activate', request, 'task', task.id);
+      const events = stateService.listTaskEvents(task.id);
 
-      return reply.send(task);
+      audit('task.history', request, 'task', task.id);
+
+      return reply.send({
+        task_id: task.id,
+        status: task.status,
+        allowed_actions: stateService.allowedActions(task.status),
+        events,
+        total: events.length
+      });
     }
   );
 
   /**
-   * POST /api/v1/tasks/:id/cancel
-   * Cancel a task
+   * GET /api/v1/tasks/:id/runs
+   * List the runs of a task, oldest first
    */
-  app.post<{ Params: IdParams }>(
-    '/api/v1/tasks/:id/cancel',
-    { preHandler: validateParams(schemas.id) },
+  app.get<{ Params: IdParams }>(
+    '/api/v1/tasks/:id/runs',
+    { preHandler: validateParams(schemas.taskId) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      if (!tasksService.getTaskById(request.params.id)) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      const runs = runsService.listRuns(request.params.id);
+
+      audit('task.runs', request, 'task', request.params.id);
+
+      return reply.send({ task_id: request.params.id, runs, total: runs.length });
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/runs
+   * Start a run, or record a finished one by giving its outcome
+   * With complete_task, a successful latest run completes the task
+   */
+  app.post<{ Params: IdParams; Body: RecordRunBody }>(
+    '/api/v1/tasks/:id/runs',
+    { preHandler: [validateParams(schemas.taskId), validateBody(recordRunSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: RecordRunBody }>, reply: FastifyReply) => {
+      try {
+        const result = runsService.recordRun(request.params.id, request.body, request.apiKey?.id ?? null);
+
+        if (!result) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.run.start', request, 'task', request.params.id, 201);
+
+        return reply.status(201).send(result);
+      } catch (error) {
+        if (error instanceof runsService.UnknownArtifactsError) {
+          return reply.status(400).send({ error: error.message, artifact_ids: error.artifactIds });
+        }
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/v1/tasks/:id/runs/:runId
+   * Finish a run, or add to its log, ref and artifacts
+   */
+  app.patch<{ Params: RunParams; Body: UpdateRunBody }>(
+    '/api/v1/tasks/:id/runs/:runId',
+    { preHandler: [validateParams(runParamsSchema), validateBody(updateRunSchema)] },
+    async (request: FastifyRequest<{ Params: RunParams; Body: UpdateRunBody }>, reply: FastifyReply) => {
+      try {
+        const result = runsService.updateRun(
+          request.params.id,
+          request.params.runId,
+          request.body,
+          request.apiKey?.id ?? null
+        );
+
+        if (!result) {
+          return reply.status(404).send({ error: 'Run not found' });
+        }
+
+        audit('task.run.update', request, 'task', request.params.id);
+
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof runsService.UnknownArtifactsError) {
+          return reply.status(400).send({ error: error.message, artifact_ids: error.artifactIds });
+        }
+        return sendTransitionError(error, reply);
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/tasks/:id/comments
+   * List a task's comments, and comments on other tasks that mention it
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/tasks/:id/comments',
+    { preHandler: validateParams(schemas.taskId) },
     async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
-      const task = tasksService.cancelTask(request.params.id);
+      const task = outlineService.getTaskTree(request.params.id);
 
       if (!task) {
         return reply.status(404).send({ error: 'Task not found' });
       }
 
-      return reply.send(task);
+      audit('task.comments', request, 'task', task.id);
+
+      return reply.send({
+        task_id: task.id,
+        comments: task.comments,
+        mentioned_in: task.mentioned_in,
+        total: task.comments.length
+      });
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/comments
+   * Comment on a task; task IDs in the body are linked to the mentioned tasks
+   */
+  app.post<{ Params: IdParams; Body: AddCommentBody }>(
+    '/api/v1/tasks/:id/comments',
+    { preHandler: [validateParams(schemas.taskId), validateBody(addCommentSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: AddCommentBody }>, reply: FastifyReply) => {
+      const comment = commentsService.addComment(request.params.id, request.body.body, {
+        authorKeyId: request.apiKey?.id ?? null,
+        source: request.body.source
+      });
+
+      if (!comment) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      audit('task.comment.add', request, 'task', request.params.id, 201);
+
+      return reply.status(201).send(comment);
+    }
+  );
+
+  /**
+   * PATCH /api/v1/tasks/:id/comments/:commentId
+   * Edit a comment; only its author can
+   */
+  app.patch<{ Params: CommentParams; Body: UpdateCommentBody }>(
+    '/api/v1/tasks/:id/comments/:commentId',
+    { preHandler: [validateParams(commentParamsSchema), validateBody(updateCommentSchema)] },
+    async (request: FastifyRequest<{ Params: CommentParams; Body: UpdateCommentBody }>, reply: FastifyReply) => {
+      try {
+        const comment = commentsService.updateComment(
+          request.params.id,
+          request.params.commentId,
+          request.body.body,
+          request.apiKey?.id ?? null
+        );
+
+        if (!comment) {
+          return reply.status(404).send({ error: 'Comment not found' });
+        }
+
+        audit('task.comment.update', request, 'task', request.params.id);
+
+        return reply.send(comment);
+      } catch (error) {
+        if (error instanceof commentsService.CommentAuthorError) {
+          return reply.status(403).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/tasks/:id/comments/:commentId
+   * Delete a comment; only its author can
+   */
+  app.delete<{ Params: CommentParams }>(
+    '/api/v1/tasks/:id/comments/:commentId',
+    { preHandler: validateParams(commentParamsSchema) },
+    async (request: FastifyRequest<{ Params: CommentParams }>, reply: FastifyReply) => {
+      try {
+        const deleted = commentsService.deleteComment(
+          request.params.id,
+          request.params.commentId,
+          request.apiKey?.id ?? null
+        );
+
+        if (!deleted) {
+          return reply.status(404).send({ error: 'Comment not found' });
+        }
+
+        audit('task.comment.remove', request, 'task', request.params.id);
+
+        return reply.send({ deleted: true });
+      } catch (error) {
+        if (error instanceof commentsService.CommentAuthorError) {
+          return reply.status(403).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/subtasks
+   * Create a subtask in the parent's project
+   */
+  app.post<{ Params: IdParams; Body: CreateSubtaskBody }>(
+    '/api/v1/tasks/:id/subtasks',
+    { preHandler: [validateParams(schemas.taskId), validateBody(createSubtaskSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: CreateSubtaskBody }>, reply: FastifyReply) => {
+      const parent = tasksService.getTaskById(request.params.id);
+
+      if (!parent) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      try {
+        const task = tasksService.createTask({
+          title: request.body.title,
+          description: request.body.description,
+          project: parent.project,
+          trust_level: request.body.trust_level,
+          priority: request.body.priority,
+          due_at: request.body.due_at,
+          scheduled_for: request.body.scheduled_for,
+          parent_id: parent.id
+        }, request.apiKey?.id ?? null);
+
+        audit('task.create', request, 'task', task.id, 201);
+
+        return reply.status(201).send(task);
+      } catch (error) {
+        if (error instanceof DateParseError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/checklist
+   * Add a checklist item to a task
+   */
+  app.post<{ Params: IdParams; Body: AddChecklistItemBody }>(
+    '/api/v1/tasks/:id/checklist',
+    { preHandler: [validateParams(schemas.taskId), validateBody(addChecklistItemSchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: AddChecklistItemBody }>, reply: FastifyReply) => {
+      const item = outlineService.addChecklistItem(request.params.id, request.body.text);
+
+      if (!item) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      audit('task.checklist.add', request, 'task', request.params.id, 201);
+
+      return reply.status(201).send(item);
+    }
+  );
+
+  /**
+   * PATCH /api/v1/tasks/:id/checklist/:itemId
+   * Edit or check off a checklist item
+   */
+  app.patch<{ Params: ChecklistItemParams; Body: UpdateChecklistItemBody }>(
+    '/api/v1/tasks/:id/checklist/:itemId',
+    { preHandler: [validateParams(checklistItemParamsSchema), validateBody(updateChecklistItemSchema)] },
+    async (request: FastifyRequest<{ Params: ChecklistItemParams; Body: UpdateChecklistItemBody }>, reply: FastifyReply) => {
+      const item = outlineService.updateChecklistItem(request.params.id, request.params.itemId, request.body);
+
+      if (!item) {
+        return reply.status(404).send({ error: 'Checklist item not found' });
+      }
+
+      audit('task.checklist.update', request, 'task', request.params.id);
+
+      return reply.send(item);
+    }
+  );
+
+  /**
+   * DELETE /api/v1/tasks/:id/checklist/:itemId
+   * Remove a checklist item
+   */
+  app.delete<{ Params: ChecklistItemParams }>(
+    '/api/v1/tasks/:id/checklist/:itemId',
+    { preHandler: validateParams(checklistItemParamsSchema) },
+    async (request: FastifyRequest<{ Params: ChecklistItemParams }>, reply: FastifyReply) => {
+      const deleted = outlineService.removeChecklistItem(request.params.id, request.params.itemId);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Checklist item not found' });
+      }
+
+      audit('task.checklist.remove', request, 'task', request.params.id);
+
+      return reply.send({ deleted: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/tasks/:id/dependencies
+   * List the tasks blocking a task and the tasks it blocks
+   */
+  app.get<{ Params: IdParams }>(
+    '/api/v1/tasks/:id/dependencies',
+    { preHandler: validateParams(schemas.taskId) },
+    async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
+      const task = tasksService.getTaskById(request.params.id);
+
+      if (!task) {
+        return reply.status(404).send({ error: 'Task not found' });
+      }
+
+      const blockedBy = dependencyService.getTaskBlockers(task.id);
+
+      audit('task.dependencies', request, 'task', task.id);
+
+      return reply.send({
+        task_id: task.id,
+        blocked: blockedBy.some(blocker => blocker.status !== 'completed' && blocker.status !== 'cancelled'),
+        blocked_by: blockedBy,
+        blocks: dependencyService.getDependentTasks(task.id)
+      });
+    }
+  );
+
+  /**
+   * POST /api/v1/tasks/:id/dependencies
+   * Make a task depend on another task
+   */
+  app.post<{ Params: IdParams; Body: AddDependencyBody }>(
+    '/api/v1/tasks/:id/dependencies',
+    { preHandler: [validateParams(schemas.taskId), validateBody(addDependencySchema)] },
+    async (request: FastifyRequest<{ Params: IdParams; Body: AddDependencyBody }>, reply: FastifyReply) => {
+      try {
+        const dependency = dependencyService.addTaskDependency(request.params.id, request.body.depends_on);
+
+        if (!dependency) {
+          return reply.status(404).send({ error: 'Task not found' });
+        }
+
+        audit('task.dependency.add', request, 'task', request.params.id, 201);
+
+        return reply.status(201).send(dependency);
+      } catch (error) {
+        if (error instanceof dependencyService.DependencyCycleError) {
+          return reply.status(409).send({ error: 'Dependency would create a cycle', cycle: error.cycle });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/v1/tasks/:id/dependencies/:dependsOn
+   * Remove a dependency
+   */
+  app.delete<{ Params: DependencyParams }>(
+    '/api/v1/tasks/:id/dependencies/:dependsOn',
+    { preHandler: validateParams(dependencyParamsSchema) },
+    async (request: FastifyRequest<{ Params: DependencyParams }>, reply: FastifyReply) => {
+      const deleted = dependencyService.removeTaskDependency(request.params.id, request.params.dependsOn);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Dependency not found' });
+      }
+
+      audit('task.dependency.remove', request, 'task', request.params.id);
+
+      return reply.send({ deleted: true });
+    }
+  );
+
+  /**
+   * GET /api/v1/projects/:project/task-graph
+   * Get a project's task dependency graph as JSON and Mermaid
+   */
+  app.get<{ Params: ProjectParams }>(
+    '/api/v1/projects/:project/task-graph',
+    { preHandler: validateParams(schemas.project) },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const graph = dependencyService.getTaskGraph(request.params.project);
+
+      audit('task.graph', request, 'project', request.params.project);
+
+      return reply.send(graph);
+    }
+  );
+
+  /**
+   * GET /api/v1/projects/:project/task-sequence
+   * Get the prefix and next number for a project's task IDs
+   */
+  app.get<{ Params: ProjectParams }>(
+    '/api/v1/projects/:project/task-sequence',
+    { preHandler: validateParams(schemas.project) },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const sequence = sequenceService.getProjectSequence(request.params.project);
+
+      if (!sequence) {
+        return reply.status(404).send({ error: 'Project has no task sequence yet' });
+      }
+
+      audit('task.sequence.read', request, 'project', request.params.project);
+
+      return reply.send(sequence);
+    }
+  );
+
+  /**
+   * PUT /api/v1/projects/:project/task-sequence
+   * Set the prefix for a project's new task IDs
+   */
+  app.put<{ Params: ProjectParams; Body: TaskSequenceBody }>(
+    '/api/v1/projects/:project/task-sequence',
+    { preHandler: [validateParams(schemas.project), validateBody(taskSequenceSchema)] },
+    async (request: FastifyRequest<{ Params: ProjectParams; Body: TaskSequenceBody }>, reply: FastifyReply) => {
+      try {
+        const sequence = sequenceService.setProjectPrefix(request.params.project, request.body.prefix);
+
+        audit('task.sequence.update', request, 'project', request.params.project);
+
+        return reply.send(sequence);
+      } catch (error) {
+        if (error instanceof sequenceService.PrefixTakenError) {
+          return reply.status(409).send({ error: error.message, project: error.project });
+        }
+        throw error;
+      }
     }
   );
 
@@ -171,7 +1111,7 @@ export async function tasksRoutes(app: FastifyInstance): Promise<void> {
    */
   app.delete<{ Params: IdParams }>(
     '/api/v1/tasks/:id',
-    { preHandler: validateParams(schemas.id) },
+    { preHandler: validateParams(schemas.taskId) },
     async (request: FastifyRequest<{ Params: IdParams }>, reply: FastifyReply) => {
       const deleted = tasksService.deleteTask(request.params.id);
 
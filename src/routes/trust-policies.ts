@@ -0,0 +1,88 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware, requireFullScope } from '../middleware/auth.js';
+import { validateBody, validateParams, schemas } from '../middleware/validate.js';
+import { audit } from '../security/audit.js';
+import * as policyService from '../services/task-policies.js';
+
+// Validation schemas
+const policyParamsSchema = schemas.project.extend({
+  level: z.enum(['THROWAWAY', 'PROTOTYPE', 'MATURE'])
+});
+
+const updatePolicySchema = z.object({
+  require_review: z.boolean().optional(),
+  required_approvals: z.number().int().min(0).max(10).optional(),
+  claimant_only: z.boolean().optional(),
+  archive_after_days: z.number().int().min(1).max(3650).nullable().optional()
+});
+
+type ProjectParams = z.infer<typeof schemas.project>;
+type PolicyParams = z.infer<typeof policyParamsSchema>;
+type UpdatePolicyBody = z.infer<typeof updatePolicySchema>;
+
+export async function trustPoliciesRoutes(app: FastifyInstance): Promise<void> {
+  // Apply auth middleware
+  app.addHook('preHandler', authMiddleware);
+
+  /**
+   * GET /api/v1/projects/:project/trust-policies
+   * Get a project's policy for each trust level
+   */
+  app.get<{ Params: ProjectParams }>(
+    '/api/v1/projects/:project/trust-policies',
+    { preHandler: validateParams(schemas.project) },
+    async (request: FastifyRequest<{ Params: ProjectParams }>, reply: FastifyReply) => {
+      const policies = policyService.listTrustPolicies(request.params.project);
+
+      audit('task.policy.list', request, 'project', request.params.project);
+
+      return reply.send({ project: request.params.project, policies });
+    }
+  );
+
+  /**
+   * PUT /api/v1/projects/:project/trust-policies/:level
+   * Change the rules for tasks of a trust level; omitted fields are left unchanged
+   * (admin only - requires full scope)
+   */
+  app.put<{ Params: PolicyParams; Body: UpdatePolicyBody }>(
+    '/api/v1/projects/:project/trust-policies/:level',
+    { preHandler: [validateParams(policyParamsSchema), validateBody(updatePolicySchema)] },
+    async (request: FastifyRequest<{ Params: PolicyParams; Body: UpdatePolicyBody }>, reply: FastifyReply) => {
+      if (!requireFullScope(request, reply)) {
+        return;
+      }
+
+      const policy = policyService.setTrustPolicy(request.params.project, request.params.level, request.body);
+
+      audit('task.policy.update', request, 'project', request.params.project);
+
+      return reply.send(policy);
+    }
+  );
+
+  /**
+   * DELETE /api/v1/projects/:project/trust-policies/:level
+   * Return a trust level to the default policy (admin only - requires full scope)
+   */
+  app.delete<{ Params: PolicyParams }>(
+    '/api/v1/projects/:project/trust-policies/:level',
+    { preHandler: validateParams(policyParamsSchema) },
+    async (request: FastifyRequest<{ Params: PolicyParams }>, reply: FastifyReply) => {
+      if (!requireFullScope(request, reply)) {
+        return;
+      }
+
+      const deleted = policyService.resetTrustPolicy(request.params.project, request.params.level);
+
+      if (!deleted) {
+        return reply.status(404).send({ error: 'Policy not configured' });
+      }
+
+      audit('task.policy.reset', request, 'project', request.params.project);
+
+      return reply.send(policyService.getTrustPolicy(request.params.project, request.params.level));
+    }
+  );
+}
@@ -0,0 +1,173 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { authMiddleware, requireFullScope, requireWriteScope } from '../middleware/auth.js';
+import { validateBody, validateParams, validateQuery } from '../middleware/validate.js';
+import { audit } from '../security/audit.js';
+import * as importService from '../services/vault-import.js';
+import * as conflictService from '../services/vault-conflicts.js';
+import * as reconcileService from '../services/vault-reconcile.js';
+
+// Validation schemas
+const importVaultSchema = z.object({
+  // Relative to the brain folder, e.g. tasks/MYTHRIL-004.md; all files when omitted
+  paths: z.array(z.string().min(1).max(300)).min(1).max(500).optional()
+}).optional();
+
+const conflictsQuerySchema = z.object({
+  status: z.enum(['open', 'resolved', 'all']).default('open')
+});
+
+const conflictParamsSchema = z.object({
+  id: z.coerce.number().int().min(1)
+});
+
+const resolveConflictSchema = z.object({
+  resolution: z.enum(['keep-db', 'keep-vault', 'merged']),
+  // The whole file, frontmatter included; only for merged
+  content: z.string().max(1000000).optional()
+}).refine(body => (body.resolution === 'merged') === (body.content !== undefined), {
+  message: 'content is required for merged and not allowed otherwise',
+  path: ['content']
+});
+
+const reconcileVaultSchema = z.object({
+  dry_run: z.boolean().default(false),
+  orphans: z.enum(['delete', 'trash']).default('trash')
+}).default({});
+
+type ImportVaultBody = z.infer<typeof importVaultSchema>;
+type ReconcileVaultBody = z.infer<typeof reconcileVaultSchema>;
+type ConflictsQuery = z.infer<typeof conflictsQuerySchema>;
+type ConflictParams = z.infer<typeof conflictParamsSchema>;
+type ResolveConflictBody = z.infer<typeof resolveConflictSchema>;
+
+export async function vaultRoutes(app: FastifyInstance): Promise<void> {
+  // Apply auth middleware
+  app.addHook('preHandler', authMiddleware);
+
+  /**
+   * POST /api/v1/vault/import
+   * Apply notes, artifacts and tasks edited in the vault, and create
+   * entities from new files in those folders
+   */
+  app.post<{ Body: ImportVaultBody }>(
+    '/api/v1/vault/import',
+    { preHandler: validateBody(importVaultSchema) },
+    async (request: FastifyRequest<{ Body: ImportVaultBody }>, reply: FastifyReply) => {
+      if (!requireWriteScope(request, reply)) {
+        return;
+      }
+
+      try {
+        const result = importService.importVault(request.body?.paths);
+
+        audit('vault.import', request);
+
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof importService.VaultImportError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * GET /api/v1/vault/conflicts
+   * List files that changed in both the vault and the database since they were synced
+   */
+  app.get<{ Querystring: ConflictsQuery }>(
+    '/api/v1/vault/conflicts',
+    { preHandler: validateQuery(conflictsQuerySchema) },
+    async (request: FastifyRequest<{ Querystring: ConflictsQuery }>, reply: FastifyReply) => {
+      const conflicts = conflictService.listConflicts(request.query.status);
+
+      audit('vault.conflicts', request);
+
+      return reply.send({ conflicts, total: conflicts.length });
+    }
+  );
+
+  /**
+   * GET /api/v1/vault/conflicts/:id
+   * Get a conflict with both versions of the file
+   */
+  app.get<{ Params: ConflictParams }>(
+    '/api/v1/vault/conflicts/:id',
+    { preHandler: validateParams(conflictParamsSchema) },
+    async (request: FastifyRequest<{ Params: ConflictParams }>, reply: FastifyReply) => {
+      const conflict = conflictService.getConflict(request.params.id);
+
+      if (!conflict) {
+        return reply.status(404).send({ error: 'Conflict not found' });
+      }
+
+      audit('vault.conflicts', request, 'vault_conflict', String(conflict.id));
+
+      return reply.send(conflict);
+    }
+  );
+
+  /**
+   * POST /api/v1/vault/conflicts/:id/resolve
+   * Keep the database version, keep the vault version, or write merged content
+   */
+  app.post<{ Params: ConflictParams; Body: ResolveConflictBody }>(
+    '/api/v1/vault/conflicts/:id/resolve',
+    { preHandler: [validateParams(conflictParamsSchema), validateBody(resolveConflictSchema)] },
+    async (request: FastifyRequest<{ Params: ConflictParams; Body: ResolveConflictBody }>, reply: FastifyReply) => {
+      if (!requireWriteScope(request, reply)) {
+        return;
+      }
+
+      try {
+        const result = importService.resolveConflict(request.params.id, request.body.resolution, request.body.content);
+
+        if (!result) {
+          return reply.status(404).send({ error: 'Conflict not found' });
+        }
+
+        audit('vault.conflict.resolve', request, 'vault_conflict', String(result.conflict.id));
+
+        return reply.send(result);
+      } catch (error) {
+        if (error instanceof importService.VaultConflictResolvedError) {
+          return reply.status(409).send({ error: error.message, resolution: error.conflict.resolution });
+        }
+        if (error instanceof importService.VaultImportError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+
+  /**
+   * POST /api/v1/vault/reconcile
+   * Rewrite missing and stale vault files from the database and remove
+   * orphaned ones (admin only - requires full scope)
+   */
+  app.post<{ Body: ReconcileVaultBody }>(
+    '/api/v1/vault/reconcile',
+    { preHandler: validateBody(reconcileVaultSchema) },
+    async (request: FastifyRequest<{ Body: ReconcileVaultBody }>, reply: FastifyReply) => {
+      if (!requireFullScope(request, reply)) {
+        return;
+      }
+
+      try {
+        const report = reconcileService.reconcileVault(request.body);
+
+        audit('vault.reconcile', request);
+
+        return reply.send(report);
+      } catch (error) {
+        if (error instanceof reconcileService.VaultReconcileError) {
+          return reply.status(400).send({ error: error.message });
+        }
+        throw error;
+      }
+    }
+  );
+}
@@ -0,0 +1,35 @@
+import { initDb } from '../db/client.js';
+import { scanSanitizationDamage, recordContentFlags } from '../services/content-integrity.js';
+
+async function main(): Promise<void> {
+  // Initialize database
+  initDb();
+
+  const args = process.argv.slice(2);
+  const flags = scanSanitizationDamage();
+
+  console.log('\nContent possibly damaged by the previous sanitizer:');
+  console.log('─'.repeat(80));
+
+  if (flags.length === 0) {
+    console.log('No suspect rows found.');
+  } else {
+    for (const flag of flags) {
+      console.log(`${flag.entity_type} ${flag.entity_id} - ${flag.reason}`);
+      console.log(`   ${flag.excerpt ?? ''}`);
+      console.log('');
+    }
+  }
+
+  if (args.includes('--flag')) {
+    const added = recordContentFlags(flags);
+    console.log(`Recorded ${added} new flag(s) in content_flags.`);
+  } else if (flags.length > 0) {
+    console.log('Run with --flag to record these in the content_flags table.');
+  }
+}
+
+main().catch(err => {
+  console.error('Error:', err);
+  process.exit(1);
+});
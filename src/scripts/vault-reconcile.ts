@@ -0,0 +1,43 @@
+import { initDb } from '../db/client.js';
+import { reconcileVault } from '../services/vault-reconcile.js';
+
+async function main(): Promise<void> {
+  // Initialize database
+  initDb();
+
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const report = reconcileVault({
+    dry_run: dryRun,
+    orphans: args.includes('--delete-orphans') ? 'delete' : 'trash'
+  });
+
+  console.log(`\nVault reconciliation${dryRun ? ' (dry run)' : ''}:`);
+  console.log('─'.repeat(80));
+
+  if (report.items.length === 0) {
+    console.log('Vault is in sync.');
+  } else {
+    for (const item of report.items) {
+      console.log(`${item.action.padEnd(8)} ${item.path} - ${item.reason}${item.error ? ` (failed: ${item.error})` : ''}`);
+    }
+  }
+
+  console.log('');
+  console.log(
+    `${report.created} created, ${report.updated} updated, ${report.moved} moved, ${report.removed} removed, ` +
+    `${report.conflicts} conflicts, ${report.skipped} skipped, ${report.failed} failed, ${report.unchanged} unchanged`
+  );
+
+  if (dryRun && report.items.some(item => item.action !== 'skip')) {
+    console.log('Run without --dry-run to apply these changes.');
+  }
+  if (report.failed > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch(err => {
+  console.error('Error:', err);
+  process.exit(1);
+});
@@ -11,11 +11,18 @@ export type AuditAction =
   | 'note.create'
   | 'note.read'
   | 'note.list'
+  | 'note.update'
   | 'note.delete'
+  | 'note.revisions'
+  | 'note.diff'
+  | 'note.restore'
   | 'artifact.create'
   | 'artifact.read'
   | 'artifact.list'
   | 'artifact.update'
+  | 'artifact.patch'
+  | 'artifact.versions'
+  | 'artifact.diff'
   | 'artifact.delete'
   | 'context.read'
   | 'context.update'
@@ -23,8 +30,56 @@ export type AuditAction =
   | 'task.read'
   | 'task.list'
   | 'task.activate'
+  | 'task.complete'
+  | 'task.cancel'
+  | 'task.reopen'
+  | 'task.transition'
+  | 'task.history'
+  | 'task.schedule'
+  | 'task.agenda'
+  | 'task.claim'
+  | 'task.heartbeat'
+  | 'task.release'
+  | 'task.next'
+  | 'task.runs'
+  | 'task.run.start'
+  | 'task.run.update'
+  | 'task.approve'
+  | 'task.comments'
+  | 'task.comment.add'
+  | 'task.comment.update'
+  | 'task.comment.remove'
+  | 'task.policy.list'
+  | 'task.policy.update'
+  | 'task.policy.reset'
+  | 'task.series.list'
+  | 'task.series.read'
+  | 'task.series.update'
+  | 'task.series.delete'
+  | 'parallel.session.create'
+  | 'parallel.session.list'
+  | 'parallel.session.read'
+  | 'parallel.session.end'
+  | 'parallel.session.render'
+  | 'parallel.instance.add'
+  | 'parallel.instance.update'
+  | 'parallel.instance.remove'
+  | 'parallel.files.claim'
+  | 'parallel.files.release'
+  | 'parallel.conflicts'
+  | 'parallel.owners'
   | 'task.delete'
+  | 'task.dependencies'
+  | 'task.dependency.add'
+  | 'task.dependency.remove'
+  | 'task.graph'
+  | 'task.sequence.read'
+  | 'task.sequence.update'
+  | 'task.checklist.add'
+  | 'task.checklist.update'
+  | 'task.checklist.remove'
   | 'search.query'
+  | 'search.semantic'
   | 'rate_limit.exceeded'
   | 'feedback.create'
   | 'feedback.list'
@@ -34,7 +89,18 @@ export type AuditAction =
   | 'user.resubscribe'
   | 'user.resubscribe.already'
   | 'user.delete_data'
-  | 'user.check_subscription';
+  | 'user.check_subscription'
+  | 'saved_search.create'
+  | 'saved_search.list'
+  | 'saved_search.read'
+  | 'saved_search.update'
+  | 'saved_search.delete'
+  | 'saved_search.run'
+  | 'saved_search.materialize'
+  | 'vault.import'
+  | 'vault.conflicts'
+  | 'vault.conflict.resolve'
+  | 'vault.reconcile';
 
 /**
  * Log an audit event
@@ -10,6 +10,38 @@ const SQL_INJECTION_PATTERNS = [
   /(\bOR\b|\bAND\b)\s*\d+\s*=\s*\d+/gi
 ];
 
+export type ContentType = 'code' | 'markdown' | 'json';
+
+// Elements removed together with everything inside them
+const DROPPED_ELEMENTS = [
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'noscript', 'template', 'textarea', 'select', 'svg', 'math'
+];
+
+// Elements kept in markdown; any other tag is removed but its text is kept
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'dd', 'del', 'details', 'div', 'dl', 'dt',
+  'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'mark',
+  'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'summary', 'sup', 'table', 'tbody', 'td',
+  'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['title', 'class'],
+  a: ['href', 'name'],
+  img: ['src', 'alt', 'width', 'height'],
+  ol: ['start'],
+  td: ['colspan', 'rowspan', 'align'],
+  th: ['colspan', 'rowspan', 'align'],
+  details: ['open']
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src']);
+const SAFE_URL_SCHEMES = new Set(['http', 'https', 'mailto', 'obsidian']);
+
+const HTML_TAG = /<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+const HTML_ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
 // HTML/Script injection patterns
 const XSS_PATTERNS = [
   /<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi,
@@ -87,6 +119,114 @@ export function escapeHtml(input: string): string {
   return input.replace(/[&<>"'`=/]/g, char => htmlEntities[char] ?? char);
 }
 
+/**
+ * Escape the characters that start HTML markup
+ * For text interpolated into rendered markdown, where quotes and slashes are harmless
+ */
+export function escapeHtmlText(input: string): string {
+  return input.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Reverse escapeHtmlText, e.g. for titles read back from vault markdown
+ */
+export function unescapeHtmlText(input: string): string {
+  return input.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/**
+ * Check whether a URL is safe to keep in a link or image
+ * Relative URLs and fragments are allowed; absolute URLs need an allowlisted scheme.
+ */
+export function isSafeUrl(url: string, allowDataImages: boolean = false): boolean {
+  // Browsers ignore control characters and whitespace inside schemes
+  const decoded = Array.from(decodeHtmlEntities(url))
+    .filter(char => char.charCodeAt(0) > 0x20 && char.charCodeAt(0) !== 0x7f)
+    .join('');
+  const scheme = /^([a-zA-Z][a-zA-Z0-9+.-]*):/.exec(decoded)?.[1]?.toLowerCase();
+
+  if (!scheme) {
+    return true;
+  }
+  if (allowDataImages && scheme === 'data') {
+    return /^data:image\/(png|gif|jpe?g|webp);/i.test(decoded);
+  }
+  return SAFE_URL_SCHEMES.has(scheme);
+}
+
+/**
+ * Sanitize HTML against an allowlist of tags, attributes and URL schemes
+ * Dangerous elements are dropped with their content; other unknown tags are
+ * unwrapped so their text survives.
+ */
+export function sanitizeHtml(input: string): string {
+  if (typeof input !== 'string') {
+    return '';
+  }
+
+  let html = input.replace(/<!--[\s\S]*?(?:-->|$)/g, '');
+
+  for (const element of DROPPED_ELEMENTS) {
+    html = html
+      .replace(new RegExp(`<${element}\\b(?:"[^"]*"|'[^']*'|[^'">])*>[\\s\\S]*?<\\/${element}\\s*>`, 'gi'), '')
+      .replace(new RegExp(`<\\/?${element}\\b(?:"[^"]*"|'[^']*'|[^'">])*>`, 'gi'), '');
+  }
+
+  return html.replace(HTML_TAG, (_match, closing: string, name: string, attributes: string) => {
+    const tag = name.toLowerCase();
+    if (!ALLOWED_TAGS.has(tag)) {
+      return '';
+    }
+    if (closing) {
+      return `</${tag}>`;
+    }
+    const selfClosing = /\/\s*$/.test(attributes);
+    return `<${tag}${sanitizeAttributes(tag, attributes)}${selfClosing ? ' /' : ''}>`;
+  });
+}
+
+/**
+ * Sanitize markdown by running the HTML sanitizer over prose only
+ * Fenced code blocks and inline code spans render as literal text, so they are
+ * kept verbatim. Link and image targets with unsafe schemes are neutralized.
+ */
+export function sanitizeMarkdown(input: string): string {
+  if (typeof input !== 'string') {
+    return '';
+  }
+
+  const output: string[] = [];
+  let prose: string[] = [];
+  let fence: string | null = null;
+
+  const flushProse = (): void => {
+    if (prose.length > 0) {
+      output.push(sanitizeProse(prose.join('\n')));
+      prose = [];
+    }
+  };
+
+  for (const line of input.split('\n')) {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+
+    if (fence) {
+      output.push(line);
+      if (marker && marker.charAt(0) === fence.charAt(0) && marker.length >= fence.length && line.trim() === marker) {
+        fence = null;
+      }
+    } else if (marker) {
+      flushProse();
+      output.push(line);
+      fence = marker;
+    } else {
+      prose.push(line);
+    }
+  }
+  flushProse();
+
+  return output.join('\n');
+}
+
 /**
  * Sanitize a project name (alphanumeric, hyphens, underscores only)
  */
@@ -130,22 +270,23 @@ export function truncate(input: string, maxLength: number): string {
 
 /**
  * Validate and sanitize content (notes, artifacts)
- * Allows markdown but strips dangerous HTML
+ * Code and JSON are stored byte-for-byte; markdown goes through the allowlist
+ * sanitizer. Escaping for display happens where content is rendered.
  */
-export function sanitizeContent(input: string, maxLength: number = 50000): string {
+export function sanitizeContent(
+  input: string,
+  maxLength: number = 50000,
+  contentType: ContentType = 'markdown'
+): string {
   if (typeof input !== 'string') {
     return '';
   }
 
-  // Strip script and iframe tags but preserve other content
-  let sanitized = input
-    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-    .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-    .replace(/javascript:/gi, '')
-    .replace(/on\w+\s*=/gi, '');
+  if (contentType === 'code' || contentType === 'json') {
+    return truncate(input, maxLength);
+  }
 
-  // Truncate if too long
-  return truncate(sanitized, maxLength);
+  return truncate(sanitizeMarkdown(input), maxLength);
 }
 
 /**
@@ -158,3 +299,51 @@ export function isValidId(input: string): boolean {
 
   return /^[a-zA-Z0-9_-]+$/.test(input) && input.length >= 1 && input.length <= 100;
 }
+
+function sanitizeProse(text: string): string {
+  // Inline code spans are literal text; only sanitize between them
+  return text
+    .split(/(`+[^`]*?`+)/)
+    .map((part, index) => index % 2 === 1 ? part : sanitizeMarkdownLinks(sanitizeHtml(part)))
+    .join('');
+}
+
+function sanitizeMarkdownLinks(text: string): string {
+  return text.replace(/(!?)\[([^\]]*)\]\(\s*<?((?:[^()\s>]|\([^()\s]*\))*)>?([^)]*)\)/g, (match, bang: string, label: string, url: string, rest: string) =>
+    isSafeUrl(url, bang === '!') ? match : `${bang}[${label}](#${rest})`
+  );
+}
+
+function sanitizeAttributes(tag: string, attributes: string): string {
+  const allowed = [...(ALLOWED_ATTRIBUTES['*'] ?? []), ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+  const kept: string[] = [];
+
+  for (const match of attributes.matchAll(HTML_ATTRIBUTE)) {
+    const name = (match[1] ?? '').toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4] ?? '';
+
+    if (!allowed.includes(name)) {
+      continue;
+    }
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value, tag === 'img')) {
+      continue;
+    }
+
+    kept.push(` ${name}="${value.replace(/"/g, '&quot;')}"`);
+  }
+
+  return kept.join('');
+}
+
+function decodeHtmlEntities(input: string): string {
+  return input
+    .replace(/&#x([0-9a-f]+);?/gi, (_match, hex: string) => fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);?/g, (_match, dec: string) => fromCodePoint(parseInt(dec, 10)))
+    .replace(/&colon;/gi, ':')
+    .replace(/&tab;/gi, '\t')
+    .replace(/&newline;/gi, '\n');
+}
+
+function fromCodePoint(codePoint: number): string {
+  return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '';
+}
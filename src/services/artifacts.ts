@@ -1,9 +1,18 @@
 import { nanoid } from 'nanoid';
 import { getDb } from '../db/client.js';
-import type { Artifact, CreateArtifactInput, UpdateArtifactInput, PaginatedResponse } from '../types/index.js';
+import type {
+  Artifact,
+  ArtifactVersion,
+  ArtifactVersionDiff,
+  CreateArtifactInput,
+  UpdateArtifactInput,
+  PaginatedResponse
+} from '../types/index.js';
 import { sanitizeContent, sanitizeProjectName, truncate } from '../security/sanitize.js';
-import { syncArtifactToVault, deleteArtifactFromVault } from './vault-sync.js';
-import logger from '../utils/logger.js';
+import { toMatchQuery } from './search.js';
+import { scheduleEmbedding, artifactEmbeddingText } from './embeddings.js';
+import { indexArtifactTerms } from './term-dictionary.js';
+import { applyPatch, diffLines, diffStats, formatUnifiedDiff, type PatchConflict } from '../utils/diff.js';
 
 interface ArtifactListQuery {
   project?: string;
@@ -13,37 +22,47 @@ interface ArtifactListQuery {
   search?: string;
 }
 
+export type ArtifactVersionSummary = Omit<ArtifactVersion, 'content'> & { size: number };
+
+export type PatchArtifactResult =
+  | { applied: true; artifact: Artifact; version: number }
+  | { applied: false; conflicts: PatchConflict[] };
+
+type ArtifactState = Pick<Artifact, 'title' | 'content' | 'content_type' | 'language' | 'project'>;
+
 /**
  * Create a new artifact
+ * The initial content is recorded as version 1.
  */
-export function createArtifact(input: CreateArtifactInput): Artifact {
+export function createArtifact(input: CreateArtifactInput, editorKeyId: string | null = null): Artifact {
   const db = getDb();
   const id = `artifact_${nanoid(12)}`;
   const now = new Date().toISOString();
 
   const title = truncate(input.title, 200);
-  const content = sanitizeContent(input.content, 500000); // Allow larger content for code
   const contentType = input.content_type;
+  const content = sanitizeContent(input.content, 500000, contentType); // Allow larger content for code
   const language = input.language ? truncate(input.language, 50) : null;
   const project = input.project ? sanitizeProjectName(input.project) : null;
   const source = input.source ?? 'api';
 
-  db.prepare(`
-    INSERT INTO artifacts (id, title, content, content_type, language, project, source, created_at)
-    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-  `).run(id, title, content, contentType, language, project, source, now);
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO artifacts (id, title, content, content_type, language, project, source, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(id, title, content, contentType, language, project, source, now);
+
+    insertVersion(id, { title, content, content_type: contentType, language, project }, editorKeyId, now);
+  })();
 
   const artifact = getArtifactById(id);
   if (!artifact) {
     throw new Error('Failed to create artifact');
   }
 
-  // Sync to vault
-  try {
-    syncArtifactToVault(artifact);
-  } catch (error) {
-    logger.warn('Failed to sync artifact to vault', { artifactId: id, error });
-  }
+  // The vault file is written by the sync worker; the insert queued it
+  indexArtifactTerms(artifact);
+  scheduleEmbedding('artifact', artifact.id, artifactEmbeddingText(artifact));
 
   return artifact;
 }
@@ -67,34 +86,43 @@ export function listArtifacts(query: ArtifactListQuery): PaginatedResponse<Artif
   const db = getDb();
   const { project, content_type, limit = 20, offset = 0, search } = query;
 
-  let sql = 'SELECT * FROM artifacts WHERE 1=1';
-  let countSql = 'SELECT COUNT(*) as total FROM artifacts WHERE 1=1';
+  let sql = 'SELECT artifacts.* FROM artifacts';
+  let countSql = 'SELECT COUNT(*) as total FROM artifacts';
   const params: (string | number)[] = [];
   const countParams: (string | number)[] = [];
 
+  const matchQuery = search ? toMatchQuery(search) : null;
+
+  if (matchQuery) {
+    sql += ' JOIN artifacts_fts ON artifacts_fts.rowid = artifacts.rowid WHERE artifacts_fts MATCH ?';
+    countSql += ' JOIN artifacts_fts ON artifacts_fts.rowid = artifacts.rowid WHERE artifacts_fts MATCH ?';
+    params.push(matchQuery);
+    countParams.push(matchQuery);
+  } else if (search) {
+    // Nothing searchable in the query (e.g. only punctuation)
+    return { data: [], total: 0, limit, offset };
+  } else {
+    sql += ' WHERE 1=1';
+    countSql += ' WHERE 1=1';
+  }
+
   if (project) {
-    sql += ' AND project = ?';
-    countSql += ' AND project = ?';
+    sql += ' AND artifacts.project = ?';
+    countSql += ' AND artifacts.project = ?';
     params.push(project);
     countParams.push(project);
   }
 
   if (content_type) {
-    sql += ' AND content_type = ?';
-    countSql += ' AND content_type = ?';
+    sql += ' AND artifacts.content_type = ?';
+    countSql += ' AND artifacts.content_type = ?';
     params.push(content_type);
     countParams.push(content_type);
   }
 
-  if (search) {
-    sql += ' AND (title LIKE ? OR content LIKE ?)';
-    countSql += ' AND (title LIKE ? OR content LIKE ?)';
-    const searchPattern = `%${search}%`;
-    params.push(searchPattern, searchPattern);
-    countParams.push(searchPattern, searchPattern);
-  }
-
-  sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  sql += matchQuery
+    ? ' ORDER BY bm25(artifacts_fts, 2.0, 1.0), artifacts.created_at DESC LIMIT ? OFFSET ?'
+    : ' ORDER BY artifacts.created_at DESC LIMIT ? OFFSET ?';
   params.push(limit, offset);
 
   const artifacts = db.prepare(sql).all(...params) as Artifact[];
@@ -109,10 +137,14 @@ export function listArtifacts(query: ArtifactListQuery): PaginatedResponse<Artif
 }
 
 /**
- * Update an artifact
+ * Update an artifact, recording the new state as the next version
+ * Updates that change nothing return the artifact untouched.
  */
-export function updateArtifact(id: string, updates: UpdateArtifactInput): Artifact | null {
-  const db = getDb();
+export function updateArtifact(
+  id: string,
+  updates: UpdateArtifactInput,
+  editorKeyId: string | null = null
+): Artifact | null {
   const existing = getArtifactById(id);
 
   if (!existing) {
@@ -120,32 +152,19 @@ export function updateArtifact(id: string, updates: UpdateArtifactInput): Artifa
   }
 
   const title = updates.title !== undefined ? truncate(updates.title, 200) : existing.title;
-  const content = updates.content !== undefined ? sanitizeContent(updates.content, 500000) : existing.content;
   const contentType = updates.content_type ?? existing.content_type;
+  // Re-sanitize when the policy changes too, e.g. code converted to markdown
+  const content = updates.content !== undefined || contentType !== existing.content_type
+    ? sanitizeContent(updates.content ?? existing.content, 500000, contentType)
+    : existing.content;
   const language = updates.language !== undefined
     ? (updates.language ? truncate(updates.language, 50) : null)
     : existing.language;
   const project = updates.project !== undefined
     ? (updates.project ? sanitizeProjectName(updates.project) : null)
     : existing.project;
-  const now = new Date().toISOString();
-
-  db.prepare(`
-    UPDATE artifacts
-    SET title = ?, content = ?, content_type = ?, language = ?, project = ?, updated_at = ?
-    WHERE id = ?
-  `).run(title, content, contentType, language, project, now, id);
-
-  const updated = getArtifactById(id);
-  if (updated) {
-    try {
-      syncArtifactToVault(updated);
-    } catch (error) {
-      logger.warn('Failed to sync artifact to vault', { artifactId: id, error });
-    }
-  }
 
-  return updated;
+  return saveVersion(existing, { title, content, content_type: contentType, language, project }, editorKeyId);
 }
 
 /**
@@ -153,25 +172,174 @@ export function updateArtifact(id: string, updates: UpdateArtifactInput): Artifa
  */
 export function deleteArtifact(id: string): boolean {
   const db = getDb();
-  const artifact = getArtifactById(id);
+  const result = db.prepare(`
+    DELETE FROM artifacts WHERE id = ?
+  `).run(id);
+
+  return result.changes > 0;
+}
+
+/**
+ * Get the current version number of an artifact
+ */
+export function getCurrentVersion(artifactId: string): number | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT MAX(version) as version FROM artifact_versions WHERE artifact_id = ?
+  `).get(artifactId) as { version: number | null };
+
+  return result.version;
+}
+
+/**
+ * List the versions of an artifact, newest first, without their content
+ */
+export function listArtifactVersions(artifactId: string): ArtifactVersionSummary[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT artifact_id, version, title, content_type, language, project, editor_key_id, created_at,
+      LENGTH(content) as size
+    FROM artifact_versions
+    WHERE artifact_id = ?
+    ORDER BY version DESC
+  `).all(artifactId) as ArtifactVersionSummary[];
+}
+
+/**
+ * Get a single version of an artifact
+ */
+export function getArtifactVersion(artifactId: string, version: number): ArtifactVersion | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM artifact_versions WHERE artifact_id = ? AND version = ?
+  `).get(artifactId, version) as ArtifactVersion | undefined;
+
+  return result ?? null;
+}
+
+/**
+ * Diff the content of two versions of an artifact
+ * Returns null if either version does not exist
+ */
+export function diffArtifactVersions(artifactId: string, from: number, to: number): ArtifactVersionDiff | null {
+  const fromVersion = getArtifactVersion(artifactId, from);
+  const toVersion = getArtifactVersion(artifactId, to);
+
+  if (!fromVersion || !toVersion) {
+    return null;
+  }
+
+  const lines = diffLines(fromVersion.content, toVersion.content);
+
+  return {
+    artifact_id: artifactId,
+    from,
+    to,
+    diff: formatUnifiedDiff(lines, {
+      fromLabel: `${artifactId}@${from}`,
+      toLabel: `${artifactId}@${to}`
+    }),
+    ...diffStats(lines)
+  };
+}
+
+/**
+ * Apply a unified diff to an artifact's current content
+ * Nothing is written if any hunk fails to apply.
+ * Returns null if the artifact does not exist; throws PatchParseError for malformed patches
+ */
+export function patchArtifact(
+  id: string,
+  patch: string,
+  editorKeyId: string | null = null
+): PatchArtifactResult | null {
+  const existing = getArtifactById(id);
+
+  if (!existing) {
+    return null;
+  }
+
+  const result = applyPatch(existing.content, patch);
+
+  if (!result.applied) {
+    return { applied: false, conflicts: result.conflicts };
+  }
+
+  const artifact = saveVersion(existing, {
+    title: existing.title,
+    content: sanitizeContent(result.content, 500000, existing.content_type),
+    content_type: existing.content_type,
+    language: existing.language,
+    project: existing.project
+  }, editorKeyId);
 
   if (!artifact) {
-    return false;
+    return null;
   }
 
-  const result = db.prepare(`
-    DELETE FROM artifacts WHERE id = ?
-  `).run(id);
+  return { applied: true, artifact, version: getCurrentVersion(id) ?? 1 };
+}
+
+/**
+ * Write a new state of an artifact and record it as the next version
+ */
+function saveVersion(existing: Artifact, state: ArtifactState, editorKeyId: string | null): Artifact | null {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const unchanged = state.title === existing.title &&
+    state.content === existing.content &&
+    state.content_type === existing.content_type &&
+    state.language === existing.language &&
+    state.project === existing.project;
 
-  if (result.changes > 0) {
-    try {
-      deleteArtifactFromVault(artifact);
-    } catch (error) {
-      logger.warn('Failed to delete artifact from vault', { artifactId: id, error });
-    }
+  if (unchanged) {
+    return existing;
   }
 
-  return result.changes > 0;
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE artifacts
+      SET title = ?, content = ?, content_type = ?, language = ?, project = ?, updated_at = ?
+      WHERE id = ?
+    `).run(state.title, state.content, state.content_type, state.language, state.project, now, existing.id);
+
+    insertVersion(existing.id, state, editorKeyId, now);
+  })();
+
+  const updated = getArtifactById(existing.id);
+  if (updated) {
+    indexArtifactTerms(updated);
+    scheduleEmbedding('artifact', updated.id, artifactEmbeddingText(updated));
+  }
+
+  return updated;
+}
+
+function insertVersion(
+  artifactId: string,
+  state: ArtifactState,
+  editorKeyId: string | null,
+  createdAt: string
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO artifact_versions (
+      artifact_id, version, title, content, content_type, language, project, editor_key_id, created_at
+    )
+    SELECT ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ?, ?
+    FROM artifact_versions WHERE artifact_id = ?
+  `).run(
+    artifactId,
+    state.title,
+    state.content,
+    state.content_type,
+    state.language,
+    state.project,
+    editorKeyId,
+    createdAt,
+    artifactId
+  );
 }
 
 /**
@@ -0,0 +1,151 @@
+import { getDb } from '../db/client.js';
+import type { ContentFlag } from '../types/index.js';
+
+interface DamagePattern {
+  reason: ContentFlag['reason'];
+  pattern: RegExp;
+}
+
+interface ScannedRow {
+  id: string;
+  content: string | null;
+  content_type?: string;
+}
+
+const EXCERPT_RADIUS = 40;
+
+/**
+ * Shapes left behind when `on\w+\s*=` or `javascript:` was removed from code
+ * These only make sense in code, so markdown is scanned inside fenced blocks only.
+ */
+const DAMAGE_PATTERNS: DamagePattern[] = [
+  // `const connection = db` became `const c db`
+  {
+    reason: 'missing_assignment',
+    pattern: /\b(?:const|let|var)\s+[A-Za-z_$][\w$]*\s+(?!of\b|in\b)[\w$'"([{]/
+  },
+  // `el.onclick = () => {}` became `el.() => {}`
+  { reason: 'missing_assignment', pattern: /\.\s*(?:function\b|\([^()]*\)\s*=>)/ },
+  // `<button onClick={go}>` became `<button {go}>`
+  {
+    reason: 'orphaned_attribute_value',
+    pattern: /<[A-Za-z][\w.:-]*(?:\s+[\w:.-]+(?:=(?:"[^"]*"|'[^']*'|\{[^{}]*\}|[^\s>"'{]+))?)*\s+(?:"[^"]*"|'[^']*'|\{(?!\.\.\.)[^{}]*\})/
+  },
+  // `href="javascript:void(0)"` became `href="void(0)"`
+  { reason: 'stripped_javascript_url', pattern: /\b(?:href|src|action)\s*=\s*["']\s*void\s*\(/i }
+];
+
+/**
+ * Scan stored content for signs of damage by the original sanitizer
+ */
+export function scanSanitizationDamage(): ContentFlag[] {
+  const db = getDb();
+  const flags: ContentFlag[] = [];
+
+  const artifacts = db.prepare('SELECT id, content, content_type FROM artifacts').all() as ScannedRow[];
+  for (const artifact of artifacts) {
+    const content = artifact.content ?? '';
+
+    if (artifact.content_type === 'json' && !isValidJson(content)) {
+      flags.push({ entity_type: 'artifact', entity_id: artifact.id, reason: 'invalid_json', excerpt: content.slice(0, 80) });
+    }
+
+    const code = artifact.content_type === 'markdown' ? fencedCode(content) : [content];
+    flags.push(...detectDamage('artifact', artifact.id, code));
+  }
+
+  const notes = db.prepare('SELECT id, content FROM notes').all() as ScannedRow[];
+  for (const note of notes) {
+    flags.push(...detectDamage('note', note.id, fencedCode(note.content ?? '')));
+  }
+
+  const tasks = db.prepare('SELECT id, description as content FROM tasks').all() as ScannedRow[];
+  for (const task of tasks) {
+    flags.push(...detectDamage('task', task.id, fencedCode(task.content ?? '')));
+  }
+
+  return flags;
+}
+
+/**
+ * Store flags so damaged rows can be found and repaired later
+ * Returns the number of new flags
+ */
+export function recordContentFlags(flags: ContentFlag[]): number {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO content_flags (entity_type, entity_id, reason, excerpt)
+    VALUES (?, ?, ?, ?)
+  `);
+
+  let added = 0;
+  db.transaction(() => {
+    for (const flag of flags) {
+      added += insert.run(flag.entity_type, flag.entity_id, flag.reason, flag.excerpt).changes;
+    }
+  })();
+
+  return added;
+}
+
+function detectDamage(entityType: ContentFlag['entity_type'], entityId: string, blocks: string[]): ContentFlag[] {
+  const flags: ContentFlag[] = [];
+  const seen = new Set<string>();
+
+  for (const block of blocks) {
+    for (const { reason, pattern } of DAMAGE_PATTERNS) {
+      const match = pattern.exec(block);
+      if (match && !seen.has(reason)) {
+        seen.add(reason);
+        flags.push({ entity_type: entityType, entity_id: entityId, reason, excerpt: excerptAround(block, match.index) });
+      }
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Contents of the fenced code blocks in markdown
+ */
+function fencedCode(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] | null = null;
+  let fence = '';
+
+  for (const line of markdown.split('\n')) {
+    const marker = /^ {0,3}(`{3,}|~{3,})/.exec(line)?.[1];
+
+    if (current) {
+      if (marker && marker.charAt(0) === fence.charAt(0) && marker.length >= fence.length) {
+        blocks.push(current.join('\n'));
+        current = null;
+      } else {
+        current.push(line);
+      }
+    } else if (marker) {
+      current = [];
+      fence = marker;
+    }
+  }
+
+  if (current) {
+    blocks.push(current.join('\n'));
+  }
+
+  return blocks;
+}
+
+function excerptAround(text: string, index: number): string {
+  const start = Math.max(0, index - EXCERPT_RADIUS);
+  return text.slice(start, index + EXCERPT_RADIUS).replace(/\s+/g, ' ').trim();
+}
+
+function isValidJson(content: string): boolean {
+  try {
+    JSON.parse(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,301 @@
+import crypto from 'crypto';
+import { getDb } from '../db/client.js';
+import { config } from '../config.js';
+import type { SearchResult } from '../types/index.js';
+import logger from '../utils/logger.js';
+
+export type EmbeddedEntity = SearchResult['type'];
+
+/**
+ * A source of text embeddings
+ * Vectors from different providers are not comparable, so each stored vector
+ * records the provider name and is rebuilt when the active provider changes.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface VectorMatch {
+  type: EmbeddedEntity;
+  id: string;
+  similarity: number;
+}
+
+interface EmbeddingRow {
+  entity_type: EmbeddedEntity;
+  entity_id: string;
+  vector: Buffer;
+}
+
+const REINDEX_BATCH_SIZE = 32;
+
+/**
+ * Offline provider using the hashing trick over words and character trigrams
+ * Needs no model or network; trigrams give some tolerance for inflections and typos.
+ */
+export class HashedNgramProvider implements EmbeddingProvider {
+  readonly name = 'hashed-ngram';
+
+  constructor(readonly dimensions: number = 512) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = text
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) ?? [];
+
+    for (const word of words) {
+      this.addFeature(vector, `w:${word}`, 1.0);
+
+      const padded = `#${word}#`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `c:${padded.slice(i, i + 3)}`, 0.5);
+      }
+    }
+
+    return normalize(vector);
+  }
+
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimensions;
+    // Use a high bit of the hash as the sign to reduce collision bias
+    const sign = (hash & 0x80000000) !== 0 ? -1 : 1;
+    vector[index] = (vector[index] ?? 0) + sign * weight;
+  }
+}
+
+const providers = new Map<string, EmbeddingProvider>();
+registerEmbeddingProvider(new HashedNgramProvider());
+
+/**
+ * Register an embedding provider so it can be selected with EMBEDDING_PROVIDER
+ */
+export function registerEmbeddingProvider(provider: EmbeddingProvider): void {
+  providers.set(provider.name, provider);
+}
+
+/**
+ * Get the configured embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const provider = providers.get(config.embeddingProvider);
+  if (!provider) {
+    throw new Error(`Unknown embedding provider: ${config.embeddingProvider}`);
+  }
+  return provider;
+}
+
+/**
+ * Text that represents an entity for embedding purposes
+ */
+export function noteEmbeddingText(note: { content: string; tags: string | null }): string {
+  const tags = note.tags ? (JSON.parse(note.tags) as string[]).join(' ') : '';
+  return `${note.content}\n${tags}`.trim();
+}
+
+export function artifactEmbeddingText(artifact: { title: string; content: string }): string {
+  return `${artifact.title}\n${artifact.content}`;
+}
+
+export function taskEmbeddingText(task: { title: string; description: string | null }): string {
+  return `${task.title}\n${task.description ?? ''}`.trim();
+}
+
+/**
+ * Compute and store the embedding for an entity
+ * Skips the provider call when the stored vector is already current.
+ */
+export async function upsertEmbedding(type: EmbeddedEntity, id: string, text: string): Promise<void> {
+  const provider = getEmbeddingProvider();
+  const contentHash = hashContent(provider, text);
+
+  if (isEmbeddingCurrent(type, id, contentHash)) {
+    return;
+  }
+
+  const [vector] = await provider.embed([text]);
+  if (!vector) {
+    throw new Error('Embedding provider returned no vector');
+  }
+
+  storeEmbedding(type, id, provider, vector, contentHash);
+}
+
+/**
+ * Update an entity's embedding in the background
+ * Failures are logged and never block the write that triggered them.
+ */
+export function scheduleEmbedding(type: EmbeddedEntity, id: string, text: string): void {
+  upsertEmbedding(type, id, text).catch(error => {
+    logger.warn('Failed to update embedding', { type, id, error });
+  });
+}
+
+/**
+ * Embed every note, artifact and task that is missing or has a stale vector
+ * Returns the number of embeddings written
+ */
+export async function reindexEmbeddings(): Promise<number> {
+  const db = getDb();
+  const provider = getEmbeddingProvider();
+
+  const notes = db.prepare('SELECT id, content, tags FROM notes').all() as Array<{
+    id: string; content: string; tags: string | null;
+  }>;
+  const artifacts = db.prepare('SELECT id, title, content FROM artifacts').all() as Array<{
+    id: string; title: string; content: string;
+  }>;
+  const tasks = db.prepare('SELECT id, title, description FROM tasks').all() as Array<{
+    id: string; title: string; description: string | null;
+  }>;
+
+  const pending: Array<{ type: EmbeddedEntity; id: string; text: string; hash: string }> = [];
+  const collect = (type: EmbeddedEntity, id: string, text: string): void => {
+    const hash = hashContent(provider, text);
+    if (!isEmbeddingCurrent(type, id, hash)) {
+      pending.push({ type, id, text, hash });
+    }
+  };
+
+  notes.forEach(n => collect('note', n.id, noteEmbeddingText(n)));
+  artifacts.forEach(a => collect('artifact', a.id, artifactEmbeddingText(a)));
+  tasks.forEach(t => collect('task', t.id, taskEmbeddingText(t)));
+
+  for (let i = 0; i < pending.length; i += REINDEX_BATCH_SIZE) {
+    const batch = pending.slice(i, i + REINDEX_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map(item => item.text));
+
+    batch.forEach((item, index) => {
+      const vector = vectors[index];
+      if (vector) {
+        storeEmbedding(item.type, item.id, provider, vector, item.hash);
+      }
+    });
+  }
+
+  return pending.length;
+}
+
+/**
+ * Find the entities whose vectors are most similar to the query text
+ * Brute-force cosine similarity; adequate for a personal knowledge base.
+ */
+export async function findSimilar(
+  text: string,
+  options: { types: EmbeddedEntity[]; project?: string; limit: number }
+): Promise<VectorMatch[]> {
+  const db = getDb();
+  const provider = getEmbeddingProvider();
+  const [queryVector] = await provider.embed([text]);
+
+  if (!queryVector || options.types.length === 0) {
+    return [];
+  }
+
+  let sql = `
+    SELECT entity_type, entity_id, vector FROM embeddings
+    WHERE provider = ? AND entity_type IN (${options.types.map(() => '?').join(', ')})
+  `;
+  const params: string[] = [provider.name, ...options.types];
+
+  if (options.project) {
+    sql += `
+      AND entity_id IN (
+        SELECT id FROM notes WHERE project = ?
+        UNION ALL SELECT id FROM artifacts WHERE project = ?
+        UNION ALL SELECT id FROM tasks WHERE project = ?
+      )
+    `;
+    params.push(options.project, options.project, options.project);
+  }
+
+  const rows = db.prepare(sql).all(...params) as EmbeddingRow[];
+  const query = normalize(queryVector);
+
+  return rows
+    .map(row => ({
+      type: row.entity_type,
+      id: row.entity_id,
+      similarity: dot(query, decodeVector(row.vector))
+    }))
+    .filter(match => match.similarity > 0)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, options.limit);
+}
+
+function isEmbeddingCurrent(type: EmbeddedEntity, id: string, contentHash: string): boolean {
+  const db = getDb();
+  const existing = db.prepare(`
+    SELECT content_hash FROM embeddings WHERE entity_type = ? AND entity_id = ?
+  `).get(type, id) as { content_hash: string } | undefined;
+
+  return existing?.content_hash === contentHash;
+}
+
+function storeEmbedding(
+  type: EmbeddedEntity,
+  id: string,
+  provider: EmbeddingProvider,
+  vector: number[],
+  contentHash: string
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO embeddings (entity_type, entity_id, provider, dimensions, vector, content_hash, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(entity_type, entity_id) DO UPDATE SET
+      provider = excluded.provider,
+      dimensions = excluded.dimensions,
+      vector = excluded.vector,
+      content_hash = excluded.content_hash,
+      updated_at = excluded.updated_at
+  `).run(type, id, provider.name, vector.length, encodeVector(normalize(vector)), contentHash, new Date().toISOString());
+}
+
+function hashContent(provider: EmbeddingProvider, text: string): string {
+  return crypto.createHash('sha256').update(`${provider.name}:${provider.dimensions}\n${text}`).digest('hex');
+}
+
+function encodeVector(vector: number[]): Buffer {
+  return Buffer.from(new Float32Array(vector).buffer);
+}
+
+function decodeVector(blob: Buffer): Float32Array {
+  // Copy into an aligned buffer; SQLite blobs may start at any byte offset
+  return new Float32Array(Uint8Array.from(blob).buffer);
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return length === 0 ? vector : vector.map(v => v / length);
+}
+
+function dot(a: number[], b: Float32Array): number {
+  const length = Math.min(a.length, b.length);
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += (a[i] as number) * (b[i] as number);
+  }
+  return sum;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -1,14 +1,24 @@
 import { nanoid } from 'nanoid';
 import { getDb } from '../db/client.js';
-import type { Note, CreateNoteInput, NoteListQuery, PaginatedResponse } from '../types/index.js';
+import type {
+  Note,
+  CreateNoteInput,
+  NoteListQuery,
+  NoteRevision,
+  NoteRevisionDiff,
+  PaginatedResponse
+} from '../types/index.js';
 import { sanitizeContent, sanitizeProjectName, sanitizeTags } from '../security/sanitize.js';
-import { syncNoteToVault, deleteNoteFromVault } from './vault-sync.js';
-import logger from '../utils/logger.js';
+import { toMatchQuery } from './search.js';
+import { scheduleEmbedding, noteEmbeddingText } from './embeddings.js';
+import { indexNoteTerms } from './term-dictionary.js';
+import { diffLines, diffStats, formatUnifiedDiff } from '../utils/diff.js';
 
 /**
  * Create a new note
+ * The initial content is recorded as revision 1.
  */
-export function createNote(input: CreateNoteInput): Note {
+export function createNote(input: CreateNoteInput, editorKeyId: string | null = null): Note {
   const db = getDb();
   const id = `note_${nanoid(12)}`;
   const now = new Date().toISOString();
@@ -18,22 +28,23 @@ export function createNote(input: CreateNoteInput): Note {
   const tags = input.tags ? JSON.stringify(sanitizeTags(input.tags)) : null;
   const source = input.source ?? 'api';
 
-  db.prepare(`
-    INSERT INTO notes (id, content, project, tags, source, created_at)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `).run(id, content, project, tags, source, now);
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO notes (id, content, project, tags, source, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(id, content, project, tags, source, now);
+
+    insertRevision(id, { content, project, tags }, editorKeyId, now);
+  })();
 
   const note = getNoteById(id);
   if (!note) {
     throw new Error('Failed to create note');
   }
 
-  // Sync to vault asynchronously
-  try {
-    syncNoteToVault(note);
-  } catch (error) {
-    logger.warn('Failed to sync note to vault', { noteId: id, error });
-  }
+  // The vault file is written by the sync worker; the insert queued it
+  indexNoteTerms(note);
+  scheduleEmbedding('note', note.id, noteEmbeddingText(note));
 
   return note;
 }
@@ -57,27 +68,36 @@ export function listNotes(query: NoteListQuery): PaginatedResponse<Note> {
   const db = getDb();
   const { project, limit = 20, offset = 0, search } = query;
 
-  let sql = 'SELECT * FROM notes WHERE 1=1';
-  let countSql = 'SELECT COUNT(*) as total FROM notes WHERE 1=1';
+  let sql = 'SELECT notes.* FROM notes';
+  let countSql = 'SELECT COUNT(*) as total FROM notes';
   const params: (string | number)[] = [];
   const countParams: (string | number)[] = [];
 
+  const matchQuery = search ? toMatchQuery(search) : null;
+
+  if (matchQuery) {
+    sql += ' JOIN notes_fts ON notes_fts.rowid = notes.rowid WHERE notes_fts MATCH ?';
+    countSql += ' JOIN notes_fts ON notes_fts.rowid = notes.rowid WHERE notes_fts MATCH ?';
+    params.push(matchQuery);
+    countParams.push(matchQuery);
+  } else if (search) {
+    // Nothing searchable in the query (e.g. only punctuation)
+    return { data: [], total: 0, limit, offset };
+  } else {
+    sql += ' WHERE 1=1';
+    countSql += ' WHERE 1=1';
+  }
+
   if (project) {
-    sql += ' AND project = ?';
-    countSql += ' AND project = ?';
+    sql += ' AND notes.project = ?';
+    countSql += ' AND notes.project = ?';
     params.push(project);
     countParams.push(project);
   }
 
-  if (search) {
-    sql += ' AND content LIKE ?';
-    countSql += ' AND content LIKE ?';
-    const searchPattern = `%${search}%`;
-    params.push(searchPattern);
-    countParams.push(searchPattern);
-  }
-
-  sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  sql += matchQuery
+    ? ' ORDER BY bm25(notes_fts), notes.created_at DESC LIMIT ? OFFSET ?'
+    : ' ORDER BY notes.created_at DESC LIMIT ? OFFSET ?';
   params.push(limit, offset);
 
   const notes = db.prepare(sql).all(...params) as Note[];
@@ -92,10 +112,14 @@ export function listNotes(query: NoteListQuery): PaginatedResponse<Note> {
 }
 
 /**
- * Update a note
+ * Update a note, recording the new version as a revision
+ * Updates that change nothing return the note untouched.
  */
-export function updateNote(id: string, updates: Partial<CreateNoteInput>): Note | null {
-  const db = getDb();
+export function updateNote(
+  id: string,
+  updates: Partial<CreateNoteInput>,
+  editorKeyId: string | null = null
+): Note | null {
   const existing = getNoteById(id);
 
   if (!existing) {
@@ -109,50 +133,149 @@ export function updateNote(id: string, updates: Partial<CreateNoteInput>): Note
   const tags = updates.tags !== undefined
     ? JSON.stringify(sanitizeTags(updates.tags))
     : existing.tags;
-  const now = new Date().toISOString();
 
-  db.prepare(`
-    UPDATE notes
-    SET content = ?, project = ?, tags = ?, updated_at = ?
-    WHERE id = ?
-  `).run(content, project, tags, now, id);
+  return saveVersion(existing, { content, project, tags }, editorKeyId);
+}
 
-  const updated = getNoteById(id);
-  if (updated) {
-    try {
-      syncNoteToVault(updated);
-    } catch (error) {
-      logger.warn('Failed to sync note to vault', { noteId: id, error });
+/**
+ * Delete a note
+ */
+export function deleteNote(id: string): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    DELETE FROM notes WHERE id = ?
+  `).run(id);
+
+  return result.changes > 0;
+}
+
+/**
+ * List every revision of a note, newest first
+ */
+export function listNoteRevisions(noteId: string): NoteRevision[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM note_revisions WHERE note_id = ? ORDER BY revision DESC
+  `).all(noteId) as NoteRevision[];
+}
+
+/**
+ * Get a single revision of a note
+ */
+export function getNoteRevision(noteId: string, revision: number): NoteRevision | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM note_revisions WHERE note_id = ? AND revision = ?
+  `).get(noteId, revision) as NoteRevision | undefined;
+
+  return result ?? null;
+}
+
+/**
+ * Diff two revisions of a note
+ * Returns null if either revision does not exist
+ */
+export function diffNoteRevisions(noteId: string, from: number, to: number): NoteRevisionDiff | null {
+  const fromRevision = getNoteRevision(noteId, from);
+  const toRevision = getNoteRevision(noteId, to);
+
+  if (!fromRevision || !toRevision) {
+    return null;
+  }
+
+  const lines = diffLines(fromRevision.content, toRevision.content);
+
+  const fromTags = parseTags(fromRevision.tags);
+  const toTags = parseTags(toRevision.tags);
+
+  return {
+    note_id: noteId,
+    from,
+    to,
+    diff: formatUnifiedDiff(lines, {
+      fromLabel: `${noteId}@${from}`,
+      toLabel: `${noteId}@${to}`
+    }),
+    ...diffStats(lines),
+    project: fromRevision.project === toRevision.project
+      ? null
+      : { from: fromRevision.project, to: toRevision.project },
+    tags: {
+      added: toTags.filter(tag => !fromTags.includes(tag)),
+      removed: fromTags.filter(tag => !toTags.includes(tag))
     }
+  };
+}
+
+/**
+ * Restore a note to an earlier revision
+ * The restore is itself recorded as a new revision, so it can be undone.
+ * Returns null if the note or revision does not exist
+ */
+export function restoreNoteRevision(
+  noteId: string,
+  revision: number,
+  editorKeyId: string | null = null
+): Note | null {
+  const existing = getNoteById(noteId);
+  const target = getNoteRevision(noteId, revision);
+
+  if (!existing || !target) {
+    return null;
   }
 
-  return updated;
+  return saveVersion(existing, target, editorKeyId);
 }
 
+type NoteVersion = Pick<Note, 'content' | 'project' | 'tags'>;
+
 /**
- * Delete a note
+ * Write a new version of a note and record it as the next revision
  */
-export function deleteNote(id: string): boolean {
+function saveVersion(existing: Note, version: NoteVersion, editorKeyId: string | null): Note | null {
   const db = getDb();
-  const note = getNoteById(id);
+  const { content, project, tags } = version;
+  const now = new Date().toISOString();
 
-  if (!note) {
-    return false;
+  if (content === existing.content && project === existing.project && tags === existing.tags) {
+    return existing;
   }
 
-  const result = db.prepare(`
-    DELETE FROM notes WHERE id = ?
-  `).run(id);
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE notes
+      SET content = ?, project = ?, tags = ?, updated_at = ?
+      WHERE id = ?
+    `).run(content, project, tags, now, existing.id);
 
-  if (result.changes > 0) {
-    try {
-      deleteNoteFromVault(note);
-    } catch (error) {
-      logger.warn('Failed to delete note from vault', { noteId: id, error });
-    }
+    insertRevision(existing.id, version, editorKeyId, now);
+  })();
+
+  const updated = getNoteById(existing.id);
+  if (updated) {
+    indexNoteTerms(updated);
+    scheduleEmbedding('note', updated.id, noteEmbeddingText(updated));
   }
 
-  return result.changes > 0;
+  return updated;
+}
+
+function insertRevision(
+  noteId: string,
+  version: NoteVersion,
+  editorKeyId: string | null,
+  createdAt: string
+): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO note_revisions (note_id, revision, content, project, tags, editor_key_id, created_at)
+    SELECT ?, COALESCE(MAX(revision), 0) + 1, ?, ?, ?, ?, ?
+    FROM note_revisions WHERE note_id = ?
+  `).run(noteId, version.content, version.project, version.tags, editorKeyId, createdAt, noteId);
+}
+
+function parseTags(tags: string | null): string[] {
+  return tags ? JSON.parse(tags) as string[] : [];
 }
 
 /**
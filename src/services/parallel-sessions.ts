@@ -0,0 +1,489 @@
+import { nanoid } from 'nanoid';
+import { getDb } from '../db/client.js';
+import type {
+  CreateParallelSessionInput,
+  FileClaim,
+  FileClaimConflict,
+  FileClaimInput,
+  FileClaimMode,
+  ParallelSession,
+  ParallelSessionDetail,
+  SessionInstance,
+  SessionInstanceInput,
+  SessionStatus
+} from '../types/index.js';
+import { escapeHtmlText, sanitizeProjectName, truncate } from '../security/sanitize.js';
+import { globsOverlap, matchesGlob, normalizeGlob } from '../utils/globs.js';
+import { syncParallelSessionToVault } from './vault-sync.js';
+import { enqueueVaultSync } from './vault-outbox.js';
+
+/**
+ * Raised when starting a session for a project that already has an active one
+ */
+export class ActiveSessionExistsError extends Error {
+  constructor(project: string, public readonly sessionId: string) {
+    super(`Project ${project} already has an active session: ${sessionId}`);
+    this.name = 'ActiveSessionExistsError';
+  }
+}
+
+/**
+ * Raised when changing a session that has ended
+ */
+export class SessionEndedError extends Error {
+  constructor(sessionId: string) {
+    super(`Session ${sessionId} has ended`);
+    this.name = 'SessionEndedError';
+  }
+}
+
+/**
+ * Raised when adding an instance whose name is already in the session
+ */
+export class DuplicateInstanceError extends Error {
+  constructor(name: string) {
+    super(`Instance ${name} is already in this session`);
+    this.name = 'DuplicateInstanceError';
+  }
+}
+
+/**
+ * Raised when new file claims overlap incompatible claims of other instances
+ */
+export class FileClaimConflictError extends Error {
+  constructor(public readonly conflicts: FileClaimConflict[]) {
+    super(`Claims overlap files owned by ${[...new Set(conflicts.map(c => c.conflicts_with.instance))].join(', ')}`);
+    this.name = 'FileClaimConflictError';
+  }
+}
+
+const MODE_LABELS: Record<FileClaimMode, string> = {
+  exclusive: 'EXCLUSIVE',
+  append_only: 'SHARED',
+  locked: 'LOCKED'
+};
+
+const MODE_NOTES: Record<FileClaimMode, string | null> = {
+  exclusive: null,
+  append_only: 'Append only',
+  locked: 'Do not modify'
+};
+
+/**
+ * Start a session for a project
+ * Throws ActiveSessionExistsError if the project already has one running
+ */
+export function createSession(input: CreateParallelSessionInput): ParallelSession {
+  const db = getDb();
+  const project = sanitizeProjectName(input.project);
+  const now = new Date().toISOString();
+  const id = nanoid();
+
+  db.transaction(() => {
+    const active = getActiveSession(project);
+    if (active) {
+      throw new ActiveSessionExistsError(project, active.id);
+    }
+
+    db.prepare(`
+      INSERT INTO parallel_sessions (id, project, name, coordinator, status, started_at)
+      VALUES (?, ?, ?, ?, 'active', ?)
+    `).run(
+      id,
+      project,
+      truncate(input.name ?? `${project} ${now.slice(0, 10)}`, 100),
+      input.coordinator ? truncate(input.coordinator, 100) : null,
+      now
+    );
+  }).immediate();
+
+  return getSession(id) as ParallelSession;
+}
+
+/**
+ * Get a session by ID
+ */
+export function getSession(id: string): ParallelSession | null {
+  const db = getDb();
+  const result = db.prepare('SELECT * FROM parallel_sessions WHERE id = ?').get(id) as ParallelSession | undefined;
+  return result ?? null;
+}
+
+/**
+ * Get the running session of a project
+ */
+export function getActiveSession(project: string): ParallelSession | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM parallel_sessions WHERE project = ? AND status = 'active'
+  `).get(sanitizeProjectName(project)) as ParallelSession | undefined;
+  return result ?? null;
+}
+
+/**
+ * List sessions, newest first
+ */
+export function listSessions(query: { project?: string; status?: SessionStatus } = {}): ParallelSession[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM parallel_sessions
+    WHERE (? IS NULL OR project = ?) AND (? IS NULL OR status = ?)
+    ORDER BY started_at DESC
+  `).all(
+    query.project ?? null,
+    query.project ?? null,
+    query.status ?? null,
+    query.status ?? null
+  ) as ParallelSession[];
+}
+
+/**
+ * Get a session with its instances, their claims and current conflicts
+ */
+export function getSessionDetail(id: string): ParallelSessionDetail | null {
+  const db = getDb();
+  const session = getSession(id);
+
+  if (!session) {
+    return null;
+  }
+
+  const instances = db.prepare(`
+    SELECT * FROM session_instances WHERE session_id = ? ORDER BY name ASC
+  `).all(id) as SessionInstance[];
+  const claims = listFileClaims(id);
+
+  return {
+    ...session,
+    instances: instances.map(instance => ({
+      ...instance,
+      claims: claims.filter(claim => claim.instance_id === instance.id)
+    })),
+    conflicts: findConflicts(claims)
+  };
+}
+
+/**
+ * End a session; its instances and claims are kept as a record
+ * Throws SessionEndedError if it already ended
+ */
+export function endSession(id: string): ParallelSession | null {
+  const db = getDb();
+  const session = getSession(id);
+
+  if (!session) {
+    return null;
+  }
+  if (session.status === 'ended') {
+    throw new SessionEndedError(id);
+  }
+
+  db.prepare(`
+    UPDATE parallel_sessions SET status = 'ended', ended_at = ? WHERE id = ?
+  `).run(new Date().toISOString(), id);
+
+  return getSession(id);
+}
+
+/**
+ * Add an instance to a running session
+ * Returns null if the session does not exist. Throws SessionEndedError or DuplicateInstanceError
+ */
+export function addInstance(
+  sessionId: string,
+  name: string,
+  input: SessionInstanceInput = {}
+): SessionInstance | null {
+  const db = getDb();
+  const session = getSession(sessionId);
+
+  if (!session) {
+    return null;
+  }
+  if (session.status === 'ended') {
+    throw new SessionEndedError(sessionId);
+  }
+  if (getInstance(sessionId, name)) {
+    throw new DuplicateInstanceError(name);
+  }
+
+  db.prepare(`
+    INSERT INTO session_instances (session_id, name, branch, task_id, description, status, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    sessionId,
+    name,
+    input.branch ?? null,
+    input.task_id ?? null,
+    input.description ? truncate(input.description, 500) : null,
+    input.status ?? 'working',
+    new Date().toISOString()
+  );
+
+  return getInstance(sessionId, name);
+}
+
+/**
+ * Update an instance's branch, task or status
+ * Null clears a field; omitted fields are left unchanged
+ */
+export function updateInstance(
+  sessionId: string,
+  name: string,
+  updates: SessionInstanceInput
+): SessionInstance | null {
+  const db = getDb();
+  const existing = getInstance(sessionId, name);
+
+  if (!existing) {
+    return null;
+  }
+  assertActive(sessionId);
+
+  const description = updates.description !== undefined
+    ? (updates.description ? truncate(updates.description, 500) : null)
+    : existing.description;
+
+  db.prepare(`
+    UPDATE session_instances
+    SET branch = ?, task_id = ?, description = ?, status = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    updates.branch !== undefined ? updates.branch : existing.branch,
+    updates.task_id !== undefined ? updates.task_id : existing.task_id,
+    description,
+    updates.status ?? existing.status,
+    new Date().toISOString(),
+    existing.id
+  );
+
+  return getInstance(sessionId, name);
+}
+
+/**
+ * Remove an instance and release its claims
+ */
+export function removeInstance(sessionId: string, name: string): boolean {
+  const db = getDb();
+  const instance = getInstance(sessionId, name);
+
+  if (!instance) {
+    return false;
+  }
+  assertActive(sessionId);
+
+  return db.prepare('DELETE FROM session_instances WHERE id = ?').run(instance.id).changes > 0;
+}
+
+/**
+ * Claim files for an instance
+ * Claims that overlap an incompatible claim of another instance are refused
+ * with FileClaimConflictError, unless `force` records them anyway. Two
+ * append-only claims, or two locks, on the same files are compatible.
+ * Returns null if the instance does not exist
+ */
+export function claimFiles(
+  sessionId: string,
+  instanceName: string,
+  inputs: FileClaimInput[],
+  options: { force?: boolean } = {}
+): { claims: FileClaim[]; conflicts: FileClaimConflict[] } | null {
+  const db = getDb();
+  const instance = getInstance(sessionId, instanceName);
+
+  if (!instance) {
+    return null;
+  }
+
+  return db.transaction(() => {
+    assertActive(sessionId);
+
+    const now = new Date().toISOString();
+    const others = listFileClaims(sessionId).filter(claim => claim.instance_id !== instance.id);
+    const conflictsOf = (claim: FileClaim): FileClaimConflict[] => others
+      .filter(other => claimsConflict(claim, other))
+      .map(other => ({ claim, conflicts_with: other }));
+
+    // Not saved yet, so without an ID
+    const pending: FileClaim[] = inputs.map(input => ({
+      id: 0,
+      session_id: sessionId,
+      instance_id: instance.id,
+      instance: instance.name,
+      pattern: normalizeGlob(input.pattern),
+      mode: input.mode,
+      notes: input.notes ? truncate(input.notes, 200) : null,
+      created_at: now
+    }));
+
+    const conflicts = pending.flatMap(conflictsOf);
+    if (conflicts.length > 0 && !options.force) {
+      throw new FileClaimConflictError(conflicts);
+    }
+
+    const insert = db.prepare(`
+      INSERT INTO file_claims (session_id, instance_id, pattern, mode, notes, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    const saved = pending.map(claim => ({
+      ...claim,
+      id: Number(insert.run(sessionId, instance.id, claim.pattern, claim.mode, claim.notes, now).lastInsertRowid)
+    }));
+
+    return { claims: saved, conflicts: saved.flatMap(conflictsOf) };
+  }).immediate();
+}
+
+/**
+ * Release a file claim
+ */
+export function releaseFileClaim(sessionId: string, claimId: number): boolean {
+  const db = getDb();
+  return db.prepare('DELETE FROM file_claims WHERE id = ? AND session_id = ?').run(claimId, sessionId).changes > 0;
+}
+
+/**
+ * Claims in a session whose pattern matches a file path
+ */
+export function getPathOwners(sessionId: string, filePath: string): FileClaim[] {
+  return listFileClaims(sessionId).filter(claim => matchesGlob(claim.pattern, filePath));
+}
+
+/**
+ * Render a session as PARALLEL.md-style markdown tables
+ */
+export function renderSessionMarkdown(detail: ParallelSessionDetail): string {
+  const cell = (value: string | null): string =>
+    escapeHtmlText(value ?? '').replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+  const timestamp = (value: string): string => value.replace('T', ' ').slice(0, 16);
+
+  const header = [
+    `## ${detail.status === 'active' ? 'Active Session' : 'Session (ended)'}: ${cell(detail.name)}`,
+    '',
+    `Started: ${timestamp(detail.started_at)}`,
+    ...(detail.ended_at ? [`Ended: ${timestamp(detail.ended_at)}`] : []),
+    `Coordinator: ${cell(detail.coordinator ?? 'human')}`,
+    `Instances: ${detail.instances.length}`
+  ];
+
+  const instances = [
+    '| Instance | Branch | Task | Owned Files | Status |',
+    '|----------|--------|------|-------------|--------|',
+    ...detail.instances.map(instance => {
+      const task = [instance.task_id ? `[[${instance.task_id}]]` : null, cell(instance.description)]
+        .filter(Boolean)
+        .join(' ');
+      const owned = instance.claims
+        .filter(claim => claim.mode !== 'locked')
+        .map(claim => cell(claim.pattern))
+        .join(', ');
+      return `| ${cell(instance.name)} | ${cell(instance.branch)} | ${task} | ${owned} | ${instance.status.toUpperCase()} |`;
+    })
+  ];
+
+  const claims = detail.instances.flatMap(instance => instance.claims);
+  const ownership = [
+    '| File/Directory | Owner | Mode | Notes |',
+    '|----------------|-------|------|-------|',
+    ...claims
+      .sort((a, b) => a.pattern.localeCompare(b.pattern))
+      .map(claim => {
+        const notes = [MODE_NOTES[claim.mode], claim.notes].filter(Boolean).join(' - ');
+        return `| ${cell(claim.pattern)} | ${cell(claim.instance)} | ${MODE_LABELS[claim.mode]} | ${cell(notes)} |`;
+      })
+  ];
+
+  const conflicts = detail.conflicts.length > 0
+    ? detail.conflicts.map(({ claim, conflicts_with: other }) =>
+      `- \`${claim.pattern}\` (${cell(claim.instance)}, ${MODE_LABELS[claim.mode]}) overlaps ` +
+      `\`${other.pattern}\` (${cell(other.instance)}, ${MODE_LABELS[other.mode]})`
+    )
+    : ['_No conflicts._'];
+
+  return [
+    header.join('\n'),
+    instances.join('\n'),
+    `## File Ownership\n\n${ownership.join('\n')}`,
+    `## Conflicts\n\n${conflicts.join('\n')}`
+  ].join('\n\n');
+}
+
+/**
+ * Render a session and queue its markdown to be written to the vault
+ * Returns the rendered session, or null if it does not exist
+ */
+export function renderSession(id: string): { detail: ParallelSessionDetail; markdown: string } | null {
+  const detail = getSessionDetail(id);
+  if (!detail) {
+    return null;
+  }
+
+  enqueueVaultSync('session', id);
+
+  return { detail, markdown: renderSessionMarkdown(detail) };
+}
+
+/**
+ * Write a session's markdown to the vault
+ * Called by the sync worker for queued sessions; throws if the file cannot be written
+ */
+export function syncSession(id: string): void {
+  const detail = getSessionDetail(id);
+  if (detail) {
+    syncParallelSessionToVault(detail, renderSessionMarkdown(detail));
+  }
+}
+
+function getInstance(sessionId: string, name: string): SessionInstance | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM session_instances WHERE session_id = ? AND name = ?
+  `).get(sessionId, name) as SessionInstance | undefined;
+  return result ?? null;
+}
+
+function listFileClaims(sessionId: string): FileClaim[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT file_claims.*, session_instances.name as instance
+    FROM file_claims
+    JOIN session_instances ON session_instances.id = file_claims.instance_id
+    WHERE file_claims.session_id = ?
+    ORDER BY file_claims.id ASC
+  `).all(sessionId) as FileClaim[];
+}
+
+function assertActive(sessionId: string): void {
+  if (getSession(sessionId)?.status !== 'active') {
+    throw new SessionEndedError(sessionId);
+  }
+}
+
+/**
+ * Conflicting pairs among a session's claims, each pair once
+ */
+function findConflicts(claims: FileClaim[]): FileClaimConflict[] {
+  const conflicts: FileClaimConflict[] = [];
+  claims.forEach((claim, index) => {
+    for (const other of claims.slice(index + 1)) {
+      if (claimsConflict(claim, other)) {
+        conflicts.push({ claim: other, conflicts_with: claim });
+      }
+    }
+  });
+  return conflicts;
+}
+
+/**
+ * Claims of different instances conflict when their files overlap, unless
+ * both are append-only or both are locks
+ */
+function claimsConflict(a: FileClaim, b: FileClaim): boolean {
+  if (a.instance_id === b.instance_id) {
+    return false;
+  }
+  if (a.mode === b.mode && a.mode !== 'exclusive') {
+    return false;
+  }
+  return globsOverlap(a.pattern, b.pattern);
+}
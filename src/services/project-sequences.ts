@@ -0,0 +1,139 @@
+import { getDb } from '../db/client.js';
+import type { ProjectSequence } from '../types/index.js';
+
+/**
+ * Raised when a prefix is already used by another project
+ */
+export class PrefixTakenError extends Error {
+  constructor(public readonly prefix: string, public readonly project: string) {
+    super(`Prefix ${prefix} is already used by project ${project}`);
+    this.name = 'PrefixTakenError';
+  }
+}
+
+const DEFAULT_PREFIX_LENGTH = 10;
+
+/**
+ * Issue the next top-level task ID for a project, e.g. MYTHRIL-012
+ * Must run inside the transaction that inserts the task, so a failed insert
+ * does not consume a number and concurrent creates cannot get the same one.
+ */
+export function nextTaskId(project: string): string {
+  const db = getDb();
+  ensureSequence(project);
+
+  const row = db.prepare(`
+    UPDATE project_sequences
+    SET next_value = next_value + 1, updated_at = CURRENT_TIMESTAMP
+    WHERE project = ?
+    RETURNING prefix, next_value - 1 as value
+  `).get(project) as { prefix: string; value: number };
+
+  return `${row.prefix}-${String(row.value).padStart(3, '0')}`;
+}
+
+/**
+ * Get a project's sequence
+ * Returns null until the project's first task is created or a prefix is set
+ */
+export function getProjectSequence(project: string): ProjectSequence | null {
+  const db = getDb();
+  const result = db.prepare('SELECT * FROM project_sequences WHERE project = ?').get(project) as
+    ProjectSequence | undefined;
+  return result ?? null;
+}
+
+/**
+ * List every project sequence
+ */
+export function listProjectSequences(): ProjectSequence[] {
+  const db = getDb();
+  return db.prepare('SELECT * FROM project_sequences ORDER BY project').all() as ProjectSequence[];
+}
+
+/**
+ * Set the prefix used for a project's new task IDs
+ * Existing IDs keep their prefix. Numbering continues after the highest ID
+ * already issued under the new prefix, so reusing an old prefix is safe.
+ * Throws PrefixTakenError if another project uses the prefix
+ */
+export function setProjectPrefix(project: string, prefix: string): ProjectSequence {
+  const db = getDb();
+
+  db.transaction(() => {
+    const owner = prefixOwner(prefix);
+    if (owner && owner !== project) {
+      throw new PrefixTakenError(prefix, owner);
+    }
+    if (owner === project) {
+      return;
+    }
+
+    db.prepare(`
+      INSERT INTO project_sequences (project, prefix, next_value) VALUES (?, ?, ?)
+      ON CONFLICT(project) DO UPDATE SET
+        prefix = excluded.prefix,
+        next_value = excluded.next_value,
+        updated_at = CURRENT_TIMESTAMP
+    `).run(project, prefix, highestIssued(prefix) + 1);
+  }).immediate();
+
+  return getProjectSequence(project) as ProjectSequence;
+}
+
+function ensureSequence(project: string): void {
+  const db = getDb();
+  if (db.prepare('SELECT 1 FROM project_sequences WHERE project = ?').get(project)) {
+    return;
+  }
+
+  const prefix = defaultPrefix(project);
+  db.prepare(`
+    INSERT INTO project_sequences (project, prefix, next_value) VALUES (?, ?, ?)
+  `).run(project, prefix, highestIssued(prefix) + 1);
+}
+
+/**
+ * The uppercased project name cut to 10 characters, or the full name
+ * (then numbered) when that is already taken by another project
+ */
+function defaultPrefix(project: string): string {
+  const upper = project.toUpperCase();
+  const short = upper.slice(0, DEFAULT_PREFIX_LENGTH);
+
+  if (!prefixOwner(short)) {
+    return short;
+  }
+  if (!prefixOwner(upper)) {
+    return upper;
+  }
+
+  // Configured prefixes cannot contain underscores, so this only clashes with other fallbacks
+  let n = 2;
+  while (prefixOwner(`${upper}_${n}`)) {
+    n++;
+  }
+  return `${upper}_${n}`;
+}
+
+function prefixOwner(prefix: string): string | null {
+  const db = getDb();
+  const row = db.prepare('SELECT project FROM project_sequences WHERE prefix = ?').get(prefix) as
+    { project: string } | undefined;
+  return row?.project ?? null;
+}
+
+/**
+ * Highest top-level task number already issued under a prefix, by any project
+ */
+function highestIssued(prefix: string): number {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT MAX(CAST(SUBSTR(id, LENGTH(?) + 2) AS INTEGER)) as highest
+    FROM tasks
+    WHERE parent_id IS NULL
+      AND SUBSTR(id, 1, LENGTH(?) + 1) = ? || '-'
+      AND SUBSTR(id, LENGTH(?) + 2) NOT GLOB '*[^0-9]*'
+  `).get(prefix, prefix, prefix, prefix) as { highest: number | null };
+  return row.highest ?? 0;
+}
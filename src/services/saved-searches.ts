@@ -0,0 +1,230 @@
+import { nanoid } from 'nanoid';
+import { getDb } from '../db/client.js';
+import type {
+  SavedSearch,
+  CreateSavedSearchInput,
+  UpdateSavedSearchInput,
+  FacetedSearchResponse,
+  SearchQuery,
+  SearchResult
+} from '../types/index.js';
+import { sanitizeProjectName, truncate } from '../security/sanitize.js';
+import { parseSearchQuery } from './search-query.js';
+import { searchWithFacets } from './search.js';
+import { syncCollectionToVault, deleteCollectionFromVault } from './vault-sync.js';
+import { enqueueVaultSync } from './vault-outbox.js';
+
+// Upper bound on items linked from a collection's index note
+const COLLECTION_MAX_ITEMS = 500;
+const COLLECTION_PAGE_SIZE = 100;
+
+/**
+ * Create a saved search for an API key
+ * Throws QueryParseError if the query is invalid
+ */
+export function createSavedSearch(apiKeyId: string, input: CreateSavedSearchInput): SavedSearch {
+  const db = getDb();
+  const id = `search_${nanoid(12)}`;
+  const now = new Date().toISOString();
+
+  // Reject invalid queries at save time rather than on every run
+  parseSearchQuery(input.query);
+
+  const name = truncate(input.name, 100);
+  const types = input.types && input.types.length > 0 ? JSON.stringify(input.types) : null;
+  const project = input.project ? sanitizeProjectName(input.project) : null;
+
+  db.prepare(`
+    INSERT INTO saved_searches (id, api_key_id, name, query, types, project, sort, is_collection, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(id, apiKeyId, name, input.query, types, project, input.sort ?? 'relevance', input.collection ? 1 : 0, now);
+
+  const saved = getSavedSearchById(apiKeyId, id);
+  if (!saved) {
+    throw new Error('Failed to create saved search');
+  }
+
+  if (saved.is_collection) {
+    enqueueVaultSync('collection', saved.id);
+  }
+
+  return saved;
+}
+
+/**
+ * Get a saved search owned by an API key
+ */
+export function getSavedSearchById(apiKeyId: string, id: string): SavedSearch | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM saved_searches WHERE id = ? AND api_key_id = ?
+  `).get(id, apiKeyId) as SavedSearch | undefined;
+
+  return result ?? null;
+}
+
+/**
+ * Get a saved search by name for an API key
+ */
+export function getSavedSearchByName(apiKeyId: string, name: string): SavedSearch | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM saved_searches WHERE name = ? AND api_key_id = ?
+  `).get(name, apiKeyId) as SavedSearch | undefined;
+
+  return result ?? null;
+}
+
+/**
+ * List saved searches for an API key
+ */
+export function listSavedSearches(apiKeyId: string): SavedSearch[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM saved_searches
+    WHERE api_key_id = ?
+    ORDER BY created_at DESC
+  `).all(apiKeyId) as SavedSearch[];
+}
+
+/**
+ * Update a saved search
+ * Throws QueryParseError if the new query is invalid
+ */
+export function updateSavedSearch(
+  apiKeyId: string,
+  id: string,
+  updates: UpdateSavedSearchInput
+): SavedSearch | null {
+  const db = getDb();
+  const existing = getSavedSearchById(apiKeyId, id);
+
+  if (!existing) {
+    return null;
+  }
+
+  if (updates.query !== undefined) {
+    parseSearchQuery(updates.query);
+  }
+
+  const name = updates.name !== undefined ? truncate(updates.name, 100) : existing.name;
+  const query = updates.query ?? existing.query;
+  const types = updates.types !== undefined
+    ? (updates.types.length > 0 ? JSON.stringify(updates.types) : null)
+    : existing.types;
+  const project = updates.project !== undefined
+    ? (updates.project ? sanitizeProjectName(updates.project) : null)
+    : existing.project;
+  const sort = updates.sort ?? existing.sort;
+  const isCollection = updates.collection !== undefined ? (updates.collection ? 1 : 0) : existing.is_collection;
+  const now = new Date().toISOString();
+
+  db.prepare(`
+    UPDATE saved_searches
+    SET name = ?, query = ?, types = ?, project = ?, sort = ?, is_collection = ?, updated_at = ?
+    WHERE id = ?
+  `).run(name, query, types, project, sort, isCollection, now, id);
+
+  const updated = getSavedSearchById(apiKeyId, id);
+  if (!updated) {
+    return null;
+  }
+
+  // A search that stops being a collection has its index note removed
+  if (updated.is_collection || existing.is_collection) {
+    enqueueVaultSync('collection', id);
+  }
+
+  return updated;
+}
+
+/**
+ * Delete a saved search
+ */
+export function deleteSavedSearch(apiKeyId: string, id: string): boolean {
+  const db = getDb();
+  const existing = getSavedSearchById(apiKeyId, id);
+
+  if (!existing) {
+    return false;
+  }
+
+  const result = db.prepare(`
+    DELETE FROM saved_searches WHERE id = ?
+  `).run(id);
+
+  if (result.changes > 0 && existing.is_collection) {
+    enqueueVaultSync('collection', id);
+  }
+
+  return result.changes > 0;
+}
+
+/**
+ * Run a saved search and return one page of results
+ * Collections are queued to be re-materialized in the vault on each run.
+ */
+export function runSavedSearch(
+  saved: SavedSearch,
+  options: { limit?: number; cursor?: string } = {}
+): FacetedSearchResponse {
+  const response = searchWithFacets({
+    ...toSearchQuery(saved),
+    limit: options.limit,
+    cursor: options.cursor
+  });
+
+  if (saved.is_collection && !options.cursor) {
+    enqueueVaultSync('collection', saved.id);
+  }
+
+  return response;
+}
+
+/**
+ * Queue a collection's index note to be rewritten
+ * Returns the number of items it will link
+ */
+export function materializeCollection(saved: SavedSearch): number {
+  enqueueVaultSync('collection', saved.id);
+
+  const { total } = searchWithFacets({ ...toSearchQuery(saved), limit: 1 });
+  return Math.min(total, COLLECTION_MAX_ITEMS);
+}
+
+/**
+ * Write a collection's index note to the vault, or remove it once the
+ * search is deleted or no longer a collection
+ * Called by the sync worker for queued collections; throws if the file cannot be written
+ */
+export function syncCollection(id: string): void {
+  const db = getDb();
+  const saved = db.prepare('SELECT * FROM saved_searches WHERE id = ?').get(id) as SavedSearch | undefined;
+
+  if (!saved || !saved.is_collection) {
+    deleteCollectionFromVault(id);
+    return;
+  }
+
+  const items: SearchResult[] = [];
+  let cursor: string | undefined;
+  let total = 0;
+
+  do {
+    const page = searchWithFacets({ ...toSearchQuery(saved), limit: COLLECTION_PAGE_SIZE, cursor });
+    items.push(...page.results);
+    total = page.total;
+    cursor = page.next_cursor ?? undefined;
+  } while (cursor && items.length < COLLECTION_MAX_ITEMS);
+
+  syncCollectionToVault(saved, items.slice(0, COLLECTION_MAX_ITEMS), total);
+}
+
+function toSearchQuery(saved: SavedSearch): SearchQuery {
+  return {
+    q: saved.query,
+    types: saved.types ? JSON.parse(saved.types) as SearchQuery['types'] : undefined,
+    project: saved.project ?? undefined,
+    sort: saved.sort
+  };
+}
@@ -0,0 +1,460 @@
+/**
+ * Structured search query language
+ *
+ * Grammar (implicit AND between terms, OR binds looser than AND):
+ *
+ *   query   := or EOF
+ *   or      := and ('OR' and)*
+ *   and     := unary ('AND'? unary)*
+ *   unary   := '-' unary | primary
+ *   primary := word | word* | "phrase" | field:value | field:op value | '(' or ')'
+ *
+ * Fields: tag, project, type, status, priority, trust, created.
+ * Comparison operators (>, >=, <, <=) are allowed on priority and created.
+ *
+ * Example: tag:infra type:task priority:>=HIGH created:>2026-01-01 "exact phrase" -excluded
+ */
+
+import { isIsoDate } from '../utils/dates.js';
+
+export type SearchField = 'tag' | 'project' | 'type' | 'status' | 'priority' | 'trust' | 'created';
+export type Comparator = '=' | '>' | '>=' | '<' | '<=';
+export type EntityKind = 'notes' | 'artifacts' | 'tasks';
+
+export type QueryNode =
+  | { kind: 'term'; value: string; prefix: boolean; position: number }
+  | { kind: 'phrase'; value: string; position: number }
+  | { kind: 'field'; field: SearchField; op: Comparator; value: string; position: number }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'and'; children: QueryNode[] }
+  | { kind: 'or'; children: QueryNode[] };
+
+export interface CompiledClause {
+  sql: string;
+  params: (string | number)[];
+}
+
+/**
+ * Thrown when a query cannot be parsed
+ * `position` is the 0-based character offset of the offending token
+ */
+export class QueryParseError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number,
+    public readonly token: string | null
+  ) {
+    super(message);
+    this.name = 'QueryParseError';
+  }
+}
+
+const FIELDS: readonly SearchField[] = ['tag', 'project', 'type', 'status', 'priority', 'trust', 'created'];
+const ORDERED_FIELDS: readonly SearchField[] = ['priority', 'created'];
+
+const TYPE_VALUES: Record<string, EntityKind> = {
+  note: 'notes',
+  notes: 'notes',
+  artifact: 'artifacts',
+  artifacts: 'artifacts',
+  task: 'tasks',
+  tasks: 'tasks'
+};
+const STATUS_VALUES = ['queued', 'active', 'blocked', 'review', 'completed', 'cancelled'];
+const PRIORITY_ORDER = ['LOW', 'NORMAL', 'HIGH', 'CRITICAL'];
+const TRUST_VALUES = ['THROWAWAY', 'PROTOTYPE', 'MATURE'];
+
+type Token =
+  | { type: 'term'; value: string; prefix: boolean; position: number; raw: string }
+  | { type: 'phrase'; value: string; position: number; raw: string }
+  | { type: 'field'; field: SearchField; op: Comparator; value: string; position: number; raw: string }
+  | { type: 'or' | 'and' | 'not' | 'lparen' | 'rparen'; position: number; raw: string };
+
+/**
+ * Split a query string into tokens
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i] as string;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch === '(' ? 'lparen' : 'rparen', position: i, raw: ch });
+      i++;
+      continue;
+    }
+
+    if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1] as string)) {
+      tokens.push({ type: 'not', position: i, raw: ch });
+      i++;
+      continue;
+    }
+
+    if (ch === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QueryParseError('Unterminated quoted phrase', i, input.slice(i));
+      }
+      const value = input.slice(i + 1, end).trim();
+      if (!hasSearchableText(value)) {
+        throw new QueryParseError('Empty quoted phrase', i, input.slice(i, end + 1));
+      }
+      tokens.push({ type: 'phrase', value, position: i, raw: input.slice(i, end + 1) });
+      i = end + 1;
+      continue;
+    }
+
+    // Read a bare word up to whitespace or a closing paren
+    const start = i;
+    while (i < input.length && !/[\s()]/.test(input[i] as string)) {
+      i++;
+    }
+    const raw = input.slice(start, i);
+
+    if (raw === 'OR' || raw === 'AND') {
+      tokens.push({ type: raw === 'OR' ? 'or' : 'and', position: start, raw });
+      continue;
+    }
+
+    const fieldToken = readField(raw, start);
+    if (fieldToken) {
+      tokens.push(fieldToken);
+      continue;
+    }
+
+    const prefix = raw.endsWith('*');
+    const value = raw.replace(/["*]/g, '');
+    if (!hasSearchableText(value)) {
+      // Punctuation-only words carry nothing to search for
+      continue;
+    }
+    tokens.push({ type: 'term', value, prefix, position: start, raw });
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse `field:value` / `field:>=value`; returns null for words that are not fields
+ */
+function readField(raw: string, position: number): Token | null {
+  const match = raw.match(/^([a-z]+):(>=|<=|>|<)?(.*)$/);
+  if (!match || !FIELDS.includes(match[1] as SearchField)) {
+    return null;
+  }
+
+  const field = match[1] as SearchField;
+  const op = (match[2] ?? '=') as Comparator;
+  const rawValue = match[3] ?? '';
+  const valuePosition = position + field.length + 1 + (match[2]?.length ?? 0);
+
+  if (op !== '=' && !ORDERED_FIELDS.includes(field)) {
+    throw new QueryParseError(
+      `Field '${field}' does not support comparison operators`,
+      position + field.length + 1,
+      match[2] ?? null
+    );
+  }
+
+  if (rawValue.length === 0) {
+    throw new QueryParseError(`Missing value for field '${field}'`, valuePosition, raw);
+  }
+
+  const value = normalizeFieldValue(field, rawValue, valuePosition);
+  return { type: 'field', field, op, value, position, raw };
+}
+
+/**
+ * Validate a field value and convert it to its canonical form
+ */
+function normalizeFieldValue(field: SearchField, value: string, position: number): string {
+  switch (field) {
+    case 'type': {
+      const kind = TYPE_VALUES[value.toLowerCase()];
+      if (!kind) {
+        throw new QueryParseError(`Unknown type '${value}' (expected note, artifact or task)`, position, value);
+      }
+      return kind;
+    }
+    case 'status': {
+      const status = value.toLowerCase();
+      if (!STATUS_VALUES.includes(status)) {
+        throw new QueryParseError(`Unknown status '${value}'`, position, value);
+      }
+      return status;
+    }
+    case 'priority': {
+      const priority = value.toUpperCase();
+      if (!PRIORITY_ORDER.includes(priority)) {
+        throw new QueryParseError(`Unknown priority '${value}'`, position, value);
+      }
+      return priority;
+    }
+    case 'trust': {
+      const trust = value.toUpperCase();
+      if (!TRUST_VALUES.includes(trust)) {
+        throw new QueryParseError(`Unknown trust level '${value}'`, position, value);
+      }
+      return trust;
+    }
+    case 'created': {
+      if (!isIsoDate(value)) {
+        throw new QueryParseError(`Invalid date '${value}' (expected YYYY-MM-DD)`, position, value);
+      }
+      return value;
+    }
+    case 'tag':
+    case 'project':
+      return value.toLowerCase();
+  }
+}
+
+function hasSearchableText(value: string): boolean {
+  return /[\p{L}\p{N}]/u.test(value);
+}
+
+/**
+ * Recursive-descent parser over the token stream
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly inputLength: number
+  ) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) {
+      return null;
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new QueryParseError(
+        next.type === 'rparen' ? "Unmatched ')'" : `Unexpected '${next.raw}'`,
+        next.position,
+        next.raw
+      );
+    }
+    return node;
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] as QueryNode : { kind: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') {
+        break;
+      }
+      if (next.type === 'and') {
+        this.index++;
+      }
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] as QueryNode : { kind: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.index++;
+      return { kind: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.peek();
+
+    if (!token) {
+      const previous = this.tokens[this.index - 1];
+      throw new QueryParseError(
+        previous ? `Expected a search term after '${previous.raw}'` : 'Expected a search term',
+        this.inputLength,
+        null
+      );
+    }
+
+    this.index++;
+
+    switch (token.type) {
+      case 'term':
+        return { kind: 'term', value: token.value, prefix: token.prefix, position: token.position };
+      case 'phrase':
+        return { kind: 'phrase', value: token.value, position: token.position };
+      case 'field':
+        return { kind: 'field', field: token.field, op: token.op, value: token.value, position: token.position };
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw new QueryParseError('Empty group', token.position, '()');
+        }
+        const node = this.parseOr();
+        const close = this.peek();
+        if (close?.type !== 'rparen') {
+          throw new QueryParseError("Missing ')' for group", token.position, token.raw);
+        }
+        this.index++;
+        return node;
+      }
+      default:
+        throw new QueryParseError(`Expected a search term before '${token.raw}'`, token.position, token.raw);
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+}
+
+/**
+ * Parse a query string into an AST
+ * Returns null for queries with nothing to match on
+ */
+export function parseSearchQuery(input: string): QueryNode | null {
+  return new Parser(tokenize(input), input.length).parse();
+}
+
+/**
+ * Collect the positive (non-negated) text terms as an FTS5 expression
+ * Used for BM25 ranking and snippets; any one term is enough to rank a row
+ */
+export function rankingMatchQuery(node: QueryNode | null): string | null {
+  const terms: string[] = [];
+
+  const visit = (current: QueryNode): void => {
+    switch (current.kind) {
+      case 'term':
+      case 'phrase':
+        terms.push(toFtsTerm(current));
+        break;
+      case 'and':
+      case 'or':
+        current.children.forEach(visit);
+        break;
+      case 'not':
+      case 'field':
+        break;
+    }
+  };
+
+  if (node) {
+    visit(node);
+  }
+
+  return terms.length > 0 ? terms.join(' OR ') : null;
+}
+
+function toFtsTerm(node: { kind: 'term'; value: string; prefix: boolean } | { kind: 'phrase'; value: string }): string {
+  if (node.kind === 'phrase') {
+    return `"${node.value}"`;
+  }
+  return node.prefix ? `"${node.value}"*` : `"${node.value}"`;
+}
+
+/**
+ * Column expressions available for each entity table (aliased as `e`)
+ * Fields missing from an entity never match rows of that entity
+ */
+const ENTITY_COLUMNS: Record<EntityKind, { fts: string; columns: Partial<Record<SearchField, string>> }> = {
+  notes: {
+    fts: 'notes_fts',
+    columns: { project: 'e.project', created: 'date(e.created_at)', tag: 'e.tags' }
+  },
+  artifacts: {
+    fts: 'artifacts_fts',
+    columns: { project: 'e.project', created: 'date(e.created_at)' }
+  },
+  tasks: {
+    fts: 'tasks_fts',
+    columns: {
+      project: 'e.project',
+      created: 'date(e.created_at)',
+      status: 'e.status',
+      priority: `(CASE e.priority ${PRIORITY_ORDER.map((p, i) => `WHEN '${p}' THEN ${i}`).join(' ')} END)`,
+      trust: 'e.trust_level'
+    }
+  }
+};
+
+/**
+ * Compile an AST into a parameterized WHERE clause for one entity table
+ * The table must be aliased as `e` in the surrounding query
+ */
+export function compileForEntity(node: QueryNode | null, entity: EntityKind): CompiledClause {
+  if (!node) {
+    return { sql: '1', params: [] };
+  }
+
+  const { fts, columns } = ENTITY_COLUMNS[entity];
+
+  switch (node.kind) {
+    case 'term':
+    case 'phrase':
+      return {
+        sql: `e.rowid IN (SELECT rowid FROM ${fts} WHERE ${fts} MATCH ?)`,
+        params: [toFtsTerm(node)]
+      };
+
+    case 'field': {
+      if (node.field === 'type') {
+        return { sql: node.value === entity ? '1' : '0', params: [] };
+      }
+
+      const column = columns[node.field];
+      if (!column) {
+        return { sql: '0', params: [] };
+      }
+
+      if (node.field === 'tag') {
+        // Malformed tag data matches no tag rather than failing the query
+        return {
+          sql: `json_valid(${column}) AND EXISTS (SELECT 1 FROM json_each(${column}) WHERE json_each.value = ?)`,
+          params: [node.value]
+        };
+      }
+
+      if (node.field === 'priority') {
+        return { sql: `${column} ${node.op} ?`, params: [PRIORITY_ORDER.indexOf(node.value)] };
+      }
+
+      return { sql: `${column} ${node.op} ?`, params: [node.value] };
+    }
+
+    case 'not': {
+      const inner = compileForEntity(node.child, entity);
+      return { sql: `NOT (${inner.sql})`, params: inner.params };
+    }
+
+    case 'and':
+    case 'or': {
+      const parts = node.children.map(child => compileForEntity(child, entity));
+      const joiner = node.kind === 'and' ? ' AND ' : ' OR ';
+      return {
+        sql: `(${parts.map(p => p.sql).join(joiner)})`,
+        params: parts.flatMap(p => p.params)
+      };
+    }
+  }
+}
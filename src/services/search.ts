@@ -1,276 +1,524 @@
 import { getDb } from '../db/client.js';
-import type { SearchResult, SearchQuery } from '../types/index.js';
+import type {
+  SearchResult,
+  SearchQuery,
+  SearchSort,
+  SearchFacets,
+  FacetBucket,
+  FacetedSearchResponse
+} from '../types/index.js';
 import { truncate } from '../security/sanitize.js';
+import {
+  parseSearchQuery,
+  rankingMatchQuery,
+  compileForEntity,
+  QueryParseError,
+  type EntityKind,
+  type QueryNode
+} from './search-query.js';
+import { findSimilar, type EmbeddedEntity } from './embeddings.js';
+
+// Markers wrapped around matched terms in snippets
+const HIGHLIGHT_OPEN = '**';
+const HIGHLIGHT_CLOSE = '**';
+const SNIPPET_ELLIPSIS = '...';
+const SNIPPET_TOKENS = 24;
+const FALLBACK_SNIPPET_LENGTH = 150;
 
 /**
- * Search across notes, artifacts, and tasks
+ * Convert free text into a safe FTS5 MATCH expression
+ *
+ * Bare words are quoted so FTS5 operators in user input are treated as text.
+ * A trailing `*` makes a word a prefix query, and `"quoted text"` is kept
+ * as a phrase. Terms are ANDed together. Returns null if nothing searchable
+ * remains.
  */
-export function search(query: SearchQuery): SearchResult[] {
-  const db = getDb();
-  const { q, types, project, limit = 20 } = query;
-
-  if (!q || q.trim().length === 0) {
-    return [];
-  }
-
-  const searchTerm = `%${q}%`;
-  const results: SearchResult[] = [];
-
-  const shouldSearchNotes = !types || types.includes('notes');
-  const shouldSearchArtifacts = !types || types.includes('artifacts');
-  const shouldSearchTasks = !types || types.includes('tasks');
-
-  // Search notes
-  if (shouldSearchNotes) {
-    let noteSql = `
-      SELECT id, content, project
-      FROM notes
-      WHERE content LIKE ?
-    `;
-    const noteParams: (string | number)[] = [searchTerm];
-
-    if (project) {
-      noteSql += ' AND project = ?';
-      noteParams.push(project);
+export function toMatchQuery(q: string): string | null {
+  const terms: string[] = [];
+  const tokenPattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(q)) !== null) {
+    const phrase = match[1];
+    const word = match[2];
+
+    if (phrase !== undefined) {
+      if (/[\p{L}\p{N}]/u.test(phrase)) {
+        terms.push(`"${phrase}"`);
+      }
+      continue;
     }
 
-    noteSql += ' LIMIT ?';
-    noteParams.push(limit);
-
-    const notes = db.prepare(noteSql).all(...noteParams) as Array<{
-      id: string;
-      content: string;
-      project: string | null;
-    }>;
-
-    for (const note of notes) {
-      results.push({
-        type: 'note',
-        id: note.id,
-        snippet: createSnippet(note.content, q),
-        score: calculateScore(note.content, q),
-        project: note.project
-      });
+    if (word === undefined) {
+      continue;
     }
-  }
 
-  // Search artifacts
-  if (shouldSearchArtifacts) {
-    let artifactSql = `
-      SELECT id, title, content, project
-      FROM artifacts
-      WHERE title LIKE ? OR content LIKE ?
-    `;
-    const artifactParams: (string | number)[] = [searchTerm, searchTerm];
-
-    if (project) {
-      artifactSql += ' AND project = ?';
-      artifactParams.push(project);
+    const isPrefix = word.endsWith('*');
+    const text = word.replace(/["*]/g, '');
+    if (!/[\p{L}\p{N}]/u.test(text)) {
+      continue;
     }
 
-    artifactSql += ' LIMIT ?';
-    artifactParams.push(limit);
-
-    const artifacts = db.prepare(artifactSql).all(...artifactParams) as Array<{
-      id: string;
-      title: string;
-      content: string;
-      project: string | null;
-    }>;
-
-    for (const artifact of artifacts) {
-      const matchText = artifact.title.toLowerCase().includes(q.toLowerCase())
-        ? artifact.title
-        : artifact.content;
-
-      results.push({
-        type: 'artifact',
-        id: artifact.id,
-        snippet: createSnippet(matchText, q),
-        score: calculateScore(artifact.title + ' ' + artifact.content, q),
-        project: artifact.project
-      });
-    }
+    terms.push(isPrefix ? `"${text}"*` : `"${text}"`);
   }
 
-  // Search tasks
-  if (shouldSearchTasks) {
-    let taskSql = `
-      SELECT id, title, description, project
-      FROM tasks
-      WHERE title LIKE ? OR description LIKE ?
-    `;
-    const taskParams: (string | number)[] = [searchTerm, searchTerm];
+  return terms.length > 0 ? terms.join(' ') : null;
+}
 
-    if (project) {
-      taskSql += ' AND project = ?';
-      taskParams.push(project);
-    }
+interface EntitySearchConfig {
+  type: SearchResult['type'];
+  table: string;
+  fts: string;
+  bm25Weights: string;
+  fallbackSnippet: string;
+  facetColumns: string;
+}
 
-    taskSql += ' LIMIT ?';
-    taskParams.push(limit);
-
-    const tasks = db.prepare(taskSql).all(...taskParams) as Array<{
-      id: string;
-      title: string;
-      description: string | null;
-      project: string;
-    }>;
-
-    for (const task of tasks) {
-      const matchText = task.title.toLowerCase().includes(q.toLowerCase())
-        ? task.title
-        : (task.description ?? task.title);
-
-      results.push({
-        type: 'task',
-        id: task.id,
-        snippet: createSnippet(matchText, q),
-        score: calculateScore(task.title + ' ' + (task.description ?? ''), q),
-        project: task.project
-      });
-    }
+const ENTITY_SEARCH: Record<EntityKind, EntitySearchConfig> = {
+  // Tags weighted above body text
+  notes: {
+    type: 'note',
+    table: 'notes',
+    fts: 'notes_fts',
+    bm25Weights: '1.0, 1.5',
+    fallbackSnippet: 'e.content',
+    facetColumns: 'e.tags AS tags, NULL AS status, NULL AS priority'
+  },
+  // Titles weighted above content/description
+  artifacts: {
+    type: 'artifact',
+    table: 'artifacts',
+    fts: 'artifacts_fts',
+    bm25Weights: '2.0, 1.0',
+    fallbackSnippet: 'e.title',
+    facetColumns: 'NULL AS tags, NULL AS status, NULL AS priority'
+  },
+  tasks: {
+    type: 'task',
+    table: 'tasks',
+    fts: 'tasks_fts',
+    bm25Weights: '2.0, 1.0',
+    fallbackSnippet: 'e.title',
+    facetColumns: 'NULL AS tags, e.status AS status, e.priority AS priority'
   }
+};
 
-  // Sort by score descending
-  results.sort((a, b) => b.score - a.score);
+const MAX_FACET_BUCKETS = 20;
 
-  // Apply final limit
-  return results.slice(0, limit);
+/**
+ * A matched row before snippets are attached
+ */
+interface SearchMatch {
+  type: SearchResult['type'];
+  id: string;
+  project: string | null;
+  created_at: string;
+  score: number;
 }
 
+type SortKey = Pick<SearchMatch, 'score' | 'created_at' | 'type' | 'id'>;
+
 /**
- * Create a snippet around the search term
+ * Result ordering for each sort mode
+ * Relevance orders by score, then newest first; type and id make every
+ * ordering total so cursors are stable.
  */
-function createSnippet(text: string, searchTerm: string, maxLength: number = 150): string {
-  const lowerText = text.toLowerCase();
-  const lowerSearch = searchTerm.toLowerCase();
+const SORT_KEYS: Record<SearchSort, Array<[keyof SortKey, 'ASC' | 'DESC']>> = {
+  relevance: [['score', 'DESC'], ['created_at', 'DESC'], ['type', 'ASC'], ['id', 'ASC']],
+  newest: [['created_at', 'DESC'], ['type', 'ASC'], ['id', 'ASC']],
+  oldest: [['created_at', 'ASC'], ['type', 'ASC'], ['id', 'ASC']]
+};
 
-  const index = lowerText.indexOf(lowerSearch);
+/**
+ * Thrown when a pagination cursor cannot be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Search across notes, artifacts, and tasks
+ *
+ * `q` uses the structured query language from search-query.ts and throws
+ * QueryParseError when it cannot be parsed. Rows matched by text terms are
+ * ranked by BM25 (higher score is better); rows matched only by field
+ * filters score 0 and are ordered newest first.
+ */
+export function search(query: SearchQuery): SearchResult[] {
+  const matched = matchQuery(query);
+  return matched ? attachSnippets(fetchPage(matched, query).page, matched.rankQuery) : [];
+}
 
-  if (index === -1) {
-    return truncate(text, maxLength);
+/**
+ * Search and return one page of results with facet counts over the full match set
+ * Pass `next_cursor` from a previous response as `cursor` to get the next page.
+ */
+export function searchWithFacets(query: SearchQuery): FacetedSearchResponse {
+  const matched = matchQuery(query);
+  if (!matched) {
+    return {
+      results: [],
+      total: 0,
+      facets: { type: [], project: [], tag: [], status: [], priority: [] },
+      next_cursor: null
+    };
   }
 
-  // Calculate start position to center the match
-  const snippetRadius = Math.floor((maxLength - searchTerm.length) / 2);
-  let start = Math.max(0, index - snippetRadius);
-  let end = Math.min(text.length, index + searchTerm.length + snippetRadius);
+  const { page, hasMore } = fetchPage(matched, query);
+  const facets = buildFacets(matched);
+  const last = page[page.length - 1];
+
+  return {
+    results: attachSnippets(page, matched.rankQuery),
+    // Every match has exactly one type, and there are fewer types than buckets
+    total: facets.type.reduce((sum, bucket) => sum + bucket.count, 0),
+    facets,
+    next_cursor: hasMore && last ? encodeCursor(last) : null
+  };
+}
 
-  // Adjust to word boundaries if possible
-  if (start > 0) {
-    const spaceIndex = text.indexOf(' ', start);
-    if (spaceIndex !== -1 && spaceIndex < index) {
-      start = spaceIndex + 1;
-    }
+/**
+ * The full match set of a query as a SQL subquery over every searched table
+ */
+interface MatchedQuery {
+  sql: string;
+  params: (string | number)[];
+  rankQuery: string | null;
+}
+
+/**
+ * Compile a search query into a union of per-table matches
+ * Returns null when the query has nothing to search for
+ */
+function matchQuery(query: SearchQuery): MatchedQuery | null {
+  const { q, types, project } = query;
+  if (!q || q.trim().length === 0) {
+    return null;
   }
 
-  if (end < text.length) {
-    const spaceIndex = text.lastIndexOf(' ', end);
-    if (spaceIndex > index + searchTerm.length) {
-      end = spaceIndex;
-    }
+  const ast = parseSearchQuery(q);
+  if (!ast) {
+    return null;
   }
 
-  let snippet = text.slice(start, end);
+  const rankQuery = rankingMatchQuery(ast);
+  const kinds: EntityKind[] = types ?? ['notes', 'artifacts', 'tasks'];
+  const parts = kinds.map(kind => matchEntity(kind, ast, rankQuery, project));
+
+  return {
+    sql: parts.map(part => part.sql).join(' UNION ALL '),
+    params: parts.flatMap(part => part.params),
+    rankQuery
+  };
+}
 
-  if (start > 0) {
-    snippet = '...' + snippet;
+/**
+ * Select the matches from a single entity table
+ * BM25 ranks (negative, lower is better) become positive scores here, so
+ * ordering and cursors compare the same rounded values
+ */
+function matchEntity(
+  kind: EntityKind,
+  ast: QueryNode,
+  rankQuery: string | null,
+  project: string | undefined
+): { sql: string; params: (string | number)[] } {
+  const entity = ENTITY_SEARCH[kind];
+  const where = compileForEntity(ast, kind);
+  const params: (string | number)[] = [];
+
+  let sql: string;
+  if (rankQuery) {
+    sql = `
+      SELECT '${entity.type}' AS type, e.id, e.project, e.created_at, ${entity.facetColumns},
+        COALESCE(ROUND(-m.rank, 6), 0) AS score
+      FROM ${entity.table} e
+      LEFT JOIN (
+        SELECT rowid, bm25(${entity.fts}, ${entity.bm25Weights}) AS rank
+        FROM ${entity.fts}
+        WHERE ${entity.fts} MATCH ?
+      ) m ON m.rowid = e.rowid
+      WHERE ${where.sql}
+    `;
+    params.push(rankQuery);
+  } else {
+    sql = `
+      SELECT '${entity.type}' AS type, e.id, e.project, e.created_at, ${entity.facetColumns}, 0 AS score
+      FROM ${entity.table} e
+      WHERE ${where.sql}
+    `;
   }
-  if (end < text.length) {
-    snippet = snippet + '...';
+  params.push(...where.params);
+
+  if (project) {
+    sql += ' AND e.project = ?';
+    params.push(project);
   }
 
-  return snippet;
+  return { sql, params };
 }
 
 /**
- * Calculate a basic relevance score
+ * Fetch the page of matches after the query's cursor
+ * One extra row is read to tell whether another page follows
  */
-function calculateScore(text: string, searchTerm: string): number {
-  const lowerText = text.toLowerCase();
-  const lowerSearch = searchTerm.toLowerCase();
-
-  // Count occurrences
-  let count = 0;
-  let pos = 0;
-  while ((pos = lowerText.indexOf(lowerSearch, pos)) !== -1) {
-    count++;
-    pos += lowerSearch.length;
-  }
+function fetchPage(matched: MatchedQuery, query: SearchQuery): { page: SearchMatch[]; hasMore: boolean } {
+  const { sort = 'relevance', limit = 20, cursor } = query;
+  const keys = SORT_KEYS[sort];
+  const after = cursor ? afterCursor(keys, decodeCursor(cursor)) : { sql: '1', params: [] };
+
+  const rows = getDb().prepare(`
+    SELECT type, id, project, created_at, score
+    FROM (${matched.sql})
+    WHERE ${after.sql}
+    ORDER BY ${keys.map(([column, direction]) => `${column} ${direction}`).join(', ')}
+    LIMIT ?
+  `).all(...matched.params, ...after.params, limit + 1) as SearchMatch[];
 
-  // Base score from occurrence count
-  let score = Math.min(count * 0.2, 1.0);
+  return { page: rows.slice(0, limit), hasMore: rows.length > limit };
+}
 
-  // Boost if search term appears at the start
-  if (lowerText.startsWith(lowerSearch)) {
-    score += 0.3;
-  }
+/**
+ * Keyset condition selecting the rows ordered after a cursor
+ * Each branch matches rows tied on the leading keys and past the cursor on the next one
+ */
+function afterCursor(
+  keys: Array<[keyof SortKey, 'ASC' | 'DESC']>,
+  cursor: SortKey
+): { sql: string; params: (string | number)[] } {
+  const branches: string[] = [];
+  const params: (string | number)[] = [];
+
+  keys.forEach(([column, direction], index) => {
+    const tied = keys.slice(0, index);
+    branches.push(
+      [...tied.map(([key]) => `${key} = ?`), `${column} ${direction === 'DESC' ? '<' : '>'} ?`].join(' AND ')
+    );
+    params.push(...tied.map(([key]) => cursor[key]), cursor[column]);
+  });
+
+  return { sql: `(${branches.map(branch => `(${branch})`).join(' OR ')})`, params };
+}
 
-  // Boost for exact word match
-  const wordPattern = new RegExp(`\\b${escapeRegex(lowerSearch)}\\b`, 'i');
-  if (wordPattern.test(text)) {
-    score += 0.2;
-  }
+function encodeCursor(match: SearchMatch): string {
+  const key = [match.score, match.created_at, match.type, match.id];
+  return Buffer.from(JSON.stringify(key)).toString('base64url');
+}
 
-  // Normalize score to 0-1 range
-  return Math.min(score, 1.0);
+function decodeCursor(cursor: string): SortKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as unknown;
+    if (
+      Array.isArray(key) &&
+      typeof key[0] === 'number' &&
+      typeof key[1] === 'string' &&
+      ['note', 'artifact', 'task'].includes(key[2]) &&
+      typeof key[3] === 'string'
+    ) {
+      return { score: key[0], created_at: key[1], type: key[2], id: key[3] };
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new InvalidCursorError();
 }
 
 /**
- * Escape special regex characters
+ * Count matches per type, project, tag, task status and priority
  */
-function escapeRegex(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+function buildFacets(matched: MatchedQuery): SearchFacets {
+  const db = getDb();
+  const count = (value: string, from = 'matches', where = '1'): FacetBucket[] =>
+    db.prepare(`
+      WITH matches AS (${matched.sql})
+      SELECT ${value} AS value, COUNT(*) AS count
+      FROM ${from}
+      WHERE ${where}
+      GROUP BY 1
+      ORDER BY count DESC, value
+      LIMIT ?
+    `).all(...matched.params, MAX_FACET_BUCKETS) as FacetBucket[];
+
+  return {
+    type: count('type'),
+    project: count('COALESCE(project, \'none\')'),
+    // A tag listed twice on one entity counts once; malformed tag data is ignored
+    tag: count(
+      'tag',
+      `(SELECT DISTINCT m.type, m.id, j.value AS tag
+        FROM matches m, json_each(m.tags) j
+        WHERE json_valid(m.tags))`
+    ),
+    status: count('status', 'matches', 'status IS NOT NULL'),
+    priority: count('priority', 'matches', 'priority IS NOT NULL')
+  };
 }
 
 /**
- * Get search suggestions based on common terms
+ * Attach highlighted snippets to a page of matches
+ * Rows matched only by field filters fall back to a truncated body.
  */
-export function getSuggestions(partialQuery: string, limit: number = 5): string[] {
+function attachSnippets(page: SearchMatch[], rankQuery: string | null): SearchResult[] {
   const db = getDb();
+  const snippets = new Map<string, string>();
+
+  for (const entity of Object.values(ENTITY_SEARCH)) {
+    const ids = page.filter(match => match.type === entity.type).map(match => match.id);
+    if (ids.length === 0) {
+      continue;
+    }
+    const placeholders = ids.map(() => '?').join(', ');
+
+    if (rankQuery) {
+      const highlighted = db.prepare(`
+        SELECT e.id, snippet(${entity.fts}, -1, ?, ?, ?, ?) AS snippet
+        FROM ${entity.fts}
+        JOIN ${entity.table} e ON e.rowid = ${entity.fts}.rowid
+        WHERE ${entity.fts} MATCH ? AND e.id IN (${placeholders})
+      `).all(HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, SNIPPET_ELLIPSIS, SNIPPET_TOKENS, rankQuery, ...ids) as Array<{
+        id: string;
+        snippet: string;
+      }>;
+      highlighted.forEach(row => snippets.set(`${entity.type}:${row.id}`, row.snippet));
+    }
+
+    const missing = ids.filter(id => !snippets.has(`${entity.type}:${id}`));
+    if (missing.length > 0) {
+      const bodies = db.prepare(`
+        SELECT e.id, ${entity.fallbackSnippet} AS body
+        FROM ${entity.table} e
+        WHERE e.id IN (${missing.map(() => '?').join(', ')})
+      `).all(...missing) as Array<{ id: string; body: string }>;
+      bodies.forEach(row => snippets.set(`${entity.type}:${row.id}`, truncate(row.body, FALLBACK_SNIPPET_LENGTH)));
+    }
+  }
+
+  return page.map(match => ({
+    type: match.type,
+    id: match.id,
+    snippet: snippets.get(`${match.type}:${match.id}`) ?? '',
+    score: match.score,
+    project: match.project
+  }));
+}
+
+export type SemanticSearchMode = 'semantic' | 'hybrid';
+
+export interface SemanticSearchQuery extends Omit<SearchQuery, 'cursor' | 'sort'> {
+  mode?: SemanticSearchMode;
+  // Share of the hybrid score taken from vector similarity (0-1)
+  semanticWeight?: number;
+}
+
+const ENTITY_KINDS: Record<EmbeddedEntity, EntityKind> = {
+  note: 'notes',
+  artifact: 'artifacts',
+  task: 'tasks'
+};
+
+/**
+ * Search by embedding similarity, optionally blended with keyword results
+ *
+ * In hybrid mode keyword scores are scaled to 0-1 against the best keyword
+ * hit and combined with cosine similarity using `semanticWeight`. Keyword
+ * snippets are preferred because they carry highlights.
+ */
+export async function semanticSearch(query: SemanticSearchQuery): Promise<SearchResult[]> {
+  const { q, types, project, limit = 20, mode = 'semantic', semanticWeight = 0.5 } = query;
 
-  if (!partialQuery || partialQuery.length < 2) {
+  if (!q || q.trim().length === 0) {
     return [];
   }
 
-  const searchTerm = `${partialQuery}%`;
+  const kinds: EntityKind[] = types ?? ['notes', 'artifacts', 'tasks'];
+  const entityTypes = (Object.keys(ENTITY_KINDS) as EmbeddedEntity[])
+    .filter(type => kinds.includes(ENTITY_KINDS[type]));
 
-  // Get unique terms from note content, artifact titles, and task titles
-  const suggestions = new Set<string>();
+  const matches = await findSimilar(q, { types: entityTypes, project, limit });
 
-  // From note tags
-  const notes = db.prepare(`
-    SELECT DISTINCT tags FROM notes
-    WHERE tags LIKE ?
-    LIMIT ?
-  `).all(searchTerm, limit) as { tags: string }[];
-
-  for (const note of notes) {
-    if (note.tags) {
-      try {
-        const tags = JSON.parse(note.tags) as string[];
-        for (const tag of tags) {
-          if (tag.toLowerCase().startsWith(partialQuery.toLowerCase())) {
-            suggestions.add(tag);
-          }
-        }
-      } catch {
-        // Ignore parse errors
+  const merged = new Map<string, SearchResult & { keywordScore: number }>();
+  for (const match of matches) {
+    const item = getResultSummary(match.type, match.id);
+    if (!item) {
+      continue;
+    }
+    merged.set(`${match.type}:${match.id}`, {
+      type: match.type,
+      id: match.id,
+      snippet: item.snippet,
+      score: 0,
+      similarity: round(match.similarity),
+      project: item.project,
+      keywordScore: 0
+    });
+  }
+
+  if (mode === 'hybrid') {
+    const keywordResults = keywordSearch({ q, types: kinds, project, limit });
+    const maxKeywordScore = Math.max(0, ...keywordResults.map(r => r.score));
+
+    for (const result of keywordResults) {
+      const key = `${result.type}:${result.id}`;
+      const keywordScore = maxKeywordScore > 0 ? result.score / maxKeywordScore : 1;
+      const existing = merged.get(key);
+
+      if (existing) {
+        existing.keywordScore = keywordScore;
+        existing.snippet = result.snippet;
+      } else {
+        merged.set(key, { ...result, similarity: 0, keywordScore });
       }
     }
   }
 
-  // From artifact titles
-  const artifacts = db.prepare(`
-    SELECT DISTINCT title FROM artifacts
-    WHERE title LIKE ?
-    LIMIT ?
-  `).all(searchTerm, limit) as { title: string }[];
+  const weight = mode === 'hybrid' ? semanticWeight : 1;
+  const results = Array.from(merged.values()).map(({ keywordScore, ...result }) => ({
+    ...result,
+    score: round(weight * (result.similarity ?? 0) + (1 - weight) * keywordScore)
+  }));
 
-  for (const artifact of artifacts) {
-    suggestions.add(artifact.title);
+  results.sort((a, b) => b.score - a.score);
+
+  return results.slice(0, limit);
+}
+
+/**
+ * Keyword half of a hybrid search
+ * Semantic queries are natural language, so one that is not valid query
+ * syntax is searched for as plain words instead of failing
+ */
+function keywordSearch(query: SearchQuery): SearchResult[] {
+  try {
+    return search(query);
+  } catch (error) {
+    if (!(error instanceof QueryParseError)) {
+      throw error;
+    }
+    const words = toMatchQuery(query.q);
+    return words ? search({ ...query, q: words }) : [];
   }
+}
+
+/**
+ * Look up the project and a display snippet for a search hit
+ */
+function getResultSummary(type: EmbeddedEntity, id: string): { snippet: string; project: string | null } | null {
+  const db = getDb();
+  const entity = ENTITY_SEARCH[ENTITY_KINDS[type]];
+  const row = db.prepare(`
+    SELECT e.project, ${entity.fallbackSnippet} AS body FROM ${entity.table} e WHERE e.id = ?
+  `).get(id) as { project: string | null; body: string } | undefined;
+
+  if (!row) {
+    return null;
+  }
+
+  return { snippet: truncate(row.body, FALLBACK_SNIPPET_LENGTH), project: row.project };
+}
 
-  return Array.from(suggestions).slice(0, limit);
+function round(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
 }
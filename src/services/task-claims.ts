@@ -0,0 +1,208 @@
+import { getDb } from '../db/client.js';
+import type { Task, TaskLease } from '../types/index.js';
+import { config } from '../config.js';
+import { getTaskById, transitionTask, PRIORITY_ORDER_SQL } from './tasks.js';
+import { unblockedCondition } from './task-dependencies.js';
+import { truncate } from '../security/sanitize.js';
+
+/**
+ * Raised when claiming a task another holder has a live lease on
+ */
+export class TaskClaimedError extends Error {
+  constructor(taskId: string, public readonly lease: TaskLease) {
+    super(`Task ${taskId} is claimed${lease.worker ? ` by ${lease.worker}` : ''} until ${lease.expires_at}`);
+    this.name = 'TaskClaimedError';
+  }
+}
+
+/**
+ * Raised when renewing or releasing a lease the caller does not hold, or that has expired
+ */
+export class LeaseNotHeldError extends Error {
+  constructor(taskId: string) {
+    super(`No live lease on task ${taskId} is held by this caller`);
+    this.name = 'LeaseNotHeldError';
+  }
+}
+
+export interface ClaimOptions {
+  worker?: string | null; // Name of the agent instance; one API key can run several workers
+  ttlSeconds?: number; // Defaults to TASK_LEASE_SECONDS
+}
+
+export interface TaskClaim {
+  task: Task;
+  lease: TaskLease;
+}
+
+const MAX_WORKER_LENGTH = 100;
+
+/**
+ * Get the live lease on a task, if any
+ */
+export function getLease(taskId: string, now: Date = new Date()): TaskLease | null {
+  const db = getDb();
+  const result = db.prepare(`
+    SELECT * FROM task_claims WHERE task_id = ? AND expires_at > ?
+  `).get(taskId, now.toISOString()) as TaskLease | undefined;
+  return result ?? null;
+}
+
+/**
+ * Claim a task, activating it if needed, or renew the caller's own claim
+ * Claimed tasks stay active alongside other claimed tasks in the project.
+ * Returns null if the task does not exist. Throws TaskClaimedError if someone
+ * else holds a live lease, and the activation errors of transitionTask
+ */
+export function claimTask(id: string, apiKeyId: string, options: ClaimOptions = {}): TaskClaim | null {
+  const db = getDb();
+  const worker = options.worker ? truncate(options.worker, MAX_WORKER_LENGTH) : null;
+
+  return db.transaction((): TaskClaim | null => {
+    const task = getTaskById(id);
+    if (!task) {
+      return null;
+    }
+
+    const now = new Date();
+    const existing = getLease(id, now);
+    if (existing && !holds(existing, apiKeyId, worker)) {
+      throw new TaskClaimedError(id, existing);
+    }
+
+    const claimed = task.status === 'active'
+      ? task
+      : transitionTask(id, 'activate', {
+        actorKeyId: apiKeyId,
+        reason: `Claimed${worker ? ` by ${worker}` : ''}`,
+        exclusive: false
+      }) as Task;
+
+    const ttl = options.ttlSeconds ?? config.taskLeaseSeconds;
+    db.prepare(`
+      INSERT INTO task_claims (task_id, api_key_id, worker, ttl_seconds, claimed_at, heartbeat_at, expires_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(task_id) DO UPDATE SET
+        api_key_id = excluded.api_key_id,
+        worker = excluded.worker,
+        ttl_seconds = excluded.ttl_seconds,
+        claimed_at = CASE WHEN task_claims.expires_at > excluded.heartbeat_at
+          THEN task_claims.claimed_at ELSE excluded.claimed_at END,
+        heartbeat_at = excluded.heartbeat_at,
+        expires_at = excluded.expires_at
+    `).run(id, apiKeyId, worker, ttl, now.toISOString(), now.toISOString(), expiry(now, ttl));
+    db.prepare('UPDATE tasks SET claimed_by_key = ? WHERE id = ?').run(apiKeyId, id);
+
+    return { task: { ...claimed, claimed_by_key: apiKeyId }, lease: getLease(id, now) as TaskLease };
+  }).immediate();
+}
+
+/**
+ * Atomically claim the highest-priority queued task that is not waiting on blockers
+ * Returns null when there is nothing to claim
+ */
+export function claimNextTask(project: string | undefined, apiKeyId: string, options: ClaimOptions = {}): TaskClaim | null {
+  const db = getDb();
+
+  return db.transaction((): TaskClaim | null => {
+    reapExpiredLeases();
+
+    const next = db.prepare(`
+      SELECT id FROM tasks
+      WHERE status = 'queued' AND (? IS NULL OR project = ?) AND ${unblockedCondition()}
+      ORDER BY ${PRIORITY_ORDER_SQL}, created_at ASC
+      LIMIT 1
+    `).get(project ?? null, project ?? null) as { id: string } | undefined;
+
+    return next ? claimTask(next.id, apiKeyId, options) : null;
+  }).immediate();
+}
+
+/**
+ * Renew the caller's lease for another TTL
+ * Throws LeaseNotHeldError if the caller holds no live lease on the task
+ */
+export function heartbeatTask(
+  id: string,
+  apiKeyId: string,
+  options: ClaimOptions = {}
+): TaskLease {
+  const db = getDb();
+  const worker = options.worker ? truncate(options.worker, MAX_WORKER_LENGTH) : null;
+
+  return db.transaction(() => {
+    const now = new Date();
+    const lease = getLease(id, now);
+
+    if (!lease || !holds(lease, apiKeyId, worker)) {
+      throw new LeaseNotHeldError(id);
+    }
+
+    const ttl = options.ttlSeconds ?? lease.ttl_seconds;
+    db.prepare(`
+      UPDATE task_claims SET ttl_seconds = ?, heartbeat_at = ?, expires_at = ? WHERE task_id = ?
+    `).run(ttl, now.toISOString(), expiry(now, ttl), id);
+
+    return getLease(id, now) as TaskLease;
+  }).immediate();
+}
+
+/**
+ * Give up the caller's claim and return the task to the queue
+ * Throws LeaseNotHeldError if the caller holds no live lease on the task
+ */
+export function releaseTask(id: string, apiKeyId: string, options: ClaimOptions = {}): Task | null {
+  const db = getDb();
+  const worker = options.worker ? truncate(options.worker, MAX_WORKER_LENGTH) : null;
+
+  return db.transaction(() => {
+    const lease = getLease(id);
+
+    if (!lease || !holds(lease, apiKeyId, worker)) {
+      throw new LeaseNotHeldError(id);
+    }
+
+    // Leaving 'active' also deletes the lease
+    return transitionTask(id, 'requeue', {
+      actorKeyId: apiKeyId,
+      reason: `Claim released${worker ? ` by ${worker}` : ''}`
+    });
+  }).immediate();
+}
+
+/**
+ * Return tasks whose lease ran out without a heartbeat to the queue
+ * Returns the tasks requeued
+ */
+export function reapExpiredLeases(now: Date = new Date()): Task[] {
+  const db = getDb();
+  const expired = db.prepare(`
+    SELECT * FROM task_claims WHERE expires_at <= ?
+  `).all(now.toISOString()) as TaskLease[];
+
+  const requeued: Task[] = [];
+  for (const lease of expired) {
+    const task = getTaskById(lease.task_id);
+
+    if (task?.status === 'active') {
+      const updated = transitionTask(task.id, 'requeue', {
+        reason: `Lease expired${lease.worker ? ` for ${lease.worker}` : ''}`
+      });
+      if (updated) {
+        requeued.push(updated);
+      }
+    } else {
+      db.prepare('DELETE FROM task_claims WHERE task_id = ?').run(lease.task_id);
+    }
+  }
+
+  return requeued;
+}
+
+function holds(lease: TaskLease, apiKeyId: string, worker: string | null): boolean {
+  return lease.api_key_id === apiKeyId && lease.worker === worker;
+}
+
+function expiry(now: Date, ttlSeconds: number): string {
+  return new Date(now.getTime() + ttlSeconds * 1000).toISOString();
+}
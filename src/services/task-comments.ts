@@ -0,0 +1,142 @@
+import { getDb } from '../db/client.js';
+import type { TaskComment } from '../types/index.js';
+import { sanitizeContent, truncate } from '../security/sanitize.js';
+import { getTaskById } from './tasks.js';
+import { getTaskComments } from './task-outline.js';
+
+/**
+ * Raised when editing or deleting a comment written with another API key
+ */
+export class CommentAuthorError extends Error {
+  constructor(commentId: number) {
+    super(`Comment ${commentId} can only be changed by its author`);
+    this.name = 'CommentAuthorError';
+  }
+}
+
+export interface CommentAuthor {
+  authorKeyId?: string | null;
+  source?: string;
+}
+
+const MAX_COMMENT_LENGTH = 10000;
+
+// Task IDs as issued by project sequences, e.g. MYTHRIL-004 or MYTHRIL-004.2
+const TASK_MENTION = /\b[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*-\d+(?:\.\d+)*\b/g;
+
+/**
+ * List the comments on a task, oldest first
+ */
+export function listComments(taskId: string): TaskComment[] {
+  return getTaskComments([taskId]);
+}
+
+/**
+ * Get one comment on a task
+ */
+export function getComment(taskId: string, commentId: number): TaskComment | null {
+  return listComments(taskId).find(comment => comment.id === commentId) ?? null;
+}
+
+/**
+ * Comment on a task, linking the other tasks the body mentions
+ * Returns null if the task does not exist
+ */
+export function addComment(taskId: string, body: string, author: CommentAuthor = {}): TaskComment | null {
+  const db = getDb();
+
+  if (!getTaskById(taskId)) {
+    return null;
+  }
+
+  const content = sanitizeContent(body, MAX_COMMENT_LENGTH);
+  const commentId = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO task_comments (task_id, author_key_id, source, body, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(
+      taskId,
+      author.authorKeyId ?? null,
+      truncate(author.source ?? 'api', 100),
+      content,
+      new Date().toISOString()
+    );
+    const id = Number(result.lastInsertRowid);
+    linkMentions(id, taskId, content);
+    return id;
+  })();
+
+  return getComment(taskId, commentId) as TaskComment;
+}
+
+/**
+ * Replace a comment's body and its mentions
+ * Returns null if the comment does not belong to the task. Throws CommentAuthorError
+ */
+export function updateComment(
+  taskId: string,
+  commentId: number,
+  body: string,
+  actorKeyId: string | null = null
+): TaskComment | null {
+  const db = getDb();
+  const existing = getComment(taskId, commentId);
+
+  if (!existing) {
+    return null;
+  }
+  assertAuthor(existing, actorKeyId);
+
+  const content = sanitizeContent(body, MAX_COMMENT_LENGTH);
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE task_comments SET body = ?, updated_at = ? WHERE id = ?
+    `).run(content, new Date().toISOString(), commentId);
+    db.prepare('DELETE FROM task_comment_mentions WHERE comment_id = ?').run(commentId);
+    linkMentions(commentId, taskId, content);
+  })();
+
+  return getComment(taskId, commentId) as TaskComment;
+}
+
+/**
+ * Delete a comment and its mentions
+ * Throws CommentAuthorError
+ */
+export function deleteComment(taskId: string, commentId: number, actorKeyId: string | null = null): boolean {
+  const db = getDb();
+  const existing = getComment(taskId, commentId);
+
+  if (!existing) {
+    return false;
+  }
+  assertAuthor(existing, actorKeyId);
+
+  db.prepare('DELETE FROM task_comments WHERE id = ?').run(commentId);
+
+  return true;
+}
+
+/**
+ * IDs of existing tasks, other than `taskId`, mentioned in a comment body
+ */
+export function findMentions(taskId: string, body: string): string[] {
+  const ids = new Set(body.match(TASK_MENTION) ?? []);
+  ids.delete(taskId);
+  return [...ids].filter(id => getTaskById(id) !== null);
+}
+
+function linkMentions(commentId: number, taskId: string, body: string): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT OR IGNORE INTO task_comment_mentions (comment_id, task_id) VALUES (?, ?)');
+  for (const mentioned of findMentions(taskId, body)) {
+    insert.run(commentId, mentioned);
+  }
+}
+
+function assertAuthor(comment: TaskComment, actorKeyId: string | null): void {
+  // Comments written without a key (by the server itself) can be changed by anyone
+  if (comment.author_key_id && comment.author_key_id !== actorKeyId) {
+    throw new CommentAuthorError(comment.id);
+  }
+}
@@ -0,0 +1,289 @@
+import { getDb } from '../db/client.js';
+import type { Task, TaskDependency, TaskGraph, TaskGraphNode } from '../types/index.js';
+import { syncTaskGraphToVault, deleteTaskGraphFromVault } from './vault-sync.js';
+import { enqueueVaultSync } from './vault-outbox.js';
+
+/**
+ * Raised when a dependency would make a task (indirectly) depend on itself
+ * The cycle lists task IDs where each depends on the next, ending where it started.
+ */
+export class DependencyCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Dependency would create a cycle: ${cycle.join(' -> ')}`);
+    this.name = 'DependencyCycleError';
+  }
+}
+
+/**
+ * Raised when activating a task whose blockers are not finished
+ */
+export class TaskBlockedError extends Error {
+  constructor(taskId: string, public readonly blockers: Task[]) {
+    super(`Task ${taskId} is blocked by unfinished tasks: ${blockers.map(task => task.id).join(', ')}`);
+    this.name = 'TaskBlockedError';
+  }
+}
+
+// Cancelled blockers no longer hold anything up
+const FINISHED_STATUSES = "('completed', 'cancelled')";
+
+const MERMAID_CLASSES: Record<string, string> = {
+  active: 'fill:#fff3cd,stroke:#d39e00',
+  review: 'fill:#d1ecf1,stroke:#17a2b8',
+  completed: 'fill:#d4edda,stroke:#28a745',
+  cancelled: 'fill:#e2e3e5,stroke:#6c757d,stroke-dasharray:4',
+  blocked: 'fill:#f8d7da,stroke:#dc3545'
+};
+
+/**
+ * Record that a task cannot start until another is finished
+ * Adding an existing dependency is a no-op.
+ * Returns null if either task does not exist; throws DependencyCycleError for cycles
+ */
+export function addTaskDependency(taskId: string, dependsOnId: string): TaskDependency | null {
+  const db = getDb();
+
+  const task = getTask(taskId);
+  const blocker = getTask(dependsOnId);
+  if (!task || !blocker) {
+    return null;
+  }
+
+  db.transaction(() => {
+    const cycle = findPath(dependsOnId, taskId);
+    if (cycle) {
+      throw new DependencyCycleError([taskId, ...cycle]);
+    }
+
+    db.prepare(`
+      INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_id, created_at)
+      VALUES (?, ?, ?)
+    `).run(taskId, dependsOnId, new Date().toISOString());
+
+    enqueueVaultSync('graph', task.project);
+    enqueueVaultSync('graph', blocker.project);
+  })();
+
+  return db.prepare(`
+    SELECT * FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?
+  `).get(taskId, dependsOnId) as TaskDependency;
+}
+
+/**
+ * Remove a dependency between two tasks
+ */
+export function removeTaskDependency(taskId: string, dependsOnId: string): boolean {
+  const db = getDb();
+
+  return db.transaction(() => {
+    const result = db.prepare(`
+      DELETE FROM task_dependencies WHERE task_id = ? AND depends_on_id = ?
+    `).run(taskId, dependsOnId);
+
+    if (result.changes > 0) {
+      for (const id of [taskId, dependsOnId]) {
+        const task = getTask(id);
+        if (task) {
+          enqueueVaultSync('graph', task.project);
+        }
+      }
+    }
+
+    return result.changes > 0;
+  })();
+}
+
+/**
+ * Get the tasks a task depends on
+ */
+export function getTaskBlockers(taskId: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT t.* FROM task_dependencies d
+    JOIN tasks t ON t.id = d.depends_on_id
+    WHERE d.task_id = ?
+    ORDER BY t.created_at ASC
+  `).all(taskId) as Task[];
+}
+
+/**
+ * Get the blockers of a task that are neither completed nor cancelled
+ */
+export function getUnfinishedBlockers(taskId: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT t.* FROM task_dependencies d
+    JOIN tasks t ON t.id = d.depends_on_id
+    WHERE d.task_id = ? AND t.status NOT IN ${FINISHED_STATUSES}
+    ORDER BY t.created_at ASC
+  `).all(taskId) as Task[];
+}
+
+/**
+ * Get the tasks that depend on a task
+ */
+export function getDependentTasks(taskId: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT t.* FROM task_dependencies d
+    JOIN tasks t ON t.id = d.task_id
+    WHERE d.depends_on_id = ?
+    ORDER BY t.created_at ASC
+  `).all(taskId) as Task[];
+}
+
+/**
+ * SQL condition matching tasks that have no unfinished blockers
+ * Expects the tasks table to be available as `tasks`.
+ */
+export function unblockedCondition(): string {
+  return `NOT EXISTS (
+    SELECT 1 FROM task_dependencies d
+    JOIN tasks blocker ON blocker.id = d.depends_on_id
+    WHERE d.task_id = tasks.id AND blocker.status NOT IN ${FINISHED_STATUSES}
+  )`;
+}
+
+/**
+ * Build the dependency graph of a project
+ * Tasks from other projects appear as external nodes when linked to this one.
+ */
+export function getTaskGraph(project: string): TaskGraph {
+  const db = getDb();
+
+  const edges = db.prepare(`
+    SELECT d.depends_on_id as "from", d.task_id as "to"
+    FROM task_dependencies d
+    JOIN tasks t ON t.id = d.task_id
+    JOIN tasks b ON b.id = d.depends_on_id
+    WHERE t.project = ? OR b.project = ?
+    ORDER BY d.depends_on_id, d.task_id
+  `).all(project, project) as Array<{ from: string; to: string }>;
+
+  const tasks = db.prepare(`
+    SELECT * FROM tasks
+    WHERE project = ?
+      OR id IN (
+        SELECT d.depends_on_id FROM task_dependencies d JOIN tasks t ON t.id = d.task_id WHERE t.project = ?
+        UNION
+        SELECT d.task_id FROM task_dependencies d JOIN tasks b ON b.id = d.depends_on_id WHERE b.project = ?
+      )
+    ORDER BY created_at ASC
+  `).all(project, project, project) as Task[];
+
+  const status = new Map(tasks.map(task => [task.id, task.status]));
+  const blocked = new Set(
+    edges
+      .filter(edge => !['completed', 'cancelled'].includes(status.get(edge.from) ?? 'completed'))
+      .map(edge => edge.to)
+  );
+
+  const nodes: TaskGraphNode[] = tasks.map(task => ({
+    id: task.id,
+    title: task.title,
+    project: task.project,
+    status: task.status,
+    priority: task.priority,
+    blocked: blocked.has(task.id),
+    external: task.project !== project
+  }));
+
+  return { project, nodes, edges, mermaid: renderMermaid(nodes, edges) };
+}
+
+/**
+ * Write a project's dependency graph to the vault
+ * Projects without any dependencies get no graph note; a stale one is removed.
+ * Called by the sync worker for queued graphs; throws if the file cannot be written
+ */
+export function syncTaskGraph(project: string): void {
+  const db = getDb();
+  const hasDependencies = db.prepare(`
+    SELECT 1 FROM task_dependencies d
+    JOIN tasks t ON t.id = d.task_id
+    JOIN tasks b ON b.id = d.depends_on_id
+    WHERE t.project = ? OR b.project = ?
+    LIMIT 1
+  `).get(project, project);
+
+  if (hasDependencies) {
+    syncTaskGraphToVault(getTaskGraph(project));
+  } else {
+    deleteTaskGraphFromVault(project);
+  }
+}
+
+function getTask(id: string): Task | null {
+  const db = getDb();
+  const result = db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as Task | undefined;
+  return result ?? null;
+}
+
+/**
+ * Find a chain of dependencies leading from one task to another
+ * Returns the task IDs along the chain, or null if the target is unreachable
+ */
+function findPath(fromId: string, toId: string): string[] | null {
+  const db = getDb();
+  const dependenciesOf = db.prepare('SELECT depends_on_id FROM task_dependencies WHERE task_id = ?');
+  const previous = new Map<string, string | null>([[fromId, null]]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+
+    if (current === toId) {
+      const path: string[] = [];
+      for (let id: string | null = current; id !== null; id = previous.get(id) ?? null) {
+        path.unshift(id);
+      }
+      return path;
+    }
+
+    for (const row of dependenciesOf.all(current) as Array<{ depends_on_id: string }>) {
+      if (!previous.has(row.depends_on_id)) {
+        previous.set(row.depends_on_id, current);
+        queue.push(row.depends_on_id);
+      }
+    }
+  }
+
+  return null;
+}
+
+function renderMermaid(nodes: TaskGraphNode[], edges: Array<{ from: string; to: string }>): string {
+  const lines = ['flowchart TD'];
+
+  for (const node of nodes) {
+    const label = `${node.id}: ${node.title}${node.external ? ` (${node.project})` : ''}`;
+    lines.push(`  ${mermaidId(node.id)}["${escapeMermaidLabel(label)}"]`);
+  }
+
+  for (const edge of edges) {
+    lines.push(`  ${mermaidId(edge.from)} --> ${mermaidId(edge.to)}`);
+  }
+
+  for (const [name, style] of Object.entries(MERMAID_CLASSES)) {
+    const members = nodes
+      .filter(node => node.status === name || (name === 'blocked' && node.blocked && node.status === 'queued'))
+      .map(node => mermaidId(node.id));
+    if (members.length > 0) {
+      lines.push(`  classDef ${name} ${style}`);
+      lines.push(`  class ${members.join(',')} ${name}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function mermaidId(taskId: string): string {
+  return taskId.replace(/[^A-Za-z0-9_]/g, '_');
+}
+
+function escapeMermaidLabel(label: string): string {
+  return label
+    .replace(/&/g, '#amp;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+}
@@ -0,0 +1,320 @@
+import { getDb } from '../db/client.js';
+import type {
+  Task,
+  TaskChecklistItem,
+  TaskComment,
+  TaskMention,
+  TaskProgress,
+  TaskRun,
+  TaskTree
+} from '../types/index.js';
+import { truncate } from '../security/sanitize.js';
+import { syncTaskToVault } from './vault-sync.js';
+
+/**
+ * Raised when completing a task that still has open subtasks without `force`
+ */
+export class OpenSubtasksError extends Error {
+  constructor(taskId: string, public readonly subtasks: Task[]) {
+    super(`Task ${taskId} has open subtasks: ${subtasks.map(task => task.id).join(', ')}`);
+    this.name = 'OpenSubtasksError';
+  }
+}
+
+interface ChecklistRow extends Omit<TaskChecklistItem, 'checked'> {
+  checked: number;
+}
+
+interface RunRow extends Omit<TaskRun, 'artifact_ids'> {
+  artifact_ids: string;
+}
+
+interface CommentRow extends Omit<TaskComment, 'mentions'> {
+  mentions: string;
+}
+
+const MAX_CHECKLIST_TEXT = 500;
+
+/**
+ * Get a task with its checklist, runs, comments, nested subtasks and rolled-up progress
+ */
+export function getTaskTree(id: string): TaskTree | null {
+  const db = getDb();
+
+  const tasks = db.prepare(`
+    WITH RECURSIVE tree(id) AS (
+      SELECT id FROM tasks WHERE id = ?
+      UNION ALL
+      SELECT t.id FROM tasks t JOIN tree ON t.parent_id = tree.id
+    )
+    SELECT tasks.* FROM tasks JOIN tree ON tree.id = tasks.id
+    ORDER BY tasks.created_at ASC, tasks.id ASC
+  `).all(id) as Task[];
+
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const checklists = new Map<string, TaskChecklistItem[]>();
+  const placeholders = tasks.map(() => '?').join(', ');
+  const rows = db.prepare(`
+    SELECT * FROM task_checklist_items
+    WHERE task_id IN (${placeholders})
+    ORDER BY position ASC
+  `).all(...tasks.map(task => task.id)) as ChecklistRow[];
+
+  for (const row of rows) {
+    const items = checklists.get(row.task_id) ?? [];
+    items.push(toChecklistItem(row));
+    checklists.set(row.task_id, items);
+  }
+
+  const ids = tasks.map(task => task.id);
+  const runs = getTaskRuns(ids);
+  const comments = getTaskComments(ids);
+  const mentions = getTaskMentions(ids);
+
+  const build = (task: Task): TaskTree => {
+    const subtasks = tasks.filter(child => child.parent_id === task.id).map(build);
+    const checklist = checklists.get(task.id) ?? [];
+    return {
+      ...task,
+      progress: rollUpProgress(task, checklist, subtasks),
+      checklist,
+      runs: runs.filter(run => run.task_id === task.id),
+      comments: comments.filter(comment => comment.task_id === task.id),
+      mentioned_in: mentions
+        .filter(mention => mention.mentioned === task.id)
+        .map(({ task_id, comment_id, created_at }) => ({ task_id, comment_id, created_at })),
+      subtasks
+    };
+  };
+
+  return build(tasks.find(task => task.id === id) as Task);
+}
+
+/**
+ * Get the runs of tasks with the artifacts each produced, oldest first
+ */
+export function getTaskRuns(taskIds: string[]): TaskRun[] {
+  const db = getDb();
+
+  if (taskIds.length === 0) {
+    return [];
+  }
+
+  const rows = db.prepare(`
+    SELECT task_runs.*,
+      (SELECT json_group_array(artifact_id) FROM task_run_artifacts WHERE run_id = task_runs.id) as artifact_ids
+    FROM task_runs
+    WHERE task_id IN (${taskIds.map(() => '?').join(', ')})
+    ORDER BY started_at ASC, id ASC
+  `).all(...taskIds) as RunRow[];
+
+  return rows.map(row => ({ ...row, artifact_ids: JSON.parse(row.artifact_ids) as string[] }));
+}
+
+/**
+ * Get the comments on tasks with the task IDs each mentions, oldest first
+ */
+export function getTaskComments(taskIds: string[]): TaskComment[] {
+  const db = getDb();
+
+  if (taskIds.length === 0) {
+    return [];
+  }
+
+  const rows = db.prepare(`
+    SELECT task_comments.*,
+      (SELECT json_group_array(task_id) FROM task_comment_mentions WHERE comment_id = task_comments.id) as mentions
+    FROM task_comments
+    WHERE task_id IN (${taskIds.map(() => '?').join(', ')})
+    ORDER BY created_at ASC, id ASC
+  `).all(...taskIds) as CommentRow[];
+
+  return rows.map(row => ({ ...row, mentions: JSON.parse(row.mentions) as string[] }));
+}
+
+/**
+ * Get the comments on other tasks that mention these tasks, oldest first
+ */
+function getTaskMentions(taskIds: string[]): Array<TaskMention & { mentioned: string }> {
+  const db = getDb();
+
+  return db.prepare(`
+    SELECT task_comments.task_id, task_comments.id as comment_id, task_comments.created_at,
+      task_comment_mentions.task_id as mentioned
+    FROM task_comment_mentions
+    JOIN task_comments ON task_comments.id = task_comment_mentions.comment_id
+    WHERE task_comment_mentions.task_id IN (${taskIds.map(() => '?').join(', ')})
+    ORDER BY task_comments.created_at ASC, task_comments.id ASC
+  `).all(...taskIds) as Array<TaskMention & { mentioned: string }>;
+}
+
+/**
+ * Get the subtasks of a task, at any depth, that are neither completed nor cancelled
+ */
+export function getOpenSubtasks(id: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    WITH RECURSIVE descendants(id) AS (
+      SELECT id FROM tasks WHERE parent_id = ?
+      UNION ALL
+      SELECT t.id FROM tasks t JOIN descendants ON t.parent_id = descendants.id
+    )
+    SELECT tasks.* FROM tasks JOIN descendants ON descendants.id = tasks.id
+    WHERE tasks.status NOT IN ('completed', 'cancelled')
+    ORDER BY tasks.id ASC
+  `).all(id) as Task[];
+}
+
+/**
+ * Get a task and all of its subtasks, at any depth
+ */
+export function getTaskWithDescendants(id: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    WITH RECURSIVE tree(id) AS (
+      SELECT id FROM tasks WHERE id = ?
+      UNION ALL
+      SELECT t.id FROM tasks t JOIN tree ON t.parent_id = tree.id
+    )
+    SELECT tasks.* FROM tasks JOIN tree ON tree.id = tasks.id
+  `).all(id) as Task[];
+}
+
+/**
+ * Next free subtask ID under a parent, e.g. MYTHRIL-012.3
+ */
+export function nextSubtaskId(parentId: string): string {
+  const db = getDb();
+  const children = db.prepare('SELECT id FROM tasks WHERE parent_id = ?').all(parentId) as Array<{ id: string }>;
+
+  const highest = children.reduce((max, child) => {
+    const suffix = Number(child.id.slice(parentId.length + 1));
+    return Number.isInteger(suffix) ? Math.max(max, suffix) : max;
+  }, 0);
+
+  return `${parentId}.${highest + 1}`;
+}
+
+/**
+ * Add a checklist item to the end of a task's checklist
+ * Returns null if the task does not exist
+ */
+export function addChecklistItem(taskId: string, text: string): TaskChecklistItem | null {
+  const db = getDb();
+
+  if (!db.prepare('SELECT 1 FROM tasks WHERE id = ?').get(taskId)) {
+    return null;
+  }
+
+  const result = db.prepare(`
+    INSERT INTO task_checklist_items (task_id, position, text, created_at)
+    SELECT ?, COALESCE(MAX(position), 0) + 1, ?, ?
+    FROM task_checklist_items WHERE task_id = ?
+  `).run(taskId, truncate(text, MAX_CHECKLIST_TEXT), new Date().toISOString(), taskId);
+
+  return getChecklistItem(taskId, Number(result.lastInsertRowid));
+}
+
+/**
+ * Edit or check off a checklist item
+ * Returns null if the item does not belong to the task
+ */
+export function updateChecklistItem(
+  taskId: string,
+  itemId: number,
+  updates: { text?: string; checked?: boolean }
+): TaskChecklistItem | null {
+  const db = getDb();
+  const existing = getChecklistItem(taskId, itemId);
+
+  if (!existing) {
+    return null;
+  }
+
+  const text = updates.text !== undefined ? truncate(updates.text, MAX_CHECKLIST_TEXT) : existing.text;
+  const checked = updates.checked ?? existing.checked;
+  // Keep the original time when re-checking an already checked item
+  const checkedAt = checked ? (existing.checked_at ?? new Date().toISOString()) : null;
+
+  db.prepare(`
+    UPDATE task_checklist_items
+    SET text = ?, checked = ?, checked_at = ?
+    WHERE id = ?
+  `).run(text, checked ? 1 : 0, checkedAt, itemId);
+
+  return getChecklistItem(taskId, itemId);
+}
+
+/**
+ * Remove a checklist item
+ */
+export function removeChecklistItem(taskId: string, itemId: number): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    DELETE FROM task_checklist_items WHERE id = ? AND task_id = ?
+  `).run(itemId, taskId);
+
+  return result.changes > 0;
+}
+
+/**
+ * Write a task and its ancestors to the vault
+ * Ancestors are rewritten because their progress and subtask lists include this task.
+ * Throws if a file cannot be written
+ */
+export function syncTaskTree(id: string): void {
+  let current: string | null = id;
+
+  while (current) {
+    const tree = getTaskTree(current);
+    if (!tree) {
+      return;
+    }
+
+    syncTaskToVault(tree);
+    current = tree.parent_id;
+  }
+}
+
+function getChecklistItem(taskId: string, itemId: number): TaskChecklistItem | null {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT * FROM task_checklist_items WHERE id = ? AND task_id = ?
+  `).get(itemId, taskId) as ChecklistRow | undefined;
+
+  return row ? toChecklistItem(row) : null;
+}
+
+function toChecklistItem(row: ChecklistRow): TaskChecklistItem {
+  return { ...row, checked: row.checked === 1 };
+}
+
+/**
+ * Completed tasks count as done; otherwise progress is the average over
+ * non-cancelled subtasks (weighted by their own progress) and checklist items
+ */
+function rollUpProgress(task: Task, checklist: TaskChecklistItem[], subtasks: TaskTree[]): TaskProgress {
+  const counted = subtasks.filter(subtask => subtask.status !== 'cancelled');
+  const units = [
+    ...counted.map(subtask => subtask.progress.percent / 100),
+    ...checklist.map(item => (item.checked ? 1 : 0))
+  ];
+
+  let fraction = 0;
+  if (task.status === 'completed') {
+    fraction = 1;
+  } else if (units.length > 0) {
+    fraction = units.reduce((sum, unit) => sum + unit, 0) / units.length;
+  }
+
+  return {
+    subtasks_total: subtasks.length,
+    subtasks_completed: subtasks.filter(subtask => subtask.status === 'completed').length,
+    checklist_total: checklist.length,
+    checklist_checked: checklist.filter(item => item.checked).length,
+    percent: Math.round(fraction * 100)
+  };
+}
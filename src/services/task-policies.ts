@@ -0,0 +1,226 @@
+import { getDb } from '../db/client.js';
+import type {
+  Task,
+  TrustLevel,
+  TrustPolicy,
+  UpdateTrustPolicyInput,
+  TaskApproval,
+  PolicyViolation
+} from '../types/index.js';
+import { truncate } from '../security/sanitize.js';
+
+/**
+ * Raised when completing a task would break its project's trust policy
+ */
+export class PolicyViolationError extends Error {
+  constructor(
+    taskId: string,
+    public readonly trustLevel: TrustLevel,
+    public readonly violations: PolicyViolation[]
+  ) {
+    super(`Task ${taskId} cannot be completed under the ${trustLevel} policy: ${violations.map(v => v.message).join('; ')}`);
+    this.name = 'PolicyViolationError';
+  }
+}
+
+/**
+ * Raised when approving a task that is closed or, under require_review, not in review
+ */
+export class ApprovalNotAllowedError extends Error {
+  constructor(taskId: string, public readonly status: Task['status']) {
+    super(`Task ${taskId} cannot be approved while ${status}`);
+    this.name = 'ApprovalNotAllowedError';
+  }
+}
+
+interface PolicyRow extends Omit<TrustPolicy, 'require_review' | 'claimant_only'> {
+  require_review: number;
+  claimant_only: number;
+}
+
+export const TRUST_LEVELS: TrustLevel[] = ['THROWAWAY', 'PROTOTYPE', 'MATURE'];
+
+const MAX_APPROVAL_COMMENT = 500;
+
+/**
+ * Get the policy for tasks of a trust level in a project
+ * Levels a project has not configured get the permissive defaults
+ */
+export function getTrustPolicy(project: string, trustLevel: TrustLevel): TrustPolicy {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT * FROM trust_policies WHERE project = ? AND trust_level = ?
+  `).get(project, trustLevel) as PolicyRow | undefined;
+
+  return row ? toPolicy(row) : defaultPolicy(project, trustLevel);
+}
+
+/**
+ * Get a project's policies, one per trust level
+ */
+export function listTrustPolicies(project: string): TrustPolicy[] {
+  return TRUST_LEVELS.map(level => getTrustPolicy(project, level));
+}
+
+/**
+ * Change a project's policy for a trust level; omitted fields are left unchanged
+ */
+export function setTrustPolicy(project: string, trustLevel: TrustLevel, updates: UpdateTrustPolicyInput): TrustPolicy {
+  const db = getDb();
+  const existing = getTrustPolicy(project, trustLevel);
+
+  db.prepare(`
+    INSERT INTO trust_policies (
+      project, trust_level, require_review, required_approvals, claimant_only, archive_after_days, updated_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT(project, trust_level) DO UPDATE SET
+      require_review = excluded.require_review,
+      required_approvals = excluded.required_approvals,
+      claimant_only = excluded.claimant_only,
+      archive_after_days = excluded.archive_after_days,
+      updated_at = excluded.updated_at
+  `).run(
+    project,
+    trustLevel,
+    (updates.require_review ?? existing.require_review) ? 1 : 0,
+    updates.required_approvals ?? existing.required_approvals,
+    (updates.claimant_only ?? existing.claimant_only) ? 1 : 0,
+    updates.archive_after_days !== undefined ? updates.archive_after_days : existing.archive_after_days,
+    new Date().toISOString()
+  );
+
+  return getTrustPolicy(project, trustLevel);
+}
+
+/**
+ * Return a project's policy for a trust level to the defaults
+ */
+export function resetTrustPolicy(project: string, trustLevel: TrustLevel): boolean {
+  const db = getDb();
+  const result = db.prepare(`
+    DELETE FROM trust_policies WHERE project = ? AND trust_level = ?
+  `).run(project, trustLevel);
+  return result.changes > 0;
+}
+
+/**
+ * List a task's approvals, oldest first
+ */
+export function listApprovals(taskId: string): TaskApproval[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM task_approvals WHERE task_id = ? ORDER BY created_at ASC
+  `).all(taskId) as TaskApproval[];
+}
+
+/**
+ * Approve a task; approving again replaces the key's comment
+ * Approvals are voided when the task goes back from review or is reopened.
+ * Returns null if the task does not exist. Throws ApprovalNotAllowedError
+ */
+export function approveTask(taskId: string, apiKeyId: string, comment?: string): TaskApproval | null {
+  const db = getDb();
+  const task = db.prepare('SELECT * FROM tasks WHERE id = ?').get(taskId) as Task | undefined;
+
+  if (!task) {
+    return null;
+  }
+
+  const policy = getTrustPolicy(task.project, task.trust_level);
+  const closed = task.status === 'completed' || task.status === 'cancelled';
+  if (closed || (policy.require_review && task.status !== 'review')) {
+    throw new ApprovalNotAllowedError(taskId, task.status);
+  }
+
+  db.prepare(`
+    INSERT INTO task_approvals (task_id, api_key_id, comment, created_at)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(task_id, api_key_id) DO UPDATE SET comment = excluded.comment, created_at = excluded.created_at
+  `).run(taskId, apiKeyId, comment ? truncate(comment, MAX_APPROVAL_COMMENT) : null, new Date().toISOString());
+
+  return db.prepare(`
+    SELECT * FROM task_approvals WHERE task_id = ? AND api_key_id = ?
+  `).get(taskId, apiKeyId) as TaskApproval;
+}
+
+/**
+ * Rules of the task's policy that completing it as `actorKeyId` would break
+ * An unclaimed task passes claimant_only; keys never count as approving their own completion.
+ */
+export function completionViolations(task: Task, actorKeyId: string | null): PolicyViolation[] {
+  const policy = getTrustPolicy(task.project, task.trust_level);
+  const violations: PolicyViolation[] = [];
+
+  if (policy.require_review && task.status !== 'review') {
+    violations.push({ rule: 'require_review', message: `must be in review, not ${task.status}` });
+  }
+
+  if (policy.required_approvals > 0) {
+    const approvals = listApprovals(task.id).filter(approval => approval.api_key_id !== actorKeyId);
+    if (approvals.length < policy.required_approvals) {
+      violations.push({
+        rule: 'required_approvals',
+        message: `needs ${policy.required_approvals} approval(s) from another key, has ${approvals.length}`
+      });
+    }
+  }
+
+  if (policy.claimant_only && task.claimed_by_key && task.claimed_by_key !== actorKeyId) {
+    violations.push({ rule: 'claimant_only', message: 'only the key that claimed it may complete it' });
+  }
+
+  return violations;
+}
+
+/**
+ * Throw PolicyViolationError if completing the task as `actorKeyId` breaks its policy
+ */
+export function assertCompletionAllowed(task: Task, actorKeyId: string | null): void {
+  const violations = completionViolations(task, actorKeyId);
+  if (violations.length > 0) {
+    throw new PolicyViolationError(task.id, task.trust_level, violations);
+  }
+}
+
+/**
+ * Archive completed and cancelled tasks whose policy sets archive_after_days
+ * and that have not changed status for that many days. Returns the tasks archived
+ */
+export function archiveTasks(now: Date = new Date()): Task[] {
+  const db = getDb();
+  const policies = db.prepare(`
+    SELECT * FROM trust_policies WHERE archive_after_days IS NOT NULL
+  `).all() as PolicyRow[];
+
+  const archived: Task[] = [];
+  for (const policy of policies) {
+    const cutoff = new Date(now.getTime() - (policy.archive_after_days as number) * 86400000).toISOString();
+    const tasks = db.prepare(`
+      UPDATE tasks SET archived_at = ?
+      WHERE project = ? AND trust_level = ? AND archived_at IS NULL
+        AND status IN ('completed', 'cancelled')
+        AND COALESCE((SELECT MAX(created_at) FROM task_events WHERE task_id = tasks.id), created_at) <= ?
+      RETURNING *
+    `).all(now.toISOString(), policy.project, policy.trust_level, cutoff) as Task[];
+    archived.push(...tasks);
+  }
+
+  return archived;
+}
+
+function defaultPolicy(project: string, trustLevel: TrustLevel): TrustPolicy {
+  return {
+    project,
+    trust_level: trustLevel,
+    require_review: false,
+    required_approvals: 0,
+    claimant_only: false,
+    archive_after_days: null,
+    updated_at: null
+  };
+}
+
+function toPolicy(row: PolicyRow): TrustPolicy {
+  return { ...row, require_review: row.require_review === 1, claimant_only: row.claimant_only === 1 };
+}
@@ -0,0 +1,178 @@
+import { getDb } from '../db/client.js';
+import type { Task, TaskRun, TaskRunInput } from '../types/index.js';
+import { truncate } from '../security/sanitize.js';
+import { completeTask, getTaskById } from './tasks.js';
+import { getTaskRuns, OpenSubtasksError } from './task-outline.js';
+import { InvalidTransitionError } from './task-state.js';
+import { PolicyViolationError } from './task-policies.js';
+
+/**
+ * Raised when setting the outcome of a run that already has one
+ */
+export class RunFinishedError extends Error {
+  constructor(public readonly run: TaskRun) {
+    super(`Run ${run.id} already finished: ${run.outcome}`);
+    this.name = 'RunFinishedError';
+  }
+}
+
+/**
+ * Raised when a run links artifacts that do not exist
+ */
+export class UnknownArtifactsError extends Error {
+  constructor(public readonly artifactIds: string[]) {
+    super(`Unknown artifacts: ${artifactIds.join(', ')}`);
+    this.name = 'UnknownArtifactsError';
+  }
+}
+
+export interface TaskRunResult {
+  run: TaskRun;
+  task: Task;
+  warnings: string[]; // Why the task was not auto-completed, when that was asked for
+}
+
+// Logs are cut from the start; the end of a log is where failures show up
+const MAX_LOG_EXCERPT = 20000;
+
+/**
+ * List a task's runs, oldest first
+ */
+export function listRuns(taskId: string): TaskRun[] {
+  return getTaskRuns([taskId]);
+}
+
+/**
+ * Get one run of a task
+ */
+export function getRun(taskId: string, runId: number): TaskRun | null {
+  return listRuns(taskId).find(run => run.id === runId) ?? null;
+}
+
+/**
+ * Record a run: started now, or already finished when an outcome is given
+ * Returns null if the task does not exist. Throws UnknownArtifactsError
+ */
+export function recordRun(taskId: string, input: TaskRunInput, actorKeyId: string | null = null): TaskRunResult | null {
+  const db = getDb();
+
+  if (!getTaskById(taskId)) {
+    return null;
+  }
+  assertArtifactsExist(input.artifact_ids ?? []);
+
+  const now = new Date().toISOString();
+  const runId = db.transaction(() => {
+    const result = db.prepare(`
+      INSERT INTO task_runs (task_id, outcome, worker, actor_key_id, ref, log_excerpt, started_at, ended_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      taskId,
+      input.outcome ?? null,
+      input.worker ? truncate(input.worker, 100) : null,
+      actorKeyId,
+      input.ref ? truncate(input.ref, 200) : null,
+      input.log_excerpt ? logExcerpt(input.log_excerpt) : null,
+      input.started_at ?? now,
+      input.outcome ? (input.ended_at ?? now) : null
+    );
+    const id = Number(result.lastInsertRowid);
+    linkArtifacts(id, input.artifact_ids ?? []);
+    return id;
+  })();
+
+  return settle(taskId, runId, input, actorKeyId);
+}
+
+/**
+ * Finish a run or add to its log, ref and artifacts
+ * Returns null if the run does not belong to the task. Throws RunFinishedError
+ * when giving an outcome to a finished run, and UnknownArtifactsError
+ */
+export function updateRun(
+  taskId: string,
+  runId: number,
+  input: TaskRunInput,
+  actorKeyId: string | null = null
+): TaskRunResult | null {
+  const db = getDb();
+  const run = getRun(taskId, runId);
+
+  if (!run) {
+    return null;
+  }
+  if (input.outcome && run.outcome) {
+    throw new RunFinishedError(run);
+  }
+  assertArtifactsExist(input.artifact_ids ?? []);
+
+  db.transaction(() => {
+    db.prepare(`
+      UPDATE task_runs SET outcome = ?, ref = ?, log_excerpt = ?, ended_at = ? WHERE id = ?
+    `).run(
+      input.outcome ?? run.outcome,
+      input.ref !== undefined ? (input.ref ? truncate(input.ref, 200) : null) : run.ref,
+      input.log_excerpt !== undefined ? (input.log_excerpt ? logExcerpt(input.log_excerpt) : null) : run.log_excerpt,
+      input.outcome ? (input.ended_at ?? new Date().toISOString()) : run.ended_at,
+      runId
+    );
+    linkArtifacts(runId, input.artifact_ids ?? []);
+  })();
+
+  return settle(taskId, runId, input, actorKeyId);
+}
+
+/**
+ * For a successful latest run with `complete_task`, complete the task
+ */
+function settle(taskId: string, runId: number, input: TaskRunInput, actorKeyId: string | null): TaskRunResult {
+  const runs = listRuns(taskId);
+  const run = runs.find(entry => entry.id === runId) as TaskRun;
+  const warnings: string[] = [];
+
+  if (input.complete_task && run.outcome === 'success') {
+    const latest = runs[runs.length - 1];
+    const task = getTaskById(taskId) as Task;
+
+    if (latest?.id !== run.id) {
+      warnings.push(`Task not completed: run ${latest?.id} is more recent`);
+    } else if (task.status !== 'completed') {
+      try {
+        completeTask(taskId, { actorKeyId, reason: `Run ${run.id} succeeded` });
+      } catch (error) {
+        if (
+          !(error instanceof InvalidTransitionError)
+          && !(error instanceof OpenSubtasksError)
+          && !(error instanceof PolicyViolationError)
+        ) {
+          throw error;
+        }
+        warnings.push(`Task not completed: ${error.message}`);
+      }
+    }
+  }
+
+  return { run, task: getTaskById(taskId) as Task, warnings };
+}
+
+function assertArtifactsExist(artifactIds: string[]): void {
+  const db = getDb();
+  const exists = db.prepare('SELECT 1 FROM artifacts WHERE id = ?');
+  const missing = artifactIds.filter(id => !exists.get(id));
+
+  if (missing.length > 0) {
+    throw new UnknownArtifactsError(missing);
+  }
+}
+
+function linkArtifacts(runId: number, artifactIds: string[]): void {
+  const db = getDb();
+  const insert = db.prepare('INSERT OR IGNORE INTO task_run_artifacts (run_id, artifact_id) VALUES (?, ?)');
+  for (const artifactId of artifactIds) {
+    insert.run(runId, artifactId);
+  }
+}
+
+function logExcerpt(log: string): string {
+  return log.length > MAX_LOG_EXCERPT ? `…${log.slice(-(MAX_LOG_EXCERPT - 1))}` : log;
+}
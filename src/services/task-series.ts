@@ -0,0 +1,164 @@
+import { nanoid } from 'nanoid';
+import { getDb } from '../db/client.js';
+import type { Task, TaskSeries, UpdateTaskSeriesInput } from '../types/index.js';
+import { sanitizeContent, truncate } from '../security/sanitize.js';
+import { addDays } from '../utils/dates.js';
+import { formatRecurrenceRule, nextOccurrence, parseRecurrenceRule } from '../utils/recurrence.js';
+
+interface SeriesRow extends Omit<TaskSeries, 'paused'> {
+  paused: number;
+}
+
+/**
+ * Create a series whose first occurrence, on `starts_on`, has just been created
+ * Called by createTask inside its transaction; the rule must already be canonical
+ */
+export function createSeries(
+  input: Pick<TaskSeries, 'project' | 'title' | 'description' | 'trust_level' | 'priority' | 'rrule' | 'starts_on'>
+): TaskSeries {
+  const db = getDb();
+  const id = nanoid();
+
+  db.prepare(`
+    INSERT INTO task_series (
+      id, project, title, description, trust_level, priority, rrule, starts_on, last_occurrence, created_at
+    )
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    id,
+    input.project,
+    input.title,
+    input.description,
+    input.trust_level,
+    input.priority,
+    input.rrule,
+    input.starts_on,
+    input.starts_on,
+    new Date().toISOString()
+  );
+
+  return getSeries(id) as TaskSeries;
+}
+
+/**
+ * Get a series by ID
+ */
+export function getSeries(id: string): TaskSeries | null {
+  const db = getDb();
+  const row = db.prepare('SELECT * FROM task_series WHERE id = ?').get(id) as SeriesRow | undefined;
+  return row ? toSeries(row) : null;
+}
+
+/**
+ * List series, optionally for one project
+ */
+export function listSeries(project?: string): TaskSeries[] {
+  const db = getDb();
+  const rows = db.prepare(`
+    SELECT * FROM task_series
+    WHERE (? IS NULL OR project = ?)
+    ORDER BY project ASC, created_at ASC
+  `).all(project ?? null, project ?? null) as SeriesRow[];
+  return rows.map(toSeries);
+}
+
+/**
+ * Series that still create occurrences
+ */
+export function listActiveSeries(): TaskSeries[] {
+  const db = getDb();
+  const rows = db.prepare('SELECT * FROM task_series WHERE paused = 0 ORDER BY created_at ASC').all() as SeriesRow[];
+  return rows.map(toSeries);
+}
+
+/**
+ * Tasks created by a series, oldest occurrence first
+ */
+export function getSeriesOccurrences(id: string): Task[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM tasks WHERE series_id = ? ORDER BY due_at ASC, created_at ASC
+  `).all(id) as Task[];
+}
+
+/**
+ * Whether a series has an occurrence that is neither completed nor cancelled
+ */
+export function hasOpenOccurrence(id: string): boolean {
+  const db = getDb();
+  return db.prepare(`
+    SELECT 1 FROM tasks WHERE series_id = ? AND status NOT IN ('completed', 'cancelled') LIMIT 1
+  `).get(id) !== undefined;
+}
+
+/**
+ * Edit a series
+ * Changes apply to occurrences created afterwards; existing tasks are left as they are.
+ * Throws RecurrenceRuleError for an invalid rule
+ */
+export function updateSeries(id: string, updates: UpdateTaskSeriesInput): TaskSeries | null {
+  const db = getDb();
+  const existing = getSeries(id);
+
+  if (!existing) {
+    return null;
+  }
+
+  const rrule = updates.rrule !== undefined ? formatRecurrenceRule(parseRecurrenceRule(updates.rrule)) : existing.rrule;
+  const title = updates.title !== undefined ? truncate(updates.title, 200) : existing.title;
+  const description = updates.description !== undefined
+    ? (updates.description ? sanitizeContent(updates.description, 10000) : null)
+    : existing.description;
+  const paused = updates.paused ?? existing.paused;
+
+  db.prepare(`
+    UPDATE task_series
+    SET title = ?, description = ?, trust_level = ?, priority = ?, rrule = ?, paused = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    title,
+    description,
+    updates.trust_level ?? existing.trust_level,
+    updates.priority ?? existing.priority,
+    rrule,
+    paused ? 1 : 0,
+    new Date().toISOString(),
+    id
+  );
+
+  return getSeries(id);
+}
+
+/**
+ * Delete a series; its occurrences remain as ordinary tasks
+ */
+export function deleteSeries(id: string): boolean {
+  const db = getDb();
+  const result = db.prepare('DELETE FROM task_series WHERE id = ?').run(id);
+  return result.changes > 0;
+}
+
+/**
+ * Date of the next occurrence to create: after the latest one created and
+ * no earlier than `onOrAfter`, so occurrences missed while nothing ran are
+ * skipped rather than created overdue. Null when the rule has ended
+ */
+export function nextSeriesDate(series: TaskSeries, onOrAfter: string): string | null {
+  const dayBefore = addDays(onOrAfter, -1);
+  const after = series.last_occurrence && series.last_occurrence > dayBefore ? series.last_occurrence : dayBefore;
+  return nextOccurrence(parseRecurrenceRule(series.rrule), series.starts_on, after);
+}
+
+/**
+ * Note that an occurrence on `date` has been created
+ */
+export function recordOccurrence(id: string, date: string): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE task_series SET last_occurrence = MAX(COALESCE(last_occurrence, ''), ?) WHERE id = ?
+  `).run(date, id);
+}
+
+function toSeries(row: SeriesRow): TaskSeries {
+  return { ...row, paused: row.paused === 1 };
+}
@@ -0,0 +1,83 @@
+import { getDb } from '../db/client.js';
+import type { TaskEvent, TaskStatus, TaskTransitionAction } from '../types/index.js';
+import { truncate } from '../security/sanitize.js';
+
+/**
+ * The task state machine: each action and the statuses it may be taken from
+ */
+export const TASK_TRANSITIONS: Record<TaskTransitionAction, { from: readonly TaskStatus[]; to: TaskStatus }> = {
+  activate: { from: ['queued', 'blocked', 'review'], to: 'active' },
+  // Another task in the project was activated
+  requeue: { from: ['active'], to: 'queued' },
+  block: { from: ['queued', 'active'], to: 'blocked' },
+  unblock: { from: ['blocked'], to: 'queued' },
+  review: { from: ['active'], to: 'review' },
+  // A reviewer sent the task back to the queue
+  request_changes: { from: ['review'], to: 'queued' },
+  complete: { from: ['queued', 'active', 'review'], to: 'completed' },
+  cancel: { from: ['queued', 'active', 'blocked', 'review'], to: 'cancelled' },
+  reopen: { from: ['completed', 'cancelled'], to: 'queued' }
+};
+
+const MAX_REASON_LENGTH = 500;
+
+/**
+ * Raised when an action is not allowed from a task's current status
+ */
+export class InvalidTransitionError extends Error {
+  public readonly allowed: TaskTransitionAction[];
+
+  constructor(taskId: string, public readonly action: TaskTransitionAction, public readonly from: TaskStatus) {
+    super(`Cannot ${action} task ${taskId} with status: ${from}`);
+    this.name = 'InvalidTransitionError';
+    this.allowed = allowedActions(from);
+  }
+}
+
+/**
+ * Actions that may be taken from a status
+ */
+export function allowedActions(status: TaskStatus): TaskTransitionAction[] {
+  return (Object.keys(TASK_TRANSITIONS) as TaskTransitionAction[])
+    .filter(action => TASK_TRANSITIONS[action].from.includes(status));
+}
+
+/**
+ * Status a task moves to, or throws InvalidTransitionError
+ */
+export function nextStatus(taskId: string, from: TaskStatus, action: TaskTransitionAction): TaskStatus {
+  const transition = TASK_TRANSITIONS[action];
+  if (!transition.from.includes(from)) {
+    throw new InvalidTransitionError(taskId, action, from);
+  }
+  return transition.to;
+}
+
+/**
+ * Append a transition to a task's history
+ */
+export function recordTaskEvent(event: Omit<TaskEvent, 'id'>): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO task_events (task_id, action, from_status, to_status, actor_key_id, reason, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    event.task_id,
+    event.action,
+    event.from_status,
+    event.to_status,
+    event.actor_key_id,
+    event.reason ? truncate(event.reason, MAX_REASON_LENGTH) : null,
+    event.created_at
+  );
+}
+
+/**
+ * List the transitions of a task, oldest first
+ */
+export function listTaskEvents(taskId: string): TaskEvent[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM task_events WHERE task_id = ? ORDER BY id ASC
+  `).all(taskId) as TaskEvent[];
+}
@@ -1,77 +1,156 @@
 import { getDb } from '../db/client.js';
-import type { Task, CreateTaskInput, TaskStatus, PaginatedResponse } from '../types/index.js';
+import type {
+  Task,
+  CreateTaskInput,
+  TaskStatus,
+  TaskTransitionAction,
+  TaskAgenda,
+  TaskSeries,
+  PaginatedResponse
+} from '../types/index.js';
 import { sanitizeProjectName, sanitizeContent, truncate } from '../security/sanitize.js';
-import { syncTaskToVault, deleteTaskFromVault } from './vault-sync.js';
+import { scheduleEmbedding, taskEmbeddingText } from './embeddings.js';
+import { indexTaskTerms } from './term-dictionary.js';
+import { assertCompletionAllowed } from './task-policies.js';
+import { getUnfinishedBlockers, unblockedCondition, TaskBlockedError } from './task-dependencies.js';
+import {
+  getOpenSubtasks,
+  getTaskWithDescendants,
+  nextSubtaskId,
+  OpenSubtasksError
+} from './task-outline.js';
+import { nextStatus, recordTaskEvent } from './task-state.js';
+import { nextTaskId } from './project-sequences.js';
+import { enqueueVaultSync } from './vault-outbox.js';
+import {
+  createSeries,
+  getSeries,
+  hasOpenOccurrence,
+  listActiveSeries,
+  nextSeriesDate,
+  recordOccurrence
+} from './task-series.js';
+import { config } from '../config.js';
+import { parseDateInput, toLocalDate, endOfWeek, addDays } from '../utils/dates.js';
+import { RecurrenceRuleError, formatRecurrenceRule, nextOccurrence, parseRecurrenceRule } from '../utils/recurrence.js';
 import logger from '../utils/logger.js';
 
 interface TaskListQuery {
   project?: string;
   status?: TaskStatus;
+  due_before?: string; // Due on or before this date; ISO or natural language
+  overdue?: boolean;
+  archived?: 'exclude' | 'include' | 'only'; // Archived tasks are left out unless asked for
   limit?: number;
   offset?: number;
 }
 
-/**
- * Generate a task ID in format PROJECT-NNN
- */
-function generateTaskId(project: string): string {
-  const db = getDb();
-  const prefix = project.toUpperCase().slice(0, 10);
-
-  // Get the highest existing task number for this project
-  const result = db.prepare(`
-    SELECT id FROM tasks
-    WHERE id LIKE ? || '-%'
-    ORDER BY CAST(SUBSTR(id, LENGTH(?) + 2) AS INTEGER) DESC
-    LIMIT 1
-  `).get(prefix, prefix) as { id: string } | undefined;
+// Open tasks are the ones that can still be overdue
+const OPEN_STATUS_SQL = "status NOT IN ('completed', 'cancelled')";
 
-  let nextNum = 1;
-  if (result) {
-    const match = result.id.match(/-(\d+)$/);
-    if (match?.[1]) {
-      nextNum = parseInt(match[1], 10) + 1;
-    }
-  }
+export const PRIORITY_ORDER_SQL = `CASE priority
+        WHEN 'CRITICAL' THEN 0
+        WHEN 'HIGH' THEN 1
+        WHEN 'NORMAL' THEN 2
+        WHEN 'LOW' THEN 3
+      END`;
 
-  return `${prefix}-${String(nextNum).padStart(3, '0')}`;
+/**
+ * Resolve a due or scheduled date input in the configured timezone
+ * Throws DateParseError for unrecognized input
+ */
+function resolveDate(input: string | null | undefined): string | null {
+  return input ? parseDateInput(input, config.timezone) : null;
 }
 
 /**
  * Create a new task
+ * Subtasks inherit the project of their parent. With a recurrence rule the task
+ * becomes the first occurrence of a new series, due on the first date the rule
+ * allows on or after its due date (or today).
+ * Throws DateParseError or RecurrenceRuleError for invalid dates and rules
  */
-export function createTask(input: CreateTaskInput): Task {
+export function createTask(input: CreateTaskInput, actorKeyId: string | null = null): Task {
   const db = getDb();
-  const project = sanitizeProjectName(input.project);
+  const parent = input.parent_id ? getTaskById(input.parent_id) : null;
+
+  if (input.parent_id && !parent) {
+    throw new Error('Parent task not found');
+  }
+
+  const project = parent ? parent.project : sanitizeProjectName(input.project);
 
   if (!project) {
     throw new Error('Project is required');
   }
 
-  const id = generateTaskId(project);
+  if (input.recurrence && parent) {
+    throw new Error('Subtasks cannot recur');
+  }
+
   const now = new Date().toISOString();
 
   const title = truncate(input.title, 200);
   const description = input.description ? sanitizeContent(input.description, 10000) : null;
   const trustLevel = input.trust_level ?? 'PROTOTYPE';
   const priority = input.priority ?? 'NORMAL';
+  const rule = input.recurrence ? parseRecurrenceRule(input.recurrence) : null;
+  let dueAt = resolveDate(input.due_at);
+  const scheduledFor = resolveDate(input.scheduled_for);
+
+  if (rule) {
+    const startsOn = dueAt ?? toLocalDate(new Date(), config.timezone);
+    dueAt = nextOccurrence(rule, startsOn, addDays(startsOn, -1));
+    if (!dueAt) {
+      throw new RecurrenceRuleError(input.recurrence as string, 'UNTIL is before the first occurrence');
+    }
+  }
 
-  db.prepare(`
-    INSERT INTO tasks (id, title, description, project, status, trust_level, priority, created_at)
-    VALUES (?, ?, ?, ?, 'queued', ?, ?, ?)
-  `).run(id, title, description, project, trustLevel, priority, now);
+  // IDs are taken inside the write lock, so concurrent creates get distinct numbers
+  const id = db.transaction(() => {
+    const taskId = parent ? nextSubtaskId(parent.id) : nextTaskId(project);
+    const seriesId = rule
+      ? createSeries({
+        project,
+        title,
+        description,
+        trust_level: trustLevel,
+        priority,
+        rrule: formatRecurrenceRule(rule),
+        starts_on: dueAt as string
+      }).id
+      : input.series_id ?? null;
+
+    db.prepare(`
+      INSERT INTO tasks (
+        id, title, description, project, status, trust_level, priority, created_at, parent_id, due_at, scheduled_for,
+        series_id
+      )
+      VALUES (?, ?, ?, ?, 'queued', ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      taskId, title, description, project, trustLevel, priority, now, parent?.id ?? null, dueAt, scheduledFor, seriesId
+    );
+
+    recordTaskEvent({
+      task_id: taskId,
+      action: 'create',
+      from_status: null,
+      to_status: 'queued',
+      actor_key_id: actorKeyId,
+      reason: null,
+      created_at: now
+    });
+
+    return taskId;
+  }).immediate();
 
   const task = getTaskById(id);
   if (!task) {
     throw new Error('Failed to create task');
   }
 
-  // Sync to vault
-  try {
-    syncTaskToVault(task);
-  } catch (error) {
-    logger.warn('Failed to sync task to vault', { taskId: id, error });
-  }
+  indexTaskTerms(task);
+  scheduleEmbedding('task', task.id, taskEmbeddingText(task));
 
   return task;
 }
@@ -90,10 +169,12 @@ export function getTaskById(id: string): Task | null {
 
 /**
  * List tasks with optional filtering and pagination
+ * Date filters sort by due date, soonest first.
+ * Throws DateParseError if due_before is not a recognized date
  */
 export function listTasks(query: TaskListQuery): PaginatedResponse<Task> {
   const db = getDb();
-  const { project, status, limit = 20, offset = 0 } = query;
+  const { project, status, due_before: dueBefore, overdue, archived = 'exclude', limit = 20, offset = 0 } = query;
 
   let sql = 'SELECT * FROM tasks WHERE 1=1';
   let countSql = 'SELECT COUNT(*) as total FROM tasks WHERE 1=1';
@@ -114,7 +195,34 @@ export function listTasks(query: TaskListQuery): PaginatedResponse<Task> {
     countParams.push(status);
   }
 
-  sql += ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
+  if (archived !== 'include') {
+    const condition = archived === 'only' ? ' AND archived_at IS NOT NULL' : ' AND archived_at IS NULL';
+    sql += condition;
+    countSql += condition;
+  }
+
+  if (dueBefore) {
+    const date = resolveDate(dueBefore);
+    sql += ' AND due_at <= ?';
+    countSql += ' AND due_at <= ?';
+    params.push(date as string);
+    countParams.push(date as string);
+  }
+
+  if (overdue !== undefined) {
+    const today = toLocalDate(new Date(), config.timezone);
+    const condition = overdue
+      ? ` AND due_at < ? AND ${OPEN_STATUS_SQL}`
+      : ` AND NOT (due_at IS NOT NULL AND due_at < ? AND ${OPEN_STATUS_SQL})`;
+    sql += condition;
+    countSql += condition;
+    params.push(today);
+    countParams.push(today);
+  }
+
+  sql += dueBefore || overdue
+    ? ' ORDER BY due_at ASC, created_at DESC LIMIT ? OFFSET ?'
+    : ' ORDER BY created_at DESC LIMIT ? OFFSET ?';
   params.push(limit, offset);
 
   const tasks = db.prepare(sql).all(...params) as Task[];
@@ -129,9 +237,14 @@ export function listTasks(query: TaskListQuery): PaginatedResponse<Task> {
 }
 
 /**
- * Activate a task (set status to 'active')
+ * Set or clear a task's due and scheduled dates
+ * Null clears a date; omitted fields are left unchanged.
+ * Throws DateParseError for unrecognized input
  */
-export function activateTask(id: string): Task | null {
+export function updateTaskSchedule(
+  id: string,
+  updates: { due_at?: string | null; scheduled_for?: string | null }
+): Task | null {
   const db = getDb();
   const task = getTaskById(id);
 
@@ -139,40 +252,101 @@ export function activateTask(id: string): Task | null {
     return null;
   }
 
-  if (task.status === 'completed' || task.status === 'cancelled') {
-    throw new Error(`Cannot activate task with status: ${task.status}`);
-  }
+  const dueAt = updates.due_at !== undefined ? resolveDate(updates.due_at) : task.due_at;
+  const scheduledFor = updates.scheduled_for !== undefined ? resolveDate(updates.scheduled_for) : task.scheduled_for;
 
-  // Deactivate any currently active tasks in the same project
   db.prepare(`
-    UPDATE tasks
-    SET status = 'queued'
-    WHERE project = ? AND status = 'active'
-  `).run(task.project);
+    UPDATE tasks SET due_at = ?, scheduled_for = ? WHERE id = ?
+  `).run(dueAt, scheduledFor, id);
+
+  return getTaskById(id);
+}
+
+/**
+ * Change a task's title, description, priority or trust level
+ * Omitted fields are left unchanged; a null description clears it.
+ */
+export function updateTaskDetails(
+  id: string,
+  updates: Partial<Pick<Task, 'title' | 'description' | 'priority' | 'trust_level'>>
+): Task | null {
+  const db = getDb();
+  const task = getTaskById(id);
+
+  if (!task) {
+    return null;
+  }
+
+  const title = updates.title !== undefined ? truncate(updates.title, 200) : task.title;
+  const description = updates.description !== undefined
+    ? (updates.description ? sanitizeContent(updates.description, 10000) : null)
+    : task.description;
 
-  const now = new Date().toISOString();
   db.prepare(`
-    UPDATE tasks
-    SET status = 'active', started_at = COALESCE(started_at, ?)
-    WHERE id = ?
-  `).run(now, id);
+    UPDATE tasks SET title = ?, description = ?, priority = ?, trust_level = ? WHERE id = ?
+  `).run(title, description, updates.priority ?? task.priority, updates.trust_level ?? task.trust_level, id);
 
-  const updated = getTaskById(id);
-  if (updated) {
-    try {
-      syncTaskToVault(updated);
-    } catch (error) {
-      logger.warn('Failed to sync task to vault', { taskId: id, error });
+  const updated = getTaskById(id) as Task;
+  indexTaskTerms(updated);
+  scheduleEmbedding('task', updated.id, taskEmbeddingText(updated));
+
+  return updated;
+}
+
+/**
+ * Open tasks that are overdue, due or scheduled today, or due later this week
+ * Days and weeks are calendar days in the configured timezone; weeks end on Sunday.
+ */
+export function getAgenda(project?: string): TaskAgenda {
+  const db = getDb();
+  const today = toLocalDate(new Date(), config.timezone);
+  const weekEnd = endOfWeek(today);
+
+  const tasks = db.prepare(`
+    SELECT * FROM tasks
+    WHERE ${OPEN_STATUS_SQL}
+      AND (due_at <= ? OR scheduled_for <= ?)
+      AND (? IS NULL OR project = ?)
+    ORDER BY COALESCE(due_at, scheduled_for) ASC, ${PRIORITY_ORDER_SQL}, created_at ASC
+  `).all(weekEnd, weekEnd, project ?? null, project ?? null) as Task[];
+
+  const agenda: TaskAgenda = {
+    timezone: config.timezone,
+    date: today,
+    week_end: weekEnd,
+    overdue: [],
+    today: [],
+    this_week: []
+  };
+
+  for (const task of tasks) {
+    if (task.due_at && task.due_at < today) {
+      agenda.overdue.push(task);
+    } else if (task.due_at === today || (task.scheduled_for && task.scheduled_for <= today)) {
+      agenda.today.push(task);
+    } else {
+      agenda.this_week.push(task);
     }
   }
 
-  return updated;
+  return agenda;
+}
+
+export interface TransitionOptions {
+  actorKeyId?: string | null; // API key making the change, recorded in the task history
+  reason?: string;
+  force?: boolean; // Complete even with open subtasks
+  exclusive?: boolean; // Activating requeues the project's other active tasks; false when claiming
 }
 
 /**
- * Complete a task
+ * Move a task through the state machine and record the transition
+ * Activating requeues the project's other unclaimed active tasks and is refused while
+ * blockers are unfinished (or warns, when TASK_BLOCKED_ACTIVATION is 'warn');
+ * completing requires `force` while subtasks are open and must satisfy the trust policy.
+ * Throws InvalidTransitionError if the action is not allowed from the current status
  */
-export function completeTask(id: string): Task | null {
+export function transitionTask(id: string, action: TaskTransitionAction, options: TransitionOptions = {}): Task | null {
   const db = getDb();
   const task = getTaskById(id);
 
@@ -180,56 +354,191 @@ export function completeTask(id: string): Task | null {
     return null;
   }
 
+  const to = nextStatus(id, task.status, action);
+
+  if (action === 'activate') {
+    const blockers = getUnfinishedBlockers(id);
+    if (blockers.length > 0) {
+      if (config.taskBlockedActivation !== 'warn') {
+        throw new TaskBlockedError(id, blockers);
+      }
+      logger.warn('Activating task with unfinished blockers', {
+        taskId: id,
+        blockers: blockers.map(blocker => blocker.id)
+      });
+    }
+  }
+
+  if (action === 'complete') {
+    const openSubtasks = getOpenSubtasks(id);
+    if (openSubtasks.length > 0 && !options.force) {
+      throw new OpenSubtasksError(id, openSubtasks);
+    }
+    assertCompletionAllowed(task, options.actorKeyId ?? null);
+  }
+
   const now = new Date().toISOString();
-  db.prepare(`
-    UPDATE tasks
-    SET status = 'completed', completed_at = ?
-    WHERE id = ?
-  `).run(now, id);
+  const actorKeyId = options.actorKeyId ?? null;
+
+  db.transaction(() => {
+    if (action === 'activate' && options.exclusive !== false) {
+      // One unclaimed task per project is active at a time; claimed tasks run in parallel
+      const requeued = db.prepare(`
+        SELECT * FROM tasks
+        WHERE project = ? AND status = 'active' AND id != ?
+          AND id NOT IN (SELECT task_id FROM task_claims WHERE expires_at > ?)
+      `).all(task.project, id, now) as Task[];
+
+      for (const other of requeued) {
+        setStatus(other.id, 'queued', now);
+        recordTaskEvent({
+          task_id: other.id,
+          action: 'requeue',
+          from_status: other.status,
+          to_status: 'queued',
+          actor_key_id: actorKeyId,
+          reason: `${id} was activated`,
+          created_at: now
+        });
+      }
+    }
+
+    setStatus(id, to, now);
+    recordTaskEvent({
+      task_id: id,
+      action,
+      from_status: task.status,
+      to_status: to,
+      actor_key_id: actorKeyId,
+      reason: options.reason ?? null,
+      created_at: now
+    });
+
+    // The graph shows task status
+    enqueueVaultSync('graph', task.project);
+  })();
 
   const updated = getTaskById(id);
-  if (updated) {
-    try {
-      syncTaskToVault(updated);
-    } catch (error) {
-      logger.warn('Failed to sync task to vault', { taskId: id, error });
-    }
+
+  if (action === 'complete' && task.series_id) {
+    spawnNextOccurrence(task.series_id);
   }
 
   return updated;
 }
 
 /**
- * Cancel a task
+ * Create the next occurrence of a series unless one is still open
+ * Returns null when the series is paused, has ended or already has an open occurrence
  */
-export function cancelTask(id: string): Task | null {
-  const db = getDb();
-  const task = getTaskById(id);
+export function spawnNextOccurrence(seriesId: string): Task | null {
+  const series = getSeries(seriesId);
 
-  if (!task) {
+  if (!series || series.paused || hasOpenOccurrence(series.id)) {
     return null;
   }
 
-  db.prepare(`
-    UPDATE tasks
-    SET status = 'cancelled'
-    WHERE id = ?
-  `).run(id);
+  const date = nextSeriesDate(series, toLocalDate(new Date(), config.timezone));
+  return date ? createOccurrence(series, date) : null;
+}
 
-  const updated = getTaskById(id);
-  if (updated) {
-    try {
-      syncTaskToVault(updated);
-    } catch (error) {
-      logger.warn('Failed to sync task to vault', { taskId: id, error });
+/**
+ * Create the occurrences of every active series that fall within the next
+ * `lookaheadDays` days. Returns the tasks created
+ */
+export function materializeSeries(lookaheadDays: number = config.seriesLookaheadDays, now: Date = new Date()): Task[] {
+  const today = toLocalDate(now, config.timezone);
+  const horizon = addDays(today, lookaheadDays);
+  const created: Task[] = [];
+
+  for (const series of listActiveSeries()) {
+    let current: TaskSeries | null = series;
+    let date = nextSeriesDate(current, today);
+
+    while (current && date && date <= horizon) {
+      created.push(createOccurrence(current, date));
+      current = getSeries(current.id);
+      date = current ? nextSeriesDate(current, today) : null;
     }
   }
 
-  return updated;
+  return created;
+}
+
+/**
+ * Create a series occurrence due on `date` and advance the series past it
+ */
+function createOccurrence(series: TaskSeries, date: string): Task {
+  const db = getDb();
+
+  return db.transaction(() => {
+    const task = createTask({
+      title: series.title,
+      description: series.description ?? undefined,
+      project: series.project,
+      trust_level: series.trust_level,
+      priority: series.priority,
+      due_at: date,
+      series_id: series.id
+    });
+    recordOccurrence(series.id, date);
+    return task;
+  }).immediate();
+}
+
+/**
+ * Activate a task (set status to 'active')
+ */
+export function activateTask(id: string, options: TransitionOptions = {}): Task | null {
+  return transitionTask(id, 'activate', options);
+}
+
+/**
+ * Complete a task
+ * Tasks with open subtasks are only completed with `force`; the subtasks are left as they are.
+ */
+export function completeTask(id: string, options: TransitionOptions = {}): Task | null {
+  return transitionTask(id, 'complete', options);
+}
+
+/**
+ * Cancel a task
+ */
+export function cancelTask(id: string, options: TransitionOptions = {}): Task | null {
+  return transitionTask(id, 'cancel', options);
+}
+
+/**
+ * Reopen a completed or cancelled task, putting it back in the queue
+ */
+export function reopenTask(id: string, options: TransitionOptions = {}): Task | null {
+  return transitionTask(id, 'reopen', options);
+}
+
+/**
+ * Write a new status with the timestamps that go with it
+ */
+function setStatus(id: string, status: TaskStatus, now: string): void {
+  const db = getDb();
+
+  if (status === 'active') {
+    db.prepare(`
+      UPDATE tasks SET status = 'active', started_at = COALESCE(started_at, ?) WHERE id = ?
+    `).run(now, id);
+  } else if (status === 'completed') {
+    db.prepare(`
+      UPDATE tasks SET status = 'completed', completed_at = ? WHERE id = ?
+    `).run(now, id);
+  } else {
+    // Reopened tasks are no longer completed or archived
+    db.prepare(`
+      UPDATE tasks SET status = ?, completed_at = NULL, archived_at = NULL WHERE id = ?
+    `).run(status, id);
+  }
 }
 
 /**
- * Delete a task
+ * Delete a task along with its subtasks
  */
 export function deleteTask(id: string): boolean {
   const db = getDb();
@@ -239,17 +548,18 @@ export function deleteTask(id: string): boolean {
     return false;
   }
 
-  const result = db.prepare(`
-    DELETE FROM tasks WHERE id = ?
-  `).run(id);
-
-  if (result.changes > 0) {
-    try {
-      deleteTaskFromVault(task);
-    } catch (error) {
-      logger.warn('Failed to delete task from vault', { taskId: id, error });
+  const removed = getTaskWithDescendants(id);
+  const deleteById = db.prepare('DELETE FROM tasks WHERE id = ?');
+  const result = db.transaction(() => {
+    let changes = 0;
+    for (const entry of removed) {
+      changes += deleteById.run(entry.id).changes;
     }
-  }
+    if (changes > 0) {
+      enqueueVaultSync('graph', task.project);
+    }
+    return { changes };
+  })();
 
   return result.changes > 0;
 }
@@ -271,7 +581,7 @@ export function getActiveTask(project: string): Task | null {
 }
 
 /**
- * Get queued tasks for a project
+ * Get queued tasks for a project that are not waiting on unfinished blockers
  */
 export function getQueuedTasks(project: string, limit: number = 10): Task[] {
   const db = getDb();
@@ -279,14 +589,9 @@ export function getQueuedTasks(project: string, limit: number = 10): Task[] {
 
   return db.prepare(`
     SELECT * FROM tasks
-    WHERE project = ? AND status = 'queued'
+    WHERE project = ? AND status = 'queued' AND ${unblockedCondition()}
     ORDER BY
-      CASE priority
-        WHEN 'CRITICAL' THEN 0
-        WHEN 'HIGH' THEN 1
-        WHEN 'NORMAL' THEN 2
-        WHEN 'LOW' THEN 3
-      END,
+      ${PRIORITY_ORDER_SQL},
       created_at ASC
     LIMIT ?
   `).all(sanitizedProject, limit) as Task[];
@@ -0,0 +1,240 @@
+import { getDb } from '../db/client.js';
+import type { Note, Artifact, Task, Suggestion, SuggestionKind } from '../types/index.js';
+import type { EmbeddedEntity } from './embeddings.js';
+
+interface TermSources {
+  title?: string;
+  body?: string | null;
+  tags?: string[];
+  project?: string | null;
+}
+
+interface CandidateRow {
+  kind: SuggestionKind;
+  normalized: string;
+  text: string;
+  count: number;
+}
+
+const MIN_TERM_LENGTH = 3;
+const MAX_TERM_LENGTH = 40;
+const MAX_TERMS_PER_ENTITY = 500;
+// Candidates are narrowed by first character before edit distances are computed
+const MAX_CANDIDATES = 5000;
+
+// Ties between equally close matches prefer structured metadata over body text
+const KIND_RANK: Record<SuggestionKind, number> = { tag: 0, project: 1, title: 2, term: 3 };
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her',
+  'was', 'one', 'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now',
+  'own', 'see', 'two', 'way', 'who', 'did', 'get', 'let', 'put', 'say', 'she', 'too',
+  'use', 'this', 'that', 'with', 'have', 'from', 'they', 'will', 'would', 'there',
+  'their', 'what', 'about', 'which', 'when', 'were', 'been', 'into', 'than', 'then',
+  'them', 'these', 'some', 'could', 'other', 'also', 'only', 'just', 'should', 'where',
+  'while', 'does', 'each', 'more', 'most', 'such', 'very', 'your', 'over', 'after'
+]);
+
+/**
+ * Index the suggestable terms of a note, replacing any previous entries
+ */
+export function indexNoteTerms(note: Note): void {
+  replaceTerms('note', note.id, {
+    body: note.content,
+    tags: note.tags ? JSON.parse(note.tags) as string[] : [],
+    project: note.project
+  });
+}
+
+export function indexArtifactTerms(artifact: Artifact): void {
+  replaceTerms('artifact', artifact.id, {
+    title: artifact.title,
+    body: artifact.content,
+    project: artifact.project
+  });
+}
+
+export function indexTaskTerms(task: Task): void {
+  replaceTerms('task', task.id, {
+    title: task.title,
+    body: task.description,
+    project: task.project
+  });
+}
+
+/**
+ * Index every entity that has no dictionary entries yet
+ * Returns the number of entities indexed
+ */
+export function backfillTermDictionary(): number {
+  const db = getDb();
+  const missing = (table: string, type: EmbeddedEntity): string => `
+    SELECT * FROM ${table} e
+    WHERE NOT EXISTS (SELECT 1 FROM search_terms t WHERE t.entity_type = '${type}' AND t.entity_id = e.id)
+  `;
+
+  const notes = db.prepare(missing('notes', 'note')).all() as Note[];
+  const artifacts = db.prepare(missing('artifacts', 'artifact')).all() as Artifact[];
+  const tasks = db.prepare(missing('tasks', 'task')).all() as Task[];
+
+  db.transaction(() => {
+    notes.forEach(indexNoteTerms);
+    artifacts.forEach(indexArtifactTerms);
+    tasks.forEach(indexTaskTerms);
+  })();
+
+  return notes.length + artifacts.length + tasks.length;
+}
+
+/**
+ * Suggest completions for a partially typed query
+ * Matches are prefix matches that tolerate a typo for every few characters typed;
+ * exact prefixes rank first, then by kind and frequency.
+ */
+export function getSuggestions(partialQuery: string, limit: number = 5): Suggestion[] {
+  const db = getDb();
+  // Complete the last word being typed
+  const prefix = normalizeTerm(partialQuery.trim().split(/\s+/).pop() ?? '');
+
+  if (prefix.length < 2) {
+    return [];
+  }
+
+  const first = prefix.charAt(0);
+  const candidates = db.prepare(`
+    SELECT kind, normalized, MIN(term) as text, COUNT(*) as count
+    FROM search_terms
+    WHERE normalized >= ? AND normalized < ?
+    GROUP BY kind, normalized
+    ORDER BY count DESC
+    LIMIT ?
+  `).all(first, nextString(first), MAX_CANDIDATES) as CandidateRow[];
+
+  const maxDistance = allowedTypos(prefix.length);
+
+  return candidates
+    .map(candidate => ({ candidate, distance: prefixDistance(prefix, candidate.normalized, maxDistance) }))
+    .filter(match => match.distance <= maxDistance)
+    .sort((a, b) =>
+      a.distance - b.distance ||
+      KIND_RANK[a.candidate.kind] - KIND_RANK[b.candidate.kind] ||
+      b.candidate.count - a.candidate.count ||
+      a.candidate.text.length - b.candidate.text.length
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => ({ text: candidate.text, kind: candidate.kind, count: candidate.count }));
+}
+
+function replaceTerms(type: EmbeddedEntity, id: string, sources: TermSources): void {
+  const db = getDb();
+  const entries = new Map<string, { kind: SuggestionKind; term: string; normalized: string }>();
+
+  const add = (kind: SuggestionKind, term: string): void => {
+    const normalized = normalizeTerm(term);
+    if (normalized.length > 0 && !entries.has(`${kind}:${normalized}`)) {
+      entries.set(`${kind}:${normalized}`, { kind, term, normalized });
+    }
+  };
+
+  sources.tags?.forEach(tag => add('tag', tag));
+  if (sources.project) {
+    add('project', sources.project);
+  }
+  if (sources.title) {
+    add('title', sources.title.trim());
+  }
+
+  let termCount = 0;
+  for (const word of tokenize(sources.body ?? '')) {
+    if (termCount >= MAX_TERMS_PER_ENTITY) {
+      break;
+    }
+    if (!entries.has(`term:${normalizeTerm(word)}`)) {
+      add('term', word.toLowerCase());
+      termCount++;
+    }
+  }
+
+  const insert = db.prepare(`
+    INSERT INTO search_terms (entity_type, entity_id, kind, term, normalized)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM search_terms WHERE entity_type = ? AND entity_id = ?').run(type, id);
+    for (const entry of entries.values()) {
+      insert.run(type, id, entry.kind, entry.term, entry.normalized);
+    }
+  })();
+}
+
+function tokenize(text: string): string[] {
+  return (text.match(/[\p{L}\p{N}]+/gu) ?? []).filter(word =>
+    word.length >= MIN_TERM_LENGTH &&
+    word.length <= MAX_TERM_LENGTH &&
+    !/^\p{N}+$/u.test(word) &&
+    !STOP_WORDS.has(word.toLowerCase())
+  );
+}
+
+function normalizeTerm(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Smallest string greater than every string starting with the given prefix
+ */
+function nextString(prefix: string): string {
+  return prefix.slice(0, -1) + String.fromCharCode(prefix.charCodeAt(prefix.length - 1) + 1);
+}
+
+function allowedTypos(length: number): number {
+  if (length >= 8) {
+    return 2;
+  }
+  return length >= 4 ? 1 : 0;
+}
+
+/**
+ * Edit distance between the query and the closest prefix of the candidate
+ * Counts insertions, deletions, substitutions and adjacent transpositions.
+ * Stops early once every alignment exceeds maxDistance.
+ */
+function prefixDistance(query: string, candidate: string, maxDistance: number): number {
+  const n = query.length;
+  const m = Math.min(candidate.length, n + maxDistance);
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: n + 1 }, (_, i) => i);
+  let best = prev[n] as number;
+
+  for (let j = 1; j <= m; j++) {
+    const current = [j];
+    let rowMin = j;
+
+    for (let i = 1; i <= n; i++) {
+      const cost = query[i - 1] === candidate[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (prev[i] as number) + 1,
+        (current[i - 1] as number) + 1,
+        (prev[i - 1] as number) + cost
+      );
+
+      if (i > 1 && j > 1 && query[i - 1] === candidate[j - 2] && query[i - 2] === candidate[j - 1]) {
+        value = Math.min(value, (prevPrev[i - 2] as number) + 1);
+      }
+
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    best = Math.min(best, current[n] as number);
+    if (rowMin > maxDistance) {
+      break;
+    }
+
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return best;
+}
@@ -0,0 +1,85 @@
+import { getDb } from '../db/client.js';
+import type { VaultConflict, VaultConflictResolution } from '../types/index.js';
+
+export type VaultConflictInput = Pick<
+  VaultConflict,
+  'path' | 'entity_type' | 'entity_id' | 'base_hash' | 'db_content' | 'vault_content'
+>;
+
+export type VaultConflictStatus = 'open' | 'resolved' | 'all';
+
+/**
+ * Record that a vault file and its database row both changed
+ * A file with an open conflict keeps one record, refreshed with both latest versions
+ */
+export function recordConflict(input: VaultConflictInput): VaultConflict {
+  const db = getDb();
+  const now = new Date().toISOString();
+
+  const existing = getOpenConflict(input.path);
+  if (existing) {
+    db.prepare(`
+      UPDATE vault_conflicts SET db_content = ?, vault_content = ?, detected_at = ? WHERE id = ?
+    `).run(input.db_content, input.vault_content, now, existing.id);
+    return getConflict(existing.id) as VaultConflict;
+  }
+
+  const result = db.prepare(`
+    INSERT INTO vault_conflicts (path, entity_type, entity_id, base_hash, db_content, vault_content, detected_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    input.path,
+    input.entity_type,
+    input.entity_id,
+    input.base_hash,
+    input.db_content,
+    input.vault_content,
+    now
+  );
+
+  return getConflict(Number(result.lastInsertRowid)) as VaultConflict;
+}
+
+/**
+ * List conflicts, most recently detected first
+ */
+export function listConflicts(status: VaultConflictStatus = 'open'): VaultConflict[] {
+  const db = getDb();
+  const where = status === 'open'
+    ? 'WHERE resolved_at IS NULL'
+    : status === 'resolved' ? 'WHERE resolved_at IS NOT NULL' : '';
+
+  return db.prepare(`
+    SELECT * FROM vault_conflicts ${where} ORDER BY detected_at DESC, id DESC
+  `).all() as VaultConflict[];
+}
+
+/**
+ * Get a conflict by ID
+ */
+export function getConflict(id: number): VaultConflict | null {
+  const db = getDb();
+  return (db.prepare('SELECT * FROM vault_conflicts WHERE id = ?').get(id) as VaultConflict | undefined) ?? null;
+}
+
+/**
+ * Get the unresolved conflict for a vault file, if any
+ */
+export function getOpenConflict(filepath: string): VaultConflict | null {
+  const db = getDb();
+  const row = db.prepare(`
+    SELECT * FROM vault_conflicts WHERE path = ? AND resolved_at IS NULL
+  `).get(filepath) as VaultConflict | undefined;
+  return row ?? null;
+}
+
+/**
+ * Close a conflict with the way it was resolved
+ */
+export function markResolved(id: number, resolution: VaultConflictResolution): VaultConflict | null {
+  const db = getDb();
+  db.prepare(`
+    UPDATE vault_conflicts SET resolved_at = ?, resolution = ? WHERE id = ? AND resolved_at IS NULL
+  `).run(new Date().toISOString(), resolution, id);
+  return getConflict(id);
+}
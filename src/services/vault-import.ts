@@ -0,0 +1,640 @@
+import fs from 'fs';
+import path from 'path';
+import { setTimeout, clearTimeout } from 'timers';
+import { config } from '../config.js';
+import type {
+  Artifact,
+  Note,
+  Task,
+  TaskStatus,
+  TaskTransitionAction,
+  TaskTree,
+  VaultConflict,
+  VaultConflictResolution,
+  VaultEntityType,
+  VaultImportItem,
+  VaultImportResult
+} from '../types/index.js';
+import { unescapeHtmlText } from '../security/sanitize.js';
+import {
+  acceptingVaultEdits,
+  getBrainVaultPath,
+  isUnchangedSinceSync,
+  TASK_CHECKBOXES
+} from './vault-sync.js';
+import { syncVaultEntity } from './vault-sync-worker.js';
+import {
+  entityTypeForPath,
+  findVaultFileEntity,
+  getVaultFilePath,
+  listVaultEntityFiles,
+  vaultEntityRoots
+} from './vault-layout.js';
+import { hasCustomTemplate } from './vault-templates.js';
+import { getConflict, getOpenConflict, markResolved } from './vault-conflicts.js';
+import { createNote, getNoteById, updateNote } from './notes.js';
+import { createArtifact, getArtifactById, updateArtifact } from './artifacts.js';
+import { createTask, transitionTask, updateTaskDetails, updateTaskSchedule } from './tasks.js';
+import { addChecklistItem, getTaskTree, removeChecklistItem, updateChecklistItem } from './task-outline.js';
+import { parseFrontmatter, parseListField } from '../utils/frontmatter.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Raised for import requests that cannot be served: vault sync disabled,
+ * or a path outside the imported folders
+ */
+export class VaultImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultImportError';
+  }
+}
+
+/**
+ * Raised when resolving a conflict that was already resolved
+ */
+export class VaultConflictResolvedError extends Error {
+  constructor(public readonly conflict: VaultConflict) {
+    super(`Conflict ${conflict.id} was already resolved (${conflict.resolution})`);
+    this.name = 'VaultConflictResolvedError';
+  }
+}
+
+export interface VaultConflictResolutionResult {
+  conflict: VaultConflict;
+  item: VaultImportItem | null; // The import of the kept file; null for keep-db
+}
+
+interface ImportOutcome {
+  id: string;
+  action: 'created' | 'updated' | 'unchanged';
+  warnings: string[];
+}
+
+interface ParsedTask {
+  marker: string | null; // Checkbox in the title heading, e.g. [x]
+  title: string | null;
+  description: string | null | undefined; // Undefined when the body is not read
+  checklist: Array<{ text: string; checked: boolean }> | null; // Null without a Checklist section
+  subtasks: Array<{ id: string; marker: string }>;
+}
+
+const CONTENT_TYPES: Artifact['content_type'][] = ['code', 'markdown', 'json'];
+const PRIORITIES: Task['priority'][] = ['LOW', 'NORMAL', 'HIGH', 'CRITICAL'];
+const TRUST_LEVELS: Task['trust_level'][] = ['THROWAWAY', 'PROTOTYPE', 'MATURE'];
+
+// Detail lines rendered under a task's title, e.g. **Status:** queued
+const TASK_DETAIL_LINE = /^\*\*(Project|Parent|Status|Priority|Trust Level|Scheduled|Due|Progress):\*\*/;
+const TASK_SECTION = /^## (Checklist|Runs|Activity)\s*$/;
+
+/**
+ * Import vault files into the database: every file in the folders the path
+ * patterns put notes, artifacts and tasks in, or only `paths` (relative to the brain folder)
+ * Throws VaultImportError if vault sync is disabled or a path is not importable
+ */
+export function importVault(paths?: string[]): VaultImportResult {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    throw new VaultImportError('Vault sync is not enabled');
+  }
+
+  const files = paths
+    ? paths.map(relative => resolveImportPath(basePath, relative))
+    : listVaultEntityFiles(basePath).map(relative => path.join(basePath, relative));
+
+  const items = files.map(importVaultFile);
+
+  return {
+    items,
+    created: items.filter(item => item.action === 'created').length,
+    updated: items.filter(item => item.action === 'updated').length,
+    failed: items.filter(item => item.action === 'failed').length
+  };
+}
+
+/**
+ * Apply one vault file to the entity it describes, or create the entity
+ * Files holding exactly what vault sync last wrote, and files with an open
+ * conflict, are skipped. Never throws; failures are reported on the item
+ */
+export function importVaultFile(filepath: string): VaultImportItem {
+  const basePath = getBrainVaultPath() ?? '';
+  const relative = path.relative(basePath, filepath).split(path.sep).join('/');
+  const type = findVaultFileEntity(relative)?.type ?? entityTypeForPath(relative);
+  const item: VaultImportItem = { path: relative, type, id: null, action: 'unchanged', warnings: [] };
+
+  try {
+    if (!type) {
+      throw new VaultImportError(`Not an importable vault file: ${relative}`);
+    }
+
+    const conflict = getOpenConflict(relative);
+    if (conflict) {
+      return {
+        ...item,
+        id: conflict.entity_id,
+        action: 'conflict',
+        warnings: [`Conflict ${conflict.id} has to be resolved before this file is imported`]
+      };
+    }
+
+    return { ...item, ...applyVaultFile(filepath, type) };
+  } catch (error) {
+    return { ...item, action: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Resolve a conflict between a vault file and its database row:
+ * - keep-db rewrites the file from the database
+ * - keep-vault imports the file as it is now
+ * - merged writes `content` to the file, then imports it
+ * Returns null if the conflict does not exist. Throws VaultImportError if the
+ * kept file cannot be imported, VaultConflictResolvedError if already resolved
+ */
+export function resolveConflict(
+  id: number,
+  resolution: VaultConflictResolution,
+  content?: string
+): VaultConflictResolutionResult | null {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    throw new VaultImportError('Vault sync is not enabled');
+  }
+
+  const conflict = getConflict(id);
+  if (!conflict) {
+    return null;
+  }
+  if (conflict.resolved_at) {
+    throw new VaultConflictResolvedError(conflict);
+  }
+
+  const filepath = path.join(basePath, conflict.path);
+  let item: VaultImportItem | null = null;
+
+  if (resolution === 'keep-db') {
+    acceptingVaultEdits(filepath, () => syncVaultEntity(conflict.entity_type, conflict.entity_id));
+  } else {
+    if (resolution === 'merged') {
+      if (content === undefined) {
+        throw new VaultImportError('Merged content is required');
+      }
+      fs.mkdirSync(path.dirname(filepath), { recursive: true });
+      fs.writeFileSync(filepath, content, 'utf-8');
+    } else if (!fs.existsSync(filepath)) {
+      throw new VaultImportError(`Vault file not found: ${conflict.path}`);
+    }
+
+    item = { path: conflict.path, type: conflict.entity_type, id: conflict.entity_id, action: 'unchanged', warnings: [] };
+    try {
+      item = { ...item, ...applyVaultFile(filepath, conflict.entity_type) };
+    } catch (error) {
+      throw new VaultImportError(`Could not import ${conflict.path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return { conflict: markResolved(conflict.id, resolution) as VaultConflict, item };
+}
+
+/**
+ * Watch the folders notes, artifacts and tasks are synced to, and import
+ * files shortly after they change. Returns a function that stops watching
+ */
+export function startVaultWatcher(debounceMs: number = config.vaultImportDebounceMs): () => void {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    return () => undefined;
+  }
+
+  const pending = new Map<string, ReturnType<typeof setTimeout>>();
+  const watchers = vaultEntityRoots().map(root => {
+    const dir = path.join(basePath, root);
+    fs.mkdirSync(dir, { recursive: true });
+
+    // Path patterns may put files in subfolders, e.g. one per project
+    const watcher = fs.watch(dir, { recursive: true }, (_event, filename) => {
+      const relative = filename ? [root, filename.toString().split(path.sep).join('/')].filter(Boolean).join('/') : '';
+      if (!relative || !entityTypeForPath(relative)) {
+        return;
+      }
+
+      // Editors save in several writes; import once they settle
+      const filepath = path.join(basePath, relative);
+      clearTimeout(pending.get(filepath));
+      pending.set(filepath, setTimeout(() => {
+        pending.delete(filepath);
+        if (!fs.existsSync(filepath)) {
+          return;
+        }
+
+        const item = importVaultFile(filepath);
+        if (item.action === 'failed') {
+          logger.warn('Failed to import vault file', { path: item.path, error: item.error });
+        } else if (item.action !== 'unchanged') {
+          logger.info('Vault edit imported', { path: item.path, id: item.id, action: item.action, warnings: item.warnings });
+        }
+      }, debounceMs));
+    });
+
+    watcher.on('error', error => logger.warn('Vault watcher failed', { dir, error }));
+    return watcher;
+  });
+
+  return () => {
+    for (const watcher of watchers) {
+      watcher.close();
+    }
+    for (const timer of pending.values()) {
+      clearTimeout(timer);
+    }
+    pending.clear();
+  };
+}
+
+/**
+ * Import a file's edits, then write the file back from the database
+ * Vault sync would otherwise take the edited file for a conflict. A file that
+ * created an entity is replaced by the one written for the new entity
+ */
+function applyVaultFile(filepath: string, type: VaultEntityType): ImportOutcome {
+  const text = fs.readFileSync(filepath, 'utf-8');
+  const { data, body } = parseFrontmatter(text);
+  if (isUnchangedSinceSync(text)) {
+    return { id: fileEntityId(filepath, data), action: 'unchanged', warnings: [] };
+  }
+
+  return acceptingVaultEdits(filepath, () => {
+    const outcome = type === 'note'
+      ? importNote(filepath, data, body)
+      : type === 'artifact'
+        ? importArtifact(filepath, data, body)
+        : importTask(filepath, data, body);
+
+    syncVaultEntity(type, outcome.id);
+    if (outcome.action === 'created') {
+      replaceWithSynced(filepath, type, outcome.id);
+    }
+    return outcome;
+  });
+}
+
+function importNote(filepath: string, data: Record<string, string>, body: string): ImportOutcome {
+  const id = fileEntityId(filepath, data);
+  const existing = getNoteById(id);
+  // Bodies laid out by a custom template are not read back
+  const content = existing && hasCustomTemplate('note') ? existing.content : stripBody(body);
+  const project = optionalField(data['project']);
+  const tags = parseListField(data['tags']);
+
+  if (existing) {
+    const updated = updateNote(id, {
+      content,
+      project: project ?? '',
+      tags: tags.length > 0 || existing.tags ? tags : undefined
+    }) as Note;
+    return { id, action: updated.updated_at === existing.updated_at ? 'unchanged' : 'updated', warnings: [] };
+  }
+
+  if (!content.trim()) {
+    throw new Error('A new note needs content');
+  }
+
+  const note = createNote({ content, project: project ?? undefined, tags, source: 'vault' });
+  return { id: note.id, action: 'created', warnings: [] };
+}
+
+function importArtifact(filepath: string, data: Record<string, string>, body: string): ImportOutcome {
+  const id = fileEntityId(filepath, data);
+  const existing = getArtifactById(id);
+  const custom = !!existing && hasCustomTemplate('artifact');
+
+  const text = stripBody(body);
+  const heading = custom ? null : /^# (.*)(?:\n|$)\n?/.exec(text);
+  const title = heading
+    ? unescapeHtmlText((heading[1] as string).trim())
+    : data['title'] || existing?.title || path.basename(filepath, '.md');
+  const rest = heading ? text.slice(heading[0].length) : text;
+
+  const declaredType = data['content_type'] as Artifact['content_type'] | undefined;
+  const contentType = declaredType && CONTENT_TYPES.includes(declaredType)
+    ? declaredType
+    : existing?.content_type ?? 'markdown';
+  // Bodies laid out by a custom template are not read back
+  const content = existing && custom ? existing.content : contentType === 'markdown' ? rest : unfence(rest);
+  const language = optionalField(data['language']);
+  const project = optionalField(data['project']);
+
+  if (existing) {
+    const updated = updateArtifact(id, {
+      title,
+      content,
+      content_type: contentType,
+      language: language ?? '',
+      project: project ?? ''
+    }) as Artifact;
+    return { id, action: updated.updated_at === existing.updated_at ? 'unchanged' : 'updated', warnings: [] };
+  }
+
+  if (!content.trim()) {
+    throw new Error('A new artifact needs content');
+  }
+
+  const artifact = createArtifact({
+    title,
+    content,
+    content_type: contentType,
+    language: language ?? undefined,
+    project: project ?? undefined,
+    source: 'vault'
+  });
+  return { id: artifact.id, action: 'created', warnings: [] };
+}
+
+function importTask(filepath: string, data: Record<string, string>, body: string): ImportOutcome {
+  const id = fileEntityId(filepath, data);
+  const existing = getTaskTree(id);
+  // Bodies laid out by a custom template are not read back; only the frontmatter is
+  const parsed: ParsedTask = existing && hasCustomTemplate('task')
+    ? { marker: null, title: null, description: undefined, checklist: null, subtasks: [] }
+    : parseTaskBody(stripBody(body));
+
+  return existing ? updateTaskFromVault(existing, data, parsed) : createTaskFromVault(filepath, data, parsed);
+}
+
+/**
+ * Apply the edits in a task file: details, dates, checklist, then the status
+ * of subtasks and of the task itself. Refused status changes become warnings
+ */
+function updateTaskFromVault(task: TaskTree, data: Record<string, string>, parsed: ParsedTask): ImportOutcome {
+  const warnings: string[] = [];
+  let changed = false;
+
+  const title = parsed.title ?? task.title;
+  const priority = pick(PRIORITIES, data['priority']) ?? task.priority;
+  const trustLevel = pick(TRUST_LEVELS, data['trust_level']) ?? task.trust_level;
+  if (
+    title !== task.title
+    || (parsed.description !== undefined && (parsed.description ?? '') !== (task.description ?? '').trim())
+    || priority !== task.priority
+    || trustLevel !== task.trust_level
+  ) {
+    updateTaskDetails(task.id, { title, description: parsed.description, priority, trust_level: trustLevel });
+    changed = true;
+  }
+
+  const dueAt = data['due'] !== undefined ? optionalField(data['due']) : task.due_at;
+  const scheduledFor = data['scheduled'] !== undefined ? optionalField(data['scheduled']) : task.scheduled_for;
+  if (dueAt !== task.due_at || scheduledFor !== task.scheduled_for) {
+    try {
+      updateTaskSchedule(task.id, { due_at: dueAt, scheduled_for: scheduledFor });
+      changed = true;
+    } catch (error) {
+      warnings.push(`Dates not changed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (parsed.checklist) {
+    changed = syncChecklist(task, parsed.checklist) || changed;
+  }
+
+  for (const line of parsed.subtasks) {
+    const subtask = task.subtasks.find(child => child.id === line.id);
+    const status = statusForMarker(line.marker);
+    if (subtask && status && status !== subtask.status) {
+      changed = applyStatus(subtask, status, warnings) || changed;
+    }
+  }
+
+  const headingStatus = parsed.marker ? statusForMarker(parsed.marker) : null;
+  const status = headingStatus && headingStatus !== task.status
+    ? headingStatus
+    : pick(Object.keys(TASK_CHECKBOXES) as TaskStatus[], data['status']);
+  if (status && status !== task.status) {
+    changed = applyStatus(task, status, warnings) || changed;
+  }
+
+  return { id: task.id, action: changed ? 'updated' : 'unchanged', warnings };
+}
+
+function createTaskFromVault(filepath: string, data: Record<string, string>, parsed: ParsedTask): ImportOutcome {
+  if (!parsed.title) {
+    throw new Error('A new task needs a "# Title" heading');
+  }
+
+  const parentId = optionalField(data['parent']);
+  const project = optionalField(data['project']);
+  if (!project && !parentId) {
+    throw new Error('A new task needs a project in its frontmatter');
+  }
+
+  const task = createTask({
+    title: parsed.title,
+    description: parsed.description ?? undefined,
+    project: project ?? '',
+    trust_level: pick(TRUST_LEVELS, data['trust_level']) ?? undefined,
+    priority: pick(PRIORITIES, data['priority']) ?? undefined,
+    due_at: optionalField(data['due']) ?? undefined,
+    scheduled_for: optionalField(data['scheduled']) ?? undefined,
+    parent_id: parentId ?? undefined
+  });
+
+  for (const line of parsed.checklist ?? []) {
+    const item = addChecklistItem(task.id, line.text);
+    if (item && line.checked) {
+      updateChecklistItem(task.id, item.id, { checked: true });
+    }
+  }
+
+  const warnings: string[] = [];
+  const status = (parsed.marker ? statusForMarker(parsed.marker) : null)
+    ?? pick(Object.keys(TASK_CHECKBOXES) as TaskStatus[], data['status']);
+  if (status && status !== task.status) {
+    applyStatus(task, status, warnings);
+  }
+
+  return { id: task.id, action: 'created', warnings };
+}
+
+/**
+ * Match checklist lines to items by position: edit or check off the items
+ * in place, add extra lines and remove items whose lines were deleted
+ */
+function syncChecklist(task: TaskTree, lines: Array<{ text: string; checked: boolean }>): boolean {
+  let changed = false;
+
+  lines.forEach((line, index) => {
+    const item = task.checklist[index];
+    if (!item) {
+      const added = addChecklistItem(task.id, line.text);
+      if (added && line.checked) {
+        updateChecklistItem(task.id, added.id, { checked: true });
+      }
+      changed = true;
+    } else if (item.text !== line.text || item.checked !== line.checked) {
+      updateChecklistItem(task.id, item.id, { text: line.text, checked: line.checked });
+      changed = true;
+    }
+  });
+
+  for (const item of task.checklist.slice(lines.length)) {
+    removeChecklistItem(task.id, item.id);
+    changed = true;
+  }
+
+  return changed;
+}
+
+function parseTaskBody(text: string): ParsedTask {
+  const lines = text.split('\n');
+  const start = lines.findIndex(line => line.trim() !== '');
+  const heading = start >= 0 ? /^# (?:(\[.\]) )?(.*)$/.exec(lines[start] as string) : null;
+
+  const intro: string[] = [];
+  const checklistLines: string[] = [];
+  let section: string | null = null;
+  let hasChecklist = false;
+
+  for (const line of lines.slice(heading ? start + 1 : 0)) {
+    const name = TASK_SECTION.exec(line)?.[1];
+    if (name) {
+      section = name;
+      hasChecklist = hasChecklist || name === 'Checklist';
+    } else if (section === null) {
+      intro.push(line);
+    } else if (section === 'Checklist') {
+      checklistLines.push(line);
+    }
+  }
+
+  while (intro.length > 0 && ((intro[0] as string).trim() === '' || TASK_DETAIL_LINE.test(intro[0] as string))) {
+    intro.shift();
+  }
+
+  const checklist: Array<{ text: string; checked: boolean }> = [];
+  const subtasks: Array<{ id: string; marker: string }> = [];
+  for (const line of checklistLines) {
+    // Indented lines belong to subtasks, which are imported from their own files
+    const match = /^- \[(.)\] (.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+    const marker = `[${match[1]}]`;
+    const link = /^\[\[([^\]|]+)\]\]/.exec(match[2] as string);
+    if (link) {
+      subtasks.push({ id: link[1] as string, marker });
+    } else {
+      checklist.push({ text: unescapeHtmlText((match[2] as string).trim()), checked: marker.toLowerCase() === '[x]' });
+    }
+  }
+
+  return {
+    marker: heading?.[1] ?? null,
+    title: heading ? unescapeHtmlText((heading[2] as string).trim()) || null : null,
+    description: intro.join('\n').trim() || null,
+    checklist: hasChecklist ? checklist : null,
+    subtasks
+  };
+}
+
+/**
+ * Move a task to `status` with the transition that leads there
+ * Returns whether it moved; refusals are added to `warnings`
+ */
+function applyStatus(task: Task, status: TaskStatus, warnings: string[]): boolean {
+  try {
+    transitionTask(task.id, transitionFor(task.status, status), { reason: 'Edited in the vault' });
+    return true;
+  } catch (error) {
+    if (!(error instanceof Error)) {
+      throw error;
+    }
+    warnings.push(`${task.id} not moved to ${status}: ${error.message}`);
+    return false;
+  }
+}
+
+function transitionFor(from: TaskStatus, to: TaskStatus): TaskTransitionAction {
+  switch (to) {
+    case 'active':
+      return 'activate';
+    case 'blocked':
+      return 'block';
+    case 'review':
+      return 'review';
+    case 'completed':
+      return 'complete';
+    case 'cancelled':
+      return 'cancel';
+    case 'queued':
+      if (from === 'blocked') {
+        return 'unblock';
+      }
+      if (from === 'review') {
+        return 'request_changes';
+      }
+      return from === 'active' ? 'requeue' : 'reopen';
+  }
+}
+
+function statusForMarker(marker: string): TaskStatus | null {
+  const normalized = marker.toLowerCase();
+  const entry = Object.entries(TASK_CHECKBOXES).find(([, checkbox]) => checkbox === normalized);
+  return entry ? (entry[0] as TaskStatus) : null;
+}
+
+/**
+ * Replace a file that created an entity with the one vault sync wrote for it
+ */
+function replaceWithSynced(filepath: string, type: VaultEntityType, id: string): void {
+  const relative = getVaultFilePath(type, id);
+  const synced = relative ? path.join(getBrainVaultPath() ?? '', relative) : null;
+  if (synced && path.resolve(filepath) !== path.resolve(synced) && fs.existsSync(synced)) {
+    fs.unlinkSync(filepath);
+  }
+}
+
+/**
+ * The entity a file belongs to: the ID in its frontmatter, else the entity
+ * last synced to its path, else its name, for files named by ID
+ */
+function fileEntityId(filepath: string, data: Record<string, string>): string {
+  const relative = path.relative(getBrainVaultPath() ?? '', filepath).split(path.sep).join('/');
+  return data['id'] || findVaultFileEntity(relative)?.id || path.basename(filepath, '.md');
+}
+
+function resolveImportPath(basePath: string, relative: string): string {
+  const resolved = path.resolve(basePath, relative);
+  const inside = path.relative(basePath, resolved).split(path.sep).join('/');
+
+  if (inside.startsWith('..') || path.isAbsolute(inside) || !(findVaultFileEntity(inside) || entityTypeForPath(inside))) {
+    throw new VaultImportError(`Not an importable vault file: ${relative}`);
+  }
+  if (!fs.existsSync(resolved)) {
+    throw new VaultImportError(`Vault file not found: ${relative}`);
+  }
+  return resolved;
+}
+
+/**
+ * The body as written by vault sync: one blank line after the frontmatter and a final newline
+ */
+function stripBody(body: string): string {
+  return body.replace(/^\n/, '').replace(/\n$/, '');
+}
+
+function unfence(content: string): string {
+  const match = /^(`{3,})[^\n]*\n([\s\S]*?)\n\1\s*$/.exec(content);
+  return match ? (match[2] as string) : content;
+}
+
+/**
+ * Frontmatter value, with the placeholders vault sync writes for missing values as null
+ */
+function optionalField(value: string | undefined): string | null {
+  return value === undefined || value === '' || value === 'null' || value === 'none' ? null : value;
+}
+
+function pick<T extends string>(allowed: T[], value: string | undefined): T | null {
+  return value !== undefined && (allowed as string[]).includes(value) ? (value as T) : null;
+}
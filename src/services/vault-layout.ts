@@ -0,0 +1,340 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import { getDb } from '../db/client.js';
+import type { Artifact, Note, Task, VaultEntityType } from '../types/index.js';
+import { enqueueVaultSync } from './vault-outbox.js';
+import { globsOverlap } from '../utils/globs.js';
+
+/**
+ * Raised for a path pattern that cannot be used, e.g. one without {id}
+ */
+export class VaultLayoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultLayoutError';
+  }
+}
+
+/**
+ * What goes into a vault file's path
+ */
+export interface VaultPathFields {
+  id: string;
+  project: string | null;
+  title: string; // Slugged for {slug}
+  created: string;
+  status?: string;
+}
+
+interface CompiledPattern {
+  segments: string[]; // Relative to the brain folder; the last one is the file name
+  folder: RegExp; // Matches the folders the pattern can produce
+  glob: string; // The same folders as a path glob, to compare patterns
+  root: string; // Leading folders without placeholders, where the files can be found
+}
+
+const PATTERN_SETTINGS: Record<VaultEntityType, string> = {
+  note: 'VAULT_NOTE_PATH',
+  artifact: 'VAULT_ARTIFACT_PATH',
+  task: 'VAULT_TASK_PATH'
+};
+
+const PLACEHOLDERS: Record<VaultEntityType, string[]> = {
+  note: ['id', 'project', 'slug', 'created'],
+  artifact: ['id', 'project', 'slug', 'created'],
+  task: ['id', 'project', 'slug', 'created', 'status']
+};
+
+// Folders under brain/ that hold other files; folders starting with a dot are skipped too
+const RESERVED_FOLDERS = ['collections', 'graphs', 'parallel', '_templates'];
+
+const PLACEHOLDER = /\{([a-z]+)\}/g;
+const HAS_PLACEHOLDER = /\{[a-z]+\}/;
+const MAX_SLUG_LENGTH = 60;
+
+const compiled = new Map<string, CompiledPattern>();
+
+function patternFor(type: VaultEntityType): string {
+  return type === 'note' ? config.vaultNotePath : type === 'artifact' ? config.vaultArtifactPath : config.vaultTaskPath;
+}
+
+/**
+ * Parse the configured pattern for a type, e.g. brain/{project}/tasks/{id} - {slug}.md
+ * Throws VaultLayoutError if it is unusable
+ */
+function compilePattern(type: VaultEntityType): CompiledPattern {
+  const pattern = patternFor(type);
+  const cached = compiled.get(`${type}:${pattern}`);
+  if (cached) {
+    return cached;
+  }
+
+  const invalid = (reason: string): VaultLayoutError =>
+    new VaultLayoutError(`Invalid ${PATTERN_SETTINGS[type]} '${pattern}': ${reason}`);
+
+  const [top, ...segments] = pattern.replace(/\\/g, '/').split('/');
+  if (top !== 'brain' || segments.length === 0) {
+    throw invalid('files have to be inside the brain folder');
+  }
+  if (!pattern.endsWith('.md')) {
+    throw invalid('file names have to end in .md');
+  }
+  if (segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw invalid('empty, . and .. folders are not allowed');
+  }
+  if (!pattern.includes('{id}')) {
+    throw invalid('{id} is required so every file gets its own path');
+  }
+  for (const [, name] of pattern.matchAll(PLACEHOLDER)) {
+    if (!PLACEHOLDERS[type].includes(name as string)) {
+      throw invalid(`unknown placeholder {${name}}; use ${PLACEHOLDERS[type].map(field => `{${field}}`).join(', ')}`);
+    }
+  }
+
+  const folders = segments.slice(0, -1);
+  const first = folders[0] ?? '';
+  if (RESERVED_FOLDERS.includes(first) || first.startsWith('.')) {
+    throw invalid(`brain/${first} is used for other files`);
+  }
+
+  const dynamic = folders.findIndex(folder => HAS_PLACEHOLDER.test(folder));
+  const result: CompiledPattern = {
+    segments,
+    // Split on a capturing group, so placeholder names are at odd indexes
+    folder: new RegExp(`^${folders.map(folder => folder.split(PLACEHOLDER).map((part, index) =>
+      index % 2 === 1 ? '[^/]+' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    ).join('')).join('/')}$`),
+    // A placeholder is never empty: one character, then any more
+    glob: folders.join('/').replace(PLACEHOLDER, '?*'),
+    root: (dynamic === -1 ? folders : folders.slice(0, dynamic)).join('/')
+  };
+
+  compiled.set(`${type}:${pattern}`, result);
+  return result;
+}
+
+/**
+ * Check the path patterns of all entity types
+ * Throws VaultLayoutError for an unusable pattern, or two types that can put
+ * files in the same folder, e.g. brain/{project}/{id}.md and brain/tasks/{id}.md
+ */
+export function validateVaultLayout(): void {
+  const types = Object.keys(PATTERN_SETTINGS) as VaultEntityType[];
+  const globs = types.map(type => compilePattern(type).glob);
+
+  types.forEach((type, index) => {
+    const other = globs.findIndex(glob => globsOverlap(glob, globs[index] as string));
+    if (other !== index) {
+      throw new VaultLayoutError(
+        `${PATTERN_SETTINGS[types[other] as VaultEntityType]} and ${PATTERN_SETTINGS[type]} can put files in the same folder`
+      );
+    }
+  });
+}
+
+/**
+ * Path of the vault file for an entity, relative to the brain folder
+ */
+export function vaultFilePath(type: VaultEntityType, fields: VaultPathFields): string {
+  const values: Record<string, string> = {
+    id: fields.id,
+    project: fields.project ?? 'none',
+    slug: slugify(fields.title),
+    created: fields.created.slice(0, 10),
+    status: fields.status ?? ''
+  };
+
+  return compilePattern(type).segments
+    .map(segment => segment.replace(PLACEHOLDER, (_match, name: string) => safeSegment(values[name] ?? '')))
+    .join('/');
+}
+
+export function vaultPathForNote(note: Note): string {
+  // Notes have no title; their first line stands in
+  const firstLine = note.content.split('\n').find(line => line.trim() !== '') ?? '';
+  return vaultFilePath('note', {
+    id: note.id,
+    project: note.project,
+    title: firstLine.replace(/^#+\s*/, ''),
+    created: note.created_at
+  });
+}
+
+export function vaultPathForArtifact(artifact: Artifact): string {
+  return vaultFilePath('artifact', {
+    id: artifact.id,
+    project: artifact.project,
+    title: artifact.title,
+    created: artifact.created_at
+  });
+}
+
+export function vaultPathForTask(task: Task): string {
+  return vaultFilePath('task', {
+    id: task.id,
+    project: task.project,
+    title: task.title,
+    created: task.created_at,
+    status: task.status
+  });
+}
+
+/**
+ * Entity type whose folders hold a file (relative to the brain folder), if any
+ */
+export function entityTypeForPath(relative: string): VaultEntityType | null {
+  const parts = relative.split('/');
+  if (!relative.endsWith('.md') || parts.some(part => part.startsWith('.')) || RESERVED_FOLDERS.includes(parts[0] as string)) {
+    return null;
+  }
+
+  // validateVaultLayout ensures at most one type matches
+  const folder = parts.slice(0, -1).join('/');
+  const types = Object.keys(PATTERN_SETTINGS) as VaultEntityType[];
+  return types.find(type => compilePattern(type).folder.test(folder)) ?? null;
+}
+
+/**
+ * Folders (relative to the brain folder) under which entity files are found;
+ * an empty string is the brain folder itself
+ */
+export function vaultEntityRoots(): string[] {
+  const roots = [...new Set((Object.keys(PATTERN_SETTINGS) as VaultEntityType[]).map(type => compilePattern(type).root))];
+  // Skip roots inside other roots, which are searched already
+  return roots.filter(root => !roots.some(other => other !== root && (other === '' || root.startsWith(`${other}/`)))).sort();
+}
+
+/**
+ * Every note, artifact and task file in the vault, relative to the brain folder
+ */
+export function listVaultEntityFiles(basePath: string): string[] {
+  const files: string[] = [];
+
+  const walk = (relative: string): void => {
+    const dir = path.join(basePath, relative);
+    if (!fs.existsSync(dir)) {
+      return;
+    }
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const child = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.name.startsWith('.') || (!relative && RESERVED_FOLDERS.includes(entry.name))) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        walk(child);
+      } else if (entry.isFile() && entityTypeForPath(child)) {
+        files.push(child);
+      }
+    }
+  };
+
+  for (const root of vaultEntityRoots()) {
+    walk(root);
+  }
+  return files.sort();
+}
+
+/**
+ * Remove `dir` and its parents while empty, stopping at the entity roots
+ */
+export function pruneEmptyFolders(basePath: string, dir: string): void {
+  const roots = vaultEntityRoots();
+  let relative = path.relative(basePath, dir).split(path.sep).join('/');
+
+  while (
+    relative && !relative.startsWith('..')
+    && !roots.some(root => root === relative || root.startsWith(`${relative}/`))
+    && fs.existsSync(path.join(basePath, relative))
+    && fs.readdirSync(path.join(basePath, relative)).length === 0
+  ) {
+    fs.rmdirSync(path.join(basePath, relative));
+    relative = path.posix.dirname(relative) === '.' ? '' : path.posix.dirname(relative);
+  }
+}
+
+/**
+ * Where an entity's file was last synced, relative to the brain folder
+ */
+export function getVaultFilePath(type: VaultEntityType, id: string): string | null {
+  const db = getDb();
+  const row = db.prepare('SELECT path FROM vault_files WHERE entity_type = ? AND entity_id = ?').get(type, id) as
+    { path: string } | undefined;
+  return row?.path ?? null;
+}
+
+export function recordVaultFilePath(type: VaultEntityType, id: string, relative: string): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT OR REPLACE INTO vault_files (entity_type, entity_id, path) VALUES (?, ?, ?)
+  `).run(type, id, relative);
+}
+
+export function forgetVaultFilePath(type: VaultEntityType, id: string): void {
+  const db = getDb();
+  db.prepare('DELETE FROM vault_files WHERE entity_type = ? AND entity_id = ?').run(type, id);
+}
+
+/**
+ * The entity last synced to a file, if any
+ */
+export function findVaultFileEntity(relative: string): { type: VaultEntityType; id: string } | null {
+  const db = getDb();
+  const row = db.prepare('SELECT entity_type, entity_id FROM vault_files WHERE path = ?').get(relative) as
+    { entity_type: VaultEntityType; entity_id: string } | undefined;
+  return row ? { type: row.entity_type, id: row.entity_id } : null;
+}
+
+/**
+ * Queue every entity whose file is no longer where the path patterns put it,
+ * so the sync worker moves it. Run at startup, after the patterns may have changed
+ * Returns the number queued
+ */
+export function queueVaultLayoutMoves(): number {
+  const db = getDb();
+  const recorded = new Map(
+    (db.prepare('SELECT entity_type, entity_id, path FROM vault_files').all() as
+      Array<{ entity_type: VaultEntityType; entity_id: string; path: string }>)
+      .map(row => [`${row.entity_type}:${row.entity_id}`, row.path])
+  );
+
+  const expected: Array<[VaultEntityType, string, string]> = [
+    ...(db.prepare('SELECT * FROM notes').all() as Note[]).map(note =>
+      ['note', note.id, vaultPathForNote(note)] as [VaultEntityType, string, string]),
+    ...(db.prepare('SELECT * FROM artifacts').all() as Artifact[]).map(artifact =>
+      ['artifact', artifact.id, vaultPathForArtifact(artifact)] as [VaultEntityType, string, string]),
+    ...(db.prepare('SELECT * FROM tasks').all() as Task[]).map(task =>
+      ['task', task.id, vaultPathForTask(task)] as [VaultEntityType, string, string])
+  ];
+
+  let queued = 0;
+  for (const [type, id, relative] of expected) {
+    const previous = recorded.get(`${type}:${id}`);
+    if (previous !== undefined && previous !== relative) {
+      enqueueVaultSync(type, id);
+      queued++;
+    }
+  }
+  return queued;
+}
+
+/**
+ * Lowercase words joined by hyphens, e.g. "Fix the login bug!" becomes fix-the-login-bug
+ */
+function slugify(text: string): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '');
+  return slug || 'untitled';
+}
+
+/**
+ * A value made safe for one path segment and for Obsidian links
+ */
+function safeSegment(value: string): string {
+  return value.replace(/[\\/:*?"<>|#^[\]\r\n\t]/g, '-').replace(/^\.+/, '') || '-';
+}
@@ -0,0 +1,90 @@
+import { getDb } from '../db/client.js';
+import type { VaultSyncItemType, VaultSyncOutboxItem, VaultSyncQueueStatus } from '../types/index.js';
+
+/**
+ * Queue a vault file to be rewritten
+ * Changes to notes, artifacts and tasks are queued by triggers; this is for
+ * anything else that changes what a file should hold, and for graphs,
+ * collections and sessions
+ */
+export function enqueueVaultSync(type: VaultSyncItemType, id: string): void {
+  const db = getDb();
+  db.prepare(`
+    INSERT INTO vault_sync_outbox (entity_type, entity_id) VALUES (?, ?)
+    ON CONFLICT (entity_type, entity_id) DO UPDATE SET attempts = 0, next_attempt_at = excluded.next_attempt_at
+  `).run(type, id);
+}
+
+/**
+ * Items due for an attempt, oldest first
+ */
+export function listDueItems(now: Date = new Date(), limit: number = 100): VaultSyncOutboxItem[] {
+  const db = getDb();
+  return db.prepare(`
+    SELECT * FROM vault_sync_outbox
+    WHERE next_attempt_at <= ?
+    ORDER BY queued_at, entity_type, entity_id
+    LIMIT ?
+  `).all(now.toISOString(), limit) as VaultSyncOutboxItem[];
+}
+
+/**
+ * Remove a synced item, unless it was queued again since it was read
+ */
+export function completeItem(item: VaultSyncOutboxItem): void {
+  const db = getDb();
+  db.prepare(`
+    DELETE FROM vault_sync_outbox
+    WHERE entity_type = ? AND entity_id = ? AND attempts = ? AND next_attempt_at = ?
+  `).run(item.entity_type, item.entity_id, item.attempts, item.next_attempt_at);
+}
+
+/**
+ * Record a failed attempt and schedule the next one `retryInMs` from now
+ */
+export function failItem(item: VaultSyncOutboxItem, error: string, retryInMs: number, now: Date = new Date()): void {
+  const db = getDb();
+  db.prepare(`
+    UPDATE vault_sync_outbox
+    SET attempts = attempts + 1, next_attempt_at = ?, last_attempt_at = ?, last_error = ?
+    WHERE entity_type = ? AND entity_id = ?
+  `).run(
+    new Date(now.getTime() + retryInMs).toISOString(),
+    now.toISOString(),
+    error,
+    item.entity_type,
+    item.entity_id
+  );
+}
+
+/**
+ * Queue depth, the oldest unsynced change and the most recent failure
+ */
+export function getVaultSyncQueueStatus(): VaultSyncQueueStatus {
+  const db = getDb();
+  const queue = db.prepare(`
+    SELECT COUNT(*) AS pending, MIN(queued_at) AS oldest_pending_at FROM vault_sync_outbox
+  `).get() as { pending: number; oldest_pending_at: string | null };
+
+  const failure = db.prepare(`
+    SELECT entity_type, entity_id, attempts, last_error, last_attempt_at
+    FROM vault_sync_outbox
+    WHERE last_error IS NOT NULL
+    ORDER BY last_attempt_at DESC
+    LIMIT 1
+  `).get() as Pick<VaultSyncOutboxItem, 'entity_type' | 'entity_id' | 'attempts' | 'last_error' | 'last_attempt_at'> | undefined;
+
+  return {
+    pending: queue.pending,
+    oldest_pending_at: queue.oldest_pending_at,
+    last_error: failure
+      ? {
+        entity_type: failure.entity_type,
+        entity_id: failure.entity_id,
+        attempts: failure.attempts,
+        error: failure.last_error as string,
+        at: failure.last_attempt_at as string
+      }
+      : null
+  };
+}
@@ -0,0 +1,194 @@
+import fs from 'fs';
+import path from 'path';
+import { getDb } from '../db/client.js';
+import type {
+  Artifact,
+  Note,
+  VaultEntityType,
+  VaultReconcileItem,
+  VaultReconcileOptions,
+  VaultReconcileReport
+} from '../types/index.js';
+import {
+  getBrainVaultPath,
+  isUnchangedSinceSync,
+  planVaultWrite,
+  renderArtifactFile,
+  renderNoteFile,
+  renderTaskFile,
+  syncArtifactToVault,
+  syncNoteToVault,
+  syncTaskToVault
+} from './vault-sync.js';
+import {
+  entityTypeForPath,
+  getVaultFilePath,
+  listVaultEntityFiles,
+  vaultPathForArtifact,
+  vaultPathForNote,
+  vaultPathForTask
+} from './vault-layout.js';
+import { getTaskTree } from './task-outline.js';
+import { parseFrontmatter } from '../utils/frontmatter.js';
+
+/**
+ * Raised when reconciling while vault sync is disabled
+ */
+export class VaultReconcileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VaultReconcileError';
+  }
+}
+
+// Under the brain folder; orphaned files keep their folder inside it
+const TRASH_FOLDER = '.trash';
+
+/**
+ * Bring the note, artifact and task files in line with the database: write
+ * missing files, rewrite stale ones, move files to where the path patterns now
+ * put them and remove files of deleted entities.
+ * Files edited in the vault are left for the importer, or recorded as conflicts
+ * if the database changed as well. With `dry_run` nothing on disk is touched.
+ * Throws VaultReconcileError if vault sync is disabled
+ */
+export function reconcileVault(options: VaultReconcileOptions = {}): VaultReconcileReport {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    throw new VaultReconcileError('Vault sync is not enabled');
+  }
+
+  const dryRun = options.dry_run ?? false;
+  const items: VaultReconcileItem[] = [];
+  const synced = new Set<string>();
+  const entities = new Set<string>();
+  let unchanged = 0;
+
+  const reconcileEntity = (type: VaultEntityType, id: string, relative: string, content: string, write: () => void): void => {
+    synced.add(relative);
+    entities.add(`${type}:${id}`);
+
+    // Writing the file moves it; edits in the vault go with it
+    const previous = getVaultFilePath(type, id);
+    if (previous && previous !== relative && fs.existsSync(path.join(basePath, previous))) {
+      synced.add(previous);
+      const item: VaultReconcileItem = { path: relative, type, id, action: 'move', reason: `Moved from ${previous}` };
+      if (!dryRun) {
+        applyChange(item, write);
+      }
+      items.push(item);
+      return;
+    }
+
+    const plan = planVaultWrite(path.join(basePath, relative), content);
+    if (plan === 'unchanged') {
+      unchanged++;
+      return;
+    }
+
+    const item: VaultReconcileItem = plan === 'edited'
+      ? { path: relative, type, id, action: 'skip', reason: 'Edited in the vault; import it first' }
+      : plan === 'conflict'
+        ? { path: relative, type, id, action: 'conflict', reason: 'Changed in both the vault and the database' }
+        : { path: relative, type, id, action: plan, reason: plan === 'create' ? 'Missing from the vault' : 'Stale' };
+
+    // Writing a conflicting file records the conflict instead
+    if (!dryRun && item.action !== 'skip') {
+      applyChange(item, write);
+    }
+    items.push(item);
+  };
+
+  const db = getDb();
+
+  for (const note of db.prepare('SELECT * FROM notes ORDER BY id').all() as Note[]) {
+    reconcileEntity('note', note.id, vaultPathForNote(note), renderNoteFile(note), () => syncNoteToVault(note));
+  }
+  for (const artifact of db.prepare('SELECT * FROM artifacts ORDER BY id').all() as Artifact[]) {
+    reconcileEntity(
+      'artifact',
+      artifact.id,
+      vaultPathForArtifact(artifact),
+      renderArtifactFile(artifact),
+      () => syncArtifactToVault(artifact)
+    );
+  }
+  for (const { id } of db.prepare('SELECT id FROM tasks ORDER BY id').all() as Array<{ id: string }>) {
+    const tree = getTaskTree(id);
+    if (tree) {
+      reconcileEntity('task', id, vaultPathForTask(tree), renderTaskFile(tree), () => syncTaskToVault(tree));
+    }
+  }
+
+  for (const relative of listVaultEntityFiles(basePath)) {
+    if (synced.has(relative)) {
+      continue;
+    }
+
+    const type = entityTypeForPath(relative) as VaultEntityType;
+    const text = fs.readFileSync(path.join(basePath, relative), 'utf-8');
+    const { data } = parseFrontmatter(text);
+
+    // Files sync never wrote are new vault files waiting for the importer
+    if (!data['id'] && !data['content_hash']) {
+      items.push({ path: relative, type, id: null, action: 'skip', reason: 'New in the vault; import it first' });
+      continue;
+    }
+
+    // A copy of a live entity's file, e.g. moved by hand, may hold edits
+    const id = data['id'] || path.basename(relative, '.md');
+    const live = entities.has(`${type}:${id}`);
+    if (live && !isUnchangedSinceSync(text)) {
+      items.push({ path: relative, type, id, action: 'skip', reason: `Edited copy of the ${type}'s file; import it first` });
+      continue;
+    }
+
+    const item: VaultReconcileItem = {
+      path: relative,
+      type,
+      id,
+      action: options.orphans ?? 'trash',
+      reason: live ? `Copy of the ${type}'s file` : `No ${type} with this ID`
+    };
+    if (!dryRun) {
+      applyChange(item, () => removeOrphan(basePath, relative, item.action === 'trash'));
+    }
+    items.push(item);
+  }
+
+  const succeeded = (action: VaultReconcileItem['action']): number =>
+    items.filter(item => item.action === action && !item.error).length;
+
+  return {
+    dry_run: dryRun,
+    items,
+    unchanged,
+    created: succeeded('create'),
+    updated: succeeded('update'),
+    moved: succeeded('move'),
+    removed: succeeded('delete') + succeeded('trash'),
+    conflicts: succeeded('conflict'),
+    skipped: succeeded('skip'),
+    failed: items.filter(item => item.error).length
+  };
+}
+
+function applyChange(item: VaultReconcileItem, change: () => void): void {
+  try {
+    change();
+  } catch (error) {
+    item.error = error instanceof Error ? error.message : String(error);
+  }
+}
+
+function removeOrphan(basePath: string, relative: string, trash: boolean): void {
+  const filepath = path.join(basePath, relative);
+  if (!trash) {
+    fs.unlinkSync(filepath);
+    return;
+  }
+
+  const target = path.join(basePath, TRASH_FOLDER, relative);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.renameSync(filepath, target);
+}
@@ -0,0 +1,82 @@
+import type { VaultSyncItemType } from '../types/index.js';
+import { config } from '../config.js';
+import {
+  deleteEntityFromVault,
+  getBrainVaultPath,
+  syncArtifactToVault,
+  syncNoteToVault
+} from './vault-sync.js';
+import { completeItem, failItem, listDueItems } from './vault-outbox.js';
+import { getNoteById } from './notes.js';
+import { getArtifactById } from './artifacts.js';
+import { getTaskById } from './tasks.js';
+import { syncTaskTree } from './task-outline.js';
+import { syncTaskGraph } from './task-dependencies.js';
+import { syncCollection } from './saved-searches.js';
+import { syncSession } from './parallel-sessions.js';
+
+// Retry delays double from config.vaultSyncRetryMs up to this
+const MAX_RETRY_MS = 3600000;
+
+// Items written per pass, so one pass never holds the event loop for long
+const BATCH_SIZE = 100;
+
+/**
+ * Write an entity's vault file from the database, or remove the file if the entity is gone
+ * Tasks rewrite their ancestors too. Graphs, collections and sessions are
+ * rendered from current data. Throws if the file cannot be written
+ */
+export function syncVaultEntity(type: VaultSyncItemType, id: string): void {
+  if (type === 'graph') {
+    syncTaskGraph(id);
+    return;
+  }
+  if (type === 'collection') {
+    syncCollection(id);
+    return;
+  }
+  if (type === 'session') {
+    syncSession(id);
+    return;
+  }
+
+  const note = type === 'note' ? getNoteById(id) : null;
+  const artifact = type === 'artifact' ? getArtifactById(id) : null;
+  const task = type === 'task' ? getTaskById(id) : null;
+
+  if (note) {
+    syncNoteToVault(note);
+  } else if (artifact) {
+    syncArtifactToVault(artifact);
+  } else if (task) {
+    syncTaskTree(task.id);
+  } else {
+    deleteEntityFromVault(type, id);
+  }
+}
+
+/**
+ * Write the vault files of queued changes that are due
+ * Failed items are retried later with exponential backoff. Does nothing
+ * while vault sync is disabled, so changes wait until it is configured
+ */
+export function processVaultSyncQueue(now: Date = new Date()): { synced: number; failed: number } {
+  const result = { synced: 0, failed: 0 };
+  if (!getBrainVaultPath()) {
+    return result;
+  }
+
+  for (const item of listDueItems(now, BATCH_SIZE)) {
+    try {
+      syncVaultEntity(item.entity_type, item.entity_id);
+      completeItem(item);
+      result.synced++;
+    } catch (error) {
+      const delay = Math.min(config.vaultSyncRetryMs * 2 ** item.attempts, MAX_RETRY_MS);
+      failItem(item, error instanceof Error ? error.message : String(error), delay, now);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -1,12 +1,45 @@
+import crypto from 'crypto';
 import fs from 'fs';
 import path from 'path';
 import { config } from '../config.js';
-import type { Note, Artifact, Task } from '../types/index.js';
+import type {
+  Note,
+  Artifact,
+  Task,
+  TaskTree,
+  TaskGraph,
+  SavedSearch,
+  SearchResult,
+  ParallelSessionDetail,
+  VaultEntityType,
+  VaultSyncQueueStatus
+} from '../types/index.js';
+import { escapeHtmlText } from '../security/sanitize.js';
+import { parseFrontmatter } from '../utils/frontmatter.js';
+import { recordConflict, listConflicts } from './vault-conflicts.js';
+import { getVaultSyncQueueStatus } from './vault-outbox.js';
+import {
+  forgetVaultFilePath,
+  getVaultFilePath,
+  pruneEmptyFolders,
+  recordVaultFilePath,
+  vaultPathForArtifact,
+  vaultPathForNote,
+  vaultPathForTask
+} from './vault-layout.js';
+import { renderVaultTemplate } from './vault-templates.js';
+import logger from '../utils/logger.js';
+
+// Frontmatter fields stamped on each write; left out of the content hash
+const SYNC_STAMP_LINE = /^(content_hash|synced_at):/;
+
+// Files sync may overwrite although they were edited in the vault
+const acceptedEdits = new Set<string>();
 
 /**
  * Get the base vault path for brain content
  */
-function getBrainVaultPath(): string | null {
+export function getBrainVaultPath(): string | null {
   if (!config.obsidianVaultPath) {
     return null;
   }
@@ -23,48 +56,221 @@ function ensureDir(dirPath: string): void {
 }
 
 /**
- * Sync a note to the Obsidian vault
+ * What writing new content to a vault file would do:
+ * - create / update / unchanged, for files sync may overwrite
+ * - edited, for a file edited in the vault while the database side did not change
+ * - conflict, for a file edited in the vault while the database side changed too
  */
-export function syncNoteToVault(note: Note): void {
-  const basePath = getBrainVaultPath();
-  if (!basePath) {
+export type VaultWritePlan = 'create' | 'update' | 'unchanged' | 'edited' | 'conflict';
+
+/**
+ * Plan writing `content` to a vault file
+ * With `checkEdits` off, vault edits are overwritten like any stale content.
+ */
+export function planVaultWrite(filepath: string, content: string, checkEdits: boolean = true): VaultWritePlan {
+  if (!fs.existsSync(filepath)) {
+    return 'create';
+  }
+
+  const current = fs.readFileSync(filepath, 'utf-8');
+  const baseHash = parseFrontmatter(current).data['content_hash'];
+  const currentHash = contentHash(current);
+  const hash = hashContent(content);
+
+  // Files without a stamp predate conflict detection and are overwritten as before
+  if (checkEdits && baseHash && baseHash !== currentHash) {
+    return baseHash === hash ? 'edited' : 'conflict';
+  }
+  return baseHash === hash && currentHash === hash ? 'unchanged' : 'update';
+}
+
+/**
+ * Write a vault file, stamping its frontmatter with the content hash and sync time
+ * Entity files edited in the vault since they were last synced are left alone:
+ * if the database side changed as well, a conflict is recorded instead
+ */
+function writeVaultFile(
+  filepath: string,
+  content: string,
+  entity?: { type: VaultEntityType; id: string },
+  acceptEdits: boolean = false
+): void {
+  const checkEdits = !!entity && !acceptEdits && !acceptedEdits.has(path.resolve(filepath));
+  const plan = planVaultWrite(filepath, content, checkEdits);
+
+  if (plan === 'conflict' && entity) {
+    const current = fs.readFileSync(filepath, 'utf-8');
+    const conflict = recordConflict({
+      path: path.relative(getBrainVaultPath() ?? '', filepath).split(path.sep).join('/'),
+      entity_type: entity.type,
+      entity_id: entity.id,
+      base_hash: parseFrontmatter(current).data['content_hash'] ?? '',
+      db_content: content,
+      vault_content: current
+    });
+    logger.warn('Vault conflict detected', { conflictId: conflict.id, path: conflict.path });
+  }
+  // Edits made only on the vault side are left for the importer
+  if (plan !== 'create' && plan !== 'update') {
     return;
   }
 
-  const dir = path.join(basePath, 'notes');
-  ensureDir(dir);
+  // Templates may leave out the frontmatter; the stamp then gets one of its own
+  const stamp = `content_hash: ${hashContent(content)}\nsynced_at: ${new Date().toISOString()}`;
+  const stamped = /^---\n[\s\S]*?\n---/.test(content)
+    ? content.replace(/^(---\n[\s\S]*?\n)---/, `$1${stamp}\n---`)
+    : `---\n${stamp}\n---\n${content}`;
+  fs.writeFileSync(filepath, stamped, 'utf-8');
+}
+
+/**
+ * Write an entity's file at `relative` (to the brain folder), moving it there
+ * first if it was synced elsewhere, and remember where it went
+ */
+function writeEntityFile(basePath: string, type: VaultEntityType, id: string, relative: string, content: string): void {
+  const filepath = path.join(basePath, relative);
+  const previous = getVaultFilePath(type, id);
+  // Edits accepted for the file carry over to where it moves
+  const acceptEdits = previous !== null && acceptedEdits.has(path.resolve(basePath, previous));
+
+  if (previous && previous !== relative) {
+    moveVaultFile(basePath, previous, relative);
+  }
+  ensureDir(path.dirname(filepath));
+  writeVaultFile(filepath, content, { type, id }, acceptEdits);
+  recordVaultFilePath(type, id, relative);
+}
 
-  const filename = `${note.id}.md`;
-  const tags = note.tags ? JSON.parse(note.tags) : [];
+/**
+ * Move a synced file to a new path. If a file is there already, the old one
+ * is removed, unless it was edited in the vault, which is kept for the importer
+ */
+function moveVaultFile(basePath: string, from: string, to: string): void {
+  const source = path.join(basePath, from);
+  const target = path.join(basePath, to);
+  if (!fs.existsSync(source)) {
+    return;
+  }
 
-  const content = `---
-id: ${note.id}
-project: ${note.project ?? 'none'}
-tags: ${JSON.stringify(tags)}
-source: ${note.source}
-created: ${note.created_at}
-updated: ${note.updated_at ?? note.created_at}
----
+  if (!fs.existsSync(target)) {
+    ensureDir(path.dirname(target));
+    fs.renameSync(source, target);
+  } else if (isUnchangedSinceSync(fs.readFileSync(source, 'utf-8'))) {
+    fs.unlinkSync(source);
+  } else {
+    logger.warn('Edited vault file left at its old path', { from, to });
+    return;
+  }
+  pruneEmptyFolders(basePath, path.dirname(source));
+}
 
-${note.content}
-`;
+function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
 
-  fs.writeFileSync(path.join(dir, filename), content, 'utf-8');
+/**
+ * Hash of a vault file's content without its sync stamp
+ */
+export function contentHash(text: string): string {
+  const unstamped = text.replace(/\r\n/g, '\n').replace(/^---\n[\s\S]*?\n---(?:\n|$)/, frontmatter => {
+    const lines = frontmatter.split('\n').filter(line => !SYNC_STAMP_LINE.test(line));
+    // Frontmatter that holds only the stamp was added by it
+    return lines.every(line => line === '---' || line === '') ? '' : lines.join('\n');
+  });
+  return hashContent(unstamped);
 }
 
 /**
- * Delete a note from the vault
+ * Whether a vault file still holds exactly what vault sync last wrote to it
  */
-export function deleteNoteFromVault(note: Note): void {
+export function isUnchangedSinceSync(text: string): boolean {
+  const stamped = parseFrontmatter(text).data['content_hash'];
+  return stamped !== undefined && stamped === contentHash(text);
+}
+
+/**
+ * Run `apply` with sync allowed to overwrite `filepath` although it was edited
+ * in the vault, for changes that already take the edit into account
+ */
+export function acceptingVaultEdits<T>(filepath: string, apply: () => T): T {
+  const resolved = path.resolve(filepath);
+  const added = !acceptedEdits.has(resolved);
+  acceptedEdits.add(resolved);
+  try {
+    return apply();
+  } finally {
+    if (added) {
+      acceptedEdits.delete(resolved);
+    }
+  }
+}
+
+/**
+ * Wrap content in a code fence longer than any backtick run inside it
+ */
+function fenceCode(content: string, language: string): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${content}\n${fence}`;
+}
+
+/**
+ * Delete a note, artifact or task file from the vault
+ */
+export function deleteEntityFromVault(type: VaultEntityType, id: string): void {
   const basePath = getBrainVaultPath();
-  if (!basePath) {
+  const relative = getVaultFilePath(type, id);
+  if (!basePath || !relative) {
     return;
   }
 
-  const filepath = path.join(basePath, 'notes', `${note.id}.md`);
+  const filepath = path.join(basePath, relative);
   if (fs.existsSync(filepath)) {
     fs.unlinkSync(filepath);
+    pruneEmptyFolders(basePath, path.dirname(filepath));
   }
+  forgetVaultFilePath(type, id);
+}
+
+/**
+ * Sync a note to the Obsidian vault
+ */
+export function syncNoteToVault(note: Note): void {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    return;
+  }
+
+  writeEntityFile(basePath, 'note', note.id, vaultPathForNote(note), renderNoteFile(note));
+}
+
+/**
+ * Render the vault file for a note from the note template
+ */
+export function renderNoteFile(note: Note): string {
+  const tags: string[] = note.tags ? JSON.parse(note.tags) : [];
+  const updated = note.updated_at ?? note.created_at;
+
+  const frontmatter = [
+    `id: ${note.id}`,
+    `project: ${note.project ?? 'none'}`,
+    `tags: ${JSON.stringify(tags)}`,
+    `source: ${note.source}`,
+    `created: ${note.created_at}`,
+    `updated: ${updated}`
+  ];
+
+  return renderVaultTemplate('note', {
+    id: note.id,
+    project: note.project,
+    tags,
+    source: note.source,
+    created: note.created_at,
+    updated,
+    content: note.content,
+    frontmatter: frontmatter.join('\n'),
+    body: note.content
+  });
 }
 
 /**
@@ -76,11 +282,13 @@ export function syncArtifactToVault(artifact: Artifact): void {
     return;
   }
 
-  const dir = path.join(basePath, 'artifacts');
-  ensureDir(dir);
-
-  const filename = `${artifact.id}.md`;
+  writeEntityFile(basePath, 'artifact', artifact.id, vaultPathForArtifact(artifact), renderArtifactFile(artifact));
+}
 
+/**
+ * Render the vault file for an artifact from the artifact template
+ */
+export function renderArtifactFile(artifact: Artifact): string {
   // Determine code block language
   let codeLanguage = '';
   if (artifact.content_type === 'code' && artifact.language) {
@@ -91,105 +299,365 @@ export function syncArtifactToVault(artifact: Artifact): void {
 
   const contentBlock = artifact.content_type === 'markdown'
     ? artifact.content
-    : `\`\`\`${codeLanguage}\n${artifact.content}\n\`\`\``;
+    : fenceCode(artifact.content, codeLanguage);
+  const updated = artifact.updated_at ?? artifact.created_at;
+
+  const frontmatter = [
+    `id: ${artifact.id}`,
+    `title: "${artifact.title.replace(/"/g, '\\"')}"`,
+    `content_type: ${artifact.content_type}`,
+    `language: ${artifact.language ?? 'none'}`,
+    `project: ${artifact.project ?? 'none'}`,
+    `source: ${artifact.source}`,
+    `created: ${artifact.created_at}`,
+    `updated: ${updated}`
+  ];
+
+  return renderVaultTemplate('artifact', {
+    id: artifact.id,
+    title: artifact.title,
+    content_type: artifact.content_type,
+    language: artifact.language,
+    project: artifact.project,
+    source: artifact.source,
+    created: artifact.created_at,
+    updated,
+    content: artifact.content,
+    content_block: contentBlock,
+    frontmatter: frontmatter.join('\n'),
+    body: `# ${escapeHtmlText(artifact.title)}\n\n${contentBlock}`
+  });
+}
+
+// Obsidian checkbox marker for each task status
+export const TASK_CHECKBOXES: Record<Task['status'], string> = {
+  queued: '[ ]',
+  active: '[/]', // In progress
+  blocked: '[!]',
+  review: '[?]',
+  completed: '[x]',
+  cancelled: '[-]'
+};
+
+/**
+ * Obsidian checkbox marker for a task status
+ */
+function taskCheckbox(status: Task['status']): string {
+  return TASK_CHECKBOXES[status];
+}
+
+/**
+ * Obsidian Tasks date markers (⏳ scheduled, 📅 due), with a leading space
+ */
+function taskDateMarkers(task: Task): string {
+  return (task.scheduled_for ? ` ⏳ ${task.scheduled_for}` : '') + (task.due_at ? ` 📅 ${task.due_at}` : '');
+}
+
+/**
+ * Render checklist items and subtasks as nested checkboxes
+ * Each subtask lists its own checklist and subtasks one level deeper.
+ */
+function renderTaskOutline(task: TaskTree, depth: number = 0): string[] {
+  const indent = '  '.repeat(depth);
+  const lines = task.checklist.map(item =>
+    `${indent}- [${item.checked ? 'x' : ' '}] ${escapeHtmlText(item.text)}`
+  );
+
+  for (const subtask of task.subtasks) {
+    lines.push(`${indent}- ${taskCheckbox(subtask.status)} [[${subtask.id}]] ${escapeHtmlText(subtask.title)}${taskDateMarkers(subtask)}`);
+    lines.push(...renderTaskOutline(subtask, depth + 1));
+  }
+
+  return lines;
+}
+
+/**
+ * Render a task's runs as a table, followed by the log of the latest finished run
+ */
+function renderTaskRuns(task: TaskTree): string {
+  const rows = task.runs.map(run => {
+    const artifacts = run.artifact_ids.map(id => `[[${id}]]`).join(' ');
+    const ref = run.ref ? `\`${run.ref.replace(/[`|]/g, '')}\`` : '';
+    return `| ${run.id} | ${run.started_at} | ${run.ended_at ?? ''} | ${run.outcome ?? 'running'} | ${ref} | ${artifacts} |`;
+  });
+
+  const lines = [
+    '| Run | Started | Ended | Outcome | Ref | Artifacts |',
+    '|-----|---------|-------|---------|-----|-----------|',
+    ...rows
+  ];
+
+  const logged = [...task.runs].reverse().find(run => run.outcome && run.log_excerpt);
+  if (logged?.log_excerpt) {
+    lines.push('', `Log of run ${logged.id} (${logged.outcome}):`, '', fenceCode(logged.log_excerpt, 'text'));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a task's comments, oldest first, and the tasks whose threads mention it
+ * Mentioned task IDs in comment bodies become wiki links.
+ */
+function renderTaskActivity(task: TaskTree): string {
+  const entries = task.comments.map(comment => {
+    const heading = `### ${comment.created_at} · ${escapeHtmlText(comment.source)}`;
+    const edited = comment.updated_at ? [`_Edited ${comment.updated_at}_`] : [];
+    return [heading, linkMentions(comment.body, comment.mentions), ...edited].join('\n\n');
+  });
+
+  if (task.mentioned_in.length > 0) {
+    const sources = [...new Set(task.mentioned_in.map(mention => `[[${mention.task_id}]]`))];
+    entries.push(`Mentioned in ${sources.join(', ')}`);
+  }
+
+  return entries.join('\n\n');
+}
+
+function linkMentions(body: string, mentions: string[]): string {
+  if (mentions.length === 0) {
+    return body;
+  }
+  const ids = mentions.map(id => id.replace(/\./g, '\\.')).join('|');
+  // Leave existing wiki links alone
+  const pattern = new RegExp(`\\[\\[[^\\]]*\\]\\]|\\b(?:${ids})\\b(?!\\.\\d)`, 'g');
+  return body.replace(pattern, match => (match.startsWith('[[') ? match : `[[${match}]]`));
+}
+
+/**
+ * Sync a task to the Obsidian vault
+ */
+export function syncTaskToVault(task: TaskTree): void {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    return;
+  }
+
+  writeEntityFile(basePath, 'task', task.id, vaultPathForTask(task), renderTaskFile(task));
+}
+
+/**
+ * Render the vault file for a task from the task template, with its
+ * checklist, subtasks, runs and activity
+ */
+export function renderTaskFile(task: TaskTree): string {
+  const checkbox = taskCheckbox(task.status);
+  const { progress } = task;
+  const hasOutline = progress.checklist_total > 0 || progress.subtasks_total > 0;
+
+  const details = [
+    `**Project:** [[${task.project}]]`,
+    ...(task.parent_id ? [`**Parent:** [[${task.parent_id}]]`] : []),
+    `**Status:** ${task.status}`,
+    `**Priority:** ${task.priority}`,
+    `**Trust Level:** ${task.trust_level}`,
+    ...(task.scheduled_for ? [`**Scheduled:** ⏳ ${task.scheduled_for}`] : []),
+    ...(task.due_at ? [`**Due:** 📅 ${task.due_at}`] : []),
+    ...(hasOutline ? [`**Progress:** ${progress.percent}%`] : [])
+  ];
+
+  const checklist = hasOutline ? renderTaskOutline(task).join('\n') : '';
+  const runs = task.runs.length > 0 ? renderTaskRuns(task) : '';
+  const activity = task.comments.length > 0 || task.mentioned_in.length > 0 ? renderTaskActivity(task) : '';
+
+  const sections = [
+    `# ${checkbox} ${escapeHtmlText(task.title)}`,
+    details.join('\n'),
+    ...(task.description ? [task.description] : []),
+    ...(checklist ? [`## Checklist\n\n${checklist}`] : []),
+    ...(runs ? [`## Runs\n\n${runs}`] : []),
+    ...(activity ? [`## Activity\n\n${activity}`] : [])
+  ];
+
+  const frontmatter = [
+    `id: ${task.id}`,
+    `project: ${task.project}`,
+    `status: ${task.status}`,
+    `trust_level: ${task.trust_level}`,
+    `priority: ${task.priority}`,
+    `created: ${task.created_at}`,
+    `started: ${task.started_at ?? 'null'}`,
+    `completed: ${task.completed_at ?? 'null'}`,
+    `parent: ${task.parent_id ?? 'null'}`,
+    `progress: ${progress.percent}`,
+    `due: ${task.due_at ?? 'null'}`,
+    `scheduled: ${task.scheduled_for ?? 'null'}`,
+    `series: ${task.series_id ?? 'null'}`,
+    `archived: ${task.archived_at ?? 'null'}`
+  ];
+
+  return renderVaultTemplate('task', {
+    id: task.id,
+    title: task.title,
+    heading: escapeHtmlText(task.title),
+    checkbox,
+    project: task.project,
+    parent: task.parent_id,
+    status: task.status,
+    priority: task.priority,
+    trust_level: task.trust_level,
+    created: task.created_at,
+    started: task.started_at,
+    completed: task.completed_at,
+    due: task.due_at,
+    scheduled: task.scheduled_for,
+    series: task.series_id,
+    archived: task.archived_at,
+    progress: progress.percent,
+    description: task.description,
+    details: details.join('\n'),
+    checklist,
+    subtasks: task.subtasks.map(subtask => ({
+      id: subtask.id,
+      title: subtask.title,
+      status: subtask.status,
+      checkbox: taskCheckbox(subtask.status)
+    })),
+    runs,
+    activity,
+    frontmatter: frontmatter.join('\n'),
+    body: sections.join('\n\n')
+  });
+}
+
+/**
+ * Sync a project's task dependency graph to the vault as a Mermaid diagram
+ */
+export function syncTaskGraphToVault(graph: TaskGraph): void {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    return;
+  }
+
+  const dir = path.join(basePath, 'graphs');
+  ensureDir(dir);
+
+  const filename = `${graph.project}.md`;
+  const blocked = graph.nodes.filter(node => node.blocked && node.status === 'queued');
 
   const content = `---
-id: ${artifact.id}
-title: "${artifact.title.replace(/"/g, '\\"')}"
-content_type: ${artifact.content_type}
-language: ${artifact.language ?? 'none'}
-project: ${artifact.project ?? 'none'}
-source: ${artifact.source}
-created: ${artifact.created_at}
-updated: ${artifact.updated_at ?? artifact.created_at}
+project: ${graph.project}
+tasks: ${graph.nodes.length}
+dependencies: ${graph.edges.length}
+blocked: ${blocked.length}
+updated: ${new Date().toISOString()}
 ---
 
-# ${artifact.title}
+# Task graph: [[${graph.project}]]
+
+${fenceCode(graph.mermaid, 'mermaid')}
 
-${contentBlock}
+${blocked.length > 0 ? `**Blocked:** ${blocked.map(node => `[[${node.id}]]`).join(', ')}` : '_Nothing blocked._'}
 `;
 
-  fs.writeFileSync(path.join(dir, filename), content, 'utf-8');
+  writeVaultFile(path.join(dir, filename), content);
 }
 
 /**
- * Delete an artifact from the vault
+ * Delete a project's task graph note from the vault
  */
-export function deleteArtifactFromVault(artifact: Artifact): void {
+export function deleteTaskGraphFromVault(project: string): void {
   const basePath = getBrainVaultPath();
   if (!basePath) {
     return;
   }
 
-  const filepath = path.join(basePath, 'artifacts', `${artifact.id}.md`);
+  const filepath = path.join(basePath, 'graphs', `${project}.md`);
   if (fs.existsSync(filepath)) {
     fs.unlinkSync(filepath);
   }
 }
 
 /**
- * Sync a task to the Obsidian vault
+ * Sync a smart collection to the vault as an index note linking its items
  */
-export function syncTaskToVault(task: Task): void {
+export function syncCollectionToVault(collection: SavedSearch, items: SearchResult[], total: number): void {
   const basePath = getBrainVaultPath();
   if (!basePath) {
     return;
   }
 
-  const dir = path.join(basePath, 'tasks');
+  const dir = path.join(basePath, 'collections');
   ensureDir(dir);
 
-  const filename = `${task.id}.md`;
+  const filename = `${collection.id}.md`;
+  const types = collection.types ? JSON.parse(collection.types) : ['notes', 'artifacts', 'tasks'];
 
-  // Determine checkbox status
-  let checkbox = '[ ]';
-  if (task.status === 'active') {
-    checkbox = '[/]'; // In progress
-  } else if (task.status === 'completed') {
-    checkbox = '[x]';
-  } else if (task.status === 'cancelled') {
-    checkbox = '[-]';
-  }
+  const links = items.map(item => {
+    // Snippets of code artifacts are raw source; escape so they render as text
+    const summary = escapeHtmlText(item.snippet.replace(/\s+/g, ' ').trim());
+    return `- [[${item.id}]] (${item.type})${summary ? ` — ${summary}` : ''}`;
+  });
+
+  const truncatedNote = total > items.length
+    ? `\n_Showing ${items.length} of ${total} matches._\n`
+    : '';
 
   const content = `---
-id: ${task.id}
-project: ${task.project}
-status: ${task.status}
-trust_level: ${task.trust_level}
-priority: ${task.priority}
-created: ${task.created_at}
-started: ${task.started_at ?? 'null'}
-completed: ${task.completed_at ?? 'null'}
+id: ${collection.id}
+name: "${collection.name.replace(/"/g, '\\"')}"
+query: "${collection.query.replace(/"/g, '\\"')}"
+types: ${JSON.stringify(types)}
+project: ${collection.project ?? 'none'}
+sort: ${collection.sort}
+total: ${total}
+updated: ${new Date().toISOString()}
 ---
 
-# ${checkbox} ${task.title}
-
-**Project:** [[${task.project}]]
-**Status:** ${task.status}
-**Priority:** ${task.priority}
-**Trust Level:** ${task.trust_level}
+# ${escapeHtmlText(collection.name)}
 
-${task.description ?? ''}
+Query: \`${collection.query}\`
+${truncatedNote}
+${links.length > 0 ? links.join('\n') : '_No matching items._'}
 `;
 
-  fs.writeFileSync(path.join(dir, filename), content, 'utf-8');
+  writeVaultFile(path.join(dir, filename), content);
 }
 
 /**
- * Delete a task from the vault
+ * Delete a collection index note from the vault
  */
-export function deleteTaskFromVault(task: Task): void {
+export function deleteCollectionFromVault(id: string): void {
   const basePath = getBrainVaultPath();
   if (!basePath) {
     return;
   }
 
-  const filepath = path.join(basePath, 'tasks', `${task.id}.md`);
+  const filepath = path.join(basePath, 'collections', `${id}.md`);
   if (fs.existsSync(filepath)) {
     fs.unlinkSync(filepath);
   }
 }
 
+/**
+ * Sync a project's parallel session to the vault, replacing the previous one
+ */
+export function syncParallelSessionToVault(session: ParallelSessionDetail, markdown: string): void {
+  const basePath = getBrainVaultPath();
+  if (!basePath) {
+    return;
+  }
+
+  const dir = path.join(basePath, 'parallel');
+  ensureDir(dir);
+
+  const content = `---
+session: ${session.id}
+project: ${session.project}
+status: ${session.status}
+instances: ${session.instances.length}
+conflicts: ${session.conflicts.length}
+updated: ${new Date().toISOString()}
+---
+
+# Parallel work: [[${session.project}]]
+
+${markdown}
+`;
+
+  writeVaultFile(path.join(dir, `${session.project}.md`), content);
+}
+
 /**
  * Check if vault sync is enabled
  */
@@ -207,7 +675,12 @@ export function getVaultSyncStatus(): {
     notes: boolean;
     artifacts: boolean;
     tasks: boolean;
+    collections: boolean;
+    graphs: boolean;
+    parallel: boolean;
   };
+  conflicts: number;
+  queue: VaultSyncQueueStatus;
 } {
   const basePath = getBrainVaultPath();
 
@@ -215,7 +688,9 @@ export function getVaultSyncStatus(): {
     return {
       enabled: false,
       path: null,
-      directories: { notes: false, artifacts: false, tasks: false }
+      directories: { notes: false, artifacts: false, tasks: false, collections: false, graphs: false, parallel: false },
+      conflicts: 0,
+      queue: getVaultSyncQueueStatus()
     };
   }
 
@@ -225,7 +700,12 @@ export function getVaultSyncStatus(): {
     directories: {
       notes: fs.existsSync(path.join(basePath, 'notes')),
       artifacts: fs.existsSync(path.join(basePath, 'artifacts')),
-      tasks: fs.existsSync(path.join(basePath, 'tasks'))
-    }
+      tasks: fs.existsSync(path.join(basePath, 'tasks')),
+      collections: fs.existsSync(path.join(basePath, 'collections')),
+      graphs: fs.existsSync(path.join(basePath, 'graphs')),
+      parallel: fs.existsSync(path.join(basePath, 'parallel'))
+    },
+    conflicts: listConflicts('open').length,
+    queue: getVaultSyncQueueStatus()
   };
 }
@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config.js';
+import type { VaultEntityType } from '../types/index.js';
+import { compileTemplate, type CompiledTemplate, type TemplateContext } from '../utils/template.js';
+import logger from '../utils/logger.js';
+
+/**
+ * The built-in layout of note, artifact and task files. Renderers pass the
+ * frontmatter fields and body they would write as `frontmatter` and `body`,
+ * so custom templates can keep either and lay out the rest themselves with:
+ * - all: id, project, created
+ * - note: tags (a list), source, updated, content
+ * - artifact: title, content_type, language, source, updated, content,
+ *   content_block (the content in a code fence, unless it is markdown)
+ * - task: title, heading (the title escaped for markdown), checkbox, parent,
+ *   status, priority, trust_level, started, completed, due, scheduled, series,
+ *   archived, progress, description, details, checklist, runs, activity and
+ *   subtasks (a list of id, title, status and checkbox)
+ * Missing values are empty. Keep `id` in the frontmatter, or the importer
+ * cannot tell which entity an edited file belongs to once it moves
+ */
+export const DEFAULT_VAULT_TEMPLATE = '---\n{{frontmatter}}\n---\n\n{{body}}\n';
+
+const defaultTemplate = compileTemplate(DEFAULT_VAULT_TEMPLATE);
+
+// Compiled custom templates by file, with the modification time they were read at
+const cache = new Map<string, { mtimeMs: number; template: CompiledTemplate | null }>();
+
+/**
+ * Folder holding note.md, artifact.md and task.md, if templates can be configured
+ */
+export function getVaultTemplatesPath(): string | null {
+  if (config.vaultTemplatesPath) {
+    return path.resolve(config.vaultTemplatesPath);
+  }
+  return config.obsidianVaultPath ? path.join(config.obsidianVaultPath, 'brain', '_templates') : null;
+}
+
+/**
+ * The custom template for a type, or null to use the built-in layout
+ * Templates are reread when they change. One that does not parse is logged
+ * and ignored, so a typo never stops vault sync
+ */
+function loadCustomTemplate(type: VaultEntityType): CompiledTemplate | null {
+  const dir = getVaultTemplatesPath();
+  if (!dir) {
+    return null;
+  }
+
+  const filepath = path.join(dir, `${type}.md`);
+  if (!fs.existsSync(filepath)) {
+    cache.delete(filepath);
+    return null;
+  }
+
+  const { mtimeMs } = fs.statSync(filepath);
+  const cached = cache.get(filepath);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.template;
+  }
+
+  let template: CompiledTemplate | null = null;
+  try {
+    template = compileTemplate(fs.readFileSync(filepath, 'utf-8'));
+  } catch (error) {
+    logger.warn('Invalid vault template; using the built-in layout', {
+      path: filepath,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+  cache.set(filepath, { mtimeMs, template });
+  return template;
+}
+
+/**
+ * Whether files of a type are rendered from a custom template
+ * Their bodies may be laid out in any way, so only frontmatter edits are imported
+ */
+export function hasCustomTemplate(type: VaultEntityType): boolean {
+  return loadCustomTemplate(type) !== null;
+}
+
+/**
+ * Render the file for an entity from its type's template
+ */
+export function renderVaultTemplate(type: VaultEntityType, context: TemplateContext): string {
+  return (loadCustomTemplate(type) ?? defaultTemplate)(context);
+}
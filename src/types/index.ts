@@ -35,6 +35,27 @@ export interface NoteListQuery {
   search?: string;
 }
 
+export interface NoteRevision {
+  note_id: string;
+  revision: number;
+  content: string;
+  project: string | null;
+  tags: string | null;
+  editor_key_id: string | null;
+  created_at: string;
+}
+
+export interface NoteRevisionDiff {
+  note_id: string;
+  from: number;
+  to: number;
+  diff: string; // Unified diff of the content
+  additions: number;
+  deletions: number;
+  project: { from: string | null; to: string | null } | null; // null when unchanged
+  tags: { added: string[]; removed: string[] };
+}
+
 // Artifact types
 export interface Artifact {
   id: string;
@@ -65,6 +86,27 @@ export interface UpdateArtifactInput {
   project?: string;
 }
 
+export interface ArtifactVersion {
+  artifact_id: string;
+  version: number;
+  title: string;
+  content: string;
+  content_type: Artifact['content_type'];
+  language: string | null;
+  project: string | null;
+  editor_key_id: string | null;
+  created_at: string;
+}
+
+export interface ArtifactVersionDiff {
+  artifact_id: string;
+  from: number;
+  to: number;
+  diff: string; // Unified diff of the content
+  additions: number;
+  deletions: number;
+}
+
 // Context types
 export interface ProjectContext {
   id: string;
@@ -82,7 +124,7 @@ export interface UpdateContextInput {
 }
 
 // Task types
-export type TaskStatus = 'queued' | 'active' | 'completed' | 'cancelled';
+export type TaskStatus = 'queued' | 'active' | 'blocked' | 'review' | 'completed' | 'cancelled';
 export type TrustLevel = 'THROWAWAY' | 'PROTOTYPE' | 'MATURE';
 export type Priority = 'LOW' | 'NORMAL' | 'HIGH' | 'CRITICAL';
 
@@ -97,14 +139,294 @@ export interface Task {
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
+  parent_id: string | null;
+  due_at: string | null; // YYYY-MM-DD in the configured timezone
+  scheduled_for: string | null; // YYYY-MM-DD, the day work is planned to start
+  series_id: string | null; // Recurring series this task is an occurrence of
+  claimed_by_key: string | null; // API key of the last claim, until the task is back in the queue
+  archived_at: string | null; // Set by the archive_after_days policy; archived tasks are hidden from lists
 }
 
 export interface CreateTaskInput {
   title: string;
   description?: string;
+  project: string; // Ignored for subtasks, which inherit the parent's project
+  trust_level?: TrustLevel;
+  priority?: Priority;
+  parent_id?: string;
+  due_at?: string; // ISO date or natural language, e.g. "next fri"
+  scheduled_for?: string;
+  recurrence?: string; // RRULE subset, e.g. FREQ=WEEKLY;BYDAY=MO; starts a series with this task first
+  series_id?: string; // Set by a series when it creates an occurrence
+}
+
+export interface TaskAgenda {
+  timezone: string;
+  date: string; // Today in the configured timezone
+  week_end: string; // Sunday of the current week
+  overdue: Task[];
+  today: Task[]; // Due today, or scheduled for today or earlier
+  this_week: Task[]; // Due or scheduled later this week
+}
+
+export interface TaskSeries {
+  id: string;
   project: string;
+  title: string;
+  description: string | null;
+  trust_level: TrustLevel;
+  priority: Priority;
+  rrule: string;
+  starts_on: string; // Date of the first occurrence
+  last_occurrence: string | null; // Date of the latest occurrence created
+  paused: boolean;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface UpdateTaskSeriesInput {
+  title?: string;
+  description?: string | null;
   trust_level?: TrustLevel;
   priority?: Priority;
+  rrule?: string;
+  paused?: boolean;
+}
+
+export interface TaskLease {
+  task_id: string;
+  api_key_id: string;
+  worker: string | null; // Optional name of the agent instance, e.g. CC-2
+  ttl_seconds: number;
+  claimed_at: string;
+  heartbeat_at: string;
+  expires_at: string;
+}
+
+// Rules for tasks of one trust level in a project
+export interface TrustPolicy {
+  project: string;
+  trust_level: TrustLevel;
+  require_review: boolean; // Only complete from 'review'
+  required_approvals: number; // Approvals from keys other than the one completing
+  claimant_only: boolean; // Only the key that claimed the task may complete it
+  archive_after_days: number | null; // Archive completed or cancelled tasks after this many days
+  updated_at: string | null; // Null for the defaults
+}
+
+export interface UpdateTrustPolicyInput {
+  require_review?: boolean;
+  required_approvals?: number;
+  claimant_only?: boolean;
+  archive_after_days?: number | null;
+}
+
+export interface TaskApproval {
+  task_id: string;
+  api_key_id: string;
+  comment: string | null;
+  created_at: string;
+}
+
+export type PolicyRule = 'require_review' | 'required_approvals' | 'claimant_only';
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  message: string;
+}
+
+export type SessionStatus = 'active' | 'ended';
+export type InstanceStatus = 'working' | 'blocked' | 'done' | 'watching';
+// exclusive: only the owner edits; append_only: shared, add to the end only; locked: nobody edits
+export type FileClaimMode = 'exclusive' | 'append_only' | 'locked';
+
+export interface ParallelSession {
+  id: string;
+  project: string;
+  name: string;
+  coordinator: string | null; // Instance name or "human"
+  status: SessionStatus;
+  started_at: string;
+  ended_at: string | null;
+}
+
+export interface SessionInstance {
+  id: number;
+  session_id: string;
+  name: string; // e.g. CC-1
+  branch: string | null;
+  task_id: string | null;
+  description: string | null;
+  status: InstanceStatus;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface FileClaim {
+  id: number;
+  session_id: string;
+  instance_id: number;
+  instance: string; // Name of the owning instance
+  pattern: string;
+  mode: FileClaimMode;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface FileClaimConflict {
+  claim: FileClaim;
+  conflicts_with: FileClaim;
+}
+
+export interface CreateParallelSessionInput {
+  project: string;
+  name?: string;
+  coordinator?: string;
+}
+
+export interface SessionInstanceInput {
+  branch?: string | null;
+  task_id?: string | null;
+  description?: string | null;
+  status?: InstanceStatus;
+}
+
+export interface FileClaimInput {
+  pattern: string; // Glob, e.g. src/routes/*.ts or src/services/
+  mode: FileClaimMode;
+  notes?: string;
+}
+
+export interface ParallelSessionDetail extends ParallelSession {
+  instances: Array<SessionInstance & { claims: FileClaim[] }>;
+  conflicts: FileClaimConflict[];
+}
+
+export interface ProjectSequence {
+  project: string;
+  prefix: string; // Unique across projects
+  next_value: number;
+  updated_at: string;
+}
+
+export type TaskAction =
+  | 'create'
+  | 'activate'
+  | 'requeue'
+  | 'block'
+  | 'unblock'
+  | 'review'
+  | 'request_changes'
+  | 'complete'
+  | 'cancel'
+  | 'reopen';
+
+export type TaskTransitionAction = Exclude<TaskAction, 'create'>;
+
+export interface TaskEvent {
+  id: number;
+  task_id: string;
+  action: TaskAction;
+  from_status: TaskStatus | null; // Null for the creation event
+  to_status: TaskStatus;
+  actor_key_id: string | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface TaskChecklistItem {
+  id: number;
+  task_id: string;
+  position: number;
+  text: string;
+  checked: boolean;
+  created_at: string;
+  checked_at: string | null;
+}
+
+export interface TaskProgress {
+  subtasks_total: number;
+  subtasks_completed: number;
+  checklist_total: number;
+  checklist_checked: number;
+  percent: number; // 0-100, rolled up from subtasks and checklist items
+}
+
+export type TaskRunOutcome = 'success' | 'failed' | 'aborted';
+
+export interface TaskRun {
+  id: number;
+  task_id: string;
+  outcome: TaskRunOutcome | null; // Null while the run is in progress
+  worker: string | null;
+  actor_key_id: string | null;
+  ref: string | null; // Branch or commit, e.g. feat/claims@1a2b3c4
+  log_excerpt: string | null;
+  started_at: string;
+  ended_at: string | null;
+  artifact_ids: string[];
+}
+
+export interface TaskRunInput {
+  worker?: string;
+  ref?: string | null;
+  log_excerpt?: string | null;
+  artifact_ids?: string[];
+  started_at?: string;
+  outcome?: TaskRunOutcome; // Records a run that has already finished
+  ended_at?: string;
+  complete_task?: boolean; // Complete the task if this is its latest run and it succeeded
+}
+
+export interface TaskComment {
+  id: number;
+  task_id: string;
+  author_key_id: string | null;
+  source: string; // Where the comment was written, e.g. api or an agent name
+  body: string; // Markdown
+  mentions: string[]; // IDs of other tasks the body mentions
+  created_at: string;
+  updated_at: string | null;
+}
+
+// A comment on another task that mentions this one
+export interface TaskMention {
+  task_id: string; // Task whose thread has the comment
+  comment_id: number;
+  created_at: string;
+}
+
+// A task with its checklist, runs, activity and nested subtasks
+export interface TaskTree extends Task {
+  progress: TaskProgress;
+  checklist: TaskChecklistItem[];
+  runs: TaskRun[];
+  comments: TaskComment[];
+  mentioned_in: TaskMention[];
+  subtasks: TaskTree[];
+}
+
+export interface TaskDependency {
+  task_id: string;
+  depends_on_id: string;
+  created_at: string;
+}
+
+export interface TaskGraphNode {
+  id: string;
+  title: string;
+  project: string;
+  status: TaskStatus;
+  priority: Priority;
+  blocked: boolean; // Has at least one unfinished blocker
+  external: boolean; // Belongs to another project but is linked to this one
+}
+
+export interface TaskGraph {
+  project: string;
+  nodes: TaskGraphNode[];
+  edges: Array<{ from: string; to: string }>; // from blocks to
+  mermaid: string;
 }
 
 // Search types
@@ -113,14 +435,169 @@ export interface SearchResult {
   id: string;
   snippet: string;
   score: number;
+  similarity?: number; // Cosine similarity, set by semantic/hybrid search
   project?: string | null;
 }
 
+export type SearchSort = 'relevance' | 'newest' | 'oldest';
+
 export interface SearchQuery {
   q: string;
   types?: ('notes' | 'artifacts' | 'tasks')[];
   project?: string;
+  sort?: SearchSort;
   limit?: number;
+  cursor?: string;
+}
+
+export interface FacetBucket {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  type: FacetBucket[];
+  project: FacetBucket[];
+  tag: FacetBucket[];
+  status: FacetBucket[];
+  priority: FacetBucket[];
+}
+
+export interface FacetedSearchResponse {
+  results: SearchResult[];
+  total: number;
+  facets: SearchFacets;
+  next_cursor: string | null;
+}
+
+export type SuggestionKind = 'tag' | 'project' | 'title' | 'term';
+
+export interface Suggestion {
+  text: string;
+  kind: SuggestionKind;
+  count: number; // Number of entities the suggestion occurs in
+}
+
+// Saved search types
+export interface SavedSearch {
+  id: string;
+  api_key_id: string;
+  name: string;
+  query: string;
+  types: string | null;
+  project: string | null;
+  sort: SearchSort;
+  is_collection: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface CreateSavedSearchInput {
+  name: string;
+  query: string;
+  types?: ('notes' | 'artifacts' | 'tasks')[];
+  project?: string;
+  sort?: SearchSort;
+  collection?: boolean;
+}
+
+export type UpdateSavedSearchInput = Partial<CreateSavedSearchInput>;
+
+// Content integrity types
+export interface ContentFlag {
+  entity_type: 'note' | 'artifact' | 'task';
+  entity_id: string;
+  reason: 'invalid_json' | 'missing_assignment' | 'orphaned_attribute_value' | 'stripped_javascript_url';
+  excerpt: string | null;
+  detected_at?: string;
+}
+
+// Vault import types
+export type VaultEntityType = 'note' | 'artifact' | 'task';
+
+// Outbox items are entities, or files rendered from several of them
+export type VaultSyncItemType = VaultEntityType | 'graph' | 'collection' | 'session';
+
+export interface VaultImportItem {
+  path: string; // Relative to the brain folder, e.g. tasks/MYTHRIL-004.md
+  type: VaultEntityType | null;
+  id: string | null; // Entity the file was applied to, or created as
+  action: 'created' | 'updated' | 'unchanged' | 'conflict' | 'failed';
+  warnings: string[]; // Edits that could not be applied, e.g. a refused status change
+  error?: string;
+}
+
+export interface VaultImportResult {
+  items: VaultImportItem[];
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+export type VaultConflictResolution = 'keep-db' | 'keep-vault' | 'merged';
+
+export interface VaultConflict {
+  id: number;
+  path: string; // Relative to the brain folder
+  entity_type: VaultEntityType;
+  entity_id: string;
+  base_hash: string; // content_hash of the file as last synced
+  db_content: string; // What sync would have written
+  vault_content: string; // The file as edited in the vault
+  detected_at: string;
+  resolved_at: string | null;
+  resolution: VaultConflictResolution | null;
+}
+
+export interface VaultSyncOutboxItem {
+  entity_type: VaultSyncItemType;
+  entity_id: string; // Project name for graphs
+  queued_at: string; // First change not yet synced
+  attempts: number; // Failed attempts since then
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  last_error: string | null;
+}
+
+export interface VaultSyncQueueStatus {
+  pending: number;
+  oldest_pending_at: string | null;
+  last_error: {
+    entity_type: VaultSyncItemType;
+    entity_id: string;
+    attempts: number;
+    error: string;
+    at: string;
+  } | null;
+}
+
+export type VaultReconcileAction = 'create' | 'update' | 'move' | 'conflict' | 'skip' | 'delete' | 'trash';
+
+export interface VaultReconcileOptions {
+  dry_run?: boolean; // Only report the planned changes
+  orphans?: 'delete' | 'trash'; // Files of deleted entities; trash moves them to brain/.trash
+}
+
+export interface VaultReconcileItem {
+  path: string; // Relative to the brain folder
+  type: VaultEntityType;
+  id: string | null;
+  action: VaultReconcileAction;
+  reason: string;
+  error?: string;
+}
+
+export interface VaultReconcileReport {
+  dry_run: boolean;
+  items: VaultReconcileItem[]; // Files changed, or planned to change, and files skipped
+  unchanged: number;
+  created: number;
+  updated: number;
+  moved: number; // To where the path patterns now put them
+  removed: number; // Deleted or trashed
+  conflicts: number;
+  skipped: number;
+  failed: number;
 }
 
 // Audit log types
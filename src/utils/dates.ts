@@ -0,0 +1,162 @@
+/**
+ * Calendar dates (YYYY-MM-DD) in a configured timezone, and parsing of
+ * ISO dates and simple natural-language inputs such as "tomorrow",
+ * "next fri" and "in 3 days"
+ */
+
+/**
+ * Raised for date inputs that cannot be understood
+ */
+export class DateParseError extends Error {
+  constructor(public readonly input: string) {
+    super(`Unrecognized date '${input}' (use YYYY-MM-DD, today, tomorrow, next fri, in 3 days, ...)`);
+    this.name = 'DateParseError';
+  }
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const RELATIVE = /^in (\d{1,4}) (day|week|month)s?$/;
+
+/**
+ * Check that a value is a YYYY-MM-DD date that exists
+ */
+export function isIsoDate(value: string): boolean {
+  // Rejects dates like 2026-02-30, which Date.UTC would roll over
+  return ISO_DATE.test(value) && addDays(value, 0) === value;
+}
+
+/**
+ * The calendar date of an instant in a timezone
+ */
+export function toLocalDate(instant: Date, timeZone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(instant);
+}
+
+/**
+ * Check that a timezone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Add days to a calendar date
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days from one calendar date to another, negative if `to` is earlier
+ */
+export function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000;
+}
+
+/**
+ * Day of the week of a calendar date, 0 = Sunday
+ */
+export function weekday(date: string): number {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Last day (Sunday) of the ISO week containing a date
+ */
+export function endOfWeek(date: string): string {
+  return addDays(date, (7 - weekday(date)) % 7);
+}
+
+/**
+ * Resolve a date input to a calendar date in the given timezone
+ * Accepts YYYY-MM-DD, ISO timestamps, today/tomorrow/yesterday,
+ * "in N days|weeks|months", "next week" (next Monday), weekday names
+ * ("fri" is the next Friday from today, today included) and "next <weekday>"
+ * (the first one after today).
+ * Throws DateParseError for anything else
+ */
+export function parseDateInput(input: string, timeZone: string, now: Date = new Date()): string {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  const today = toLocalDate(now, timeZone);
+
+  if (ISO_DATE.test(text)) {
+    if (!isIsoDate(text)) {
+      throw new DateParseError(input);
+    }
+    return text;
+  }
+
+  if (ISO_DATE_TIME.test(input.trim())) {
+    const instant = new Date(input.trim());
+    if (Number.isNaN(instant.getTime())) {
+      throw new DateParseError(input);
+    }
+    return toLocalDate(instant, timeZone);
+  }
+
+  switch (text) {
+    case 'today':
+      return today;
+    case 'tomorrow':
+      return addDays(today, 1);
+    case 'yesterday':
+      return addDays(today, -1);
+    case 'next week':
+      return addDays(today, 7 - ((weekday(today) + 6) % 7));
+  }
+
+  const relative = RELATIVE.exec(text);
+  if (relative) {
+    const amount = Number(relative[1]);
+    if (relative[2] === 'day') {
+      return addDays(today, amount);
+    }
+    if (relative[2] === 'week') {
+      return addDays(today, amount * 7);
+    }
+    return addMonths(today, amount);
+  }
+
+  const named = /^(next |this )?([a-z]+)$/.exec(text);
+  const target = named ? matchWeekday(named[2] as string) : -1;
+  if (named && target !== -1) {
+    const ahead = (target - weekday(today) + 7) % 7;
+    return addDays(today, ahead === 0 && named[1] === 'next ' ? 7 : ahead);
+  }
+
+  throw new DateParseError(input);
+}
+
+/**
+ * Index of a weekday from its full name or an abbreviation of at least three letters
+ */
+function matchWeekday(word: string): number {
+  if (word.length < 3) {
+    return -1;
+  }
+  return WEEKDAYS.findIndex(name => name.startsWith(word));
+}
+
+/**
+ * Add calendar months, clamping to the end of shorter months (Jan 31 + 1 month = Feb 28)
+ */
+export function addMonths(date: string, months: number): string {
+  const [year, month, day] = date.split('-').map(Number) as [number, number, number];
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+}
@@ -0,0 +1,480 @@
+/**
+ * Line-based text diffing (Myers' O(ND) algorithm in linear space), unified diff output
+ * and patch application
+ */
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+}
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  lines: DiffLine[];
+}
+
+export interface PatchConflict {
+  hunk: number; // 1-based index of the hunk in the patch
+  header: string;
+  expected_line: number; // Where the hunk should have applied in the current content
+  expected: string[]; // Context and removed lines the hunk requires
+  actual: string[]; // What the current content has at that position
+}
+
+export type PatchResult =
+  | { applied: true; content: string; hunks: number }
+  | { applied: false; conflicts: PatchConflict[] };
+
+/**
+ * Raised for patches that are not valid unified diffs
+ */
+export class PatchParseError extends Error {
+  constructor(message: string, public readonly line: number) {
+    super(`${message} (line ${line})`);
+    this.name = 'PatchParseError';
+  }
+}
+
+const DEFAULT_CONTEXT = 3;
+// How far from its stated position a hunk may be found, as in `patch` fuzz-free offsets
+const MAX_HUNK_OFFSET = 1000;
+// Edits searched for before a changed range is shown as one replaced block
+const MAX_EDIT_DISTANCE = 4000;
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Split text into lines; a trailing newline does not produce an empty last line
+ */
+export function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Compute a minimal line diff between two texts
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  return diffLineArrays(splitLines(before), splitLines(after));
+}
+
+export function diffLineArrays(a: string[], b: string[]): DiffLine[] {
+  // Common prefix and suffix are cheap to strip and usually most of the text
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (text: string): DiffLine => ({ op: 'equal', text });
+
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal)
+  ];
+}
+
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    additions: lines.filter(line => line.op === 'insert').length,
+    deletions: lines.filter(line => line.op === 'delete').length
+  };
+}
+
+/**
+ * Render a diff in unified format
+ * Returns an empty string when the texts are identical.
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  return formatUnifiedDiff(diffLines(before, after), options);
+}
+
+/**
+ * Render already computed diff lines in unified format
+ */
+export function formatUnifiedDiff(
+  lines: DiffLine[],
+  options: { fromLabel?: string; toLabel?: string; context?: number } = {}
+): string {
+  const context = options.context ?? DEFAULT_CONTEXT;
+
+  if (lines.every(line => line.op === 'equal')) {
+    return '';
+  }
+
+  const output = [`--- ${options.fromLabel ?? 'a'}`, `+++ ${options.toLabel ?? 'b'}`];
+
+  for (const hunk of buildHunks(lines, context)) {
+    output.push(`@@ -${formatRange(hunk.oldStart, hunk.oldCount)} +${formatRange(hunk.newStart, hunk.newCount)} @@`);
+    for (const line of hunk.lines) {
+      const prefix = line.op === 'insert' ? '+' : line.op === 'delete' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Parse the hunks of a unified diff
+ * File headers (---/+++) and git metadata lines before the first hunk are ignored.
+ */
+export function parseUnifiedDiff(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+  const lines = splitLines(patch.replace(/\r\n/g, '\n'));
+  let current: PatchHunk | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const header = HUNK_HEADER.exec(line);
+
+    if (header) {
+      if (current) {
+        checkHunkCounts(current, lineNumber);
+      }
+      current = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldCount: header[2] !== undefined ? Number(header[2]) : 1,
+        newStart: Number(header[3]),
+        newCount: header[4] !== undefined ? Number(header[4]) : 1,
+        lines: []
+      };
+      hunks.push(current);
+      return;
+    }
+
+    if (!current) {
+      if (line.startsWith('--- ') || line.startsWith('+++ ') || !/^[ +-]/.test(line)) {
+        return;
+      }
+      throw new PatchParseError('Change line outside of a hunk', lineNumber);
+    }
+
+    if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+      return;
+    }
+
+    const marker = line.charAt(0);
+    const text = line.slice(1);
+    if (marker === ' ' || line === '') {
+      current.lines.push({ op: 'equal', text });
+    } else if (marker === '-') {
+      current.lines.push({ op: 'delete', text });
+    } else if (marker === '+') {
+      current.lines.push({ op: 'insert', text });
+    } else {
+      throw new PatchParseError(`Unexpected line in hunk: ${line.slice(0, 40)}`, lineNumber);
+    }
+  });
+
+  if (current) {
+    checkHunkCounts(current, lines.length + 1);
+  }
+
+  if (hunks.length === 0) {
+    throw new PatchParseError('Patch contains no hunks', 1);
+  }
+
+  return hunks;
+}
+
+/**
+ * Apply a unified diff to text
+ * Hunks must match their context exactly but may have shifted position;
+ * if any hunk does not apply, nothing is applied and every failing hunk is reported.
+ * Throws PatchParseError if the patch is malformed
+ */
+export function applyPatch(content: string, patch: string): PatchResult {
+  const hunks = parseUnifiedDiff(patch);
+  const source = splitLines(content);
+  const output: string[] = [];
+  const conflicts: PatchConflict[] = [];
+  let cursor = 0; // Next unconsumed line of the source
+  let offset = 0; // Drift between stated and actual positions so far
+
+  hunks.forEach((hunk, index) => {
+    const expected = hunk.lines.filter(line => line.op !== 'insert').map(line => line.text);
+    // A hunk that only inserts at line N applies after line N
+    const stated = (hunk.oldCount === 0 ? hunk.oldStart : hunk.oldStart - 1) + offset;
+    const position = findHunk(source, expected, stated, cursor);
+
+    if (position === -1) {
+      const at = Math.max(cursor, Math.min(stated, source.length));
+      conflicts.push({
+        hunk: index + 1,
+        header: hunk.header,
+        expected_line: at + 1,
+        expected,
+        actual: source.slice(at, at + expected.length)
+      });
+      return;
+    }
+
+    output.push(...source.slice(cursor, position));
+    output.push(...hunk.lines.filter(line => line.op !== 'delete').map(line => line.text));
+    cursor = position + expected.length;
+    offset = position - (stated - offset);
+  });
+
+  if (conflicts.length > 0) {
+    return { applied: false, conflicts };
+  }
+
+  output.push(...source.slice(cursor));
+  const trailingNewline = content.endsWith('\n') || (content === '' && output.length > 0);
+
+  return {
+    applied: true,
+    content: output.join('\n') + (trailingNewline && output.length > 0 ? '\n' : ''),
+    hunks: hunks.length
+  };
+}
+
+function checkHunkCounts(hunk: PatchHunk, lineNumber: number): void {
+  const oldCount = hunk.lines.filter(line => line.op !== 'insert').length;
+  const newCount = hunk.lines.filter(line => line.op !== 'delete').length;
+  if (oldCount !== hunk.oldCount || newCount !== hunk.newCount) {
+    throw new PatchParseError(`Hunk line counts do not match header ${hunk.header}`, lineNumber);
+  }
+}
+
+/**
+ * Find where a hunk's old lines occur, searching outward from the stated position
+ */
+function findHunk(source: string[], expected: string[], stated: number, minimum: number): number {
+  const matchesAt = (position: number): boolean =>
+    position >= minimum &&
+    position + expected.length <= source.length &&
+    expected.every((line, i) => source[position + i] === line);
+
+  for (let distance = 0; distance <= MAX_HUNK_OFFSET; distance++) {
+    if (matchesAt(stated - distance)) {
+      return stated - distance;
+    }
+    if (distance > 0 && matchesAt(stated + distance)) {
+      return stated + distance;
+    }
+    if (stated - distance < minimum && stated + distance > source.length) {
+      break;
+    }
+  }
+
+  return -1;
+}
+
+function buildHunks(lines: DiffLine[], context: number): Omit<PatchHunk, 'header'>[] {
+  // Line numbers (1-based) at which each diff line starts in the old and new text
+  const positions: Array<{ old: number; new: number }> = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    positions.push({ old: oldLine, new: newLine });
+    if (line.op !== 'insert') {
+      oldLine++;
+    }
+    if (line.op !== 'delete') {
+      newLine++;
+    }
+  }
+
+  // Changes closer than twice the context share a hunk
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, index) => {
+    if (line.op === 'equal') {
+      return;
+    }
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) {
+      last[1] = end;
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const position = positions[start] as { old: number; new: number };
+    return {
+      oldStart: position.old,
+      oldCount: hunkLines.filter(line => line.op !== 'insert').length,
+      newStart: position.new,
+      newCount: hunkLines.filter(line => line.op !== 'delete').length,
+      lines: hunkLines
+    };
+  });
+}
+
+function formatRange(start: number, count: number): string {
+  // An empty range points at the line before it, as in GNU diff
+  const line = count === 0 ? start - 1 : start;
+  return count === 1 ? `${line}` : `${line},${count}`;
+}
+
+/**
+ * Myers' diff in linear space: find the middle snake of the shortest edit
+ * script, then diff the parts before and after it. Lines are compared as ids.
+ * Past MAX_EDIT_DISTANCE a part is emitted as one replaced block instead,
+ * which keeps the time bounded on texts that share almost nothing
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const ids = new Map<string, number>();
+  const intern = (line: string): number => {
+    let id = ids.get(line);
+    if (id === undefined) {
+      id = ids.size;
+      ids.set(line, id);
+    }
+    return id;
+  };
+
+  const result: DiffLine[] = [];
+  diffRange(a, Int32Array.from(a, intern), 0, a.length, b, Int32Array.from(b, intern), 0, b.length, result);
+  return result;
+}
+
+function diffRange(
+  a: string[],
+  aIds: Int32Array,
+  aStart: number,
+  aEnd: number,
+  b: string[],
+  bIds: Int32Array,
+  bStart: number,
+  bEnd: number,
+  result: DiffLine[]
+): void {
+  // Common prefix and suffix
+  const prefix: DiffLine[] = [];
+  while (aStart < aEnd && bStart < bEnd && aIds[aStart] === bIds[bStart]) {
+    prefix.push({ op: 'equal', text: a[aStart] as string });
+    aStart++;
+    bStart++;
+  }
+  const suffix: DiffLine[] = [];
+  while (aEnd > aStart && bEnd > bStart && aIds[aEnd - 1] === bIds[bEnd - 1]) {
+    suffix.push({ op: 'equal', text: a[aEnd - 1] as string });
+    aEnd--;
+    bEnd--;
+  }
+  result.push(...prefix);
+
+  const snake = aStart === aEnd || bStart === bEnd
+    ? null
+    : middleSnake(aIds, aStart, aEnd, bIds, bStart, bEnd);
+
+  if (snake) {
+    diffRange(a, aIds, aStart, snake.x, b, bIds, bStart, snake.y, result);
+    for (let x = snake.x; x < snake.u; x++) {
+      result.push({ op: 'equal', text: a[x] as string });
+    }
+    diffRange(a, aIds, snake.u, aEnd, b, bIds, snake.v, bEnd, result);
+  } else {
+    for (let x = aStart; x < aEnd; x++) {
+      result.push({ op: 'delete', text: a[x] as string });
+    }
+    for (let y = bStart; y < bEnd; y++) {
+      result.push({ op: 'insert', text: b[y] as string });
+    }
+  }
+
+  result.push(...suffix.reverse());
+}
+
+/**
+ * The middle snake of two non-empty ranges that differ in their first and
+ * last lines: (x, y) to (u, v) in absolute positions. Null once the edit
+ * distance exceeds MAX_EDIT_DISTANCE
+ */
+function middleSnake(
+  a: Int32Array,
+  aStart: number,
+  aEnd: number,
+  b: Int32Array,
+  bStart: number,
+  bEnd: number
+): { x: number; y: number; u: number; v: number } | null {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const delta = n - m;
+  const odd = (delta & 1) !== 0;
+  const limit = Math.min(Math.ceil((n + m) / 2), Math.ceil(MAX_EDIT_DISTANCE / 2));
+  const offset = limit + 1;
+
+  // Furthest x on each diagonal k = x - y, searching forward from the start and
+  // backward from the end (in reversed coordinates, where diagonal k is delta - k)
+  const forward = new Int32Array(2 * offset + 1);
+  const backward = new Int32Array(2 * offset + 1);
+
+  for (let d = 0; d <= limit; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && (forward[offset + k - 1] as number) < (forward[offset + k + 1] as number))
+        ? forward[offset + k + 1] as number
+        : (forward[offset + k - 1] as number) + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      const reverseK = delta - k;
+      if (odd && reverseK >= -(d - 1) && reverseK <= d - 1 && x + (backward[offset + reverseK] as number) >= n) {
+        return { x: aStart + startX, y: bStart + startY, u: aStart + x, v: bStart + y };
+      }
+    }
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && (backward[offset + k - 1] as number) < (backward[offset + k + 1] as number))
+        ? backward[offset + k + 1] as number
+        : (backward[offset + k - 1] as number) + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+      backward[offset + k] = x;
+
+      const forwardK = delta - k;
+      if (!odd && forwardK >= -d && forwardK <= d && x + (forward[offset + forwardK] as number) >= n) {
+        return { x: aEnd - x, y: bEnd - y, u: aEnd - startX, v: bEnd - startY };
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,60 @@
+/**
+ * Minimal frontmatter reader for the vault files we write: flat `key: value`
+ * lines between `---` fences. Quoted values are unquoted; everything else is
+ * returned as written, so callers decide what `null` or `none` mean.
+ */
+
+export interface ParsedMarkdown {
+  data: Record<string, string>;
+  body: string;
+}
+
+/**
+ * Split a markdown file into its frontmatter fields and body
+ * Files without frontmatter have no fields and the whole text as body.
+ */
+export function parseFrontmatter(text: string): ParsedMarkdown {
+  const normalized = text.replace(/\r\n/g, '\n');
+  const match = /^---\n([\s\S]*?)\n---(?:\n|$)/.exec(normalized);
+
+  if (!match) {
+    return { data: {}, body: normalized };
+  }
+
+  const data: Record<string, string> = {};
+  for (const line of (match[1] as string).split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      continue;
+    }
+    const key = line.slice(0, separator).trim();
+    data[key] = unquote(line.slice(separator + 1).trim());
+  }
+
+  return { data, body: normalized.slice(match[0].length) };
+}
+
+/**
+ * Read a list field written as a JSON array, falling back to comma-separated values
+ */
+export function parseListField(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed)) {
+      return parsed.filter((item): item is string => typeof item === 'string');
+    }
+  } catch {
+    // Not JSON; read as a plain list
+  }
+  return value.replace(/^\[|\]$/g, '').split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1).replace(/\\"/g, '"');
+  }
+  return value;
+}
@@ -0,0 +1,78 @@
+/**
+ * Path globs for file ownership claims: `*` and `?` match within one path
+ * segment, `**` matches any number of segments. A trailing slash claims a
+ * whole directory (`src/routes/` is `src/routes/**`).
+ */
+
+/**
+ * Normalize a glob: forward slashes, no leading `./` or `/`, directories expanded
+ */
+export function normalizeGlob(pattern: string): string {
+  let normalized = pattern.trim().replace(/\\/g, '/').replace(/\/{2,}/g, '/').replace(/^(\.\/)+/, '').replace(/^\//, '');
+  if (normalized.endsWith('/')) {
+    normalized += '**';
+  }
+  return normalized;
+}
+
+/**
+ * Check whether a concrete path matches a glob
+ */
+export function matchesGlob(pattern: string, filePath: string): boolean {
+  // A path is a glob without wildcards (file names with * or ? are not expected)
+  return globsOverlap(pattern, filePath.replace(/[*?]/g, ''));
+}
+
+/**
+ * Check whether two globs can match a common path
+ */
+export function globsOverlap(a: string, b: string): boolean {
+  const left = normalizeGlob(a).split('/');
+  const right = normalizeGlob(b).split('/');
+  return intersects(left, right, segment => segment === '**', segmentsOverlap);
+}
+
+/**
+ * Whether two path segments with `*` and `?` can match a common name
+ */
+function segmentsOverlap(a: string, b: string): boolean {
+  return intersects([...a], [...b], char => char === '*', (x, y) => x === y || x === '?' || y === '?');
+}
+
+/**
+ * Whether two token sequences, where a star token stands for any run of
+ * tokens, can describe a common sequence
+ */
+function intersects<T>(
+  left: T[],
+  right: T[],
+  isStar: (token: T) => boolean,
+  compatible: (x: T, y: T) => boolean
+): boolean {
+  const memo = new Map<string, boolean>();
+
+  const visit = (i: number, j: number): boolean => {
+    const key = `${i},${j}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let result: boolean;
+    if (i < left.length && isStar(left[i] as T)) {
+      // The star matches nothing, or swallows the next token on the other side
+      result = visit(i + 1, j) || (j < right.length && visit(i, j + 1));
+    } else if (j < right.length && isStar(right[j] as T)) {
+      result = visit(i, j + 1) || (i < left.length && visit(i + 1, j));
+    } else if (i < left.length && j < right.length) {
+      result = compatible(left[i] as T, right[j] as T) && visit(i + 1, j + 1);
+    } else {
+      result = i === left.length && j === right.length;
+    }
+
+    memo.set(key, result);
+    return result;
+  };
+
+  return visit(0, 0);
+}
@@ -0,0 +1,158 @@
+/**
+ * Recurrence rules for repeating tasks: a subset of iCalendar RRULE with
+ * FREQ=DAILY|WEEKLY|MONTHLY, INTERVAL, BYDAY (weekly only) and UNTIL
+ */
+import { addDays, addMonths, daysBetween, weekday } from './dates.js';
+
+/**
+ * Raised for rules outside the supported subset
+ */
+export class RecurrenceRuleError extends Error {
+  constructor(public readonly rule: string, reason: string) {
+    super(`Invalid recurrence rule '${rule}': ${reason}`);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: number[]; // Weekdays, 0 = Sunday; empty repeats on the weekday of the first occurrence
+  until: string | null; // Last possible occurrence, YYYY-MM-DD
+}
+
+// RRULE weekday codes, indexed like Date.getUTCDay()
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MAX_INTERVAL = 365;
+
+/**
+ * Parse a rule such as "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH"
+ * An "RRULE:" prefix is accepted. Throws RecurrenceRuleError for anything else
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = text.trim().toUpperCase().replace(/^RRULE:/, '').split(';').filter(Boolean);
+  const fields = new Map<string, string>();
+
+  for (const part of parts) {
+    const [key, value, ...rest] = part.split('=');
+    if (!key || !value || rest.length > 0) {
+      throw new RecurrenceRuleError(text, `malformed part '${part}'`);
+    }
+    if (fields.has(key)) {
+      throw new RecurrenceRuleError(text, `${key} given twice`);
+    }
+    fields.set(key, value);
+  }
+
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new RecurrenceRuleError(text, 'FREQ must be DAILY, WEEKLY or MONTHLY');
+  }
+
+  const unsupported = [...fields.keys()].filter(key => !['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL'].includes(key));
+  if (unsupported.length > 0) {
+    throw new RecurrenceRuleError(text, `unsupported ${unsupported.join(', ')}`);
+  }
+
+  const interval = Number(fields.get('INTERVAL') ?? '1');
+  if (!Number.isInteger(interval) || interval < 1 || interval > MAX_INTERVAL) {
+    throw new RecurrenceRuleError(text, `INTERVAL must be a whole number from 1 to ${MAX_INTERVAL}`);
+  }
+
+  const byDayField = fields.get('BYDAY');
+  if (byDayField && freq !== 'WEEKLY') {
+    throw new RecurrenceRuleError(text, 'BYDAY is only supported with FREQ=WEEKLY');
+  }
+  const byDay = byDayField ? byDayField.split(',').map(code => DAY_CODES.indexOf(code)) : [];
+  if (byDay.includes(-1)) {
+    throw new RecurrenceRuleError(text, 'BYDAY takes MO, TU, WE, TH, FR, SA or SU');
+  }
+
+  const untilField = fields.get('UNTIL');
+  const untilMatch = untilField ? /^(\d{4})-?(\d{2})-?(\d{2})$/.exec(untilField) : null;
+  if (untilField && !untilMatch) {
+    throw new RecurrenceRuleError(text, 'UNTIL must be a date (YYYYMMDD)');
+  }
+  const until = untilMatch ? `${untilMatch[1]}-${untilMatch[2]}-${untilMatch[3]}` : null;
+
+  return { freq, interval, byDay: [...new Set(byDay)].sort((a, b) => mondayFirst(a) - mondayFirst(b)), until };
+}
+
+/**
+ * Canonical RRULE text for a rule, as stored
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  return [
+    `FREQ=${rule.freq}`,
+    ...(rule.interval > 1 ? [`INTERVAL=${rule.interval}`] : []),
+    ...(rule.byDay.length > 0 ? [`BYDAY=${rule.byDay.map(day => DAY_CODES[day]).join(',')}`] : []),
+    ...(rule.until ? [`UNTIL=${rule.until.replace(/-/g, '')}`] : [])
+  ].join(';');
+}
+
+/**
+ * Describe a rule the way Obsidian Tasks writes recurrence, e.g. "every 2 weeks on Monday, Thursday"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const unit = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month' }[rule.freq];
+  const every = rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+  const days = rule.byDay.length > 0 ? ` on ${rule.byDay.map(day => DAY_NAMES[day]).join(', ')}` : '';
+  return `${every}${days}`;
+}
+
+/**
+ * First occurrence of a series starting on `start` that falls after `after`
+ * Returns null once the rule's UNTIL date has passed
+ */
+export function nextOccurrence(rule: RecurrenceRule, start: string, after: string): string | null {
+  const candidate = firstOnOrAfter(rule, start, after < start ? start : addDays(after, 1));
+  return candidate && (!rule.until || candidate <= rule.until) ? candidate : null;
+}
+
+function firstOnOrAfter(rule: RecurrenceRule, start: string, from: string): string | null {
+  if (rule.freq === 'DAILY') {
+    const elapsed = Math.max(0, daysBetween(start, from));
+    return addDays(start, Math.ceil(elapsed / rule.interval) * rule.interval);
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const days = rule.byDay.length > 0 ? rule.byDay : [weekday(start)];
+    const firstMonday = addDays(start, -mondayFirst(weekday(start)));
+    const weeks = Math.max(0, Math.floor(daysBetween(firstMonday, from) / 7));
+    let week = Math.floor(weeks / rule.interval) * rule.interval;
+
+    // The matching week is at most one interval after the week containing `from`
+    for (let attempt = 0; attempt < 2; attempt++, week += rule.interval) {
+      for (const day of days) {
+        const date = addDays(firstMonday, week * 7 + mondayFirst(day));
+        if (date >= start && date >= from) {
+          return date;
+        }
+      }
+    }
+    return null;
+  }
+
+  const [startYear, startMonth] = start.split('-').map(Number) as [number, number];
+  const [fromYear, fromMonth] = from.split('-').map(Number) as [number, number];
+  const months = Math.max(0, (fromYear - startYear) * 12 + fromMonth - startMonth);
+  let month = Math.floor(months / rule.interval) * rule.interval;
+
+  for (let attempt = 0; attempt < 2; attempt++, month += rule.interval) {
+    const date = addMonths(start, month);
+    if (date >= from) {
+      return date;
+    }
+  }
+  return null;
+}
+
+/**
+ * Position of a weekday in a week that starts on Monday
+ */
+function mondayFirst(day: number): number {
+  return (day + 6) % 7;
+}
@@ -0,0 +1,217 @@
+/**
+ * Logic-less text templates in the style of Handlebars:
+ * - {{name}} or {{a.b}} inserts a value as written; {{this}} is the current item
+ * - {{#if name}}…{{else}}…{{/if}} and {{#unless name}}…{{/unless}} test a value
+ *   (empty strings, empty lists, null and 0 are false)
+ * - {{#each name}}…{{else}}…{{/each}} repeats for each item of a list, with the
+ *   item's fields in scope; the else part renders for an empty list
+ * - {{! comment }} renders nothing
+ * Nothing is escaped. Block tags alone on a line take the whole line with them,
+ * so sections can be wrapped without leaving blank lines behind.
+ */
+
+/**
+ * Raised for templates that do not parse, e.g. an unclosed {{#if}}
+ */
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'if'; path: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { kind: 'each'; path: string; body: TemplateNode[]; otherwise: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { kind: 'if' | 'each' }>;
+
+type Tag =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; path: string }
+  | { kind: 'open'; helper: string; path: string }
+  | { kind: 'else' }
+  | { kind: 'close'; helper: string };
+
+const TAG = /\{\{\s*([#/!]?)([\s\S]*?)\s*\}\}/g;
+const PATH = /^(?:this|\.|[A-Za-z_][\w-]*(?:\.[A-Za-z_][\w-]*)*)$/;
+const BLOCK_HELPERS = ['if', 'unless', 'each'];
+
+export type CompiledTemplate = (context: TemplateContext) => string;
+
+/**
+ * Parse a template once for rendering many times
+ * Throws TemplateError if it does not parse
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const nodes = parse(tokenize(source.replace(/\r\n/g, '\n')));
+  return context => renderNodes(nodes, [context]);
+}
+
+/**
+ * Render a template against `context`. Throws TemplateError if it does not parse
+ */
+export function renderTemplate(source: string, context: TemplateContext): string {
+  return compileTemplate(source)(context);
+}
+
+function tokenize(source: string): Tag[] {
+  const tags: Tag[] = [];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG)) {
+    const [raw, sigil, inner] = match as unknown as [string, string, string];
+    let start = match.index as number;
+    let end = start + raw.length;
+    const body = inner.trim();
+
+    let tag: Tag | null;
+    if (sigil === '!') {
+      tag = null;
+    } else if (sigil === '#') {
+      const [helper = '', path = '', ...rest] = body.split(/\s+/);
+      if (!BLOCK_HELPERS.includes(helper)) {
+        throw new TemplateError(`Unknown block {{#${helper}}}`);
+      }
+      if (!PATH.test(path) || rest.length > 0) {
+        throw new TemplateError(`{{#${helper}}} takes one field name, got "${body.slice(helper.length).trim()}"`);
+      }
+      tag = { kind: 'open', helper, path };
+    } else if (sigil === '/') {
+      tag = { kind: 'close', helper: body };
+    } else if (body === 'else') {
+      tag = { kind: 'else' };
+    } else if (PATH.test(body)) {
+      tag = { kind: 'value', path: body };
+    } else {
+      throw new TemplateError(`Not a field name: {{${body}}}`);
+    }
+
+    // A block tag or comment alone on its line removes the line
+    if (tag === null || tag.kind !== 'value') {
+      const lineStart = source.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = source.indexOf('\n', end);
+      const before = source.slice(Math.max(lineStart, position), start);
+      const after = source.slice(end, lineEnd === -1 ? source.length : lineEnd);
+      if (lineStart >= position && before.trim() === '' && after.trim() === '') {
+        start = lineStart;
+        end = lineEnd === -1 ? source.length : lineEnd + 1;
+      }
+    }
+
+    if (start > position) {
+      tags.push({ kind: 'text', text: source.slice(position, start) });
+    }
+    if (tag) {
+      tags.push(tag);
+    }
+    position = end;
+  }
+
+  if (position < source.length) {
+    tags.push({ kind: 'text', text: source.slice(position) });
+  }
+  return tags;
+}
+
+function parse(tags: Tag[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open blocks, innermost last, with the part of each that tags are added to
+  const stack: Array<{ node: BlockNode; helper: string; target: TemplateNode[] }> = [];
+  let target = root;
+
+  for (const tag of tags) {
+    if (tag.kind === 'text' || tag.kind === 'value') {
+      target.push(tag);
+    } else if (tag.kind === 'open') {
+      const node: BlockNode = tag.helper === 'each'
+        ? { kind: 'each', path: tag.path, body: [], otherwise: [] }
+        : { kind: 'if', path: tag.path, negate: tag.helper === 'unless', then: [], otherwise: [] };
+      target.push(node);
+      target = node.kind === 'each' ? node.body : node.then;
+      stack.push({ node, helper: tag.helper, target });
+    } else if (tag.kind === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open || open.target === open.node.otherwise) {
+        throw new TemplateError('{{else}} outside of a block');
+      }
+      open.target = open.node.otherwise;
+      target = open.target;
+    } else {
+      const open = stack.pop();
+      if (!open || open.helper !== tag.helper) {
+        throw new TemplateError(`Unexpected {{/${tag.helper}}}${open ? `; {{#${open.helper}}} is still open` : ''}`);
+      }
+      target = stack[stack.length - 1]?.target ?? root;
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new TemplateError(`{{#${unclosed.helper} ${unclosed.node.path}}} is never closed`);
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.kind === 'text') {
+      output += node.text;
+    } else if (node.kind === 'value') {
+      output += display(lookup(node.path, scopes));
+    } else if (node.kind === 'if') {
+      const truthy = isTruthy(lookup(node.path, scopes)) !== node.negate;
+      output += renderNodes(truthy ? node.then : node.otherwise, scopes);
+    } else {
+      const items = lookup(node.path, scopes);
+      const list = Array.isArray(items) ? items : [];
+      output += list.length > 0
+        ? list.map(item => renderNodes(node.body, [...scopes, item])).join('')
+        : renderNodes(node.otherwise, scopes);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a dotted field name, innermost scope first
+ */
+function lookup(path: string, scopes: unknown[]): unknown {
+  const current = scopes[scopes.length - 1];
+  if (path === 'this' || path === '.') {
+    return current;
+  }
+
+  const [head, ...rest] = path.split('.') as [string, ...string[]];
+  for (let index = scopes.length - 1; index >= 0; index--) {
+    const scope = scopes[index];
+    if (scope !== null && typeof scope === 'object' && head in scope) {
+      return rest.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        (scope as Record<string, unknown>)[head]
+      );
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function display(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(display).join(', ');
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
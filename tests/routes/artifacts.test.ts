@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildApp } from '../../src/app.js';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { generateApiKey } from '../../src/security/api-keys.js';
+import * as artifactsService from '../../src/services/artifacts.js';
+import { unifiedDiff } from '../../src/utils/diff.js';
+import type { FastifyInstance } from 'fastify';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+const SOURCE = 'function add(a, b) {\n  return a + b;\n}\n';
+
+describe('Artifacts Routes', () => {
+  let app: FastifyInstance;
+  let apiKey: string;
+
+  beforeAll(async () => {
+    initDb();
+    app = await buildApp();
+
+    const key = await generateApiKey('test', 'full', 1000);
+    apiKey = key.key;
+  });
+
+  beforeEach(() => {
+    getDb().exec('DELETE FROM artifacts');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    closeDb();
+  });
+
+  function createArtifact(): string {
+    return artifactsService.createArtifact({
+      title: 'math.js',
+      content: SOURCE,
+      content_type: 'code',
+      language: 'javascript'
+    }).id;
+  }
+
+  describe('POST /api/v1/artifacts/:id/patch', () => {
+    it('should apply a patch as a new version', async () => {
+      const id = createArtifact();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/artifacts/${id}/patch`,
+        headers: { 'x-api-key': apiKey },
+        payload: { patch: unifiedDiff(SOURCE, SOURCE.replace('a + b', 'b + a')) }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ version: 2, content: SOURCE.replace('a + b', 'b + a') });
+    });
+
+    it('should reject malformed patches', async () => {
+      const id = createArtifact();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/artifacts/${id}/patch`,
+        headers: { 'x-api-key': apiKey },
+        payload: { patch: 'not a diff' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toBe('Invalid patch');
+    });
+
+    it('should report conflicts with 409', async () => {
+      const id = createArtifact();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/artifacts/${id}/patch`,
+        headers: { 'x-api-key': apiKey },
+        payload: { patch: unifiedDiff('something else\n', 'replaced\n') }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body)).toMatchObject({ current_version: 1, conflicts: [{ hunk: 1 }] });
+    });
+
+    it('should return 404 for a non-existent artifact', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/artifacts/artifact_nonexistent/patch',
+        headers: { 'x-api-key': apiKey },
+        payload: { patch: unifiedDiff(SOURCE, `${SOURCE}\n`) }
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+
+  describe('versions', () => {
+    it('should diff versions', async () => {
+      const id = createArtifact();
+      artifactsService.updateArtifact(id, { content: SOURCE.replace('a + b', 'b + a') });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/artifacts/${id}/versions/diff?from=1`,
+        headers: { 'x-api-key': apiKey }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ additions: 1, deletions: 1 });
+    });
+
+    it('should return 404 for unknown artifacts and versions', async () => {
+      const id = createArtifact();
+
+      const responses = await Promise.all([
+        app.inject({ method: 'GET', url: '/api/v1/artifacts/artifact_nonexistent/versions', headers: { 'x-api-key': apiKey } }),
+        app.inject({ method: 'GET', url: `/api/v1/artifacts/${id}/versions/diff?from=9`, headers: { 'x-api-key': apiKey } }),
+        app.inject({ method: 'GET', url: `/api/v1/artifacts/${id}/versions/9`, headers: { 'x-api-key': apiKey } })
+      ]);
+
+      expect(responses.map(r => r.statusCode)).toEqual([404, 404, 404]);
+    });
+
+    it('should require a starting version to diff', async () => {
+      const id = createArtifact();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/artifacts/${id}/versions/diff`,
+        headers: { 'x-api-key': apiKey }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+});
@@ -34,6 +34,7 @@ describe('Health Routes', () => {
       expect(body.version).toBeDefined();
       expect(body.timestamp).toBeDefined();
       expect(body.services.database).toBe(true);
+      expect(body.vault_sync_queue).toMatchObject({ pending: expect.any(Number), last_error: null });
     });
   });
 
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
 import { buildApp } from '../../src/app.js';
 import { initDb, closeDb, getDb } from '../../src/db/client.js';
 import { generateApiKey } from '../../src/security/api-keys.js';
+import * as notesService from '../../src/services/notes.js';
 import type { FastifyInstance } from 'fastify';
 
 // Set test environment
@@ -236,4 +237,77 @@ describe('Notes Routes', () => {
       expect(getResponse.statusCode).toBe(404);
     });
   });
+
+  describe('revisions', () => {
+    // Created through the service to keep each test to a few requests
+    function createRevisedNote(): string {
+      const note = notesService.createNote({ content: 'First draft' });
+      notesService.updateNote(note.id, { content: 'Second draft' });
+      return note.id;
+    }
+
+    it('should reject a patch without fields', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/notes/${createRevisedNote()}`,
+        headers: { 'x-api-key': apiKey },
+        payload: {}
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should list revisions and diff them', async () => {
+      const id = createRevisedNote();
+
+      const listResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v1/notes/${id}/revisions`,
+        headers: { 'x-api-key': apiKey }
+      });
+      expect(JSON.parse(listResponse.body)).toMatchObject({ current_revision: 2, total: 2 });
+
+      const diffResponse = await app.inject({
+        method: 'GET',
+        url: `/api/v1/notes/${id}/revisions/diff?from=1`,
+        headers: { 'x-api-key': apiKey }
+      });
+      expect(diffResponse.statusCode).toBe(200);
+      expect(JSON.parse(diffResponse.body).diff).toContain('-First draft\n+Second draft');
+    });
+
+    it('should return 404 for unknown notes and revisions', async () => {
+      const id = createRevisedNote();
+
+      const unknownNote = await app.inject({
+        method: 'GET',
+        url: '/api/v1/notes/note_nonexistent/revisions',
+        headers: { 'x-api-key': apiKey }
+      });
+      const unknownDiff = await app.inject({
+        method: 'GET',
+        url: `/api/v1/notes/${id}/revisions/diff?from=9`,
+        headers: { 'x-api-key': apiKey }
+      });
+      const unknownRestore = await app.inject({
+        method: 'POST',
+        url: `/api/v1/notes/${id}/revisions/9/restore`,
+        headers: { 'x-api-key': apiKey }
+      });
+
+      expect(unknownNote.statusCode).toBe(404);
+      expect(unknownDiff.statusCode).toBe(404);
+      expect(unknownRestore.statusCode).toBe(404);
+    });
+
+    it('should reject invalid revision numbers', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/notes/${createRevisedNote()}/revisions/0`,
+        headers: { 'x-api-key': apiKey }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
 });
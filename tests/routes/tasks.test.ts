@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildApp } from '../../src/app.js';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { generateApiKey } from '../../src/security/api-keys.js';
+import * as tasksService from '../../src/services/tasks.js';
+import * as dependencyService from '../../src/services/task-dependencies.js';
+import type { FastifyInstance } from 'fastify';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Tasks Routes', () => {
+  let app: FastifyInstance;
+  let apiKey: string;
+  let readKey: string;
+
+  beforeAll(async () => {
+    initDb();
+    app = await buildApp();
+
+    apiKey = (await generateApiKey('test', 'full', 1000)).key;
+    readKey = (await generateApiKey('test-read', 'read', 1000)).key;
+  });
+
+  beforeEach(() => {
+    getDb().exec('DELETE FROM tasks');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    closeDb();
+  });
+
+  function createTask(title = 'Test task'): string {
+    return tasksService.createTask({ title, project: 'routes-test' }).id;
+  }
+
+  describe('dependencies', () => {
+    it('should refuse to activate a blocked task', async () => {
+      const blocker = createTask('Blocker');
+      const id = createTask();
+      dependencyService.addTaskDependency(id, blocker);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${id}/activate`,
+        headers: { 'x-api-key': apiKey },
+        payload: {}
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).blocked_by).toMatchObject([{ id: blocker }]);
+    });
+
+    it('should refuse dependency cycles', async () => {
+      const first = createTask();
+      const second = createTask();
+      dependencyService.addTaskDependency(first, second);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${second}/dependencies`,
+        headers: { 'x-api-key': apiKey },
+        payload: { depends_on: first }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).cycle).toBeDefined();
+    });
+  });
+
+  describe('transitions', () => {
+    it('should refuse transitions the current status does not allow', async () => {
+      const id = createTask();
+      tasksService.cancelTask(id);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${id}/activate`,
+        headers: { 'x-api-key': apiKey },
+        payload: {}
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body)).toMatchObject({ status: 'cancelled' });
+    });
+  });
+
+  describe('dates', () => {
+    it('should reject unparseable dates on create', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: { 'x-api-key': apiKey },
+        payload: { title: 'Test task', project: 'routes-test', due_at: 'garbage' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should reject unparseable subtask dates', async () => {
+      const parent = createTask();
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/tasks/${parent}/subtasks`,
+        headers: { 'x-api-key': apiKey },
+        payload: { title: 'Subtask', scheduled_for: 'garbage' }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('garbage');
+    });
+
+    it('should reject unparseable schedule changes', async () => {
+      const id = createTask();
+
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/api/v1/tasks/${id}/schedule`,
+        headers: { 'x-api-key': apiKey },
+        payload: { due_at: '2026-02-30' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should return 404 for unknown tasks', async () => {
+      const responses = await Promise.all([
+        app.inject({
+          method: 'POST',
+          url: '/api/v1/tasks/ROUTES-999/subtasks',
+          headers: { 'x-api-key': apiKey },
+          payload: { title: 'Subtask' }
+        }),
+        app.inject({
+          method: 'PATCH',
+          url: '/api/v1/tasks/ROUTES-999/schedule',
+          headers: { 'x-api-key': apiKey },
+          payload: { due_at: 'tomorrow' }
+        })
+      ]);
+
+      expect(responses.map(r => r.statusCode)).toEqual([404, 404]);
+    });
+
+    it('should reject unparseable recurrence rules', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/tasks',
+        headers: { 'x-api-key': apiKey },
+        payload: { title: 'Test task', project: 'routes-test', due_at: 'tomorrow', recurrence: 'FREQ=SOMETIMES' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /api/v1/tasks/next', () => {
+    it('should require write scope', async () => {
+      createTask();
+
+      const response = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/next?project=routes-test',
+        headers: { 'x-api-key': readKey }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should claim the next task, then respond 204 when none are left', async () => {
+      const id = createTask();
+
+      const first = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/next?project=routes-test',
+        headers: { 'x-api-key': apiKey }
+      });
+      const second = await app.inject({
+        method: 'GET',
+        url: '/api/v1/tasks/next?project=routes-test',
+        headers: { 'x-api-key': apiKey }
+      });
+
+      expect(first.statusCode).toBe(200);
+      expect(JSON.parse(first.body)).toMatchObject({ task: { id, status: 'active' } });
+      expect(JSON.parse(first.body).lease.expires_at).toBeDefined();
+      expect(second.statusCode).toBe(204);
+    });
+  });
+});
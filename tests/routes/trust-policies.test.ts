@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { buildApp } from '../../src/app.js';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { generateApiKey } from '../../src/security/api-keys.js';
+import * as policyService from '../../src/services/task-policies.js';
+import type { FastifyInstance } from 'fastify';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Trust Policy Routes', () => {
+  let app: FastifyInstance;
+  let fullKey: string;
+  let writeKey: string;
+
+  beforeAll(async () => {
+    initDb();
+    app = await buildApp();
+
+    fullKey = (await generateApiKey('test-full', 'full', 1000)).key;
+    writeKey = (await generateApiKey('test-write', 'write', 1000)).key;
+  });
+
+  beforeEach(() => {
+    getDb().exec('DELETE FROM trust_policies');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    closeDb();
+  });
+
+  describe('PUT /api/v1/projects/:project/trust-policies/:level', () => {
+    it('should require full scope', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/projects/test-project/trust-policies/MATURE',
+        headers: { 'x-api-key': writeKey },
+        payload: { require_review: true }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should update the policy', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/projects/test-project/trust-policies/MATURE',
+        headers: { 'x-api-key': fullKey },
+        payload: { require_review: true, required_approvals: 2 }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ require_review: true, required_approvals: 2 });
+    });
+
+    it('should reject unknown trust levels', async () => {
+      const response = await app.inject({
+        method: 'PUT',
+        url: '/api/v1/projects/test-project/trust-policies/EXPERIMENTAL',
+        headers: { 'x-api-key': fullKey },
+        payload: { require_review: true }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('DELETE /api/v1/projects/:project/trust-policies/:level', () => {
+    it('should require full scope', async () => {
+      policyService.setTrustPolicy('test-project', 'MATURE', { require_review: true });
+
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/projects/test-project/trust-policies/MATURE',
+        headers: { 'x-api-key': writeKey }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should return 404 when the level has no policy configured', async () => {
+      const response = await app.inject({
+        method: 'DELETE',
+        url: '/api/v1/projects/test-project/trust-policies/MATURE',
+        headers: { 'x-api-key': fullKey }
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
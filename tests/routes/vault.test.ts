@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import { buildApp } from '../../src/app.js';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { generateApiKey } from '../../src/security/api-keys.js';
+import type { FastifyInstance } from 'fastify';
+
+// Config is read on import, so the vault path has to be set first
+const vaultPath = vi.hoisted(() => {
+  process.env['OBSIDIAN_VAULT_PATH'] = 'data/test-vault-routes';
+  return 'data/test-vault-routes';
+});
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Vault Routes', () => {
+  let app: FastifyInstance;
+  let fullKey: string;
+  let writeKey: string;
+  let readKey: string;
+
+  beforeAll(async () => {
+    fs.mkdirSync(vaultPath, { recursive: true });
+    initDb();
+    app = await buildApp();
+
+    fullKey = (await generateApiKey('test-full', 'full', 1000)).key;
+    writeKey = (await generateApiKey('test-write', 'write', 1000)).key;
+    readKey = (await generateApiKey('test-read', 'read', 1000)).key;
+  });
+
+  beforeEach(() => {
+    getDb().exec('DELETE FROM vault_conflicts');
+  });
+
+  afterAll(async () => {
+    await app.close();
+    closeDb();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  describe('POST /api/v1/vault/import', () => {
+    it('should require write scope', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/vault/import',
+        headers: { 'x-api-key': readKey },
+        payload: {}
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should reject paths that are not vault files', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/vault/import',
+        headers: { 'x-api-key': writeKey },
+        payload: { paths: ['../outside.md'] }
+      });
+
+      expect(response.statusCode).toBe(400);
+      expect(JSON.parse(response.body).error).toContain('Not an importable vault file');
+    });
+  });
+
+  describe('conflicts', () => {
+    function insertConflict(resolvedAt: string | null): number {
+      return Number(getDb().prepare(`
+        INSERT INTO vault_conflicts (path, entity_type, entity_id, base_hash, db_content, vault_content,
+          detected_at, resolved_at, resolution)
+        VALUES ('notes/note_x.md', 'note', 'note_x', 'hash', 'db', 'vault', datetime('now'), ?, ?)
+      `).run(resolvedAt, resolvedAt ? 'keep-db' : null).lastInsertRowid);
+    }
+
+    it('should return 404 for unknown conflicts', async () => {
+      const responses = await Promise.all([
+        app.inject({ method: 'GET', url: '/api/v1/vault/conflicts/999', headers: { 'x-api-key': readKey } }),
+        app.inject({
+          method: 'POST',
+          url: '/api/v1/vault/conflicts/999/resolve',
+          headers: { 'x-api-key': writeKey },
+          payload: { resolution: 'keep-db' }
+        })
+      ]);
+
+      expect(responses.map(r => r.statusCode)).toEqual([404, 404]);
+    });
+
+    it('should require content only for merged resolutions', async () => {
+      const id = insertConflict(null);
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/vault/conflicts/${id}/resolve`,
+        headers: { 'x-api-key': writeKey },
+        payload: { resolution: 'merged' }
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+
+    it('should refuse to resolve a conflict twice', async () => {
+      const id = insertConflict(new Date().toISOString());
+
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/vault/conflicts/${id}/resolve`,
+        headers: { 'x-api-key': writeKey },
+        payload: { resolution: 'keep-vault' }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body).resolution).toBe('keep-db');
+    });
+  });
+
+  describe('POST /api/v1/vault/reconcile', () => {
+    it('should require full scope', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/vault/reconcile',
+        headers: { 'x-api-key': writeKey },
+        payload: { dry_run: true }
+      });
+
+      expect(response.statusCode).toBe(403);
+    });
+
+    it('should report without writing on a dry run', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/vault/reconcile',
+        headers: { 'x-api-key': fullKey },
+        payload: { dry_run: true }
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).dry_run).toBe(true);
+    });
+  });
+});
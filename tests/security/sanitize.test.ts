@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeContent, sanitizeHtml, sanitizeMarkdown, isSafeUrl } from '../../src/security/sanitize.js';
+
+describe('Sanitization', () => {
+  describe('sanitizeContent', () => {
+    it('should store code and JSON byte-for-byte', () => {
+      const code = 'button.onload = init;\nconst connection = db;\n<a href="javascript:void(0)" onClick={go}>';
+
+      expect(sanitizeContent(code, 1000, 'code')).toBe(code);
+      expect(sanitizeContent('{"onclick=": "javascript:x"}', 1000, 'json')).toBe('{"onclick=": "javascript:x"}');
+    });
+
+    it('should leave plain prose untouched', () => {
+      const text = 'The condition = true when a < b, and the response = ok';
+
+      expect(sanitizeContent(text)).toBe(text);
+    });
+  });
+
+  describe('sanitizeHtml', () => {
+    it('should drop dangerous elements with their content', () => {
+      expect(sanitizeHtml('a<script>alert(1)</script>b<style>x{}</style>c')).toBe('abc');
+    });
+
+    it('should keep allowlisted tags and strip event handlers', () => {
+      expect(sanitizeHtml('<b onclick="x()" class="hi">bold</b>')).toBe('<b class="hi">bold</b>');
+    });
+
+    it('should unwrap unknown tags but keep their text', () => {
+      expect(sanitizeHtml('<form><custom-el>text</custom-el></form>')).toBe('text');
+    });
+
+    it('should remove unsafe URLs, including entity-encoded schemes', () => {
+      expect(sanitizeHtml('<a href="jav&#x61;script:alert(1)">x</a>')).toBe('<a>x</a>');
+      expect(sanitizeHtml('<img src="https://example.com/a.png" onerror="x()">'))
+        .toBe('<img src="https://example.com/a.png">');
+    });
+  });
+
+  describe('sanitizeMarkdown', () => {
+    it('should keep fenced code blocks and inline code verbatim', () => {
+      const markdown = 'Use `<b onclick=x>` like:\n\n```html\n<button onclick="go()">Go</button>\n```\n';
+
+      expect(sanitizeMarkdown(markdown)).toBe(markdown);
+    });
+
+    it('should neutralize unsafe link targets', () => {
+      expect(sanitizeMarkdown('[x](javascript:alert(1)) [ok](https://example.com)'))
+        .toBe('[x](#) [ok](https://example.com)');
+    });
+  });
+
+  describe('isSafeUrl', () => {
+    it('should allow relative URLs and allowlisted schemes', () => {
+      expect(isSafeUrl('/notes/1')).toBe(true);
+      expect(isSafeUrl('#section')).toBe(true);
+      expect(isSafeUrl('mailto:a@example.com')).toBe(true);
+      expect(isSafeUrl(' java\tscript:alert(1)')).toBe(false);
+      expect(isSafeUrl('data:image/png;base64,AA', true)).toBe(true);
+      expect(isSafeUrl('data:text/html;base64,AA', true)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as artifactsService from '../../src/services/artifacts.js';
+import { unifiedDiff, PatchParseError } from '../../src/utils/diff.js';
+import { scanSanitizationDamage } from '../../src/services/content-integrity.js';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+process.env['OBSIDIAN_VAULT_PATH'] = ''; // Disable vault sync in tests
+
+const SOURCE = [
+  'function add(a, b) {',
+  '  return a + b;',
+  '}',
+  '',
+  'function sub(a, b) {',
+  '  return a - b;',
+  '}',
+  ''
+].join('\n');
+
+describe('Artifacts Service', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM artifacts');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  function createCode(content: string = SOURCE): string {
+    return artifactsService.createArtifact({
+      title: 'math.js',
+      content,
+      content_type: 'code',
+      language: 'javascript'
+    }, 'key_a').id;
+  }
+
+  describe('versions', () => {
+    it('should store every update as a new version', () => {
+      const id = createCode();
+      artifactsService.updateArtifact(id, { content: SOURCE.replace('a + b', 'b + a') }, 'key_b');
+      artifactsService.updateArtifact(id, { title: 'math.ts' });
+
+      const versions = artifactsService.listArtifactVersions(id);
+
+      expect(versions.map(v => v.version)).toEqual([3, 2, 1]);
+      expect(versions[1]?.editor_key_id).toBe('key_b');
+      expect(artifactsService.getArtifactVersion(id, 1)?.content).toBe(SOURCE);
+      expect(artifactsService.getCurrentVersion(id)).toBe(3);
+    });
+
+    it('should not create a version when nothing changes', () => {
+      const id = createCode();
+      artifactsService.updateArtifact(id, { content: SOURCE });
+
+      expect(artifactsService.getCurrentVersion(id)).toBe(1);
+    });
+
+    it('should compute a unified diff between versions', () => {
+      const id = createCode();
+      artifactsService.updateArtifact(id, { content: SOURCE.replace('a - b', 'b - a') });
+
+      const diff = artifactsService.diffArtifactVersions(id, 1, 2);
+
+      expect(diff?.diff).toContain('@@ -3,5 +3,5 @@');
+      expect(diff?.diff).toContain('-  return a - b;\n+  return b - a;');
+      expect(diff?.additions).toBe(1);
+      expect(diff?.deletions).toBe(1);
+    });
+
+    it('should diff a complete rewrite of a large artifact', () => {
+      const lines = (prefix: string): string => Array.from({ length: 5000 }, (_, i) => `${prefix} ${i}`).join('\n');
+      const id = createCode(lines('old'));
+      artifactsService.updateArtifact(id, { content: lines('new') });
+
+      const diff = artifactsService.diffArtifactVersions(id, 1, 2);
+
+      expect(diff?.additions).toBe(5000);
+      expect(diff?.deletions).toBe(5000);
+      expect(diff?.diff).toContain('@@ -1,5000 +1,5000 @@');
+    });
+  });
+
+  describe('patchArtifact', () => {
+    it('should apply a unified diff as a new version', () => {
+      const id = createCode();
+      const patch = unifiedDiff(SOURCE, SOURCE.replace('a + b', 'a + b + 0'));
+
+      const result = artifactsService.patchArtifact(id, patch, 'key_b');
+
+      expect(result).toMatchObject({ applied: true, version: 2 });
+      expect(artifactsService.getArtifactById(id)?.content).toContain('a + b + 0');
+    });
+
+    it('should apply hunks whose position has shifted', () => {
+      const id = createCode(`// header\n${SOURCE}`);
+      const patch = unifiedDiff(SOURCE, SOURCE.replace('a - b', 'a - b - 0'));
+
+      expect(artifactsService.patchArtifact(id, patch)?.applied).toBe(true);
+    });
+
+    it('should report conflicts and leave the content untouched', () => {
+      const id = createCode();
+      const patch = unifiedDiff(SOURCE, SOURCE.replace('a + b', 'a + b + 0'));
+      artifactsService.updateArtifact(id, { content: SOURCE.replace('a + b', 'a + b + 1') });
+
+      const result = artifactsService.patchArtifact(id, patch);
+
+      expect(result?.applied).toBe(false);
+      if (result && !result.applied) {
+        expect(result.conflicts).toHaveLength(1);
+        expect(result.conflicts[0]?.hunk).toBe(1);
+        expect(result.conflicts[0]?.actual).toContain('  return a + b + 1;');
+      }
+      expect(artifactsService.getCurrentVersion(id)).toBe(2);
+    });
+
+    it('should reject malformed patches', () => {
+      const id = createCode();
+
+      expect(() => artifactsService.patchArtifact(id, 'not a diff')).toThrow(PatchParseError);
+      expect(() => artifactsService.patchArtifact(id, '@@ -1,3 +1,3 @@\n-only one line\n'))
+        .toThrow(PatchParseError);
+    });
+  });
+
+  describe('sanitization', () => {
+    it('should store code artifacts verbatim', () => {
+      const code = 'button.onload = () => init();\nconst connection = open("javascript:");\n';
+      const id = createCode(code);
+
+      expect(artifactsService.getArtifactById(id)?.content).toBe(code);
+    });
+
+    it('should sanitize content when an artifact becomes markdown', () => {
+      const id = createCode('<b onclick="x()">hi</b>');
+      const updated = artifactsService.updateArtifact(id, { content_type: 'markdown' });
+
+      expect(updated?.content).toBe('<b>hi</b>');
+    });
+
+    it('should flag content damaged by the previous sanitizer', () => {
+      const damaged = createCode('const c db.connect();\nel.() => go();\n');
+      createCode();
+      artifactsService.createArtifact({ title: 'config', content: '{"a": ', content_type: 'json' });
+
+      const flags = scanSanitizationDamage();
+
+      expect(flags.filter(f => f.entity_id === damaged).map(f => f.reason)).toEqual(['missing_assignment']);
+      expect(flags.map(f => f.reason)).toContain('invalid_json');
+      expect(flags).toHaveLength(2);
+    });
+  });
+});
@@ -129,4 +129,58 @@ describe('Notes Service', () => {
       expect(deleted).toBe(false);
     });
   });
+
+  describe('revisions', () => {
+    it('should record every version of a note', () => {
+      const note = notesService.createNote({ content: 'First draft' }, 'key_a');
+      notesService.updateNote(note.id, { content: 'Second draft' }, 'key_b');
+
+      const revisions = notesService.listNoteRevisions(note.id);
+
+      expect(revisions.map(r => r.revision)).toEqual([2, 1]);
+      expect(revisions[0]?.content).toBe('Second draft');
+      expect(revisions[0]?.editor_key_id).toBe('key_b');
+      expect(revisions[1]?.content).toBe('First draft');
+      expect(revisions[1]?.editor_key_id).toBe('key_a');
+    });
+
+    it('should not record a revision when nothing changes', () => {
+      const note = notesService.createNote({ content: 'Stable', tags: ['a'] });
+      notesService.updateNote(note.id, { content: 'Stable', tags: ['a'] });
+
+      expect(notesService.listNoteRevisions(note.id)).toHaveLength(1);
+    });
+
+    it('should diff content, tags and project between revisions', () => {
+      const note = notesService.createNote({ content: 'one\ntwo\nthree', tags: ['draft'] });
+      notesService.updateNote(note.id, { content: 'one\n2\nthree', tags: ['final'], project: 'docs' });
+
+      const diff = notesService.diffNoteRevisions(note.id, 1, 2);
+
+      expect(diff?.diff).toContain('-two\n+2');
+      expect(diff?.additions).toBe(1);
+      expect(diff?.deletions).toBe(1);
+      expect(diff?.tags).toEqual({ added: ['final'], removed: ['draft'] });
+      expect(diff?.project).toEqual({ from: null, to: 'docs' });
+      expect(notesService.diffNoteRevisions(note.id, 1, 9)).toBeNull();
+    });
+
+    it('should restore an earlier revision as a new revision', () => {
+      const note = notesService.createNote({ content: 'Original' });
+      notesService.updateNote(note.id, { content: 'Changed', tags: ['x'] });
+
+      const restored = notesService.restoreNoteRevision(note.id, 1);
+
+      expect(restored?.content).toBe('Original');
+      expect(restored?.tags).toBeNull();
+      expect(notesService.listNoteRevisions(note.id)[0]?.revision).toBe(3);
+    });
+
+    it('should drop revisions with the note', () => {
+      const note = notesService.createNote({ content: 'Short-lived' });
+      notesService.deleteNote(note.id);
+
+      expect(notesService.listNoteRevisions(note.id)).toHaveLength(0);
+    });
+  });
 });
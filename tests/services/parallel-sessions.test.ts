@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as sessionsService from '../../src/services/parallel-sessions.js';
+import {
+  ActiveSessionExistsError,
+  FileClaimConflictError,
+  SessionEndedError
+} from '../../src/services/parallel-sessions.js';
+import { globsOverlap, matchesGlob } from '../../src/utils/globs.js';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+process.env['OBSIDIAN_VAULT_PATH'] = ''; // Disable vault sync in tests
+
+describe('Parallel Sessions Service', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM parallel_sessions');
+    db.exec('DELETE FROM session_instances');
+    db.exec('DELETE FROM file_claims');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  function startSession(): string {
+    const session = sessionsService.createSession({ project: 'mythril-core', coordinator: 'CC-5' });
+    sessionsService.addInstance(session.id, 'CC-1', { branch: 'feat/claims' });
+    sessionsService.addInstance(session.id, 'CC-2', { branch: 'feat/series' });
+    return session.id;
+  }
+
+  it('should detect overlapping globs', () => {
+    expect(globsOverlap('src/routes/*.ts', 'src/routes/tasks.ts')).toBe(true);
+    expect(globsOverlap('src/**/*.sql', 'src/db/migrations/0*.sql')).toBe(true);
+    expect(globsOverlap('src/routes/', 'src/routes/admin/keys.ts')).toBe(true);
+    expect(globsOverlap('src/routes/*.ts', 'src/services/*.ts')).toBe(false);
+    expect(globsOverlap('src/*.ts', 'src/db/client.ts')).toBe(false);
+    expect(matchesGlob('./src/app.ts', 'src/app.ts')).toBe(true);
+  });
+
+  it('should allow one active session per project', () => {
+    const id = startSession();
+
+    expect(() => sessionsService.createSession({ project: 'mythril-core' })).toThrow(ActiveSessionExistsError);
+
+    sessionsService.endSession(id);
+
+    expect(() => sessionsService.addInstance(id, 'CC-3')).toThrow(SessionEndedError);
+    expect(sessionsService.createSession({ project: 'mythril-core' }).status).toBe('active');
+  });
+
+  it('should refuse exclusive claims on files another instance owns', () => {
+    const id = startSession();
+    sessionsService.claimFiles(id, 'CC-1', [{ pattern: 'src/services/task-claims.ts', mode: 'exclusive' }]);
+
+    expect(() => sessionsService.claimFiles(id, 'CC-2', [{ pattern: 'src/services/*.ts', mode: 'exclusive' }]))
+      .toThrow(FileClaimConflictError);
+    expect(sessionsService.getSessionDetail(id)?.conflicts).toEqual([]);
+
+    const forced = sessionsService.claimFiles(id, 'CC-2', [{ pattern: 'src/services/*.ts', mode: 'exclusive' }], {
+      force: true
+    });
+
+    expect(forced?.conflicts).toHaveLength(1);
+    expect(sessionsService.getSessionDetail(id)?.conflicts).toHaveLength(1);
+  });
+
+  it('should let instances share append-only files', () => {
+    const id = startSession();
+    sessionsService.claimFiles(id, 'CC-1', [{ pattern: 'src/app.ts', mode: 'append_only' }]);
+    const result = sessionsService.claimFiles(id, 'CC-2', [{ pattern: 'src/app.ts', mode: 'append_only' }]);
+
+    expect(result?.conflicts).toEqual([]);
+    expect(sessionsService.getPathOwners(id, 'src/app.ts').map(claim => claim.instance)).toEqual(['CC-1', 'CC-2']);
+    expect(() => sessionsService.claimFiles(id, 'CC-2', [{ pattern: 'src/**', mode: 'locked' }]))
+      .toThrow(FileClaimConflictError);
+  });
+
+  it('should render the session as PARALLEL.md tables', () => {
+    const id = startSession();
+    sessionsService.updateInstance(id, 'CC-1', { task_id: 'MYTHRIL-016', description: 'Task claims' });
+    sessionsService.claimFiles(id, 'CC-1', [{ pattern: 'src/services/task-claims.ts', mode: 'exclusive' }]);
+    sessionsService.claimFiles(id, 'CC-2', [{ pattern: 'src/config.ts', mode: 'locked' }]);
+
+    const markdown = sessionsService.renderSession(id)?.markdown ?? '';
+
+    expect(markdown).toContain('Coordinator: CC-5');
+    expect(markdown).toContain('| CC-1 | feat/claims | [[MYTHRIL-016]] Task claims | src/services/task-claims.ts | WORKING |');
+    expect(markdown).toContain('| src/config.ts | CC-2 | LOCKED | Do not modify |');
+    expect(markdown).toContain('_No conflicts._');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as savedSearchesService from '../../src/services/saved-searches.js';
+import { QueryParseError } from '../../src/services/search-query.js';
+import * as notesService from '../../src/services/notes.js';
+import * as tasksService from '../../src/services/tasks.js';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+process.env['OBSIDIAN_VAULT_PATH'] = ''; // Disable vault sync in tests
+
+describe('Saved Searches Service', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM saved_searches');
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM tasks');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  it('should save and re-run a search against current data', () => {
+    const saved = savedSearchesService.createSavedSearch('key_a', {
+      name: 'Infra notes',
+      query: 'tag:infra',
+      types: ['notes']
+    });
+
+    notesService.createNote({ content: 'Rotate certificates', tags: ['infra'] });
+    tasksService.createTask({ title: 'Rotate certificates', project: 'infra' });
+
+    const response = savedSearchesService.runSavedSearch(saved);
+
+    expect(response.total).toBe(1);
+    expect(response.results[0]?.type).toBe('note');
+  });
+
+  it('should reject invalid queries at save time', () => {
+    expect(() => savedSearchesService.createSavedSearch('key_a', {
+      name: 'Broken',
+      query: 'status:doing'
+    })).toThrow(QueryParseError);
+  });
+
+  it('should scope saved searches to the owning API key', () => {
+    const saved = savedSearchesService.createSavedSearch('key_a', { name: 'Mine', query: 'deploy' });
+
+    expect(savedSearchesService.getSavedSearchById('key_b', saved.id)).toBeNull();
+    expect(savedSearchesService.listSavedSearches('key_b')).toHaveLength(0);
+    expect(savedSearchesService.deleteSavedSearch('key_b', saved.id)).toBe(false);
+    expect(savedSearchesService.deleteSavedSearch('key_a', saved.id)).toBe(true);
+  });
+
+  it('should update the query and collection flag', () => {
+    const saved = savedSearchesService.createSavedSearch('key_a', { name: 'Deploys', query: 'deploy' });
+
+    const updated = savedSearchesService.updateSavedSearch('key_a', saved.id, {
+      query: 'deploy priority:>=HIGH',
+      collection: true
+    });
+
+    expect(updated?.query).toBe('deploy priority:>=HIGH');
+    expect(updated?.is_collection).toBe(1);
+    expect(updated?.name).toBe('Deploys');
+  });
+});
@@ -0,0 +1,376 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as searchService from '../../src/services/search.js';
+import { parseSearchQuery, QueryParseError } from '../../src/services/search-query.js';
+import * as notesService from '../../src/services/notes.js';
+import * as artifactsService from '../../src/services/artifacts.js';
+import * as tasksService from '../../src/services/tasks.js';
+import { reindexEmbeddings, HashedNgramProvider } from '../../src/services/embeddings.js';
+import { getSuggestions } from '../../src/services/term-dictionary.js';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+process.env['OBSIDIAN_VAULT_PATH'] = ''; // Disable vault sync in tests
+
+describe('Search Service', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM artifacts');
+    db.exec('DELETE FROM tasks');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  describe('toMatchQuery', () => {
+    it('should quote bare words so operators are treated as text', () => {
+      expect(searchService.toMatchQuery('foo OR bar')).toBe('"foo" "OR" "bar"');
+    });
+
+    it('should keep phrases and prefix terms', () => {
+      expect(searchService.toMatchQuery('"exact phrase" type*')).toBe('"exact phrase" "type"*');
+    });
+
+    it('should return null when nothing is searchable', () => {
+      expect(searchService.toMatchQuery('-- ;')).toBeNull();
+    });
+  });
+
+  describe('search', () => {
+    it('should find notes, artifacts and tasks', () => {
+      notesService.createNote({ content: 'Deploy the database migration' });
+      artifactsService.createArtifact({
+        title: 'Database schema',
+        content: 'CREATE TABLE foo (id TEXT)',
+        content_type: 'code',
+        language: 'sql'
+      });
+      tasksService.createTask({ title: 'Back up the database', project: 'infra' });
+
+      const results = searchService.search({ q: 'database' });
+
+      expect(results.map(r => r.type).sort()).toEqual(['artifact', 'note', 'task']);
+      expect(results.every(r => r.score > 0)).toBe(true);
+    });
+
+    it('should highlight matches in snippets', () => {
+      notesService.createNote({ content: 'Remember to rotate the keys' });
+
+      const results = searchService.search({ q: 'rotate' });
+
+      expect(results[0]?.snippet).toContain('**rotate**');
+    });
+
+    it('should support prefix queries', () => {
+      notesService.createNote({ content: 'Notes about TypeScript generics' });
+
+      expect(searchService.search({ q: 'typescr' })).toHaveLength(0);
+      expect(searchService.search({ q: 'typescr*' })).toHaveLength(1);
+    });
+
+    it('should support phrase queries', () => {
+      notesService.createNote({ content: 'the quick brown fox' });
+      notesService.createNote({ content: 'brown and quick' });
+
+      expect(searchService.search({ q: 'quick brown' })).toHaveLength(2);
+      expect(searchService.search({ q: '"quick brown"' })).toHaveLength(1);
+    });
+
+    it('should match note tags', () => {
+      notesService.createNote({ content: 'Unrelated text', tags: ['infra'] });
+
+      expect(searchService.search({ q: 'infra', types: ['notes'] })).toHaveLength(1);
+    });
+
+    it('should filter by project', () => {
+      notesService.createNote({ content: 'shared term', project: 'alpha' });
+      notesService.createNote({ content: 'shared term', project: 'beta' });
+
+      const results = searchService.search({ q: 'shared', project: 'alpha' });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]?.project).toBe('alpha');
+    });
+
+    it('should keep the index in sync with updates and deletes', () => {
+      const note = notesService.createNote({ content: 'original wording' });
+
+      notesService.updateNote(note.id, { content: 'revised wording' });
+      expect(searchService.search({ q: 'original' })).toHaveLength(0);
+      expect(searchService.search({ q: 'revised' })).toHaveLength(1);
+
+      notesService.deleteNote(note.id);
+      expect(searchService.search({ q: 'revised' })).toHaveLength(0);
+    });
+  });
+
+  describe('parseSearchQuery', () => {
+    it('should parse fields, phrases, negation and OR', () => {
+      const ast = parseSearchQuery('tag:infra priority:>=high "exact phrase" -excluded OR other');
+
+      expect(ast).toEqual({
+        kind: 'or',
+        children: [
+          {
+            kind: 'and',
+            children: [
+              { kind: 'field', field: 'tag', op: '=', value: 'infra', position: 0 },
+              { kind: 'field', field: 'priority', op: '>=', value: 'HIGH', position: 10 },
+              { kind: 'phrase', value: 'exact phrase', position: 26 },
+              { kind: 'not', child: { kind: 'term', value: 'excluded', prefix: false, position: 42 } }
+            ]
+          },
+          { kind: 'term', value: 'other', prefix: false, position: 54 }
+        ]
+      });
+    });
+
+    it('should treat unknown field names as plain terms', () => {
+      expect(parseSearchQuery('https://example.com')).toMatchObject({ kind: 'term' });
+    });
+
+    it('should report the position of an invalid value', () => {
+      try {
+        parseSearchQuery('bug status:doing');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryParseError);
+        expect((error as QueryParseError).position).toBe(11);
+        expect((error as QueryParseError).token).toBe('doing');
+      }
+    });
+
+    it('should reject comparison operators on unordered fields', () => {
+      expect(() => parseSearchQuery('tag:>infra')).toThrow(QueryParseError);
+    });
+
+    it('should reject dates that do not exist', () => {
+      expect(() => parseSearchQuery('created:>2026-02-30')).toThrow('Invalid date');
+      expect(parseSearchQuery('created:>2024-02-29')).not.toBeNull();
+    });
+
+    it('should reject dangling operators and unbalanced groups', () => {
+      expect(() => parseSearchQuery('foo OR')).toThrow('after \'OR\'');
+      expect(() => parseSearchQuery('(foo bar')).toThrow(QueryParseError);
+      expect(() => parseSearchQuery('foo)')).toThrow("Unmatched ')'");
+      expect(() => parseSearchQuery('"unterminated')).toThrow(QueryParseError);
+    });
+  });
+
+  describe('structured search', () => {
+    beforeEach(() => {
+      notesService.createNote({ content: 'Rotate the certificates', project: 'mythril', tags: ['infra'] });
+      notesService.createNote({ content: 'Rotate the tyres', project: 'garage', tags: ['car'] });
+      tasksService.createTask({ title: 'Rotate certificates', project: 'mythril', priority: 'HIGH' });
+      tasksService.createTask({ title: 'Write docs', project: 'mythril', priority: 'LOW' });
+    });
+
+    it('should filter by tag', () => {
+      const results = searchService.search({ q: 'rotate tag:infra' });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]?.type).toBe('note');
+    });
+
+    it('should skip rows with malformed tags when filtering by tag', () => {
+      getDb().prepare('UPDATE notes SET tags = ? WHERE content = ?').run('not json', 'Rotate the tyres');
+
+      expect(searchService.search({ q: 'rotate tag:infra' })).toHaveLength(1);
+      expect(searchService.search({ q: 'rotate -tag:infra' }).map(r => r.type).sort()).toEqual(['note', 'task']);
+    });
+
+    it('should filter by type and priority without text terms', () => {
+      const results = searchService.search({ q: 'type:task priority:>=HIGH' });
+
+      expect(results).toHaveLength(1);
+      expect(results[0]?.id).toMatch(/^MYTHRIL-/);
+      expect(results[0]?.score).toBe(0);
+    });
+
+    it('should exclude negated terms', () => {
+      const results = searchService.search({ q: 'rotate -tyres' });
+
+      expect(results.map(r => r.type).sort()).toEqual(['note', 'task']);
+    });
+
+    it('should combine alternatives with OR', () => {
+      const results = searchService.search({ q: 'project:garage OR docs' });
+
+      expect(results).toHaveLength(2);
+    });
+
+    it('should filter by created date', () => {
+      expect(searchService.search({ q: 'created:>2000-01-01 rotate' })).toHaveLength(3);
+      expect(searchService.search({ q: 'created:<2000-01-01 rotate' })).toHaveLength(0);
+    });
+  });
+
+  describe('semanticSearch', () => {
+    it('should produce normalized, deterministic vectors offline', async () => {
+      const provider = new HashedNgramProvider(64);
+      const [a, b] = await provider.embed(['Deploy the server', 'Deploy the server']);
+
+      expect(a).toEqual(b);
+      expect(a?.reduce((sum, v) => sum + v * v, 0)).toBeCloseTo(1);
+    });
+
+    it('should rank similar wording above unrelated content', async () => {
+      notesService.createNote({ content: 'Deploying the servers to production' });
+      notesService.createNote({ content: 'Grocery list: apples, bread' });
+      await reindexEmbeddings();
+
+      const results = await searchService.semanticSearch({ q: 'server deployment' });
+
+      expect(results[0]?.snippet).toContain('Deploying');
+      expect(results[0]?.similarity).toBeGreaterThan(0);
+    });
+
+    it('should drop vectors when the source row is deleted', async () => {
+      const note = notesService.createNote({ content: 'Temporary kubernetes note' });
+      await reindexEmbeddings();
+      notesService.deleteNote(note.id);
+
+      const results = await searchService.semanticSearch({ q: 'kubernetes' });
+
+      expect(results).toHaveLength(0);
+    });
+
+    it('should blend keyword and vector scores in hybrid mode', async () => {
+      notesService.createNote({ content: 'Kubernetes cluster upgrade runbook' });
+      tasksService.createTask({ title: 'Upgrade the cluster', project: 'infra' });
+      await reindexEmbeddings();
+
+      const results = await searchService.semanticSearch({ q: 'cluster', mode: 'hybrid' });
+
+      expect(results).toHaveLength(2);
+      expect(results.every(r => r.score > 0 && r.score <= 1)).toBe(true);
+      expect(results.some(r => r.snippet.includes('**'))).toBe(true);
+    });
+
+    it('should search natural language that is not valid query syntax as plain words', async () => {
+      notesService.createNote({ content: 'What is this cluster for?' });
+      await reindexEmbeddings();
+
+      const results = await searchService.semanticSearch({ q: 'what is "this cluster', mode: 'hybrid' });
+
+      expect(results.some(r => r.snippet.includes('**'))).toBe(true);
+    });
+  });
+
+  describe('searchWithFacets', () => {
+    beforeEach(() => {
+      notesService.createNote({ content: 'deploy notes one', project: 'mythril', tags: ['infra', 'ops'] });
+      notesService.createNote({ content: 'deploy notes two', project: 'mythril', tags: ['infra'] });
+      tasksService.createTask({ title: 'deploy service', project: 'mythril', priority: 'HIGH' });
+      tasksService.createTask({ title: 'deploy docs', project: 'website' });
+    });
+
+    it('should count facets over the full match set', () => {
+      const response = searchService.searchWithFacets({ q: 'deploy', limit: 1 });
+
+      expect(response.results).toHaveLength(1);
+      expect(response.total).toBe(4);
+      expect(response.facets.type).toEqual([
+        { value: 'note', count: 2 },
+        { value: 'task', count: 2 }
+      ]);
+      expect(response.facets.project).toEqual([
+        { value: 'mythril', count: 3 },
+        { value: 'website', count: 1 }
+      ]);
+      expect(response.facets.tag).toEqual([
+        { value: 'infra', count: 2 },
+        { value: 'ops', count: 1 }
+      ]);
+      expect(response.facets.status).toEqual([{ value: 'queued', count: 2 }]);
+      expect(response.facets.priority).toEqual([
+        { value: 'HIGH', count: 1 },
+        { value: 'NORMAL', count: 1 }
+      ]);
+    });
+
+    it('should page through all results with cursors', () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const response = searchService.searchWithFacets({ q: 'deploy', limit: 3, cursor });
+        seen.push(...response.results.map(r => r.id));
+        cursor = response.next_cursor ?? undefined;
+      } while (cursor);
+
+      expect(seen).toHaveLength(4);
+      expect(new Set(seen).size).toBe(4);
+    });
+
+    it('should page in the same order as a single page for every sort', () => {
+      for (const sort of ['relevance', 'newest', 'oldest'] as const) {
+        const all = searchService.searchWithFacets({ q: 'deploy OR tag:infra', sort, limit: 10 });
+        const paged: string[] = [];
+        let cursor: string | undefined;
+
+        do {
+          const response = searchService.searchWithFacets({ q: 'deploy OR tag:infra', sort, limit: 1, cursor });
+          paged.push(...response.results.map(r => r.id));
+          cursor = response.next_cursor ?? undefined;
+        } while (cursor);
+
+        expect(paged).toEqual(all.results.map(r => r.id));
+      }
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => searchService.searchWithFacets({ q: 'deploy', cursor: 'not-a-cursor' }))
+        .toThrow(searchService.InvalidCursorError);
+    });
+  });
+
+  describe('getSuggestions', () => {
+    beforeEach(() => {
+      notesService.createNote({ content: 'Kubernetes upgrade checklist', project: 'infra', tags: ['kubernetes'] });
+      notesService.createNote({ content: 'Kubernetes networking notes', project: 'infra' });
+      artifactsService.createArtifact({ title: 'Kubectl cheatsheet', content: 'kubectl get pods', content_type: 'markdown' });
+      tasksService.createTask({ title: 'Upgrade kube-proxy', project: 'infra' });
+    });
+
+    it('should return typed suggestions with frequencies', () => {
+      const suggestions = getSuggestions('kube', 10);
+
+      expect(suggestions[0]).toEqual({ text: 'kubernetes', kind: 'tag', count: 1 });
+      expect(suggestions).toContainEqual({ text: 'kubernetes', kind: 'term', count: 2 });
+      expect(suggestions).toContainEqual({ text: 'Kubectl cheatsheet', kind: 'title', count: 1 });
+    });
+
+    it('should match tags inside the stored JSON array', () => {
+      expect(getSuggestions('ku', 10).some(s => s.kind === 'tag')).toBe(true);
+    });
+
+    it('should suggest project names', () => {
+      expect(getSuggestions('inf')).toContainEqual({ text: 'infra', kind: 'project', count: 3 });
+    });
+
+    it('should tolerate typos in longer prefixes', () => {
+      expect(getSuggestions('kuberentes').map(s => s.text)).toContain('kubernetes');
+      expect(getSuggestions('kuv')).toHaveLength(0);
+    });
+
+    it('should complete the last word of a multi-word query', () => {
+      expect(getSuggestions('deploy netw').map(s => s.text)).toContain('networking');
+    });
+
+    it('should forget terms when their source is deleted', () => {
+      const note = notesService.createNote({ content: 'Zeppelin launch plan' });
+      expect(getSuggestions('zepp')).toHaveLength(1);
+
+      notesService.deleteNote(note.id);
+      expect(getSuggestions('zepp')).toHaveLength(0);
+    });
+  });
+});
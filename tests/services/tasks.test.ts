@@ -0,0 +1,622 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as tasksService from '../../src/services/tasks.js';
+import * as dependencyService from '../../src/services/task-dependencies.js';
+import * as outlineService from '../../src/services/task-outline.js';
+import { DependencyCycleError, TaskBlockedError } from '../../src/services/task-dependencies.js';
+import { OpenSubtasksError } from '../../src/services/task-outline.js';
+import { InvalidTransitionError, listTaskEvents } from '../../src/services/task-state.js';
+import * as sequenceService from '../../src/services/project-sequences.js';
+import { PrefixTakenError } from '../../src/services/project-sequences.js';
+import { DateParseError, addDays, parseDateInput, toLocalDate } from '../../src/utils/dates.js';
+import * as seriesService from '../../src/services/task-series.js';
+import * as claimsService from '../../src/services/task-claims.js';
+import { LeaseNotHeldError, TaskClaimedError } from '../../src/services/task-claims.js';
+import * as runsService from '../../src/services/task-runs.js';
+import { RunFinishedError, UnknownArtifactsError } from '../../src/services/task-runs.js';
+import { createArtifact } from '../../src/services/artifacts.js';
+import * as policyService from '../../src/services/task-policies.js';
+import { ApprovalNotAllowedError, PolicyViolationError } from '../../src/services/task-policies.js';
+import * as commentsService from '../../src/services/task-comments.js';
+import { CommentAuthorError } from '../../src/services/task-comments.js';
+import { RecurrenceRuleError, nextOccurrence, parseRecurrenceRule } from '../../src/utils/recurrence.js';
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+process.env['OBSIDIAN_VAULT_PATH'] = ''; // Disable vault sync in tests
+
+describe('Tasks Service', () => {
+  beforeAll(() => {
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM tasks');
+    db.exec('DELETE FROM project_sequences');
+    db.exec('DELETE FROM task_series');
+    db.exec('DELETE FROM trust_policies');
+  });
+
+  afterAll(() => {
+    closeDb();
+  });
+
+  function createTask(title: string, project: string = 'graph-test'): string {
+    return tasksService.createTask({ title, project }).id;
+  }
+
+  describe('dependencies', () => {
+    it('should list blockers and dependents', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+
+      dependencyService.addTaskDependency(build, design);
+
+      expect(dependencyService.getTaskBlockers(build).map(t => t.id)).toEqual([design]);
+      expect(dependencyService.getDependentTasks(design).map(t => t.id)).toEqual([build]);
+    });
+
+    it('should return null when either task does not exist', () => {
+      const build = createTask('Build');
+
+      expect(dependencyService.addTaskDependency(build, 'GRAPH-TEST-999')).toBeNull();
+    });
+
+    it('should reject dependencies that create a cycle', () => {
+      const a = createTask('A');
+      const b = createTask('B');
+      const c = createTask('C');
+      dependencyService.addTaskDependency(b, a);
+      dependencyService.addTaskDependency(c, b);
+
+      let error: unknown;
+      try {
+        dependencyService.addTaskDependency(a, c);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(DependencyCycleError);
+      expect((error as DependencyCycleError).cycle).toEqual([a, c, b, a]);
+      expect(dependencyService.getTaskBlockers(a)).toEqual([]);
+    });
+
+    it('should reject a task depending on itself', () => {
+      const a = createTask('A');
+
+      expect(() => dependencyService.addTaskDependency(a, a)).toThrow(DependencyCycleError);
+    });
+
+    it('should remove dependencies when a task is deleted', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+      dependencyService.addTaskDependency(build, design);
+
+      tasksService.deleteTask(design);
+
+      expect(dependencyService.getTaskBlockers(build)).toEqual([]);
+    });
+  });
+
+  describe('blocking', () => {
+    it('should refuse to activate a task with unfinished blockers', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+      dependencyService.addTaskDependency(build, design);
+
+      expect(() => tasksService.activateTask(build)).toThrow(TaskBlockedError);
+      expect(tasksService.getTaskById(build)?.status).toBe('queued');
+    });
+
+    it('should activate once blockers are completed or cancelled', () => {
+      const design = createTask('Design');
+      const review = createTask('Review');
+      const build = createTask('Build');
+      dependencyService.addTaskDependency(build, design);
+      dependencyService.addTaskDependency(build, review);
+
+      tasksService.completeTask(design);
+      tasksService.cancelTask(review);
+
+      expect(tasksService.activateTask(build)?.status).toBe('active');
+    });
+
+    it('should only return unblocked tasks from the queue', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+      dependencyService.addTaskDependency(build, design);
+
+      expect(tasksService.getQueuedTasks('graph-test').map(t => t.id)).toEqual([design]);
+
+      tasksService.completeTask(design);
+
+      expect(tasksService.getQueuedTasks('graph-test').map(t => t.id)).toEqual([build]);
+    });
+  });
+
+  describe('task graph', () => {
+    it('should return nodes, edges and mermaid text', () => {
+      const design = createTask('Design "v2"');
+      const build = createTask('Build');
+      const deploy = createTask('Deploy', 'graph-ops');
+      dependencyService.addTaskDependency(build, design);
+      dependencyService.addTaskDependency(deploy, build);
+
+      const graph = dependencyService.getTaskGraph('graph-test');
+
+      expect(graph.edges).toEqual([
+        { from: design, to: build },
+        { from: build, to: deploy }
+      ]);
+      expect(graph.nodes.find(n => n.id === build)?.blocked).toBe(true);
+      expect(graph.nodes.find(n => n.id === design)?.blocked).toBe(false);
+      expect(graph.nodes.find(n => n.id === deploy)?.external).toBe(true);
+      expect(graph.mermaid).toContain('flowchart TD');
+      expect(graph.mermaid).toContain('GRAPH_TEST_001 --> GRAPH_TEST_002');
+      expect(graph.mermaid).toContain('#quot;v2#quot;');
+    });
+  });
+
+  describe('subtasks', () => {
+    function createSubtask(parentId: string, title: string): string {
+      return tasksService.createTask({ title, project: 'ignored', parent_id: parentId }).id;
+    }
+
+    it('should number subtasks under their parent', () => {
+      const parent = createTask('Parent');
+      const first = createSubtask(parent, 'First');
+      const second = createSubtask(parent, 'Second');
+      const nested = createSubtask(first, 'Nested');
+
+      expect([first, second, nested]).toEqual([`${parent}.1`, `${parent}.2`, `${parent}.1.1`]);
+      expect(tasksService.getTaskById(first)?.project).toBe('graph-test');
+      // Subtask IDs do not advance the project sequence
+      expect(createTask('Next')).toBe('GRAPH-TEST-002');
+    });
+
+    it('should roll progress up from subtasks and checklist items', () => {
+      const parent = createTask('Parent');
+      const first = createSubtask(parent, 'First');
+      const second = createSubtask(parent, 'Second');
+      const item = outlineService.addChecklistItem(second, 'Step one');
+      outlineService.addChecklistItem(second, 'Step two');
+
+      tasksService.completeTask(first);
+      outlineService.updateChecklistItem(second, item?.id as number, { checked: true });
+
+      const tree = outlineService.getTaskTree(parent);
+
+      expect(tree?.subtasks.map(t => t.id)).toEqual([first, second]);
+      expect(tree?.subtasks[1]?.progress.percent).toBe(50);
+      expect(tree?.progress).toEqual({
+        subtasks_total: 2,
+        subtasks_completed: 1,
+        checklist_total: 0,
+        checklist_checked: 0,
+        percent: 75
+      });
+    });
+
+    it('should require force to complete a parent with open subtasks', () => {
+      const parent = createTask('Parent');
+      const child = createSubtask(parent, 'Child');
+
+      expect(() => tasksService.completeTask(parent)).toThrow(OpenSubtasksError);
+
+      expect(tasksService.completeTask(parent, { force: true })?.status).toBe('completed');
+      expect(tasksService.getTaskById(child)?.status).toBe('queued');
+    });
+
+    it('should delete subtasks and their checklists with the parent', () => {
+      const parent = createTask('Parent');
+      const child = createSubtask(parent, 'Child');
+      const grandchild = createSubtask(child, 'Grandchild');
+      outlineService.addChecklistItem(grandchild, 'Step');
+
+      tasksService.deleteTask(parent);
+
+      expect(tasksService.getTaskById(grandchild)).toBeNull();
+      const remaining = getDb().prepare('SELECT COUNT(*) as count FROM task_checklist_items').get() as { count: number };
+      expect(remaining.count).toBe(0);
+    });
+  });
+
+  describe('checklists', () => {
+    it('should keep items in order and track when they were checked', () => {
+      const task = createTask('Task');
+      const first = outlineService.addChecklistItem(task, 'First');
+      outlineService.addChecklistItem(task, 'Second');
+
+      const checked = outlineService.updateChecklistItem(task, first?.id as number, { checked: true });
+
+      expect(checked?.checked).toBe(true);
+      expect(checked?.checked_at).not.toBeNull();
+      expect(outlineService.getTaskTree(task)?.checklist.map(i => i.text)).toEqual(['First', 'Second']);
+    });
+
+    it('should not touch items that belong to another task', () => {
+      const task = createTask('Task');
+      const other = createTask('Other');
+      const item = outlineService.addChecklistItem(task, 'Mine');
+
+      expect(outlineService.updateChecklistItem(other, item?.id as number, { checked: true })).toBeNull();
+      expect(outlineService.removeChecklistItem(other, item?.id as number)).toBe(false);
+    });
+  });
+
+  describe('state machine', () => {
+    it('should refuse transitions out of finished states', () => {
+      const cancelled = createTask('Cancelled');
+      const completed = createTask('Completed');
+      tasksService.cancelTask(cancelled);
+      tasksService.completeTask(completed);
+
+      expect(() => tasksService.completeTask(cancelled)).toThrow(InvalidTransitionError);
+      expect(() => tasksService.cancelTask(completed)).toThrow(InvalidTransitionError);
+      expect(() => tasksService.activateTask(completed)).toThrow(InvalidTransitionError);
+    });
+
+    it('should list the allowed actions when refusing a transition', () => {
+      const task = createTask('Task');
+      tasksService.completeTask(task);
+
+      try {
+        tasksService.transitionTask(task, 'review');
+        expect.unreachable();
+      } catch (error) {
+        expect((error as InvalidTransitionError).allowed).toEqual(['reopen']);
+      }
+    });
+
+    it('should reopen a completed task into the queue', () => {
+      const task = createTask('Task');
+      tasksService.completeTask(task);
+
+      const reopened = tasksService.reopenTask(task, { reason: 'Regression found' });
+
+      expect(reopened?.status).toBe('queued');
+      expect(reopened?.completed_at).toBeNull();
+    });
+
+    it('should move through blocked and review', () => {
+      const task = createTask('Task');
+
+      expect(tasksService.transitionTask(task, 'block')?.status).toBe('blocked');
+      expect(tasksService.getQueuedTasks('graph-test')).toEqual([]);
+      expect(tasksService.transitionTask(task, 'unblock')?.status).toBe('queued');
+      tasksService.activateTask(task);
+      expect(tasksService.transitionTask(task, 'review')?.status).toBe('review');
+      expect(tasksService.completeTask(task)?.status).toBe('completed');
+    });
+
+    it('should record every transition with actor and reason', () => {
+      const first = tasksService.createTask({ title: 'First', project: 'graph-test' }, 'key_a').id;
+      const second = createTask('Second');
+
+      tasksService.activateTask(first, { actorKeyId: 'key_a' });
+      tasksService.activateTask(second, { actorKeyId: 'key_b', reason: 'Urgent' });
+
+      expect(listTaskEvents(first).map(e => [e.action, e.from_status, e.to_status, e.actor_key_id])).toEqual([
+        ['create', null, 'queued', 'key_a'],
+        ['activate', 'queued', 'active', 'key_a'],
+        ['requeue', 'active', 'queued', 'key_b']
+      ]);
+      expect(listTaskEvents(second).at(-1)?.reason).toBe('Urgent');
+    });
+  });
+
+  describe('sequences', () => {
+    it('should give projects sharing their first 10 characters separate prefixes', () => {
+      const a = createTask('A', 'infrastructure-a');
+      const b = createTask('B', 'infrastructure-b');
+      const a2 = createTask('A2', 'infrastructure-a');
+
+      expect([a, b, a2]).toEqual(['INFRASTRUC-001', 'INFRASTRUCTURE-B-001', 'INFRASTRUC-002']);
+    });
+
+    it('should not reuse numbers after the latest task is deleted', () => {
+      createTask('First');
+      const second = createTask('Second');
+      tasksService.deleteTask(second);
+
+      expect(createTask('Third')).toBe('GRAPH-TEST-003');
+    });
+
+    it('should use a configured prefix for new tasks', () => {
+      createTask('Before');
+      sequenceService.setProjectPrefix('graph-test', 'GT');
+
+      expect(createTask('After')).toBe('GT-001');
+      expect(sequenceService.getProjectSequence('graph-test')?.next_value).toBe(2);
+    });
+
+    it('should refuse a prefix used by another project', () => {
+      createTask('Ops', 'graph-ops');
+
+      expect(() => sequenceService.setProjectPrefix('graph-test', 'GRAPH-OPS')).toThrow(PrefixTakenError);
+    });
+
+    it('should continue after IDs already issued under a reused prefix', () => {
+      createTask('One', 'graph-ops');
+      createTask('Two', 'graph-ops');
+      sequenceService.setProjectPrefix('graph-ops', 'OPS');
+
+      sequenceService.setProjectPrefix('graph-test', 'GRAPH-OPS');
+
+      expect(createTask('Three')).toBe('GRAPH-OPS-003');
+    });
+  });
+
+  describe('dates', () => {
+    // Wednesday 2026-10-14, 23:30 in UTC but already Thursday in Tokyo
+    const now = new Date('2026-10-14T23:30:00Z');
+
+    it('should parse ISO and natural-language dates in a timezone', () => {
+      expect(parseDateInput('2026-11-02', 'UTC', now)).toBe('2026-11-02');
+      expect(parseDateInput('tomorrow', 'UTC', now)).toBe('2026-10-15');
+      expect(parseDateInput('tomorrow', 'Asia/Tokyo', now)).toBe('2026-10-16');
+      expect(parseDateInput('in 3 days', 'UTC', now)).toBe('2026-10-17');
+      expect(parseDateInput('fri', 'UTC', now)).toBe('2026-10-16');
+      expect(parseDateInput('next wed', 'UTC', now)).toBe('2026-10-21');
+      expect(parseDateInput('next week', 'UTC', now)).toBe('2026-10-19');
+      expect(() => parseDateInput('2026-02-30', 'UTC', now)).toThrow(DateParseError);
+      expect(() => parseDateInput('someday', 'UTC', now)).toThrow(DateParseError);
+    });
+
+    it('should filter by due date and overdue', () => {
+      const today = toLocalDate(new Date(), 'UTC');
+      const late = tasksService.createTask({ title: 'Late', project: 'graph-test', due_at: 'yesterday' }).id;
+      const soon = tasksService.createTask({ title: 'Soon', project: 'graph-test', due_at: 'in 5 days' }).id;
+      const done = tasksService.createTask({ title: 'Done', project: 'graph-test', due_at: addDays(today, -3) }).id;
+      tasksService.completeTask(done);
+
+      expect(tasksService.listTasks({ overdue: true }).data.map(task => task.id)).toEqual([late]);
+      expect(tasksService.listTasks({ due_before: addDays(today, 5) }).data.map(task => task.id))
+        .toEqual([done, late, soon]);
+    });
+
+    it('should group open tasks into an agenda', () => {
+      const today = toLocalDate(new Date(), 'UTC');
+      const overdue = tasksService.createTask({ title: 'Overdue', project: 'graph-test', due_at: 'yesterday' }).id;
+      const due = tasksService.createTask({ title: 'Due', project: 'graph-test', due_at: 'today' }).id;
+      const scheduled = tasksService.createTask({ title: 'Planned', project: 'graph-test', scheduled_for: 'today' }).id;
+      createTask('Undated');
+
+      const agenda = tasksService.getAgenda('graph-test');
+
+      expect(agenda.date).toBe(today);
+      expect(agenda.overdue.map(task => task.id)).toEqual([overdue]);
+      expect(agenda.today.map(task => task.id).sort()).toEqual([due, scheduled].sort());
+    });
+
+    it('should update and clear a schedule', () => {
+      const id = createTask('Reschedule');
+
+      expect(tasksService.updateTaskSchedule(id, { due_at: '2026-12-24' })?.due_at).toBe('2026-12-24');
+      expect(tasksService.updateTaskSchedule(id, { due_at: null })?.due_at).toBeNull();
+      expect(() => tasksService.updateTaskSchedule(id, { scheduled_for: 'whenever' })).toThrow(DateParseError);
+    });
+  });
+
+  describe('recurrence', () => {
+    it('should compute occurrences for the supported rules', () => {
+      // 2026-10-14 is a Wednesday
+      const fortnightly = parseRecurrenceRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO');
+      expect(nextOccurrence(fortnightly, '2026-10-14', '2026-10-13')).toBe('2026-10-15');
+      expect(nextOccurrence(fortnightly, '2026-10-14', '2026-10-15')).toBe('2026-10-26');
+      expect(nextOccurrence(fortnightly, '2026-10-14', '2026-10-26')).toBe('2026-10-29');
+
+      const monthly = parseRecurrenceRule('FREQ=MONTHLY');
+      expect(nextOccurrence(monthly, '2026-01-31', '2026-01-31')).toBe('2026-02-28');
+      expect(nextOccurrence(monthly, '2026-01-31', '2026-02-28')).toBe('2026-03-31');
+
+      const daily = parseRecurrenceRule('FREQ=DAILY;INTERVAL=3;UNTIL=20261019');
+      expect(nextOccurrence(daily, '2026-10-14', '2026-10-14')).toBe('2026-10-17');
+      expect(nextOccurrence(daily, '2026-10-14', '2026-10-17')).toBeNull();
+
+      expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow(RecurrenceRuleError);
+      expect(() => parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO')).toThrow(RecurrenceRuleError);
+    });
+
+    it('should spawn the next occurrence when a recurring task is completed', () => {
+      const today = toLocalDate(new Date(), 'UTC');
+      const first = tasksService.createTask({ title: 'Rotate keys', project: 'graph-test', recurrence: 'FREQ=DAILY' });
+
+      expect(first.due_at).toBe(today);
+      expect(first.series_id).not.toBeNull();
+
+      tasksService.completeTask(first.id);
+      const occurrences = seriesService.getSeriesOccurrences(first.series_id as string);
+
+      expect(occurrences.map(task => task.id)).toEqual(['GRAPH-TEST-001', 'GRAPH-TEST-002']);
+      expect(occurrences[1]?.due_at).toBe(addDays(today, 1));
+      expect(occurrences[1]?.status).toBe('queued');
+    });
+
+    it('should materialize upcoming occurrences once', () => {
+      const first = tasksService.createTask({ title: 'Standup', project: 'graph-test', recurrence: 'FREQ=DAILY' });
+
+      expect(tasksService.materializeSeries(2)).toHaveLength(2);
+      expect(tasksService.materializeSeries(2)).toHaveLength(0);
+
+      seriesService.updateSeries(first.series_id as string, { paused: true });
+      expect(tasksService.materializeSeries(5)).toHaveLength(0);
+    });
+  });
+
+  describe('claims', () => {
+    it('should let several holders work on a project in parallel', () => {
+      const first = createTask('First');
+      const second = createTask('Second');
+
+      const claim = claimsService.claimTask(first, 'key-1', { worker: 'CC-1' });
+      claimsService.claimTask(second, 'key-1', { worker: 'CC-2' });
+
+      expect(claim?.task.status).toBe('active');
+      expect(claim?.lease.worker).toBe('CC-1');
+      expect(tasksService.getTaskById(first)?.status).toBe('active');
+      expect(tasksService.getTaskById(second)?.status).toBe('active');
+      expect(() => claimsService.claimTask(first, 'key-1', { worker: 'CC-2' })).toThrow(TaskClaimedError);
+      expect(claimsService.claimTask(first, 'key-1', { worker: 'CC-1' })?.lease.claimed_at)
+        .toBe(claim?.lease.claimed_at);
+    });
+
+    it('should claim the highest-priority unblocked task next', () => {
+      const low = tasksService.createTask({ title: 'Low', project: 'graph-test', priority: 'LOW' }).id;
+      const blocker = tasksService.createTask({ title: 'Blocker', project: 'graph-test', priority: 'HIGH' }).id;
+      const waiting = tasksService.createTask({ title: 'Waiting', project: 'graph-test', priority: 'CRITICAL' }).id;
+      dependencyService.addTaskDependency(waiting, blocker);
+
+      expect(claimsService.claimNextTask('graph-test', 'key-1')?.task.id).toBe(blocker);
+      expect(claimsService.claimNextTask('graph-test', 'key-1')?.task.id).toBe(low);
+      expect(claimsService.claimNextTask('graph-test', 'key-1')).toBeNull();
+    });
+
+    it('should requeue tasks whose lease expired', () => {
+      const id = createTask('Abandoned');
+      claimsService.claimTask(id, 'key-1', { ttlSeconds: 10 });
+
+      expect(() => claimsService.heartbeatTask(id, 'key-2')).toThrow(LeaseNotHeldError);
+
+      const requeued = claimsService.reapExpiredLeases(new Date(Date.now() + 11000));
+
+      expect(requeued.map(task => task.id)).toEqual([id]);
+      expect(tasksService.getTaskById(id)?.status).toBe('queued');
+      expect(claimsService.getLease(id)).toBeNull();
+      expect(listTaskEvents(id).at(-1)?.reason).toBe('Lease expired');
+    });
+  });
+
+  describe('runs', () => {
+    it('should record a run and finish it with a log, ref and artifacts', () => {
+      const id = createTask('Build');
+      const artifact = createArtifact({ title: 'Build output', content: 'ok', content_type: 'markdown' });
+
+      const started = runsService.recordRun(id, { worker: 'CC-1', ref: 'feat/runs' });
+      const runId = started?.run.id ?? 0;
+
+      expect(started?.run.outcome).toBeNull();
+      expect(() => runsService.recordRun(id, { artifact_ids: ['artifact_missing'] })).toThrow(UnknownArtifactsError);
+
+      const finished = runsService.updateRun(id, runId, {
+        outcome: 'failed',
+        log_excerpt: 'x'.repeat(30000),
+        artifact_ids: [artifact.id]
+      });
+
+      expect(finished?.run.ended_at).not.toBeNull();
+      expect(finished?.run.log_excerpt?.length).toBe(20000);
+      expect(finished?.run.artifact_ids).toEqual([artifact.id]);
+      expect(finished?.task.status).toBe('queued');
+      expect(() => runsService.updateRun(id, runId, { outcome: 'success' })).toThrow(RunFinishedError);
+      expect(outlineService.getTaskTree(id)?.runs.map(run => run.ref)).toEqual(['feat/runs']);
+    });
+
+    it('should complete the task when its latest run succeeds', () => {
+      const id = createTask('Deploy');
+      const older = runsService.recordRun(id, { started_at: '2026-10-01T10:00:00.000Z' });
+      runsService.recordRun(id, { outcome: 'failed', started_at: '2026-10-02T10:00:00.000Z' });
+
+      const stale = runsService.updateRun(id, older?.run.id ?? 0, { outcome: 'success', complete_task: true });
+
+      expect(stale?.task.status).toBe('queued');
+      expect(stale?.warnings).toHaveLength(1);
+
+      const latest = runsService.recordRun(id, { outcome: 'success', complete_task: true });
+
+      expect(latest?.task.status).toBe('completed');
+      expect(latest?.warnings).toEqual([]);
+      expect(listTaskEvents(id).at(-1)?.reason).toBe(`Run ${latest?.run.id} succeeded`);
+    });
+  });
+
+  describe('trust policies', () => {
+    it('should require review and another key\'s approval for MATURE tasks', () => {
+      const id = tasksService.createTask({ title: 'Migrate', project: 'graph-test', trust_level: 'MATURE' }).id;
+      policyService.setTrustPolicy('graph-test', 'MATURE', { require_review: true, required_approvals: 1 });
+
+      expect(() => policyService.approveTask(id, 'key-2')).toThrow(ApprovalNotAllowedError);
+
+      try {
+        tasksService.completeTask(id, { actorKeyId: 'key-1' });
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(PolicyViolationError);
+        expect((error as PolicyViolationError).violations.map(v => v.rule))
+          .toEqual(['require_review', 'required_approvals']);
+      }
+
+      tasksService.activateTask(id);
+      tasksService.transitionTask(id, 'review');
+      policyService.approveTask(id, 'key-1');
+
+      expect(() => tasksService.completeTask(id, { actorKeyId: 'key-1' })).toThrow(PolicyViolationError);
+
+      policyService.approveTask(id, 'key-2', 'Looks good');
+
+      expect(tasksService.completeTask(id, { actorKeyId: 'key-1' })?.status).toBe('completed');
+
+      tasksService.reopenTask(id);
+
+      expect(policyService.listApprovals(id)).toEqual([]);
+    });
+
+    it('should let only the claiming key complete PROTOTYPE tasks', () => {
+      const id = createTask('Spike');
+      policyService.setTrustPolicy('graph-test', 'PROTOTYPE', { claimant_only: true });
+      claimsService.claimTask(id, 'key-1');
+
+      expect(() => tasksService.completeTask(id, { actorKeyId: 'key-2' })).toThrow(PolicyViolationError);
+      expect(tasksService.completeTask(id, { actorKeyId: 'key-1' })?.status).toBe('completed');
+    });
+
+    it('should archive finished THROWAWAY tasks after the configured days', () => {
+      const id = tasksService.createTask({ title: 'Scratch', project: 'graph-test', trust_level: 'THROWAWAY' }).id;
+      const open = tasksService.createTask({ title: 'Open', project: 'graph-test', trust_level: 'THROWAWAY' }).id;
+      policyService.setTrustPolicy('graph-test', 'THROWAWAY', { archive_after_days: 3 });
+      tasksService.completeTask(id);
+
+      expect(policyService.archiveTasks(new Date(Date.now() + 2 * 86400000))).toEqual([]);
+      expect(policyService.archiveTasks(new Date(Date.now() + 4 * 86400000)).map(task => task.id)).toEqual([id]);
+      expect(tasksService.listTasks({ project: 'graph-test' }).data.map(task => task.id)).toEqual([open]);
+      expect(tasksService.listTasks({ project: 'graph-test', archived: 'only' }).data.map(task => task.id)).toEqual([id]);
+
+      tasksService.reopenTask(id);
+
+      expect(tasksService.getTaskById(id)?.archived_at).toBeNull();
+    });
+  });
+
+  describe('comments', () => {
+    it('should link the tasks a comment mentions', () => {
+      const design = createTask('Design');
+      const build = createTask('Build');
+
+      const comment = commentsService.addComment(build, `Follows ${design}; see also GRAPH-TEST-999 and ${build}`, {
+        authorKeyId: 'key-1',
+        source: 'CC-1'
+      });
+
+      expect(comment?.mentions).toEqual([design]);
+      expect(outlineService.getTaskTree(design)?.mentioned_in.map(mention => mention.task_id)).toEqual([build]);
+
+      commentsService.updateComment(build, comment?.id ?? 0, 'No longer related', 'key-1');
+
+      expect(outlineService.getTaskTree(design)?.mentioned_in).toEqual([]);
+      expect(commentsService.listComments(build)[0]?.updated_at).not.toBeNull();
+    });
+
+    it('should only let the author edit or delete a comment', () => {
+      const id = createTask('Discuss');
+      const comment = commentsService.addComment(id, 'First thoughts', { authorKeyId: 'key-1' });
+      const commentId = comment?.id ?? 0;
+
+      expect(() => commentsService.updateComment(id, commentId, 'Hijacked', 'key-2')).toThrow(CommentAuthorError);
+      expect(() => commentsService.deleteComment(id, commentId, 'key-2')).toThrow(CommentAuthorError);
+      expect(commentsService.deleteComment(id, commentId, 'key-1')).toBe(true);
+      expect(outlineService.getTaskTree(id)?.comments).toEqual([]);
+    });
+  });
+});
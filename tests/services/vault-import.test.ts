@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as importService from '../../src/services/vault-import.js';
+import { VaultConflictResolvedError, VaultImportError } from '../../src/services/vault-import.js';
+import * as conflictService from '../../src/services/vault-conflicts.js';
+import { processVaultSyncQueue } from '../../src/services/vault-sync-worker.js';
+import * as notesService from '../../src/services/notes.js';
+import * as tasksService from '../../src/services/tasks.js';
+import * as outlineService from '../../src/services/task-outline.js';
+import { parseFrontmatter } from '../../src/utils/frontmatter.js';
+
+// Config is read on import, so the vault path has to be set first
+const vaultPath = vi.hoisted(() => {
+  process.env['OBSIDIAN_VAULT_PATH'] = 'data/test-vault';
+  return 'data/test-vault';
+});
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Vault Import Service', () => {
+  const brain = path.join(vaultPath, 'brain');
+
+  beforeAll(() => {
+    fs.mkdirSync(vaultPath, { recursive: true });
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM tasks');
+    db.exec('DELETE FROM project_sequences');
+    db.exec('DELETE FROM vault_conflicts');
+    db.exec('DELETE FROM vault_sync_outbox');
+    fs.rmSync(brain, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  function edit(relative: string, change: (text: string) => string): void {
+    const file = path.join(brain, relative);
+    fs.writeFileSync(file, change(fs.readFileSync(file, 'utf-8')), 'utf-8');
+  }
+
+  it('should parse frontmatter fields and body', () => {
+    const { data, body } = parseFrontmatter('---\nid: note_1\ntitle: "Say \\"hi\\""\n---\n\nHello\n');
+
+    expect(data).toEqual({ id: 'note_1', title: 'Say "hi"' });
+    expect(body).toBe('\nHello\n');
+    expect(parseFrontmatter('Just text').data).toEqual({});
+  });
+
+  it('should skip files that still hold what was synced', () => {
+    const note = notesService.createNote({ content: 'Synced', project: 'vault-test' });
+    processVaultSyncQueue();
+
+    const result = importService.importVault();
+
+    expect(result.items).toEqual([
+      { path: `notes/${note.id}.md`, type: 'note', id: note.id, action: 'unchanged', warnings: [] }
+    ]);
+  });
+
+  it('should apply note edits and create notes from new files', () => {
+    const note = notesService.createNote({ content: 'Original', project: 'vault-test', tags: ['a'] });
+    processVaultSyncQueue();
+    edit(`notes/${note.id}.md`, text => text.replace('Original', 'Edited in Obsidian'));
+    fs.writeFileSync(path.join(brain, 'notes', 'Idea.md'), '---\nproject: vault-test\n---\n\nA new idea\n', 'utf-8');
+
+    const result = importService.importVault();
+    const created = result.items.find(item => item.action === 'created');
+
+    expect(result.updated).toBe(1);
+    expect(notesService.getNoteById(note.id)?.content).toBe('Edited in Obsidian');
+    expect(notesService.getNoteById(note.id)?.tags).toBe('["a"]');
+    expect(notesService.getNoteById(created?.id ?? '')?.content).toBe('A new idea');
+    expect(fs.existsSync(path.join(brain, 'notes', 'Idea.md'))).toBe(false);
+  });
+
+  it('should complete a task ticked in the vault and apply checklist edits', () => {
+    const task = tasksService.createTask({ title: 'Ship it', project: 'vault-test' });
+    outlineService.addChecklistItem(task.id, 'Write changelog');
+    outlineService.addChecklistItem(task.id, 'Tag release');
+    processVaultSyncQueue();
+
+    edit(`tasks/${task.id}.md`, text => text
+      .replace('# [ ] Ship it', '# [x] Ship it')
+      .replace('- [ ] Write changelog', '- [x] Write changelog')
+      .replace('- [ ] Tag release', '- [x] Tag release\n- [ ] Announce'));
+
+    const [item] = importService.importVault([`tasks/${task.id}.md`]).items;
+    const tree = outlineService.getTaskTree(task.id);
+
+    expect(item?.action).toBe('updated');
+    expect(item?.warnings).toEqual([]);
+    expect(tree?.status).toBe('completed');
+    expect(tree?.checklist.map(entry => [entry.text, entry.checked])).toEqual([
+      ['Write changelog', true],
+      ['Tag release', true],
+      ['Announce', false]
+    ]);
+  });
+
+  it('should send a task in review back to the queue when it is unticked in the vault', () => {
+    const task = tasksService.createTask({ title: 'Review me', project: 'vault-test' });
+    tasksService.transitionTask(task.id, 'activate');
+    tasksService.transitionTask(task.id, 'review');
+    processVaultSyncQueue();
+
+    edit(`tasks/${task.id}.md`, text => text.replace('# [?] Review me', '# [ ] Review me'));
+
+    const [item] = importService.importVault([`tasks/${task.id}.md`]).items;
+
+    expect(item?.warnings).toEqual([]);
+    expect(tasksService.getTaskById(task.id)?.status).toBe('queued');
+  });
+
+  it('should create tasks from new files and refuse paths outside the vault folders', () => {
+    fs.mkdirSync(path.join(brain, 'tasks'), { recursive: true });
+    fs.writeFileSync(
+      path.join(brain, 'tasks', 'Follow up.md'),
+      '---\nproject: vault-test\npriority: HIGH\n---\n\n# [ ] Follow up\n\nCall back about the release\n',
+      'utf-8'
+    );
+
+    const [item] = importService.importVault(['tasks/Follow up.md']).items;
+    const task = tasksService.getTaskById(item?.id ?? '');
+
+    expect(item?.action).toBe('created');
+    expect(task?.priority).toBe('HIGH');
+    expect(task?.description).toBe('Call back about the release');
+    expect(() => importService.importVault(['../secrets.md'])).toThrow(VaultImportError);
+  });
+  it('should stamp synced files with a content hash and sync time', () => {
+    const note = notesService.createNote({ content: 'Stamped', project: 'vault-test' });
+    processVaultSyncQueue();
+    const { data } = parseFrontmatter(fs.readFileSync(path.join(brain, 'notes', `${note.id}.md`), 'utf-8'));
+
+    expect(data['content_hash']).toMatch(/^[0-9a-f]{64}$/);
+    expect(data['synced_at']).toBeTruthy();
+  });
+
+  it('should record a conflict instead of overwriting a file changed on both sides', () => {
+    const note = notesService.createNote({ content: 'Original', project: 'vault-test' });
+    processVaultSyncQueue();
+    const file = path.join(brain, 'notes', `${note.id}.md`);
+    edit(`notes/${note.id}.md`, text => text.replace('Original', 'Vault version'));
+
+    notesService.updateNote(note.id, { content: 'Database version' });
+    processVaultSyncQueue();
+
+    const [conflict] = conflictService.listConflicts();
+    expect(conflict).toMatchObject({ path: `notes/${note.id}.md`, entity_type: 'note', entity_id: note.id });
+    expect(conflict?.db_content).toContain('Database version');
+    expect(conflict?.vault_content).toContain('Vault version');
+    expect(fs.readFileSync(file, 'utf-8')).toContain('Vault version');
+    expect(importService.importVault().items[0]?.action).toBe('conflict');
+
+    const result = importService.resolveConflict(conflict?.id ?? 0, 'keep-vault');
+
+    expect(result?.conflict.resolution).toBe('keep-vault');
+    expect(notesService.getNoteById(note.id)?.content).toBe('Vault version');
+    expect(importService.importVault().items[0]?.action).toBe('unchanged');
+    expect(() => importService.resolveConflict(conflict?.id ?? 0, 'keep-db')).toThrow(VaultConflictResolvedError);
+  });
+
+  it('should leave vault-only edits for the importer and resolve with the database or merged content', () => {
+    const task = tasksService.createTask({ title: 'Review docs', project: 'vault-test' });
+    processVaultSyncQueue();
+    const file = path.join(brain, 'tasks', `${task.id}.md`);
+    edit(`tasks/${task.id}.md`, text => text.replace('# [ ] Review docs', '# [ ] Review the docs'));
+
+    // Syncing an unchanged task keeps the vault edit and is not a conflict
+    outlineService.syncTaskTree(task.id);
+    expect(fs.readFileSync(file, 'utf-8')).toContain('Review the docs');
+    expect(conflictService.listConflicts()).toEqual([]);
+
+    tasksService.updateTaskDetails(task.id, { priority: 'HIGH' });
+    processVaultSyncQueue();
+    const [conflict] = conflictService.listConflicts();
+    importService.resolveConflict(conflict?.id ?? 0, 'keep-db');
+
+    expect(fs.readFileSync(file, 'utf-8')).toContain('# [ ] Review docs');
+    expect(tasksService.getTaskById(task.id)?.title).toBe('Review docs');
+
+    edit(`tasks/${task.id}.md`, text => text.replace('Review docs', 'Review all docs'));
+    tasksService.updateTaskDetails(task.id, { priority: 'LOW' });
+    processVaultSyncQueue();
+    const [merge] = conflictService.listConflicts();
+    const merged = merge?.db_content.replace('Review docs', 'Review all docs') ?? '';
+    importService.resolveConflict(merge?.id ?? 0, 'merged', merged);
+
+    expect(tasksService.getTaskById(task.id)).toMatchObject({ title: 'Review all docs', priority: 'LOW' });
+    expect(conflictService.listConflicts('resolved').map(entry => entry.resolution)).toEqual(['merged', 'keep-db']);
+  });
+});
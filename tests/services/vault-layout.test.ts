@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { processVaultSyncQueue } from '../../src/services/vault-sync-worker.js';
+import { queueVaultLayoutMoves, validateVaultLayout, VaultLayoutError } from '../../src/services/vault-layout.js';
+import { config } from '../../src/config.js';
+import { importVault } from '../../src/services/vault-import.js';
+import { renderTemplate, TemplateError } from '../../src/utils/template.js';
+import * as notesService from '../../src/services/notes.js';
+import * as tasksService from '../../src/services/tasks.js';
+
+// Config is read on import, so the vault path and patterns have to be set first
+const vaultPath = vi.hoisted(() => {
+  process.env['OBSIDIAN_VAULT_PATH'] = 'data/test-vault-layout';
+  process.env['VAULT_TASK_PATH'] = 'brain/{project}/tasks/{id} - {slug}.md';
+  return 'data/test-vault-layout';
+});
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Vault Layout', () => {
+  const brain = path.join(vaultPath, 'brain');
+
+  beforeAll(() => {
+    fs.mkdirSync(vaultPath, { recursive: true });
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM tasks');
+    db.exec('DELETE FROM project_sequences');
+    db.exec('DELETE FROM vault_sync_outbox');
+    db.exec('DELETE FROM vault_files');
+    fs.rmSync(brain, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('should write files where the path pattern puts them and move them when their fields change', () => {
+    const task = tasksService.createTask({ title: 'Write the docs', project: 'vault-test' });
+    processVaultSyncQueue();
+
+    const first = path.join(brain, 'vault-test', 'tasks', `${task.id} - write-the-docs.md`);
+    expect(fs.readFileSync(first, 'utf-8')).toContain('# [ ] Write the docs');
+
+    tasksService.updateTaskDetails(task.id, { title: 'Publish the docs' });
+    processVaultSyncQueue();
+
+    expect(fs.existsSync(first)).toBe(false);
+    expect(fs.readFileSync(path.join(brain, 'vault-test', 'tasks', `${task.id} - publish-the-docs.md`), 'utf-8'))
+      .toContain('# [ ] Publish the docs');
+  });
+
+  it('should move files synced under an earlier layout', () => {
+    const task = tasksService.createTask({ title: 'Old layout', project: 'vault-test' });
+    processVaultSyncQueue();
+    const current = path.join(brain, 'vault-test', 'tasks', `${task.id} - old-layout.md`);
+
+    // As synced before the pattern changed
+    fs.mkdirSync(path.join(brain, 'tasks'), { recursive: true });
+    fs.renameSync(current, path.join(brain, 'tasks', `${task.id}.md`));
+    getDb().prepare('UPDATE vault_files SET path = ? WHERE entity_id = ?').run(`tasks/${task.id}.md`, task.id);
+
+    expect(queueVaultLayoutMoves()).toBe(1);
+    processVaultSyncQueue();
+
+    expect(fs.existsSync(path.join(brain, 'tasks', `${task.id}.md`))).toBe(false);
+    expect(fs.readFileSync(current, 'utf-8')).toContain('Old layout');
+    expect(queueVaultLayoutMoves()).toBe(0);
+  });
+
+  it('should reject patterns that can put two types in the same folder', () => {
+    const notePath = config.vaultNotePath;
+    try {
+      // A project named notes would get its tasks in brain/notes/tasks
+      config.vaultNotePath = 'brain/notes/tasks/{id}.md';
+      expect(() => validateVaultLayout()).toThrow(VaultLayoutError);
+
+      config.vaultNotePath = 'brain/{project}/notes/{id}.md';
+      expect(() => validateVaultLayout()).not.toThrow();
+      config.vaultNotePath = 'brain/{id}.md';
+      expect(() => validateVaultLayout()).not.toThrow();
+    } finally {
+      config.vaultNotePath = notePath;
+    }
+  });
+
+  it('should render files from the templates in the vault and import only their frontmatter', () => {
+    fs.mkdirSync(path.join(brain, '_templates'), { recursive: true });
+    fs.writeFileSync(
+      path.join(brain, '_templates', 'note.md'),
+      '---\nid: {{id}}\ntags: {{tags}}\n---\n\n{{#if project}}\nProject: [[{{project}}]]\n{{/if}}\n{{content}}\n',
+      'utf-8'
+    );
+
+    const note = notesService.createNote({ content: 'Templated', project: 'vault-test', tags: ['a', 'b'] });
+    processVaultSyncQueue();
+    const file = path.join(brain, 'notes', `${note.id}.md`);
+    const text = fs.readFileSync(file, 'utf-8');
+
+    expect(text).toMatch(/^---\nid: \S+\ntags: a, b\ncontent_hash: /);
+    expect(text).toContain('\n\nProject: [[vault-test]]\nTemplated\n');
+
+    fs.writeFileSync(file, text.replace('tags: a, b', 'tags: c').replace('Templated', 'Rewritten'), 'utf-8');
+    expect(importVault().updated).toBe(1);
+
+    const updated = notesService.getNoteById(note.id);
+    expect(JSON.parse(updated?.tags ?? '[]')).toEqual(['c']);
+    expect(updated?.content).toBe('Templated');
+  });
+
+  it('should render template blocks and reject templates that do not parse', () => {
+    const template = '{{#each items}}\n- {{name}}{{#if done}} (done){{/if}}\n{{else}}\nNothing\n{{/each}}\n';
+
+    expect(renderTemplate(template, { items: [{ name: 'One', done: true }, { name: 'Two' }] })).toBe('- One (done)\n- Two\n');
+    expect(renderTemplate(template, { items: [] })).toBe('Nothing\n');
+    expect(() => renderTemplate('{{#if open}}never closed', {})).toThrow(TemplateError);
+    expect(() => renderTemplate('{{#with x}}{{/with}}', {})).toThrow(TemplateError);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import * as reconcileService from '../../src/services/vault-reconcile.js';
+import { processVaultSyncQueue } from '../../src/services/vault-sync-worker.js';
+import * as notesService from '../../src/services/notes.js';
+import * as tasksService from '../../src/services/tasks.js';
+
+// Config is read on import, so the vault path has to be set first
+const vaultPath = vi.hoisted(() => {
+  process.env['OBSIDIAN_VAULT_PATH'] = 'data/test-vault-reconcile';
+  return 'data/test-vault-reconcile';
+});
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Vault Reconcile Service', () => {
+  const brain = path.join(vaultPath, 'brain');
+
+  beforeAll(() => {
+    fs.mkdirSync(vaultPath, { recursive: true });
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM artifacts');
+    db.exec('DELETE FROM tasks');
+    db.exec('DELETE FROM project_sequences');
+    db.exec('DELETE FROM vault_conflicts');
+    db.exec('DELETE FROM vault_sync_outbox');
+    fs.rmSync(brain, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('should plan missing, stale and orphaned files without touching disk in a dry run', () => {
+    const missing = notesService.createNote({ content: 'Never written', project: 'vault-test' });
+    const stale = notesService.createNote({ content: 'Old', project: 'vault-test' });
+    processVaultSyncQueue();
+    fs.unlinkSync(path.join(brain, 'notes', `${missing.id}.md`));
+    // Written before the vault came back, so the file still holds the old content
+    getDb().prepare('UPDATE notes SET content = ? WHERE id = ?').run('New', stale.id);
+    fs.writeFileSync(path.join(brain, 'notes', 'note_gone.md'), '---\nid: note_gone\n---\n\nDeleted\n', 'utf-8');
+    fs.writeFileSync(path.join(brain, 'notes', 'Draft.md'), 'Not imported yet\n', 'utf-8');
+
+    const report = reconcileService.reconcileVault({ dry_run: true });
+
+    expect(Object.fromEntries(report.items.map(item => [item.path, item.action]))).toEqual({
+      [`notes/${missing.id}.md`]: 'create',
+      [`notes/${stale.id}.md`]: 'update',
+      'notes/Draft.md': 'skip',
+      'notes/note_gone.md': 'trash'
+    });
+    expect(fs.existsSync(path.join(brain, 'notes', `${missing.id}.md`))).toBe(false);
+    expect(fs.existsSync(path.join(brain, 'notes', 'note_gone.md'))).toBe(true);
+  });
+
+  it('should rebuild missing files and move orphans to the trash', () => {
+    const task = tasksService.createTask({ title: 'Rebuild me', project: 'vault-test' });
+    // Queued while the vault was unavailable, and since dropped
+    getDb().exec('DELETE FROM vault_sync_outbox');
+    fs.mkdirSync(path.join(brain, 'tasks'), { recursive: true });
+    fs.writeFileSync(path.join(brain, 'tasks', 'VAULT-999.md'), '---\nid: VAULT-999\n---\n\n# [ ] Gone\n', 'utf-8');
+
+    const report = reconcileService.reconcileVault();
+
+    expect(report).toMatchObject({ dry_run: false, created: 1, removed: 1, failed: 0 });
+    expect(fs.readFileSync(path.join(brain, 'tasks', `${task.id}.md`), 'utf-8')).toContain('Rebuild me');
+    expect(fs.existsSync(path.join(brain, '.trash', 'tasks', 'VAULT-999.md'))).toBe(true);
+    expect(reconcileService.reconcileVault().items).toEqual([]);
+  });
+
+  it('should delete orphans when asked to', () => {
+    fs.mkdirSync(path.join(brain, 'notes'), { recursive: true });
+    fs.writeFileSync(path.join(brain, 'notes', 'note_gone.md'), '---\nid: note_gone\n---\n\nDeleted\n', 'utf-8');
+
+    const report = reconcileService.reconcileVault({ orphans: 'delete' });
+
+    expect(report.removed).toBe(1);
+    expect(fs.existsSync(path.join(brain, 'notes', 'note_gone.md'))).toBe(false);
+    expect(fs.existsSync(path.join(brain, '.trash'))).toBe(false);
+  });
+});
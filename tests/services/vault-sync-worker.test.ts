@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { initDb, closeDb, getDb } from '../../src/db/client.js';
+import { processVaultSyncQueue } from '../../src/services/vault-sync-worker.js';
+import { getVaultSyncQueueStatus } from '../../src/services/vault-outbox.js';
+import * as notesService from '../../src/services/notes.js';
+import * as tasksService from '../../src/services/tasks.js';
+import * as outlineService from '../../src/services/task-outline.js';
+import * as dependencyService from '../../src/services/task-dependencies.js';
+import * as savedSearchesService from '../../src/services/saved-searches.js';
+import * as sessionsService from '../../src/services/parallel-sessions.js';
+
+// Config is read on import, so the vault path has to be set first
+const vaultPath = vi.hoisted(() => {
+  process.env['OBSIDIAN_VAULT_PATH'] = 'data/test-vault-queue';
+  return 'data/test-vault-queue';
+});
+
+// Set test environment
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_PATH'] = ':memory:';
+
+describe('Vault Sync Worker', () => {
+  const brain = path.join(vaultPath, 'brain');
+
+  beforeAll(() => {
+    fs.mkdirSync(vaultPath, { recursive: true });
+    initDb();
+  });
+
+  beforeEach(() => {
+    const db = getDb();
+    db.exec('DELETE FROM notes');
+    db.exec('DELETE FROM tasks');
+    db.exec('DELETE FROM project_sequences');
+    db.exec('DELETE FROM saved_searches');
+    db.exec('DELETE FROM parallel_sessions');
+    db.exec('DELETE FROM vault_sync_outbox');
+    fs.rmSync(brain, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    closeDb();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  it('should queue changes with the mutation and write them when the queue is processed', () => {
+    const note = notesService.createNote({ content: 'Queued', project: 'vault-test' });
+    const file = path.join(brain, 'notes', `${note.id}.md`);
+
+    expect(fs.existsSync(file)).toBe(false);
+    expect(getVaultSyncQueueStatus()).toMatchObject({ pending: 1, last_error: null });
+
+    expect(processVaultSyncQueue()).toEqual({ synced: 1, failed: 0 });
+    expect(fs.readFileSync(file, 'utf-8')).toContain('Queued');
+    expect(getVaultSyncQueueStatus()).toEqual({ pending: 0, oldest_pending_at: null, last_error: null });
+
+    notesService.deleteNote(note.id);
+    processVaultSyncQueue();
+    expect(fs.existsSync(file)).toBe(false);
+  });
+
+  it('should rewrite a parent when a subtask or checklist item changes', () => {
+    const parent = tasksService.createTask({ title: 'Release', project: 'vault-test' });
+    const subtask = tasksService.createTask({ title: 'Changelog', project: 'vault-test', parent_id: parent.id });
+    processVaultSyncQueue();
+
+    outlineService.addChecklistItem(subtask.id, 'Draft entries');
+    tasksService.deleteTask(subtask.id);
+    processVaultSyncQueue();
+
+    expect(fs.readFileSync(path.join(brain, 'tasks', `${parent.id}.md`), 'utf-8')).not.toContain('Changelog');
+    expect(fs.existsSync(path.join(brain, 'tasks', `${subtask.id}.md`))).toBe(false);
+  });
+
+  it('should render graphs, collections and sessions when the queue is processed', () => {
+    const first = tasksService.createTask({ title: 'Design', project: 'vault-test' });
+    const second = tasksService.createTask({ title: 'Build', project: 'vault-test' });
+    dependencyService.addTaskDependency(second.id, first.id);
+    const collection = savedSearchesService.createSavedSearch('key_a', {
+      name: 'Builds',
+      query: 'build',
+      collection: true
+    });
+    const session = sessionsService.createSession({ project: 'vault-test' });
+    sessionsService.renderSession(session.id);
+
+    const graphFile = path.join(brain, 'graphs', 'vault-test.md');
+    const collectionFile = path.join(brain, 'collections', `${collection.id}.md`);
+    const sessionFile = path.join(brain, 'parallel', 'vault-test.md');
+
+    expect([graphFile, collectionFile, sessionFile].some(file => fs.existsSync(file))).toBe(false);
+
+    processVaultSyncQueue();
+    expect(fs.readFileSync(graphFile, 'utf-8')).toContain(`[[${second.id}]]`);
+    expect(fs.readFileSync(collectionFile, 'utf-8')).toContain(`[[${second.id}]]`);
+    expect(fs.readFileSync(sessionFile, 'utf-8')).toContain(`session: ${session.id}`);
+
+    dependencyService.removeTaskDependency(second.id, first.id);
+    savedSearchesService.deleteSavedSearch('key_a', collection.id);
+    processVaultSyncQueue();
+    expect(fs.existsSync(graphFile)).toBe(false);
+    expect(fs.existsSync(collectionFile)).toBe(false);
+  });
+
+  it('should retry failed writes with backoff and report the last error', () => {
+    // A file where the notes folder should be makes every note write fail
+    fs.mkdirSync(brain, { recursive: true });
+    fs.writeFileSync(path.join(brain, 'notes'), '', 'utf-8');
+    const note = notesService.createNote({ content: 'Retry me', project: 'vault-test' });
+    const now = new Date();
+
+    expect(processVaultSyncQueue(now)).toEqual({ synced: 0, failed: 1 });
+    expect(getVaultSyncQueueStatus()).toMatchObject({
+      pending: 1,
+      last_error: { entity_type: 'note', entity_id: note.id, attempts: 1 }
+    });
+    expect(processVaultSyncQueue(now)).toEqual({ synced: 0, failed: 0 });
+
+    fs.rmSync(path.join(brain, 'notes'));
+    expect(processVaultSyncQueue(new Date(now.getTime() + 5000))).toEqual({ synced: 1, failed: 0 });
+    expect(fs.existsSync(path.join(brain, 'notes', `${note.id}.md`))).toBe(true);
+  });
+});